@@ -0,0 +1,34 @@
+import { config } from 'dotenv';
+import { runAuditWorker } from '../src/lib/queue/worker';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+// Run with: npx tsx scripts/audit-worker.ts
+// Start as many workers as needed; each runs AUDIT_WORKER_CONCURRENCY audits at a time and
+// enqueues scheduled audits as they come due (set AUDIT_WORKER_SCHEDULER=false to disable).
+
+async function main() {
+  const controller = new AbortController();
+
+  const shutdown = (signal: string) => {
+    console.log(`Received ${signal}, finishing current job before exiting...`);
+    controller.abort();
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  try {
+    await runAuditWorker({
+      signal: controller.signal,
+      concurrency: Number(process.env.AUDIT_WORKER_CONCURRENCY) || 1,
+      runScheduler: process.env.AUDIT_WORKER_SCHEDULER !== 'false',
+    });
+    process.exit(0);
+  } catch (error) {
+    console.error('Worker crashed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,49 @@
+import { config } from 'dotenv';
+import { readFile } from 'fs/promises';
+import { createServerClient } from '../src/lib/supabase/server';
+import { detectFeedFormat, importAdvisories, parseAdvisoryFeed } from '../src/lib/vulnerabilities';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+// Run with: npx tsx scripts/import-advisories.ts <feed.json | https://mirror/feed.json> [--type=theme]
+// Imports a Wordfence Intelligence or WPScan JSON feed into vulnerability_advisories.
+// WPScan feeds don't say whether their slugs are plugins or themes: pass
+// --type=theme for a themes feed (plugins is the default).
+
+async function loadFeed(source: string): Promise<unknown> {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${source}: HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+  return JSON.parse(await readFile(source, 'utf8'));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const source = args.find((arg) => !arg.startsWith('--'));
+  const typeArg = args.find((arg) => arg.startsWith('--type='))?.slice('--type='.length) || 'plugin';
+
+  if (!source || (typeArg !== 'plugin' && typeArg !== 'theme')) {
+    console.error('Usage: npx tsx scripts/import-advisories.ts <feed.json | url> [--type=plugin|theme]');
+    process.exit(1);
+  }
+
+  try {
+    const feed = await loadFeed(source);
+    const advisories = parseAdvisoryFeed(feed, typeArg);
+    console.log(`Parsed ${advisories.length} advisories from ${detectFeedFormat(feed)} feed ${source}`);
+
+    const imported = await importAdvisories(createServerClient(), advisories);
+    console.log(`Imported ${imported} advisories`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Import failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
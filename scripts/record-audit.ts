@@ -0,0 +1,62 @@
+import { config } from 'dotenv';
+import { writeFile } from 'fs/promises';
+import { loadAuditInputs, runAudit } from '../src/lib/auditor';
+import { createFixtureBundle, createFixtureRecorder } from '../src/lib/connectors/fixtures';
+import { createServerClient } from '../src/lib/supabase/server';
+import type { VulnerabilityAdvisory } from '../src/lib/types';
+import type { InstalledSoftware } from '../src/lib/vulnerabilities';
+
+// Load environment variables
+config({ path: '.env.local' });
+
+// Run with: npx tsx scripts/record-audit.ts <siteId> [bundle.json]
+// Runs a real audit of the site (stored like any other) and saves every SSH
+// command, HTTP response and crawl it made to a fixture bundle for replay-audit.
+
+async function main() {
+  const [siteId, outputPath = `audit-fixture-${siteId}.json`] = process.argv.slice(2);
+  if (!siteId) {
+    console.error('Usage: npx tsx scripts/record-audit.ts <siteId> [bundle.json]');
+    process.exit(1);
+  }
+
+  try {
+    const supabase = createServerClient();
+    const { data: site, error } = await supabase.from('sites').select('*').eq('id', siteId).single();
+    if (error || !site) {
+      throw new Error(`Site not found: ${siteId}`);
+    }
+
+    // The bundle keeps exactly what the audit ran with
+    const loaded = await loadAuditInputs(supabase, site);
+    const advisories: VulnerabilityAdvisory[] = [];
+    const inputs = {
+      site,
+      ...loaded,
+      findAdvisories: async (software: InstalledSoftware[]) => {
+        const found = await loaded.findAdvisories(software);
+        advisories.push(...found);
+        return found;
+      },
+    };
+    const recorder = createFixtureRecorder();
+    const result = await runAudit(siteId, undefined, { fixtures: recorder, inputs });
+    const bundle = createFixtureBundle(recorder, site, {
+      thresholds: inputs.thresholds,
+      plugin_policies: inputs.pluginPolicies,
+      previous_results: inputs.previousResults,
+      system_plugin_hashes: inputs.systemPluginHashes,
+      advisories,
+    });
+
+    await writeFile(outputPath, JSON.stringify(bundle, null, 2));
+    console.log(`${result.summary}`);
+    console.log(`Saved ${bundle.exchanges.length} exchanges to ${outputPath}`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Recording failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
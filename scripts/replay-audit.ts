@@ -0,0 +1,39 @@
+import { readFile } from 'fs/promises';
+import { replayAudit } from '../src/lib/auditor/replay';
+import { FixtureBundle } from '../src/lib/connectors/fixtures';
+
+// Run with: npx tsx scripts/replay-audit.ts <bundle.json>
+// Runs the audit checks against a bundle from record-audit without touching
+// the site, WPEngine, Cloudflare or the database, and prints the outcome.
+
+async function main() {
+  const [bundlePath] = process.argv.slice(2);
+  if (!bundlePath) {
+    console.error('Usage: npx tsx scripts/replay-audit.ts <bundle.json>');
+    process.exit(1);
+  }
+
+  try {
+    const bundle: FixtureBundle = JSON.parse(await readFile(bundlePath, 'utf8'));
+    const result = await replayAudit(bundle);
+
+    console.log(`Replayed ${bundle.site.domain} (recorded ${bundle.recorded_at})`);
+    for (const run of result.checkRuns) {
+      console.log(`  ${run.key}: ${run.status}${run.error ? ` - ${run.error}` : ''}`);
+    }
+    for (const issue of result.issues) {
+      console.log(`  [${issue.severity}] ${issue.check_key}/${issue.rule}: ${issue.title}`);
+    }
+    for (const pass of result.passed) {
+      console.log(`  [passed] ${pass.check_key}/${pass.rule}: ${pass.title}`);
+    }
+    const { overall } = result.scoreBreakdown;
+    console.log(overall === null ? 'Health: not scored' : `Health: ${overall}/100`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Replay failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
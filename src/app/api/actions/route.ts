@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
-import { purgeCache as wpePurgeCache } from '@/lib/connectors/wpengine';
 import { purgeCache as cfPurgeCache } from '@/lib/connectors/cloudflare';
 import {
   updateAllPlugins,
@@ -8,6 +7,7 @@ import {
   cleanupDatabase,
   flushCache,
 } from '@/lib/connectors/wpcli';
+import { getHostingProvider } from '@/lib/hosting';
 
 function formatActionError(error: unknown): string {
   const message = error instanceof Error ? error.message : String(error);
@@ -68,18 +68,16 @@ export async function POST(request: NextRequest) {
     .select()
     .single();
 
-  const wpcliConfig = {
-    installName: site.wpengine_install_id,
-    environment: site.wpengine_environment,
-  };
+  const hosting = getHostingProvider(site);
+  const wpcliConfig = hosting.getWPCLIConfig(site);
 
   try {
     let result: Record<string, unknown> = {};
 
     switch (action) {
       case 'clear_all_cache':
-        // Clear WPEngine cache
-        await wpePurgeCache(site.wpengine_install_id);
+        // Clear the host's cache
+        await hosting.purgeCache(site);
         // Clear Cloudflare cache
         if (site.cloudflare_zone_id) {
           await cfPurgeCache(site.cloudflare_zone_id);
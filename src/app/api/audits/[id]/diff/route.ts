@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuditDiff } from '@/lib/auditor/diff';
+
+// Compare an audit with ?against={auditId}, or with the site's previous completed audit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const against = request.nextUrl.searchParams.get('against') || undefined;
+
+  try {
+    const diff = await getAuditDiff(id, against);
+
+    if (!diff) {
+      return NextResponse.json(
+        { error: against ? 'Audit not found' : 'No earlier audit to compare against' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to diff audits';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setTimeout as sleep } from 'timers/promises';
+import { createServerClient } from '@/lib/supabase/server';
+import { getAuditEvents } from '@/lib/auditor/events';
+import { FINISHED_AUDIT_STATUSES, QUEUE_CONFIG } from '@/lib/constants/queue';
+import { AuditStreamStatus } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Stream an audit's progress as Server-Sent Events:
+ * - `audit_event` for each stored AuditEvent, with the event's id as the SSE
+ *   id so a reconnecting EventSource picks up where it left off
+ * - `status` whenever the audit's status changes
+ * The stream ends once the audit has finished and all of its events are sent.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data: audit } = await supabase.from('audits').select('id').eq('id', id).single();
+  if (!audit) {
+    return NextResponse.json({ error: 'Audit not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      let afterId = Number(request.headers.get('last-event-id')) || 0;
+      let lastStatus: string | null = null;
+      let lastSentAt = Date.now();
+
+      try {
+        while (!closed && !request.signal.aborted) {
+          // Status first: events stored before a final status are then always picked up below
+          const { data: row } = await supabase
+            .from('audits')
+            .select('status, health_score, is_complete, error_message')
+            .eq('id', id)
+            .single();
+          const events = await getAuditEvents(supabase, id, afterId);
+
+          for (const event of events) {
+            send(`id: ${event.id}\nevent: audit_event\ndata: ${JSON.stringify(event)}\n\n`);
+            afterId = event.id;
+            lastSentAt = Date.now();
+          }
+
+          if (row && row.status !== lastStatus) {
+            lastStatus = row.status;
+            const status: AuditStreamStatus = row;
+            send(`event: status\ndata: ${JSON.stringify(status)}\n\n`);
+            lastSentAt = Date.now();
+          }
+
+          if (!row || FINISHED_AUDIT_STATUSES.includes(row.status)) break;
+
+          if (Date.now() - lastSentAt >= QUEUE_CONFIG.EVENT_STREAM_KEEPALIVE_MS) {
+            send(': keepalive\n\n');
+            lastSentAt = Date.now();
+          }
+
+          await sleep(QUEUE_CONFIG.EVENT_STREAM_POLL_INTERVAL_MS, undefined, { signal: request.signal }).catch(() => {});
+        }
+      } catch (error) {
+        console.error(`[Audit events ${id}] Stream failed:`, error);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
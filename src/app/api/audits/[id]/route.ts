@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
+import { cancelQueuedAuditJob } from '@/lib/queue/audit-jobs';
+import { refreshBatchStatus } from '@/lib/queue/audit-batches';
+import { AUDIT_RAW_DATA_VERSION, readAuditRawData } from '@/lib/auditor/raw-data';
 
 export async function GET(
   request: NextRequest,
@@ -18,10 +21,12 @@ export async function GET(
     return NextResponse.json({ error: 'Audit not found' }, { status: 404 });
   }
 
-  return NextResponse.json(data);
+  // Old audits are served in the current shape
+  return NextResponse.json({ ...data, raw_data: readAuditRawData(data), schema_version: AUDIT_RAW_DATA_VERSION });
 }
 
-// Cancel/fail a stuck audit
+// Cancel a pending or running audit. A worker running it aborts its SSH and
+// HTTP work when it sees the status change (see watchForCancellation).
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -47,18 +52,30 @@ export async function DELETE(
     );
   }
 
-  const { error: updateError } = await supabase
+  // Keep workers from picking the audit up if it hasn't started yet
+  const cancelledJob = await cancelQueuedAuditJob(supabase, id);
+  if (cancelledJob?.batch_id) {
+    await refreshBatchStatus(supabase, cancelledJob.batch_id);
+  }
+
+  const { data: cancelled, error: updateError } = await supabase
     .from('audits')
     .update({
-      status: 'failed',
+      status: 'cancelled',
       completed_at: new Date().toISOString(),
-      error_message: 'Audit was manually cancelled',
+      summary: 'Cancelled',
     })
-    .eq('id', id);
+    .eq('id', id)
+    .in('status', ['pending', 'running'])
+    .select('id');
 
   if (updateError) {
     return NextResponse.json({ error: 'Failed to cancel audit' }, { status: 500 });
   }
 
+  if (!cancelled?.length) {
+    return NextResponse.json({ error: 'Audit finished before it could be cancelled' }, { status: 409 });
+  }
+
   return NextResponse.json({ message: 'Audit cancelled successfully' });
 }
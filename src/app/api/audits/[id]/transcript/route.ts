@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getAuditTranscript } from '@/lib/auditor/transcript';
+
+// An audit's connector transcript; ?download=1 serves it as a JSON file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  try {
+    const transcript = await getAuditTranscript(supabase, id);
+
+    if (!transcript) {
+      return NextResponse.json({ error: 'Audit not found' }, { status: 404 });
+    }
+
+    if (request.nextUrl.searchParams.get('download')) {
+      return new NextResponse(JSON.stringify(transcript, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="audit-${id}-transcript.json"`,
+        },
+      });
+    }
+
+    return NextResponse.json(transcript);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load transcript';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchProgress } from '@/lib/queue/audit-batches';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const progress = await getBatchProgress(id);
+  if (!progress) {
+    return NextResponse.json({ error: 'Audit batch not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(progress);
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+
+// Recent fleet audit batches, newest first
+export async function GET() {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('audit_batches')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
-import { runAudit, runAllAudits } from '@/lib/auditor';
-
-// Audits stuck for more than 5 minutes are considered stale
-const STALE_THRESHOLD_MS = 5 * 60 * 1000;
+import { enqueueAudit, releaseExpiredLeases } from '@/lib/queue/audit-jobs';
+import { startFleetAudit } from '@/lib/queue/audit-batches';
 
 function formatAuditError(error: unknown): string {
   const message = error instanceof Error ? error.message : String(error);
@@ -14,7 +12,7 @@ function formatAuditError(error: unknown): string {
   if (message.includes('Site not found')) {
     return 'Site not found. It may have been deleted.';
   }
-  if (message.includes('Failed to create audit')) {
+  if (message.includes('Failed to create audit') || message.includes('Failed to queue audit')) {
     return 'Could not start the audit. Please try again.';
   }
 
@@ -32,14 +30,17 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const { siteId, all } = body;
+  const { siteId, all, concurrency } = body;
 
   try {
     if (all) {
-      const result = await runAllAudits();
+      // Queue the whole fleet as one batch; progress is at /api/audits/batches/{batchId}
+      const { batchId, totalSites } = await startFleetAudit({ concurrency });
       return NextResponse.json({
-        ...result,
-        message: `Audited ${result.succeeded + result.failed} sites. ${result.succeeded} succeeded, ${result.failed} failed.`
+        batchId,
+        totalSites,
+        status: 'queued',
+        message: `Queued audits for ${totalSites} sites`
       });
     }
 
@@ -66,37 +67,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create audit record first
-    const { data: audit, error: auditError } = await supabase
-      .from('audits')
-      .insert({
-        site_id: siteId,
-        status: 'pending',
-        started_at: new Date().toISOString(),
-        summary: 'Starting audit...',
-        raw_data: { progress: { step: 'Queued', percent: 0 } },
-      })
-      .select()
-      .single();
+    // Queue the audit; a worker process picks it up and runs it
+    const { auditId } = await enqueueAudit(siteId, { supabase });
 
-    if (auditError || !audit) {
-      console.error('Failed to create audit record:', auditError);
-      return NextResponse.json(
-        { error: 'Could not start the audit. Please try again.' },
-        { status: 500 }
-      );
-    }
-
-    // Start audit asynchronously (don't await)
-    runAudit(siteId, audit.id).catch((error) => {
-      console.error(`Background audit failed for ${site.name} (${siteId}):`, error);
-    });
-
-    // Return immediately with audit ID
     return NextResponse.json({
-      auditId: audit.id,
-      status: 'started',
-      message: `Audit started for ${site.name}`
+      auditId,
+      status: 'queued',
+      message: `Audit queued for ${site.name}`
     });
   } catch (error) {
     console.error('Audit error:', error);
@@ -107,43 +84,30 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Cleanup stuck audits
+// Requeue audits whose worker stopped heartbeating (e.g. crashed mid-audit)
 export async function DELETE() {
   const supabase = createServerClient();
-  const staleTime = new Date(Date.now() - STALE_THRESHOLD_MS).toISOString();
-
-  // Find stuck audits (running or pending for more than 5 minutes)
-  const { data: stuckAudits, error: fetchError } = await supabase
-    .from('audits')
-    .select('id, site_id, status, started_at')
-    .in('status', ['running', 'pending'])
-    .lt('started_at', staleTime);
 
-  if (fetchError) {
-    return NextResponse.json({ error: 'Failed to fetch stuck audits' }, { status: 500 });
+  let released;
+  try {
+    released = await releaseExpiredLeases(supabase);
+  } catch (error) {
+    console.error('Failed to release expired audit jobs:', error);
+    return NextResponse.json({ error: 'Failed to release expired audit jobs' }, { status: 500 });
   }
 
-  if (!stuckAudits || stuckAudits.length === 0) {
-    return NextResponse.json({ message: 'No stuck audits found', cleaned: 0 });
+  if (released.length === 0) {
+    return NextResponse.json({ message: 'No stalled audits found', requeued: 0 });
   }
 
-  // Mark all stuck audits as failed
-  const { error: updateError } = await supabase
+  await supabase
     .from('audits')
-    .update({
-      status: 'failed',
-      completed_at: new Date().toISOString(),
-      error_message: 'Audit timed out and was automatically cleaned up',
-    })
-    .in('id', stuckAudits.map(a => a.id));
-
-  if (updateError) {
-    return NextResponse.json({ error: 'Failed to update stuck audits' }, { status: 500 });
-  }
+    .update({ status: 'pending', summary: 'Requeued after worker stopped responding' })
+    .in('id', released.map(job => job.audit_id));
 
   return NextResponse.json({
-    message: `Cleaned up ${stuckAudits.length} stuck audit(s)`,
-    cleaned: stuckAudits.length,
-    audits: stuckAudits.map(a => a.id),
+    message: `Requeued ${released.length} stalled audit(s)`,
+    requeued: released.length,
+    audits: released.map(job => job.audit_id),
   });
 }
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { acceptSystemPluginHash } from '@/lib/inventory/system-plugins';
+
+const SETTABLE_STATUSES = ['open', 'ignored', 'snoozed', 'accepted'] as const;
+
+/**
+ * Ignore an issue, snooze it until a date, accept its risk (with a
+ * justification) or reopen it. Later audits keep these statuses. Accepting a
+ * changed or unexpected must-use plugin or drop-in also accepts its hash.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const { status, snoozed_until, risk_justification } = body;
+
+  if (!SETTABLE_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Invalid status. Valid statuses: ${SETTABLE_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const updates: Record<string, unknown> = {
+    status,
+    snoozed_until: null,
+    risk_justification: null,
+  };
+
+  if (status === 'snoozed') {
+    const until = new Date(snoozed_until);
+    if (!snoozed_until || isNaN(until.getTime()) || until <= new Date()) {
+      return NextResponse.json({ error: 'snoozed_until must be a future date' }, { status: 400 });
+    }
+    updates.snoozed_until = until.toISOString();
+  }
+
+  if (status === 'accepted') {
+    const justification = typeof risk_justification === 'string' ? risk_justification.trim() : '';
+    if (!justification) {
+      return NextResponse.json({ error: 'risk_justification is required to accept a risk' }, { status: 400 });
+    }
+    updates.risk_justification = justification;
+  }
+
+  const supabase = createServerClient();
+
+  const { data: issue, error: issueError } = await supabase
+    .from('issues')
+    .select('id, site_id, audit_id, status, rule, subject')
+    .eq('id', id)
+    .single();
+
+  if (issueError || !issue) {
+    return NextResponse.json({ error: 'Issue not found' }, { status: 404 });
+  }
+
+  if (issue.status === 'resolved' || issue.status === 'fixed') {
+    return NextResponse.json({ error: `Issue is already ${issue.status}` }, { status: 409 });
+  }
+
+  if (status === 'accepted') {
+    try {
+      await acceptSystemPluginHash(supabase, issue);
+    } catch (acceptError) {
+      const message = acceptError instanceof Error ? acceptError.message : 'Failed to accept the file hash';
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('issues')
+    .update(updates)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  return NextResponse.json(data);
+}
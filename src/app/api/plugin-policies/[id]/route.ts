@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { validatePluginPolicy } from '@/lib/plugin-policies';
+
+// Fields that can change; the slug, scope and scope target are fixed
+const EDITABLE_FIELDS = ['rule', 'aliases', 'replacement', 'min_version', 'below_version', 'reason'] as const;
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const supabase = createServerClient();
+
+  const { data: existing } = await supabase
+    .from('plugin_policies')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Plugin policy not found' }, { status: 404 });
+  }
+
+  const updates: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (field in body) {
+      updates[field] = field === 'aliases' ? body[field] : body[field] || null;
+    }
+  }
+
+  // Rules and fields depend on each other (e.g. replaced_by needs a replacement)
+  const policyError = validatePluginPolicy({ ...existing, ...updates });
+  if (policyError) {
+    return NextResponse.json({ error: policyError }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from('plugin_policies')
+    .update(updates)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: error?.message || 'Plugin policy not found' }, { status: error ? 400 : 404 });
+  }
+
+  return NextResponse.json(data);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('plugin_policies')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Plugin policy not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
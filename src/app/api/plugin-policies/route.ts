@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { validatePluginPolicy } from '@/lib/plugin-policies';
+
+// List plugin policies, optionally only those for one slug
+export async function GET(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get('slug');
+  const supabase = createServerClient();
+
+  let query = supabase
+    .from('plugin_policies')
+    .select('*')
+    .order('slug')
+    .order('scope');
+
+  if (slug) {
+    query = query.eq('slug', slug);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ policies: data || [] });
+}
+
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const policyError = validatePluginPolicy(body);
+  if (policyError) {
+    return NextResponse.json({ error: policyError }, { status: 400 });
+  }
+
+  const { slug, rule, aliases = [], replacement, min_version, below_version, reason, scope, client_name, page_builder } = body;
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('plugin_policies')
+    .insert({
+      slug: slug.trim(),
+      rule,
+      aliases,
+      replacement: replacement || null,
+      min_version: min_version || null,
+      below_version: below_version || null,
+      reason: reason || null,
+      scope,
+      client_name: scope === 'client' ? client_name : null,
+      page_builder: scope === 'page_builder' ? page_builder : null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Unique index: one policy per slug per scope target
+    const status = error.code === '23505' ? 409 : 400;
+    const message = error.code === '23505' ? `A ${scope} policy already exists for ${slug}` : error.message;
+    return NextResponse.json({ error: message }, { status });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
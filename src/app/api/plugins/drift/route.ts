@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getPluginDrift } from '@/lib/inventory/plugins';
+
+// Plugins installed at more than one version across the fleet
+export async function GET() {
+  try {
+    const plugins = await getPluginDrift(createServerClient());
+    return NextResponse.json({ plugins });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load plugin drift';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { buildVersionMatrix, parseVersionRange, PLUGIN_STATUSES, searchSitePlugins } from '@/lib/inventory/plugins';
+import { PluginInfo } from '@/lib/types';
+
+// Search the fleet's plugins: ?slug=elementor-pro&below=3.20&status=active.
+// Returns each matching plugin's installs grouped by version.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const status = searchParams.get('status');
+
+  if (status && !PLUGIN_STATUSES.includes(status as PluginInfo['status'])) {
+    return NextResponse.json({ error: `status must be one of: ${PLUGIN_STATUSES.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const rows = await searchSitePlugins(createServerClient(), {
+      slug: searchParams.get('slug') || undefined,
+      status: (status as PluginInfo['status']) || undefined,
+      range: parseVersionRange(searchParams.get('min'), searchParams.get('below')),
+    });
+    return NextResponse.json({ plugins: buildVersionMatrix(rows) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to search plugins';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  getEffectiveSchedule,
+  getNextAuditAt,
+  getPlanTier,
+  isValidSchedule,
+} from '@/lib/scheduler';
+import { PLAN_TIERS } from '@/lib/constants/schedules';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data: site, error } = await supabase
+    .from('sites')
+    .select('id, monthly_fee, plan_tier, audit_schedule, next_audit_at, last_scheduled_audit_at')
+    .eq('id', id)
+    .single();
+
+  if (error || !site) {
+    return NextResponse.json({ error: 'Site not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    ...site,
+    effective_plan_tier: getPlanTier(site),
+    effective_schedule: getEffectiveSchedule(site),
+  });
+}
+
+// Update a site's plan tier and/or schedule. Pass null to fall back to the defaults.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const updates: Record<string, unknown> = {};
+
+  if ('plan_tier' in body) {
+    if (body.plan_tier !== null && !(body.plan_tier in PLAN_TIERS)) {
+      return NextResponse.json(
+        { error: `Invalid plan_tier. Valid tiers: ${Object.keys(PLAN_TIERS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    updates.plan_tier = body.plan_tier;
+  }
+
+  if ('audit_schedule' in body) {
+    const schedule = typeof body.audit_schedule === 'string' ? body.audit_schedule.trim() : null;
+    if (schedule && !isValidSchedule(schedule)) {
+      return NextResponse.json(
+        { error: 'Invalid audit_schedule. Use daily, weekly or a 5-field cron expression.' },
+        { status: 400 }
+      );
+    }
+    updates.audit_schedule = schedule || null;
+  }
+
+  const supabase = createServerClient();
+
+  const { data: site, error: siteError } = await supabase
+    .from('sites')
+    .select('id, monthly_fee, plan_tier, audit_schedule')
+    .eq('id', id)
+    .single();
+
+  if (siteError || !site) {
+    return NextResponse.json({ error: 'Site not found' }, { status: 404 });
+  }
+
+  // Reschedule from now under the new cadence
+  const schedule = getEffectiveSchedule({ ...site, ...updates });
+  updates.next_audit_at = getNextAuditAt(schedule).toISOString();
+
+  const { data, error } = await supabase
+    .from('sites')
+    .update(updates)
+    .eq('id', id)
+    .select('id, monthly_fee, plan_tier, audit_schedule, next_audit_at, last_scheduled_audit_at')
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  return NextResponse.json({ ...data, effective_schedule: schedule });
+}
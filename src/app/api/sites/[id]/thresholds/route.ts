@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { THRESHOLDS } from '@/lib/constants/thresholds';
+import { getSiteThresholdProfiles, mergeThresholds } from '@/lib/thresholds';
+
+// The thresholds audits of this site will use, and the profiles they come from
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data: site, error } = await supabase
+    .from('sites')
+    .select('id, client_name')
+    .eq('id', id)
+    .single();
+
+  if (error || !site) {
+    return NextResponse.json({ error: 'Site not found' }, { status: 404 });
+  }
+
+  try {
+    const profiles = await getSiteThresholdProfiles(supabase, site);
+    return NextResponse.json({
+      thresholds: mergeThresholds(THRESHOLDS, ...profiles.map((p) => p.overrides)),
+      profiles,
+    });
+  } catch (profileError) {
+    const message = profileError instanceof Error ? profileError.message : 'Failed to load thresholds';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
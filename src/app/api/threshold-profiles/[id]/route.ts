@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { validateThresholdOverrides } from '@/lib/thresholds';
+
+// Rename a profile and/or replace its overrides (scope and target are fixed)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const updates: Record<string, unknown> = {};
+
+  if ('name' in body) {
+    if (!body.name || typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'name must be a non-empty string' }, { status: 400 });
+    }
+    updates.name = body.name.trim();
+  }
+
+  if ('overrides' in body) {
+    const overridesError = validateThresholdOverrides(body.overrides);
+    if (overridesError) {
+      return NextResponse.json({ error: overridesError }, { status: 400 });
+    }
+    updates.overrides = body.overrides;
+  }
+
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('threshold_profiles')
+    .update(updates)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: 'Threshold profile not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(data);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('threshold_profiles')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data || data.length === 0) {
+    return NextResponse.json({ error: 'Threshold profile not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
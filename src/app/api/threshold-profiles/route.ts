@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { THRESHOLDS } from '@/lib/constants/thresholds';
+import { THRESHOLD_SCOPES, validateThresholdOverrides } from '@/lib/thresholds';
+
+// List all threshold profiles along with the global defaults they override
+export async function GET() {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('threshold_profiles')
+    .select('*, sites(name)')
+    .order('scope')
+    .order('name');
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ defaults: THRESHOLDS, profiles: data || [] });
+}
+
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body. Expected JSON.' }, { status: 400 });
+  }
+
+  const { name, scope, client_name, site_id, overrides = {} } = body;
+
+  if (!name || typeof name !== 'string') {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 });
+  }
+  if (!THRESHOLD_SCOPES.includes(scope)) {
+    return NextResponse.json(
+      { error: `Invalid scope. Valid scopes: ${THRESHOLD_SCOPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (scope === 'client' && !client_name) {
+    return NextResponse.json({ error: 'client_name is required for client profiles' }, { status: 400 });
+  }
+  if (scope === 'site' && !site_id) {
+    return NextResponse.json({ error: 'site_id is required for site profiles' }, { status: 400 });
+  }
+
+  const overridesError = validateThresholdOverrides(overrides);
+  if (overridesError) {
+    return NextResponse.json({ error: overridesError }, { status: 400 });
+  }
+
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('threshold_profiles')
+    .insert({
+      name: name.trim(),
+      scope,
+      client_name: scope === 'client' ? client_name : null,
+      site_id: scope === 'site' ? site_id : null,
+      overrides,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Unique index: one profile per global / client / site
+    const status = error.code === '23505' ? 409 : 400;
+    const message = error.code === '23505' ? `A ${scope} profile already exists for this target` : error.message;
+    return NextResponse.json({ error: message }, { status });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getAdvisoryExposures } from '@/lib/vulnerabilities';
+
+// An advisory and every site exposed to it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data: advisory } = await supabase
+    .from('vulnerability_advisories')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (!advisory) {
+    return NextResponse.json({ error: 'Advisory not found' }, { status: 404 });
+  }
+
+  try {
+    const sites = await getAdvisoryExposures(supabase, id);
+    return NextResponse.json({ advisory, sites });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load exposed sites';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getExposedAdvisories } from '@/lib/vulnerabilities';
+
+// Advisories at least one site is exposed to, with how many sites each
+export async function GET() {
+  try {
+    const advisories = await getExposedAdvisories(createServerClient());
+    return NextResponse.json({ advisories });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to load advisories';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
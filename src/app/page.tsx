@@ -2,6 +2,7 @@ import { createServerClient } from '@/lib/supabase/server';
 import { SiteCard } from '@/components/site-card';
 import { AuditButton } from '@/components/audit-button';
 import { SiteDashboard } from '@/lib/types';
+import Link from 'next/link';
 
 export const dynamic = 'force-dynamic';
 
@@ -33,7 +34,18 @@ export default async function Dashboard() {
             Monitoring {sites?.length || 0} WordPress sites
           </p>
         </div>
-        <AuditButton />
+        <div className="flex items-center gap-4">
+          <Link href="/plugins" className="text-sm text-gray-600 hover:text-gray-900">
+            Plugins
+          </Link>
+          <Link href="/vulnerabilities" className="text-sm text-gray-600 hover:text-gray-900">
+            Vulnerabilities
+          </Link>
+          <Link href="/settings/thresholds" className="text-sm text-gray-600 hover:text-gray-900">
+            Thresholds
+          </Link>
+          <AuditButton />
+        </div>
       </div>
 
       {/* Summary cards */}
@@ -0,0 +1,153 @@
+import Link from 'next/link';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  buildVersionMatrix,
+  getPluginDrift,
+  parseVersionRange,
+  PLUGIN_STATUSES,
+  searchSitePlugins,
+} from '@/lib/inventory/plugins';
+import { PluginInfo, PluginVersionMatrix } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  searchParams: Promise<{ slug?: string; min?: string; below?: string; status?: string }>;
+}
+
+const STATUS_STYLES: Record<PluginInfo['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  inactive: 'bg-gray-100 text-gray-700',
+  'must-use': 'bg-blue-100 text-blue-800',
+  dropin: 'bg-purple-100 text-purple-800',
+};
+
+function VersionMatrix({ plugin }: { plugin: PluginVersionMatrix }) {
+  return (
+    <div className="bg-white border rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <h2 className="font-semibold">{plugin.title || plugin.slug}</h2>
+        <code className="text-xs text-gray-500">{plugin.slug}</code>
+        {plugin.type !== 'plugin' && (
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[plugin.type]}`}>{plugin.type}</span>
+        )}
+        <span className="text-sm text-gray-500">
+          · {plugin.site_count} site{plugin.site_count === 1 ? '' : 's'}
+        </span>
+        {plugin.has_drift && (
+          <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+            {plugin.versions.length} versions
+          </span>
+        )}
+      </div>
+      <table className="w-full text-sm">
+        <tbody className="divide-y">
+          {plugin.versions.map(({ version, installs }) => (
+            <tr key={version} className="align-top">
+              <td className="py-2 pr-4 font-mono whitespace-nowrap w-32">{version}</td>
+              <td className="py-2 pr-4 text-gray-500 whitespace-nowrap w-16">{installs.length}</td>
+              <td className="py-2">
+                <div className="flex flex-wrap gap-2">
+                  {installs.map((install) => (
+                    <Link
+                      key={install.site_id}
+                      href={`/sites/${install.site_id}`}
+                      className={`px-2 py-0.5 rounded text-xs hover:underline ${STATUS_STYLES[install.status]}`}
+                      title={install.update_version ? `${install.status}, update to ${install.update_version} available` : install.status}
+                    >
+                      {install.site_name}
+                    </Link>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function PluginsPage({ searchParams }: PageProps) {
+  const { slug, min, below, status } = await searchParams;
+  const supabase = createServerClient();
+  const pluginStatus = PLUGIN_STATUSES.find((s) => s === status);
+  const isSearch = Boolean(slug || min || below || pluginStatus);
+
+  // With no search, show the plugins whose versions have drifted apart
+  const plugins = isSearch
+    ? buildVersionMatrix(
+        await searchSitePlugins(supabase, {
+          slug,
+          status: pluginStatus,
+          range: parseVersionRange(min, below),
+        })
+      )
+    : await getPluginDrift(supabase);
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      <Link href="/" className="text-blue-600 hover:underline mb-4 inline-block">
+        Back to dashboard
+      </Link>
+
+      <h1 className="text-3xl font-bold">Plugins</h1>
+      <p className="text-gray-500 mt-1 mb-6">
+        Every plugin installed across the fleet, as of each site&apos;s latest audit.
+      </p>
+
+      <form className="flex flex-wrap items-end gap-3 mb-8">
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">Slug</span>
+          <input name="slug" defaultValue={slug} placeholder="elementor-pro" className="border rounded px-2 py-1" />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">Version from</span>
+          <input name="min" defaultValue={min} placeholder="3.0" className="border rounded px-2 py-1 w-24" />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">Below</span>
+          <input name="below" defaultValue={below} placeholder="3.20" className="border rounded px-2 py-1 w-24" />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">Status</span>
+          <select name="status" defaultValue={pluginStatus || ''} className="border rounded px-2 py-1">
+            <option value="">Any</option>
+            {PLUGIN_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" className="px-4 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm">
+          Search
+        </button>
+        {isSearch && (
+          <Link href="/plugins" className="text-sm text-gray-600 hover:text-gray-900 py-1.5">
+            Clear
+          </Link>
+        )}
+      </form>
+
+      <h2 className="font-semibold text-xl mb-4">
+        {isSearch ? `Matching Plugins (${plugins.length})` : `Version Drift (${plugins.length})`}
+      </h2>
+      {!isSearch && plugins.length > 0 && (
+        <p className="text-sm text-gray-500 -mt-2 mb-4">Plugins installed at different versions on different sites.</p>
+      )}
+
+      {plugins.length === 0 ? (
+        <p className="text-gray-500">
+          {isSearch ? 'No installed plugin matches.' : 'Every plugin is at the same version on every site.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {plugins.map((plugin) => (
+            <VersionMatrix key={`${plugin.type}:${plugin.slug}`} plugin={plugin} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import Link from 'next/link';
+import { createServerClient } from '@/lib/supabase/server';
+import { NewThresholdProfileForm, ThresholdProfileEditor } from '@/components/threshold-profile-editor';
+import { THRESHOLD_SCOPES } from '@/lib/thresholds';
+import { ThresholdProfile } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ThresholdSettingsPage() {
+  const supabase = createServerClient();
+
+  const { data: profiles } = await supabase
+    .from('threshold_profiles')
+    .select('*, sites(name)')
+    .order('name');
+
+  const { data: sites } = await supabase
+    .from('sites')
+    .select('id, name, client_name')
+    .order('name');
+
+  const clients = Array.from(
+    new Set((sites || []).map((s) => s.client_name).filter((name): name is string => Boolean(name)))
+  ).sort();
+
+  const sortedProfiles = ((profiles || []) as Array<ThresholdProfile & { sites: { name: string } | null }>).sort(
+    (a, b) => THRESHOLD_SCOPES.indexOf(a.scope) - THRESHOLD_SCOPES.indexOf(b.scope)
+  );
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <Link href="/" className="text-blue-600 hover:underline mb-4 inline-block">
+        Back to dashboard
+      </Link>
+
+      <h1 className="text-3xl font-bold">Audit Thresholds</h1>
+      <p className="text-gray-500 mt-1 mb-6">
+        Profiles override the default thresholds. Each site uses the defaults, then the global profile, then its
+        client&apos;s profile, then its own.
+      </p>
+
+      <div className="mb-6">
+        <NewThresholdProfileForm clients={clients} sites={(sites || []).map((s) => ({ id: s.id, name: s.name }))} />
+      </div>
+
+      <div className="space-y-4">
+        {sortedProfiles.map((profile) => (
+          <ThresholdProfileEditor key={profile.id} profile={profile} />
+        ))}
+      </div>
+
+      {sortedProfiles.length === 0 && (
+        <p className="text-center py-12 text-gray-500">No threshold profiles yet. Every site uses the defaults.</p>
+      )}
+    </div>
+  );
+}
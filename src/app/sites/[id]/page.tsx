@@ -4,8 +4,19 @@ import { IssueList } from '@/components/issue-list';
 import { AuditButton } from '@/components/audit-button';
 import { ActionButton } from '@/components/action-button';
 import { MetricsDashboard } from '@/components/metrics-dashboard';
+import { CheckRunList } from '@/components/check-run-list';
+import { LiveAuditTimeline } from '@/components/audit-timeline';
+import { AuditTranscriptPanel } from '@/components/audit-transcript';
+import { AuditDiffPanel } from '@/components/audit-diff-panel';
+import { ScoreBreakdown } from '@/components/score-breakdown';
+import { PassedChecksPanel } from '@/components/passed-checks';
 import { getSitePerformanceTrends } from '@/lib/utils/performance-trends';
-import { Issue } from '@/lib/types';
+import { getAuditDiff } from '@/lib/auditor/diff';
+import { readAuditRawData } from '@/lib/auditor/raw-data';
+import { describeSchedule, getEffectiveSchedule, getPlanTier } from '@/lib/scheduler';
+import { PLAN_TIERS } from '@/lib/constants/schedules';
+import { getHostingProvider } from '@/lib/hosting';
+import { AuditDiff, CheckRun, Issue, PassedCheck, ScoreBreakdown as ScoreBreakdownData } from '@/lib/types';
 import Link from 'next/link';
 
 export const dynamic = 'force-dynamic';
@@ -75,6 +86,13 @@ export default async function SiteDetailPage({ params }: PageProps) {
     .eq('status', 'open')
     .order('severity');
 
+  const { data: suppressedIssues } = await supabase
+    .from('issues')
+    .select('*')
+    .eq('site_id', id)
+    .in('status', ['ignored', 'snoozed', 'accepted'])
+    .order('severity');
+
   // Get performance trends (only if we have audit data)
   let trends = null;
   if (latestAudit?.raw_data) {
@@ -86,6 +104,16 @@ export default async function SiteDetailPage({ params }: PageProps) {
     }
   }
 
+  // Compare the latest audit with the one before it
+  let diff: AuditDiff | null = null;
+  if (latestAudit?.status === 'completed') {
+    try {
+      diff = await getAuditDiff(latestAudit.id);
+    } catch (error) {
+      console.error('Failed to diff audits:', error);
+    }
+  }
+
   return (
     <div className="p-8 max-w-5xl mx-auto">
       <Link href="/" className="text-blue-600 hover:underline mb-4 inline-block">
@@ -125,9 +153,20 @@ export default async function SiteDetailPage({ params }: PageProps) {
             </div>
           )}
           <div>
-            <span className="text-gray-500">Install ID:</span>
-            <div className="font-medium">{site.wpengine_install_id}</div>
+            <span className="text-gray-500">Hosting:</span>
+            <div className="font-medium">{getHostingProvider(site).label}</div>
           </div>
+          {site.wpengine_install_id ? (
+            <div>
+              <span className="text-gray-500">Install ID:</span>
+              <div className="font-medium">{site.wpengine_install_id}</div>
+            </div>
+          ) : site.hosting_config?.host && (
+            <div>
+              <span className="text-gray-500">Host:</span>
+              <div className="font-medium">{site.hosting_config.host}</div>
+            </div>
+          )}
           <div>
             <span className="text-gray-500">Environment:</span>
             <div className="font-medium">{site.wpengine_environment}</div>
@@ -140,20 +179,56 @@ export default async function SiteDetailPage({ params }: PageProps) {
             <span className="text-gray-500">E-commerce:</span>
             <div className="font-medium">{site.is_ecommerce ? 'Yes' : 'No'}</div>
           </div>
+          <div>
+            <span className="text-gray-500">Plan:</span>
+            <div className="font-medium">{PLAN_TIERS[getPlanTier(site)].label}</div>
+          </div>
+          <div>
+            <span className="text-gray-500">Audit Schedule:</span>
+            <div className="font-medium">{describeSchedule(getEffectiveSchedule(site))}</div>
+          </div>
+          <div>
+            <span className="text-gray-500">Next Audit:</span>
+            <div className="font-medium">
+              {site.next_audit_at ? new Date(site.next_audit_at).toLocaleString() : 'Not scheduled'}
+            </div>
+          </div>
         </div>
       </div>
 
       {/* Last audit summary */}
       {latestAudit && (
         <div className="bg-white border rounded-lg p-4 mb-8">
-          <h2 className="font-semibold mb-2">Latest Audit</h2>
+          <div className="flex items-center gap-2 mb-2">
+            <h2 className="font-semibold">Latest Audit</h2>
+            {latestAudit.status === 'completed' && latestAudit.is_complete === false && (
+              <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                Incomplete audit
+              </span>
+            )}
+          </div>
           <p className="text-sm text-gray-600">{latestAudit.summary}</p>
           <p className="text-xs text-gray-400 mt-2">
             {new Date(latestAudit.completed_at || latestAudit.created_at).toLocaleString()}
           </p>
+          {(latestAudit.status === 'pending' || latestAudit.status === 'running') && (
+            <div className="mt-4">
+              <LiveAuditTimeline auditId={latestAudit.id} />
+            </div>
+          )}
+          {latestAudit.score_breakdown && (
+            <ScoreBreakdown breakdown={latestAudit.score_breakdown as ScoreBreakdownData} />
+          )}
+          <CheckRunList checkRuns={(latestAudit.check_runs as CheckRun[]) || []} />
+          {latestAudit.status !== 'pending' && latestAudit.status !== 'running' && (
+            <AuditTranscriptPanel auditId={latestAudit.id} />
+          )}
         </div>
       )}
 
+      {/* Changes since the previous audit */}
+      {diff && <AuditDiffPanel diff={diff} />}
+
       {/* Quick actions */}
       <div className="flex gap-2 mb-8">
         <ActionButton
@@ -161,14 +236,16 @@ export default async function SiteDetailPage({ params }: PageProps) {
           action="clear_all_cache"
           label="Clear All Cache"
         />
-        <a
-          href={`https://my.wpengine.com/installs/${site.wpengine_install_id}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
-        >
-          View in WPEngine
-        </a>
+        {site.hosting_provider === 'wpengine' && site.wpengine_install_id && (
+          <a
+            href={`https://my.wpengine.com/installs/${site.wpengine_install_id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+          >
+            View in WPEngine
+          </a>
+        )}
         {site.cloudflare_zone_id && (
           <a
             href={`https://dash.cloudflare.com/?to=/:account/${site.cloudflare_zone_id}`}
@@ -184,18 +261,23 @@ export default async function SiteDetailPage({ params }: PageProps) {
       {/* Performance Metrics */}
       <div className="mb-8">
         <MetricsDashboard 
-          auditData={latestAudit?.raw_data || null}
+          auditData={latestAudit ? readAuditRawData(latestAudit) : null}
           trends={trends}
           lastUpdated={latestAudit?.completed_at || latestAudit?.created_at}
         />
       </div>
 
+      {/* What's working */}
+      {latestAudit?.status === 'completed' && (
+        <PassedChecksPanel passedChecks={(latestAudit.passed_checks as PassedCheck[]) || []} />
+      )}
+
       {/* Issues */}
       <div>
         <h2 className="font-semibold text-xl mb-4">
           🚨 Open Issues ({issues?.length || 0})
         </h2>
-        <IssueList issues={(issues as Issue[]) || []} />
+        <IssueList issues={(issues as Issue[]) || []} suppressedIssues={(suppressedIssues as Issue[]) || []} />
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+import Link from 'next/link';
+import { createServerClient } from '@/lib/supabase/server';
+import { AdvisorySeverityBadge } from '@/components/advisory-severity-badge';
+import { getAdvisoryExposures } from '@/lib/vulnerabilities';
+import { VulnerabilityAdvisory } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function AdvisoryPage({ params }: PageProps) {
+  const { id } = await params;
+  const supabase = createServerClient();
+
+  const { data } = await supabase
+    .from('vulnerability_advisories')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (!data) {
+    return (
+      <div className="p-8">
+        <h1 className="text-2xl font-bold">Advisory not found</h1>
+        <Link href="/vulnerabilities" className="text-blue-600 hover:underline mt-4 inline-block">
+          Back to vulnerabilities
+        </Link>
+      </div>
+    );
+  }
+
+  const advisory = data as VulnerabilityAdvisory;
+  const exposures = await getAdvisoryExposures(supabase, id);
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <Link href="/vulnerabilities" className="text-blue-600 hover:underline mb-4 inline-block">
+        Back to vulnerabilities
+      </Link>
+
+      <div className="flex items-center gap-3">
+        <h1 className="text-2xl font-bold">{advisory.title}</h1>
+        <AdvisorySeverityBadge severity={advisory.severity} />
+      </div>
+      <dl className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm mt-4 mb-8 max-w-xl">
+        <dt className="text-gray-500">{advisory.software_type === 'plugin' ? 'Plugin' : 'Theme'}</dt>
+        <dd><code>{advisory.slug}</code></dd>
+        <dt className="text-gray-500">CVE</dt>
+        <dd>{advisory.cve || '—'}</dd>
+        <dt className="text-gray-500">Fixed in</dt>
+        <dd>{advisory.fixed_versions.length > 0 ? advisory.fixed_versions.join(', ') : 'No fix available'}</dd>
+        <dt className="text-gray-500">Source</dt>
+        <dd>{advisory.source} ({advisory.source_id})</dd>
+      </dl>
+
+      <h2 className="font-semibold text-xl mb-4">Exposed Sites ({exposures.length})</h2>
+      {exposures.length === 0 ? (
+        <p className="text-gray-500">No site is exposed to this advisory.</p>
+      ) : (
+        <ul className="bg-white border rounded-lg divide-y">
+          {exposures.map((exposure) => (
+            <li key={exposure.issue_id} className="flex items-start justify-between gap-4 p-4 text-sm">
+              <div>
+                <Link href={`/sites/${exposure.site_id}`} className="font-medium text-blue-600 hover:underline">
+                  {exposure.site_name}
+                </Link>
+                <div className="text-gray-500">{exposure.issue_title}</div>
+              </div>
+              <div className="text-right text-xs text-gray-500 shrink-0">
+                <div>{exposure.issue_status}</div>
+                <div>since {new Date(exposure.first_seen_at).toLocaleDateString()}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {advisory.references.length > 0 && (
+        <div className="mt-8">
+          <h2 className="font-semibold mb-2">References</h2>
+          <ul className="text-sm space-y-1">
+            {advisory.references.map((reference) => (
+              <li key={reference}>
+                <a href={reference} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                  {reference}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
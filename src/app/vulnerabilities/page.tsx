@@ -0,0 +1,57 @@
+import Link from 'next/link';
+import { createServerClient } from '@/lib/supabase/server';
+import { AdvisorySeverityBadge } from '@/components/advisory-severity-badge';
+import { getExposedAdvisories } from '@/lib/vulnerabilities';
+
+export const dynamic = 'force-dynamic';
+
+export default async function VulnerabilitiesPage() {
+  const advisories = await getExposedAdvisories(createServerClient());
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      <Link href="/" className="text-blue-600 hover:underline mb-4 inline-block">
+        Back to dashboard
+      </Link>
+
+      <h1 className="text-3xl font-bold">Vulnerabilities</h1>
+      <p className="text-gray-500 mt-1 mb-6">
+        Advisories that match a plugin or theme version installed on at least one site, as of each site&apos;s latest
+        audit. Import advisories with <code>scripts/import-advisories.ts</code>.
+      </p>
+
+      {advisories.length === 0 ? (
+        <p className="text-gray-500">No site is exposed to a known advisory.</p>
+      ) : (
+        <div className="bg-white border rounded-lg divide-y">
+          {advisories.map((advisory) => (
+            <Link
+              key={advisory.id}
+              href={`/vulnerabilities/${advisory.id}`}
+              className="flex items-start justify-between gap-4 p-4 hover:bg-gray-50"
+            >
+              <div>
+                <div className="font-medium">{advisory.title}</div>
+                <div className="text-sm text-gray-500 mt-0.5">
+                  {advisory.software_type} <code>{advisory.slug}</code>
+                  {advisory.cve && <> · {advisory.cve}</>}
+                  {advisory.fixed_versions.length > 0 ? (
+                    <> · fixed in {advisory.fixed_versions.join(', ')}</>
+                  ) : (
+                    <> · no fix available</>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <AdvisorySeverityBadge severity={advisory.severity} />
+                <span className="text-sm font-semibold">
+                  {advisory.exposed_sites} site{advisory.exposed_sites === 1 ? '' : 's'}
+                </span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { AdvisorySeverity } from '@/lib/types';
+
+const SEVERITY_STYLES: Record<AdvisorySeverity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+};
+
+export function AdvisorySeverityBadge({ severity }: { severity: AdvisorySeverity | null }) {
+  if (!severity) return null;
+
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[severity]}`}>
+      {severity}
+    </span>
+  );
+}
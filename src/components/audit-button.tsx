@@ -1,37 +1,24 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
+import { AuditBatchProgress } from '@/lib/types';
+import { AuditTimeline, buildTimeline, useAuditEvents } from '@/components/audit-timeline';
 
 interface AuditButtonProps {
   siteId?: string;
   onComplete?: () => void;
 }
 
-interface AuditProgress {
-  step: string;
-  percent: number;
-  started_at?: string;
-  estimated_duration?: number;
-}
+const DEFAULT_STEP_ESTIMATE = 60; // seconds
 
-// Step duration estimates (in seconds)
-const STEP_ESTIMATES = {
-  'Starting audit...': 5,
-  'Checking plugins': 30,
-  'Analyzing database': 120, // 2 minutes - can be slow
-  'Testing performance': 45,
-  'Security scan': 90, // 1.5 minutes - checksum verification is slow
-  'SEO analysis': 30,
-  'Finalizing': 15,
-} as const;
-
-// Show concern message after step has been running longer than expected
-const getStaleThreshold = (step: string): number => {
-  const estimate = STEP_ESTIMATES[step as keyof typeof STEP_ESTIMATES] || 60;
-  return estimate * 2000; // 2x the estimate in milliseconds
-};
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return 'estimating...';
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
 
 function formatErrorMessage(error: string | undefined): string {
   if (!error) return 'Audit failed due to an unknown error';
@@ -68,54 +55,74 @@ function formatErrorMessage(error: string | undefined): string {
 
 export function AuditButton({ siteId, onComplete }: AuditButtonProps) {
   const [loading, setLoading] = useState(false);
-  const [progress, setProgress] = useState<AuditProgress | null>(null);
   const [auditId, setAuditId] = useState<string | null>(null);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [batchProgress, setBatchProgress] = useState<AuditBatchProgress | null>(null);
   const [showConcern, setShowConcern] = useState(false);
   const [cancelling, setCancelling] = useState(false);
-  const stepStartRef = useRef<{ step: string; time: number } | null>(null);
+  const { events, status } = useAuditEvents(auditId);
   const router = useRouter();
 
-  const pollProgress = useCallback(async (id: string) => {
+  // React once to the audit reaching a final status
+  useEffect(() => {
+    if (!status || status.status === 'pending' || status.status === 'running') return;
+
+    setLoading(false);
+    setAuditId(null);
+    setShowConcern(false);
+
+    if (status.status === 'completed') {
+      if (status.health_score === null) {
+        toast('Audit finished, but no check completed, so it was not scored', { icon: '⚠️' });
+      } else if (status.is_complete === false) {
+        toast(`Audit finished with incomplete checks. Health score: ${status.health_score}/100`, { icon: '⚠️' });
+      } else {
+        toast.success(`Audit complete! Health score: ${status.health_score}/100`);
+      }
+      onComplete?.();
+      router.refresh();
+    } else if (status.status === 'cancelled') {
+      toast('Audit cancelled');
+    } else if (status.status === 'failed') {
+      toast.error(formatErrorMessage(status.error_message ?? undefined));
+    }
+  }, [status, onComplete, router]);
+
+  // Offer to cancel once the running step has taken over twice its estimate
+  useEffect(() => {
+    if (!auditId) return;
+
+    const interval = setInterval(() => {
+      const step = buildTimeline(events).find((s) => s.status === 'running');
+      const estimate = step?.estimated_seconds || DEFAULT_STEP_ESTIMATE;
+      setShowConcern(!!step && Date.now() - step.started_at > estimate * 2000);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [auditId, events]);
+
+  const pollBatch = useCallback(async (id: string) => {
     try {
-      const response = await fetch(`/api/audits/${id}`);
+      const response = await fetch(`/api/audits/batches/${id}`);
       if (!response.ok) return;
 
-      const audit = await response.json();
-
-      if (audit.status === 'running' && audit.raw_data?.progress) {
-        const currentStep = audit.raw_data.progress.step;
-        setProgress(audit.raw_data.progress);
+      const batch: AuditBatchProgress = await response.json();
+      setBatchProgress(batch);
 
-        // Track step changes and duration
-        const now = Date.now();
-        if (!stepStartRef.current || stepStartRef.current.step !== currentStep) {
-          stepStartRef.current = { step: currentStep, time: now };
-          setShowConcern(false);
+      if (batch.batch.status === 'completed') {
+        setLoading(false);
+        setBatchId(null);
+        setBatchProgress(null);
+        const message = `Fleet audit finished: ${batch.done} succeeded, ${batch.failed} failed`;
+        if (batch.failed > 0) {
+          toast(message, { icon: '⚠️' });
         } else {
-          // Check if current step has been running longer than expected
-          const stepDuration = now - stepStartRef.current.time;
-          const threshold = getStaleThreshold(currentStep);
-          setShowConcern(stepDuration > threshold);
+          toast.success(message);
         }
-      } else if (audit.status === 'completed') {
-        setProgress({ step: 'Complete', percent: 100 });
-        setLoading(false);
-        setAuditId(null);
-        setShowConcern(false);
-        stepStartRef.current = null;
-        toast.success(`Audit complete! Health score: ${audit.health_score}/100`);
         onComplete?.();
         router.refresh();
-      } else if (audit.status === 'failed') {
-        setProgress(null);
-        setLoading(false);
-        setAuditId(null);
-        setShowConcern(false);
-        stepStartRef.current = null;
-        toast.error(formatErrorMessage(audit.error_message));
       }
     } catch (error) {
-      console.error('Error polling progress:', error);
+      console.error('Error polling batch progress:', error);
     }
   }, [onComplete, router]);
 
@@ -130,10 +137,8 @@ export function AuditButton({ siteId, onComplete }: AuditButtonProps) {
       if (response.ok) {
         toast.success('Audit cancelled');
         setLoading(false);
-        setProgress(null);
         setAuditId(null);
         setShowConcern(false);
-        stepStartRef.current = null;
         router.refresh();
       } else {
         toast.error(result.error || 'Failed to cancel audit');
@@ -147,16 +152,15 @@ export function AuditButton({ siteId, onComplete }: AuditButtonProps) {
   };
 
   useEffect(() => {
-    if (!auditId || !loading) return;
+    if (!batchId || !loading) return;
 
-    const interval = setInterval(() => pollProgress(auditId), 1000);
+    pollBatch(batchId);
+    const interval = setInterval(() => pollBatch(batchId), 3000);
     return () => clearInterval(interval);
-  }, [auditId, loading, pollProgress]);
+  }, [batchId, loading, pollBatch]);
 
   const runAudit = async () => {
     setLoading(true);
-    setProgress({ step: 'Starting...', percent: 0 });
-    stepStartRef.current = { step: 'Starting...', time: Date.now() };
 
     try {
       const response = await fetch('/api/audits', {
@@ -173,19 +177,17 @@ export function AuditButton({ siteId, onComplete }: AuditButtonProps) {
 
       if (result.auditId) {
         setAuditId(result.auditId);
+      } else if (result.batchId && result.totalSites > 0) {
+        // Fleet audit queued as a batch
+        setBatchId(result.batchId);
+        toast.success(result.message);
       } else {
-        // All audits completed
         setLoading(false);
-        setProgress(null);
-        stepStartRef.current = null;
-        onComplete?.();
-        router.refresh();
+        toast(result.message || 'No sites to audit');
       }
     } catch (error) {
       console.error('Audit error:', error);
       setLoading(false);
-      setProgress(null);
-      stepStartRef.current = null;
       const message = error instanceof Error ? error.message : 'An unexpected error occurred';
       toast.error(formatErrorMessage(message));
     }
@@ -203,7 +205,7 @@ export function AuditButton({ siteId, onComplete }: AuditButtonProps) {
           {loading ? 'Running...' : siteId ? 'Run Audit' : 'Audit All Sites'}
         </button>
 
-        {showConcern && (
+        {auditId && showConcern && (
           <button
             onClick={cancelAudit}
             disabled={cancelling}
@@ -214,35 +216,43 @@ export function AuditButton({ siteId, onComplete }: AuditButtonProps) {
         )}
       </div>
 
-      {loading && progress && (
+      {loading && batchProgress && (
         <div className="w-72">
-          <div className="flex justify-between text-sm text-gray-600 mb-1">
-            <span className="font-medium">{progress.step}</span>
-            <span>{progress.percent}%</span>
-          </div>
-          <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
-            <div
-              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${progress.percent}%` }}
-            />
-          </div>
-          
-          {/* Step duration estimate */}
-          <div className="text-xs text-gray-500">
-            {(() => {
-              const estimate = STEP_ESTIMATES[progress.step as keyof typeof STEP_ESTIMATES];
-              if (estimate) {
-                const minutes = Math.floor(estimate / 60);
-                const seconds = estimate % 60;
-                const timeStr = minutes > 0 
-                  ? `${minutes}m ${seconds}s` 
-                  : `${seconds}s`;
-                return `Expected duration: ~${timeStr}`;
-              }
-              return 'Processing...';
-            })()}
-          </div>
-          
+          {(() => {
+            const total = batchProgress.batch.total_sites;
+            const finished = batchProgress.done + batchProgress.failed;
+            const percent = total > 0 ? Math.round((finished / total) * 100) : 100;
+            return (
+              <>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span className="font-medium">{finished}/{total} sites audited</span>
+                  <span>{percent}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <div className="text-xs text-gray-500">
+                  {batchProgress.in_progress} in progress
+                  {batchProgress.failed > 0 && <span className="text-red-600"> · {batchProgress.failed} failed</span>}
+                  {' · '}ETA {formatEta(batchProgress.eta_seconds)}
+                </div>
+              </>
+            );
+          })()}
+        </div>
+      )}
+
+      {loading && auditId && (
+        <div className="w-72">
+          {status?.status === 'pending' ? (
+            <p className="text-sm text-gray-600">Queued</p>
+          ) : (
+            <AuditTimeline events={events} />
+          )}
+
           {/* Show concern message if taking longer than expected */}
           {showConcern && (
             <div className="mt-2 text-xs text-amber-600 bg-amber-50 border border-amber-200 rounded px-2 py-1">
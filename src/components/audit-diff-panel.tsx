@@ -0,0 +1,134 @@
+import { AuditDiff, IssueSnapshot, NumericDelta } from '@/lib/types';
+
+interface AuditDiffPanelProps {
+  diff: AuditDiff;
+}
+
+const SEVERITY_STYLES: Record<IssueSnapshot['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-800',
+};
+
+function formatDelta(delta: NumericDelta, unit = ''): string {
+  const sign = delta.delta > 0 ? '+' : '';
+  return `${delta.from}${unit} → ${delta.to}${unit} (${sign}${delta.delta}${unit})`;
+}
+
+function SeverityBadge({ severity }: { severity: IssueSnapshot['severity'] }) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[severity]}`}>
+      {severity}
+    </span>
+  );
+}
+
+export function AuditDiffPanel({ diff }: AuditDiffPanelProps) {
+  const facts: Array<{ label: string; value: string }> = [];
+  if (diff.health_score && diff.health_score.delta !== 0) {
+    facts.push({ label: 'Health score', value: formatDelta(diff.health_score) });
+  }
+  if (diff.wp_version) {
+    facts.push({ label: 'WordPress', value: `${diff.wp_version.from} → ${diff.wp_version.to}` });
+  }
+  if (diff.database_size_mb && diff.database_size_mb.delta !== 0) {
+    facts.push({ label: 'Database size', value: formatDelta(diff.database_size_mb, 'MB') });
+  }
+  if (diff.sitemap_url_count && diff.sitemap_url_count.delta !== 0) {
+    facts.push({ label: 'Sitemap URLs', value: formatDelta(diff.sitemap_url_count) });
+  }
+  if (diff.admin_users.added.length > 0) {
+    facts.push({ label: 'Admins added', value: diff.admin_users.added.join(', ') });
+  }
+  if (diff.admin_users.removed.length > 0) {
+    facts.push({ label: 'Admins removed', value: diff.admin_users.removed.join(', ') });
+  }
+
+  const hasChanges =
+    facts.length > 0 ||
+    diff.new_issues.length > 0 ||
+    diff.resolved_issues.length > 0 ||
+    diff.severity_changes.length > 0 ||
+    diff.plugin_changes.length > 0;
+
+  return (
+    <div className="bg-white border rounded-lg p-4 mb-8">
+      <h2 className="font-semibold mb-3">Changes Since Last Audit</h2>
+
+      {!hasChanges && <p className="text-sm text-gray-500">Nothing changed since the previous audit.</p>}
+
+      {facts.length > 0 && (
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm mb-4">
+          {facts.map((fact) => (
+            <div key={fact.label}>
+              <dt className="text-gray-500 inline">{fact.label}: </dt>
+              <dd className="font-medium inline">{fact.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        {diff.new_issues.length > 0 && (
+          <div>
+            <h3 className="font-medium text-red-700 mb-1">New issues ({diff.new_issues.length})</h3>
+            <ul className="space-y-1">
+              {diff.new_issues.map((issue) => (
+                <li key={issue.fingerprint} className="flex items-center gap-2">
+                  <SeverityBadge severity={issue.severity} />
+                  {issue.title}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {diff.resolved_issues.length > 0 && (
+          <div>
+            <h3 className="font-medium text-green-700 mb-1">Resolved ({diff.resolved_issues.length})</h3>
+            <ul className="space-y-1">
+              {diff.resolved_issues.map((issue) => (
+                <li key={issue.fingerprint} className="flex items-center gap-2 text-gray-600">
+                  <SeverityBadge severity={issue.severity} />
+                  {issue.title}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {diff.severity_changes.length > 0 && (
+          <div>
+            <h3 className="font-medium mb-1">Severity changes ({diff.severity_changes.length})</h3>
+            <ul className="space-y-1">
+              {diff.severity_changes.map((issue) => (
+                <li key={issue.fingerprint} className="flex items-center gap-2">
+                  <SeverityBadge severity={issue.from_severity} />→<SeverityBadge severity={issue.severity} />
+                  {issue.title}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {diff.plugin_changes.length > 0 && (
+          <div>
+            <h3 className="font-medium mb-1">Plugins ({diff.plugin_changes.length})</h3>
+            <ul className="space-y-1">
+              {diff.plugin_changes.map((plugin) => (
+                <li key={plugin.name}>
+                  <span className="font-mono">{plugin.name}</span>{' '}
+                  <span className="text-gray-500">
+                    {plugin.change === 'added' && `added (${plugin.to_version})`}
+                    {plugin.change === 'removed' && `removed (was ${plugin.from_version})`}
+                    {plugin.change === 'updated' && `${plugin.from_version} → ${plugin.to_version}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FINISHED_AUDIT_STATUSES } from '@/lib/constants/queue';
+import { AuditEvent, AuditStreamStatus, CheckRunStatus } from '@/lib/types';
+
+export interface AuditEventStream {
+  events: AuditEvent[];
+  // Null until the stream has reported the audit's status
+  status: AuditStreamStatus | null;
+}
+
+const EMPTY_STREAM: AuditEventStream = { events: [], status: null };
+
+/**
+ * Follow an audit's progress over /api/audits/{id}/events until it finishes.
+ */
+export function useAuditEvents(auditId: string | null): AuditEventStream {
+  // Tagged with the audit it belongs to so a new auditId starts from an empty stream
+  const [stream, setStream] = useState<AuditEventStream & { auditId: string | null }>({
+    auditId: null,
+    events: [],
+    status: null,
+  });
+
+  useEffect(() => {
+    if (!auditId) return;
+
+    const source = new EventSource(`/api/audits/${auditId}/events`);
+    const update = (change: (current: AuditEventStream) => AuditEventStream) =>
+      setStream((current) => ({
+        auditId,
+        ...change(current.auditId === auditId ? current : { events: [], status: null }),
+      }));
+
+    source.addEventListener('audit_event', (message) => {
+      const event: AuditEvent = JSON.parse((message as MessageEvent<string>).data);
+      update((current) =>
+        current.events.some((e) => e.id === event.id) ? current : { ...current, events: [...current.events, event] }
+      );
+    });
+
+    source.addEventListener('status', (message) => {
+      const status: AuditStreamStatus = JSON.parse((message as MessageEvent<string>).data);
+      update((current) => ({ ...current, status }));
+      // The server ends the stream here; don't let EventSource reconnect
+      if (FINISHED_AUDIT_STATUSES.includes(status.status)) {
+        source.close();
+      }
+    });
+
+    return () => source.close();
+  }, [auditId]);
+
+  return auditId && stream.auditId === auditId ? stream : EMPTY_STREAM;
+}
+
+export interface TimelineStep {
+  key: string;
+  label: string;
+  status: 'running' | CheckRunStatus;
+  started_at: number;
+  estimated_seconds: number | null;
+  duration_ms: number | null;
+  error: string | null;
+  issue_count: number;
+}
+
+// One entry per step in the order they started; a retried audit's steps replace the earlier attempt's
+export function buildTimeline(events: AuditEvent[]): TimelineStep[] {
+  const steps = new Map<string, TimelineStep>();
+
+  for (const event of events) {
+    const key = event.data.step;
+    if (!key) continue;
+
+    if (event.type === 'step_started') {
+      steps.delete(key);
+      steps.set(key, {
+        key,
+        label: event.message,
+        status: 'running',
+        started_at: new Date(event.created_at).getTime(),
+        estimated_seconds: event.data.estimated_seconds ?? null,
+        duration_ms: null,
+        error: null,
+        issue_count: 0,
+      });
+    }
+
+    const step = steps.get(key);
+    if (!step) continue;
+
+    if (event.type === 'step_finished') {
+      step.status = event.data.status || 'succeeded';
+      step.duration_ms = event.data.duration_ms ?? null;
+      step.error = event.data.error ?? null;
+    } else if (event.type === 'issue_found') {
+      step.issue_count++;
+    }
+  }
+
+  return Array.from(steps.values());
+}
+
+const STEP_STYLES: Record<TimelineStep['status'], { icon: string; className: string }> = {
+  running: { icon: '◌', className: 'text-blue-600' },
+  succeeded: { icon: '✓', className: 'text-green-600' },
+  failed: { icon: '✗', className: 'text-red-600' },
+  timed_out: { icon: '⏱', className: 'text-amber-600' },
+  skipped: { icon: '–', className: 'text-gray-400' },
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+// Re-render every second while a step is running so its elapsed time stays current
+function useNow(active: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  return now;
+}
+
+interface AuditTimelineProps {
+  events: AuditEvent[];
+  // Also show the latest few log lines
+  showLog?: boolean;
+}
+
+export function AuditTimeline({ events, showLog = false }: AuditTimelineProps) {
+  const steps = buildTimeline(events);
+  const running = steps.some((s) => s.status === 'running');
+  const now = useNow(running);
+
+  const stepCount = [...events].reverse().find((e) => e.data.step_count)?.data.step_count;
+  const finishedCount = steps.filter((s) => s.status !== 'running').length;
+  const logLines = showLog ? events.filter((e) => e.type === 'log').slice(-3) : [];
+
+  if (steps.length === 0) {
+    return <p className="text-sm text-gray-500">Waiting for the audit to start...</p>;
+  }
+
+  return (
+    <div className="text-sm">
+      {stepCount && (
+        <div className="text-xs text-gray-500 mb-1">
+          {finishedCount} of {stepCount} steps done
+        </div>
+      )}
+      <ul className="space-y-1">
+        {steps.map((step) => {
+          const style = STEP_STYLES[step.status];
+          const elapsed = step.duration_ms ?? now - step.started_at;
+          const slow = step.status === 'running' && step.estimated_seconds && elapsed > step.estimated_seconds * 2000;
+
+          return (
+            <li key={step.key} className="flex items-start justify-between gap-3">
+              <div className="flex items-start gap-2">
+                <span className={`w-4 text-center ${style.className} ${step.status === 'running' ? 'animate-pulse' : ''}`}>
+                  {style.icon}
+                </span>
+                <div>
+                  <span className={step.status === 'running' ? 'font-medium' : ''}>{step.label}</span>
+                  {step.issue_count > 0 && (
+                    <span className="text-xs text-gray-500"> · {step.issue_count} issue{step.issue_count === 1 ? '' : 's'}</span>
+                  )}
+                  {step.error && <div className="text-xs text-red-600">{step.error}</div>}
+                </div>
+              </div>
+              <span className={`text-xs shrink-0 ${slow ? 'text-amber-600' : 'text-gray-500'}`}>
+                {formatDuration(Math.max(0, elapsed))}
+                {step.status === 'running' && step.estimated_seconds ? ` / ~${formatDuration(step.estimated_seconds * 1000)}` : ''}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {logLines.length > 0 && (
+        <ul className="mt-2 space-y-0.5 font-mono text-xs text-gray-500">
+          {logLines.map((line) => (
+            <li key={line.id} className={line.data.level === 'error' ? 'text-red-600' : line.data.level === 'warn' ? 'text-amber-600' : ''}>
+              {line.data.scope ? `[${line.data.scope}] ` : ''}
+              {line.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface LiveAuditTimelineProps {
+  auditId: string;
+}
+
+// Timeline for an audit that was already running when the page loaded
+export function LiveAuditTimeline({ auditId }: LiveAuditTimelineProps) {
+  const { events, status } = useAuditEvents(auditId);
+  const router = useRouter();
+  const finished = status !== null && FINISHED_AUDIT_STATUSES.includes(status.status);
+
+  useEffect(() => {
+    if (finished) router.refresh();
+  }, [finished, router]);
+
+  return <AuditTimeline events={events} showLog />;
+}
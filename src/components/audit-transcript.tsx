@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { AuditTranscript, TranscriptEntry } from '@/lib/types';
+
+interface AuditTranscriptPanelProps {
+  auditId: string;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function describeResult(entry: TranscriptEntry): string {
+  if (entry.error) return 'error';
+  if (entry.http_status !== null) return `HTTP ${entry.http_status}`;
+  if (entry.exit_code !== null) return `exit ${entry.exit_code}`;
+  return entry.ok ? 'ok' : 'failed';
+}
+
+function TranscriptEntryRow({ entry }: { entry: TranscriptEntry }) {
+  const output = [
+    { label: 'error', text: entry.error },
+    { label: 'stderr', text: entry.stderr },
+    { label: 'stdout', text: entry.stdout },
+  ].filter((o): o is { label: string; text: string } => Boolean(o.text));
+
+  return (
+    <li className="px-3 py-2 text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="text-xs text-gray-500">
+            {entry.kind.toUpperCase()}
+            {entry.check_key && ` · ${entry.check_key}`}
+          </div>
+          <code className="block font-mono text-xs break-all">{entry.operation}</code>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-xs text-gray-500">{formatDuration(entry.duration_ms)}</span>
+          <span
+            className={`px-2 py-0.5 rounded text-xs font-medium ${
+              entry.ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+            }`}
+          >
+            {describeResult(entry)}
+          </span>
+        </div>
+      </div>
+      {output.map(({ label, text }) => (
+        <details key={label} className="mt-1" open={!entry.ok && label !== 'stdout'}>
+          <summary className="text-xs text-gray-500 cursor-pointer">{label}</summary>
+          <pre className="mt-1 max-h-64 overflow-auto bg-gray-50 border rounded p-2 text-xs whitespace-pre-wrap">{text}</pre>
+        </details>
+      ))}
+    </li>
+  );
+}
+
+// Loaded on demand: transcripts hold command output and can be large
+export function AuditTranscriptPanel({ auditId }: AuditTranscriptPanelProps) {
+  const [transcript, setTranscript] = useState<AuditTranscript | null>(null);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const toggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+
+    setOpen(true);
+    if (transcript) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/audits/${auditId}/transcript`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load transcript');
+      }
+      setTranscript(result);
+    } catch (error) {
+      console.error('Error loading transcript:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load transcript');
+      setOpen(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const failedCount = transcript?.entries.filter((e) => !e.ok).length ?? 0;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-3 text-sm">
+        <button onClick={toggle} disabled={loading} className="text-blue-600 hover:underline disabled:opacity-50">
+          {loading ? 'Loading transcript...' : open ? 'Hide transcript' : 'Show transcript'}
+        </button>
+        <a href={`/api/audits/${auditId}/transcript?download=1`} className="text-blue-600 hover:underline">
+          Download JSON
+        </a>
+      </div>
+
+      {open && transcript && (
+        <div className="mt-2">
+          {transcript.entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No connector calls were recorded for this audit.</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500 mb-1">
+                {transcript.entries.length} operations{failedCount > 0 && `, ${failedCount} failed`}
+              </p>
+              <ul className="divide-y border rounded">
+                {transcript.entries.map((entry) => (
+                  <TranscriptEntryRow key={entry.sequence} entry={entry} />
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
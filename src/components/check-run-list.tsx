@@ -0,0 +1,44 @@
+import { CheckRun } from '@/lib/types';
+
+interface CheckRunListProps {
+  checkRuns: CheckRun[];
+}
+
+const STATUS_STYLES: Record<CheckRun['status'], { label: string; className: string }> = {
+  succeeded: { label: 'Succeeded', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  timed_out: { label: 'Timed out', className: 'bg-amber-100 text-amber-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-700' },
+};
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export function CheckRunList({ checkRuns }: CheckRunListProps) {
+  if (checkRuns.length === 0) return null;
+
+  return (
+    <ul className="mt-3 divide-y border rounded">
+      {checkRuns.map((run) => {
+        const style = STATUS_STYLES[run.status];
+        return (
+          <li key={run.key} className="flex items-start justify-between gap-4 px-3 py-2 text-sm">
+            <div>
+              <div className="font-medium">{run.label}</div>
+              {run.error && <div className="text-xs text-red-600 mt-0.5">{run.error}</div>}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className="text-xs text-gray-500">{formatDuration(run.duration_ms)}</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>
+                {style.label}
+              </span>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
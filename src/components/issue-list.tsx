@@ -2,9 +2,12 @@
 
 import { useState } from 'react';
 import { Issue } from '@/lib/types';
+import { IssueStatusControls } from './issue-status-controls';
 
 interface IssueListProps {
   issues: Issue[];
+  // Ignored, snoozed and accepted issues, listed separately so they can be reopened
+  suppressedIssues?: Issue[];
   onRunAction?: (issue: Issue) => void;
 }
 
@@ -26,7 +29,18 @@ const CATEGORY_ICONS: Record<string, string> = {
   seo: '🔍',
 };
 
-export function IssueList({ issues, onRunAction }: IssueListProps) {
+function describeSuppression(issue: Issue): string {
+  if (issue.status === 'snoozed' && issue.snoozed_until) {
+    return `Snoozed until ${new Date(issue.snoozed_until).toLocaleDateString()}`;
+  }
+  if (issue.status === 'accepted') {
+    return `Risk accepted: ${issue.risk_justification}`;
+  }
+  return 'Ignored';
+}
+
+export function IssueList({ issues, suppressedIssues = [], onRunAction }: IssueListProps) {
+  const [showSuppressed, setShowSuppressed] = useState(false);
   const [filter, setFilter] = useState<'all' | 'critical' | 'warning' | 'info'>('all');
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
 
@@ -150,6 +164,17 @@ export function IssueList({ issues, onRunAction }: IssueListProps) {
                           >
                             {issue.severity}
                           </span>
+                          {issue.is_regression && (
+                            <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                              regression
+                            </span>
+                          )}
+                          {issue.occurrence_count > 1 && (
+                            <span className="text-xs text-gray-500">
+                              Seen in {issue.occurrence_count} audits since{' '}
+                              {new Date(issue.first_seen_at).toLocaleDateString()}
+                            </span>
+                          )}
                         </div>
                         <h4 className="font-medium mt-1">{issue.title}</h4>
                         {issue.description && (
@@ -162,14 +187,17 @@ export function IssueList({ issues, onRunAction }: IssueListProps) {
                         )}
                       </div>
 
-                      {issue.auto_fixable && issue.fix_action && onRunAction && (
-                        <button
-                          onClick={() => onRunAction(issue)}
-                          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
-                        >
-                          Fix
-                        </button>
-                      )}
+                      <div className="flex flex-col items-end gap-2 shrink-0 ml-4">
+                        {issue.auto_fixable && issue.fix_action && onRunAction && (
+                          <button
+                            onClick={() => onRunAction(issue)}
+                            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                          >
+                            Fix
+                          </button>
+                        )}
+                        <IssueStatusControls issue={issue} />
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -182,6 +210,37 @@ export function IssueList({ issues, onRunAction }: IssueListProps) {
           <p className="text-gray-500 text-center py-8">No issues found</p>
         )}
       </div>
+
+      {suppressedIssues.length > 0 && (
+        <div className="mt-6">
+          <button
+            onClick={() => setShowSuppressed(!showSuppressed)}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            {showSuppressed ? '▼' : '▶'} {suppressedIssues.length} ignored, snoozed or accepted{' '}
+            {suppressedIssues.length === 1 ? 'issue' : 'issues'}
+          </button>
+
+          {showSuppressed && (
+            <div className="mt-3 space-y-2">
+              {suppressedIssues.map((issue) => (
+                <div key={issue.id} className="flex justify-between items-start border rounded p-3 bg-gray-50">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${severityBadges[issue.severity]}`}>
+                        {issue.severity}
+                      </span>
+                      <h4 className="font-medium text-gray-700">{issue.title}</h4>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">{describeSuppression(issue)}</p>
+                  </div>
+                  <IssueStatusControls issue={issue} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
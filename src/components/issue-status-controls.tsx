@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { Issue } from '@/lib/types';
+
+interface IssueStatusControlsProps {
+  issue: Issue;
+}
+
+const STATUS_MESSAGES: Record<string, string> = {
+  open: 'Issue reopened',
+  ignored: 'Issue ignored',
+  snoozed: 'Issue snoozed',
+  accepted: 'Risk accepted',
+};
+
+function getDefaultSnoozeDate(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 30);
+  return date.toISOString().slice(0, 10);
+}
+
+export function IssueStatusControls({ issue }: IssueStatusControlsProps) {
+  const [mode, setMode] = useState<'idle' | 'snooze' | 'accept'>('idle');
+  const [snoozeDate, setSnoozeDate] = useState(getDefaultSnoozeDate);
+  const [justification, setJustification] = useState('');
+  const [saving, setSaving] = useState(false);
+  const router = useRouter();
+
+  const updateStatus = async (status: string, extra: Record<string, unknown> = {}) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/issues/${issue.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, ...extra }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update issue');
+      }
+
+      toast.success(STATUS_MESSAGES[status]);
+      setMode('idle');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update issue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (issue.status === 'ignored' || issue.status === 'snoozed' || issue.status === 'accepted') {
+    return (
+      <button
+        onClick={() => updateStatus('open')}
+        disabled={saving}
+        className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        Reopen
+      </button>
+    );
+  }
+
+  if (mode === 'snooze') {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={snoozeDate}
+          min={new Date().toISOString().slice(0, 10)}
+          onChange={(e) => setSnoozeDate(e.target.value)}
+          className="border rounded px-2 py-1 text-sm"
+        />
+        <button
+          onClick={() => updateStatus('snoozed', { snoozed_until: `${snoozeDate}T00:00:00Z` })}
+          disabled={saving || !snoozeDate}
+          className="px-3 py-1 bg-gray-900 text-white rounded text-sm hover:bg-gray-700 disabled:opacity-50"
+        >
+          Snooze
+        </button>
+        <button onClick={() => setMode('idle')} className="text-sm text-gray-500 hover:text-gray-700">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  if (mode === 'accept') {
+    return (
+      <div className="flex flex-col gap-2 w-64">
+        <textarea
+          value={justification}
+          onChange={(e) => setJustification(e.target.value)}
+          placeholder="Why is this risk acceptable?"
+          rows={2}
+          className="border rounded px-2 py-1 text-sm"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => updateStatus('accepted', { risk_justification: justification })}
+            disabled={saving || !justification.trim()}
+            className="px-3 py-1 bg-gray-900 text-white rounded text-sm hover:bg-gray-700 disabled:opacity-50"
+          >
+            Accept risk
+          </button>
+          <button onClick={() => setMode('idle')} className="text-sm text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2 text-sm">
+      <button
+        onClick={() => updateStatus('ignored')}
+        disabled={saving}
+        className="text-gray-500 hover:text-gray-800 disabled:opacity-50"
+      >
+        Ignore
+      </button>
+      <button
+        onClick={() => setMode('snooze')}
+        disabled={saving}
+        className="text-gray-500 hover:text-gray-800 disabled:opacity-50"
+      >
+        Snooze
+      </button>
+      <button
+        onClick={() => setMode('accept')}
+        disabled={saving}
+        className="text-gray-500 hover:text-gray-800 disabled:opacity-50"
+      >
+        Accept risk
+      </button>
+    </div>
+  );
+}
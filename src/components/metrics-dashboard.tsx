@@ -240,8 +240,8 @@ function PluginMetrics({ data }: { data: AuditRawData['plugins'] }) {
   }
 
   // Calculate must-use and drop-in counts from the plugins array
-  const mustUseCount = data.plugins?.filter(p => p.status === 'must-use').length || 0;
-  const dropinCount = data.plugins?.filter(p => p.status === 'dropin').length || 0;
+  const mustUseCount = data.plugins.filter(p => p.status === 'must-use').length;
+  const dropinCount = data.plugins.filter(p => p.status === 'dropin').length;
 
   return (
     <div className="bg-white border rounded-lg p-6">
@@ -276,6 +276,51 @@ function PluginMetrics({ data }: { data: AuditRawData['plugins'] }) {
   );
 }
 
+function ThemeMetrics({ data }: { data: AuditRawData['themes'] }) {
+  if (!data) {
+    return (
+      <div className="bg-white border rounded-lg p-6">
+        <h2 className="text-lg font-semibold mb-4">🎨 Theme Overview</h2>
+        <p className="text-gray-500">No theme data available</p>
+      </div>
+    );
+  }
+
+  const activeTheme = data.themes.find(t => t.status === 'active');
+
+  return (
+    <div className="bg-white border rounded-lg p-6">
+      <h2 className="text-lg font-semibold mb-4">🎨 Theme Overview</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricCard
+          title="Active Theme"
+          value={activeTheme?.title || data.active_theme || 'None'}
+          subtitle={data.is_child_theme ? `Child of ${data.parent_theme}` : activeTheme ? `Version ${activeTheme.version}` : undefined}
+          color={data.approved ? 'green' : 'yellow'}
+        />
+        <MetricCard
+          title="Approved"
+          value={data.approved ? 'Yes' : 'No'}
+          subtitle={data.is_child_theme ? 'Judged by the parent theme' : 'Standard theme list'}
+          color={data.approved ? 'green' : 'yellow'}
+        />
+        <MetricCard
+          title="Inactive Themes"
+          value={data.inactive}
+          subtitle={`${data.total} installed`}
+          color={data.inactive >= 4 ? 'red' : data.inactive >= 2 ? 'yellow' : 'green'}
+        />
+        <MetricCard
+          title="Updates Available"
+          value={data.needs_update}
+          subtitle="Outdated themes"
+          color={data.needs_update > 0 ? 'yellow' : 'green'}
+        />
+      </div>
+    </div>
+  );
+}
+
 export function MetricsDashboard({ auditData, trends, lastUpdated }: MetricsDashboardProps) {
   if (!auditData) {
     return (
@@ -308,6 +353,9 @@ export function MetricsDashboard({ auditData, trends, lastUpdated }: MetricsDash
 
       {/* Plugin Overview */}
       <PluginMetrics data={auditData.plugins} />
+
+      {/* Theme Overview */}
+      <ThemeMetrics data={auditData.themes} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { PassedCheck } from '@/lib/types';
+
+interface PassedChecksPanelProps {
+  passedChecks: PassedCheck[];
+}
+
+const CATEGORY_ORDER = ['plugins', 'security', 'performance', 'database', 'seo'] as const;
+
+const CATEGORY_LABELS: Record<PassedCheck['category'], string> = {
+  plugins: 'Plugins',
+  security: 'Security',
+  performance: 'Performance',
+  database: 'Database',
+  seo: 'SEO',
+};
+
+// What's working: rules the latest audit evaluated and passed. These never
+// count towards the health score.
+export function PassedChecksPanel({ passedChecks }: PassedChecksPanelProps) {
+  if (passedChecks.length === 0) return null;
+
+  return (
+    <div className="bg-white border rounded-lg p-4 mb-8">
+      <h2 className="font-semibold mb-3">✅ What&apos;s Working ({passedChecks.length})</h2>
+      <div className="space-y-4">
+        {CATEGORY_ORDER.map((category) => {
+          const passes = passedChecks.filter((pass) => pass.category === category);
+          if (passes.length === 0) return null;
+
+          return (
+            <div key={category}>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">{CATEGORY_LABELS[category]}</h3>
+              <ul className="space-y-1">
+                {passes.map((pass) => (
+                  <li key={`${pass.check_key}:${pass.rule}`} className="text-sm">
+                    <span className="text-green-700">{pass.title}</span>
+                    <span className="text-gray-500"> — {pass.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
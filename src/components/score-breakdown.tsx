@@ -0,0 +1,71 @@
+import { getHealthColor } from '@/lib/auditor/scoring';
+import { IssueCategory, ScoreBreakdown as ScoreBreakdownData } from '@/lib/types';
+
+interface ScoreBreakdownProps {
+  breakdown: ScoreBreakdownData;
+}
+
+const CATEGORY_LABELS: Record<IssueCategory, string> = {
+  security: 'Security',
+  performance: 'Performance',
+  plugins: 'Plugins',
+  database: 'Database',
+  seo: 'SEO',
+};
+
+const BAR_COLORS: Record<string, string> = {
+  green: 'bg-green-500',
+  yellow: 'bg-yellow-500',
+  red: 'bg-red-500',
+};
+
+export function ScoreBreakdown({ breakdown }: ScoreBreakdownProps) {
+  const categories = (Object.entries(breakdown.categories) as Array<[IssueCategory, ScoreBreakdownData['categories'][IssueCategory]]>)
+    .sort(([, a], [, b]) => b.weight - a.weight);
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-medium text-gray-700 mb-2">
+        Score breakdown <span className="text-gray-400 font-normal">({breakdown.model} model)</span>
+      </h3>
+      <ul className="space-y-2">
+        {categories.map(([category, score]) => {
+          const deducted = Object.entries(score.deductions)
+            .filter(([, points]) => points > 0)
+            .map(([severity, points]) => {
+              const count = score.issue_counts[severity as keyof typeof score.issue_counts];
+              const capped = score.capped.includes(severity as (typeof score.capped)[number]);
+              return `-${points} for ${count} ${severity}${capped ? ' (capped)' : ''}`;
+            });
+
+          return (
+            <li key={category} className="text-sm">
+              <div className="flex items-center gap-3">
+                <span className="w-28 text-gray-600">
+                  {CATEGORY_LABELS[category] || category}
+                  <span className="text-xs text-gray-400"> ×{Math.round(score.weight * 100)}%</span>
+                </span>
+                {score.evaluated ? (
+                  <>
+                    <div className="flex-1 h-2 bg-gray-100 rounded">
+                      <div
+                        className={`h-2 rounded ${BAR_COLORS[getHealthColor(score.score)]}`}
+                        style={{ width: `${score.score}%` }}
+                      />
+                    </div>
+                    <span className="w-10 text-right font-medium">{score.score}</span>
+                  </>
+                ) : (
+                  <span className="flex-1 text-xs text-gray-400">Not scored (check did not finish)</span>
+                )}
+              </div>
+              {score.evaluated && deducted.length > 0 && (
+                <p className="ml-[7.75rem] text-xs text-gray-500">{deducted.join(', ')}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -10,6 +10,9 @@ export function SiteCard({ site }: SiteCardProps) {
   const lastAuditDate = site.latest_audit_at
     ? new Date(site.latest_audit_at).toLocaleDateString()
     : 'Never';
+  const nextAuditDate = site.next_audit_at
+    ? new Date(site.next_audit_at).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+    : null;
 
   return (
     <Link href={`/sites/${site.id}`}>
@@ -34,9 +37,10 @@ export function SiteCard({ site }: SiteCardProps) {
           <span>Last audit: {lastAuditDate}</span>
         </div>
 
-        {site.client_name && (
-          <div className="mt-2 text-xs text-gray-400">{site.client_name}</div>
-        )}
+        <div className="mt-2 flex justify-between text-xs text-gray-400">
+          <span>{site.client_name}</span>
+          {nextAuditDate && <span>Next audit: {nextAuditDate}</span>}
+        </div>
       </div>
     </Link>
   );
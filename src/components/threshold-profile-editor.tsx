@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { THRESHOLDS, ThresholdOverrides } from '@/lib/constants/thresholds';
+import { ThresholdProfile, ThresholdScope } from '@/lib/types';
+
+// One editable row per threshold value, e.g. database_size_mb.critical
+const THRESHOLD_ROWS = Object.entries(THRESHOLDS).flatMap(([key, value]) =>
+    typeof value === 'number'
+      ? [{ key, level: null as string | null, defaultValue: value }]
+      : Object.entries(value).map(([level, levelValue]) => ({ key, level, defaultValue: levelValue as number }))
+  );
+
+function rowId(row: { key: string; level: string | null }): string {
+  return row.level ? `${row.key}.${row.level}` : row.key;
+}
+
+function toFormValues(overrides: ThresholdOverrides): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(overrides)) {
+    if (typeof value === 'number') {
+      values[key] = String(value);
+    } else if (value) {
+      for (const [level, levelValue] of Object.entries(value)) {
+        values[`${key}.${level}`] = String(levelValue);
+      }
+    }
+  }
+  return values;
+}
+
+function toOverrides(values: Record<string, string>): ThresholdOverrides {
+  const overrides: Record<string, number | Record<string, number>> = {};
+  for (const row of THRESHOLD_ROWS) {
+    const raw = values[rowId(row)];
+    if (raw === undefined || raw.trim() === '') continue;
+    const value = Number(raw);
+    if (row.level) {
+      overrides[row.key] = { ...(overrides[row.key] as Record<string, number>), [row.level]: value };
+    } else {
+      overrides[row.key] = value;
+    }
+  }
+  return overrides as ThresholdOverrides;
+}
+
+interface ThresholdProfileEditorProps {
+  profile: ThresholdProfile & { sites?: { name: string } | null };
+}
+
+export function ThresholdProfileEditor({ profile }: ThresholdProfileEditorProps) {
+  const [values, setValues] = useState(() => toFormValues(profile.overrides));
+  const [saving, setSaving] = useState(false);
+  const router = useRouter();
+
+  const target =
+    profile.scope === 'global'
+      ? 'All sites'
+      : profile.scope === 'client'
+        ? `Client: ${profile.client_name}`
+        : `Site: ${profile.sites?.name || profile.site_id}`;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/threshold-profiles/${profile.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overrides: toOverrides(values) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save profile');
+      }
+      toast.success(`Saved ${profile.name}`);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm(`Delete threshold profile "${profile.name}"?`)) return;
+    const response = await fetch(`/api/threshold-profiles/${profile.id}`, { method: 'DELETE' });
+    if (response.ok) {
+      toast.success(`Deleted ${profile.name}`);
+      router.refresh();
+    } else {
+      toast.error('Failed to delete profile');
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-4">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="font-semibold">{profile.name}</h3>
+          <p className="text-sm text-gray-500">{target}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            onClick={remove}
+            className="px-3 py-1 border border-gray-300 rounded text-sm text-red-600 hover:bg-red-50"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal py-1">Threshold</th>
+            <th className="font-normal py-1">Default</th>
+            <th className="font-normal py-1">Override</th>
+          </tr>
+        </thead>
+        <tbody>
+          {THRESHOLD_ROWS.map((row) => (
+            <tr key={rowId(row)} className="border-t">
+              <td className="py-1 font-mono text-xs">{rowId(row)}</td>
+              <td className="py-1 text-gray-500">{row.defaultValue}</td>
+              <td className="py-1">
+                <input
+                  type="number"
+                  step="any"
+                  value={values[rowId(row)] ?? ''}
+                  placeholder="inherit"
+                  onChange={(e) => setValues({ ...values, [rowId(row)]: e.target.value })}
+                  className="border rounded px-2 py-0.5 w-32"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface NewThresholdProfileFormProps {
+  clients: string[];
+  sites: Array<{ id: string; name: string }>;
+}
+
+export function NewThresholdProfileForm({ clients, sites }: NewThresholdProfileFormProps) {
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ThresholdScope>('client');
+  const [target, setTarget] = useState('');
+  const [saving, setSaving] = useState(false);
+  const router = useRouter();
+
+  const create = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/threshold-profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scope,
+          client_name: scope === 'client' ? target : undefined,
+          site_id: scope === 'site' ? target : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create profile');
+      }
+      toast.success(`Created ${name}`);
+      setName('');
+      setTarget('');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-lg p-4 flex flex-wrap items-end gap-3 text-sm">
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-500">Name</span>
+        <input value={name} onChange={(e) => setName(e.target.value)} className="border rounded px-2 py-1" />
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-gray-500">Applies to</span>
+        <select
+          value={scope}
+          onChange={(e) => {
+            setScope(e.target.value as ThresholdScope);
+            setTarget('');
+          }}
+          className="border rounded px-2 py-1"
+        >
+          <option value="global">All sites</option>
+          <option value="client">Client</option>
+          <option value="site">Site</option>
+        </select>
+      </label>
+      {scope !== 'global' && (
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-500">{scope === 'client' ? 'Client' : 'Site'}</span>
+          <select value={target} onChange={(e) => setTarget(e.target.value)} className="border rounded px-2 py-1">
+            <option value="">Select...</option>
+            {scope === 'client'
+              ? clients.map((client) => <option key={client} value={client}>{client}</option>)
+              : sites.map((site) => <option key={site.id} value={site.id}>{site.name}</option>)}
+          </select>
+        </label>
+      )}
+      <button
+        onClick={create}
+        disabled={saving || !name.trim() || (scope !== 'global' && !target)}
+        className="px-3 py-1.5 bg-gray-900 text-white rounded hover:bg-gray-700 disabled:opacity-50"
+      >
+        Add profile
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { QUEUE_CONFIG } from '@/lib/constants/queue';
+
+export class AuditCancelledError extends Error {
+  constructor(auditId: string) {
+    super(`Audit ${auditId} was cancelled`);
+    this.name = 'AuditCancelledError';
+  }
+}
+
+// Check the audit row now rather than waiting for the next poll
+export async function throwIfCancelled(supabase: ReturnType<typeof createServerClient>, auditId: string): Promise<void> {
+  const { data } = await supabase.from('audits').select('status').eq('id', auditId).single();
+  if (data?.status === 'cancelled') {
+    throw new AuditCancelledError(auditId);
+  }
+}
+
+/**
+ * Poll the audit row and abort `controller` (with an AuditCancelledError)
+ * once someone marks it cancelled. Cancellation is requested through the
+ * database because the audit usually runs in a worker process, not in the
+ * request that cancels it. Returns a function that stops polling.
+ */
+export function watchForCancellation(
+  supabase: ReturnType<typeof createServerClient>,
+  auditId: string,
+  controller: AbortController,
+  intervalMs: number = QUEUE_CONFIG.CANCEL_POLL_INTERVAL_MS
+): () => void {
+  const interval = setInterval(async () => {
+    const { data } = await supabase.from('audits').select('status').eq('id', auditId).single();
+    if (data?.status === 'cancelled' && !controller.signal.aborted) {
+      controller.abort(new AuditCancelledError(auditId));
+    }
+  }, intervalMs);
+  interval.unref();
+
+  return () => clearInterval(interval);
+}
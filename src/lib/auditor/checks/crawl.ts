@@ -1,9 +1,13 @@
 // Screaming Frog crawl audit checks
+import { setTimeout as sleep } from 'timers/promises';
 import { crawlSiteForBackendMetrics, ScreamingFrogResults } from '@/lib/connectors/screaming-frog';
+import { FixtureMissingError } from '@/lib/connectors/fixtures';
 import { getWPEngineAuthConfig } from '@/lib/connectors/screaming-frog-auth';
 import { CheckResult, CrawlAuditData } from '@/lib/types';
-import { THRESHOLDS } from '@/lib/constants/thresholds';
+import type { Thresholds } from '@/lib/constants/thresholds';
 import { getOptimalCrawlSettings, CRAWL_ERROR_HANDLING } from '@/lib/constants/crawl-config';
+import type { AuditContext } from '../context';
+import { registerCheck } from '../registry';
 
 export interface CrawlConfig {
   domain: string;
@@ -16,10 +20,13 @@ export interface CrawlConfig {
   timeout?: number;
 }
 
-export async function runCrawlChecks(config: CrawlConfig): Promise<CheckResult> {
+export async function runCrawlChecks(
+  config: CrawlConfig,
+  { thresholds, logger, signal }: Pick<AuditContext, 'thresholds' | 'logger' | 'signal'>
+): Promise<CheckResult> {
   const issues: CheckResult['issues'] = [];
 
-  console.log(`[Crawl] Starting comprehensive site analysis for ${config.domain}...`);
+  logger.info(`Starting comprehensive site analysis for ${config.domain}...`);
 
   try {
     // Get optimal crawl settings for this site
@@ -37,7 +44,7 @@ export async function runCrawlChecks(config: CrawlConfig): Promise<CheckResult>
       includePageSpeed: config.includePageSpeed ?? optimalSettings.includePageSpeed,
     };
 
-    console.log(`[Crawl] Using settings: ${crawlSettings.maxPages} pages, ${Math.round(crawlSettings.timeout/1000)}s timeout, PageSpeed: ${crawlSettings.includePageSpeed}`);
+    logger.info(`Using settings: ${crawlSettings.maxPages} pages, ${Math.round(crawlSettings.timeout/1000)}s timeout, PageSpeed: ${crawlSettings.includePageSpeed}`);
 
     // Get authentication config if needed
     const authConfig = getWPEngineAuthConfig({
@@ -55,16 +62,18 @@ export async function runCrawlChecks(config: CrawlConfig): Promise<CheckResult>
         crawlResults = await crawlSiteForBackendMetrics(`https://${config.domain}`, {
           ...crawlSettings,
           authConfig: authConfig || undefined,
+          signal,
         });
         break; // Success, exit retry loop
       } catch (error) {
+        signal.throwIfAborted();
         attempts++;
         const errorMessage = error instanceof Error ? error.message : String(error);
         
-        console.log(`[Crawl] Attempt ${attempts} failed: ${errorMessage}`);
+        logger.warn(`Attempt ${attempts} failed: ${errorMessage}`);
         
-        // Check if we should skip retrying
-        const shouldSkip = CRAWL_ERROR_HANDLING.SKIP_CONDITIONS.some(condition => 
+        // Check if we should skip retrying; a replayed bundle has no further crawl to retry with
+        const shouldSkip = error instanceof FixtureMissingError || CRAWL_ERROR_HANDLING.SKIP_CONDITIONS.some(condition => 
           errorMessage.toLowerCase().includes(condition.toLowerCase())
         );
         
@@ -73,12 +82,12 @@ export async function runCrawlChecks(config: CrawlConfig): Promise<CheckResult>
         }
         
         // Wait before retry
-        console.log(`[Crawl] Retrying in ${CRAWL_ERROR_HANDLING.RETRY_DELAY/1000} seconds...`);
-        await new Promise(resolve => setTimeout(resolve, CRAWL_ERROR_HANDLING.RETRY_DELAY));
+        logger.info(`Retrying in ${CRAWL_ERROR_HANDLING.RETRY_DELAY/1000} seconds...`);
+        await sleep(CRAWL_ERROR_HANDLING.RETRY_DELAY, undefined, { signal });
         
         // Use fallback settings for retry
         Object.assign(crawlSettings, CRAWL_ERROR_HANDLING.FALLBACK_SETTINGS);
-        console.log(`[Crawl] Using fallback settings for retry: ${crawlSettings.maxPages} pages`);
+        logger.info(`Using fallback settings for retry: ${crawlSettings.maxPages} pages`);
       }
     }
 
@@ -86,14 +95,16 @@ export async function runCrawlChecks(config: CrawlConfig): Promise<CheckResult>
     const auditData = processCrawlResults(crawlResults!);
     
     // Generate issues based on findings
-    generateCrawlIssues(auditData, issues);
+    generateCrawlIssues(auditData, issues, thresholds);
 
-    console.log(`[Crawl] Completed crawl for ${config.domain} - ${auditData.crawl_summary.total_pages} pages, ${auditData.backend_health.server_errors_5xx} server errors`);
+    logger.info(`Completed crawl for ${config.domain} - ${auditData.crawl_summary.total_pages} pages, ${auditData.backend_health.server_errors_5xx} server errors`);
 
     return { data: auditData, issues };
 
   } catch (error) {
-    console.error(`[Crawl] Failed to crawl ${config.domain}:`, error);
+    // A cancelled audit isn't a failed crawl
+    signal.throwIfAborted();
+    logger.error(`Failed to crawl ${config.domain}:`, error);
     
     // Create minimal data structure for failed crawl
     const failedData: CrawlAuditData = {
@@ -118,6 +129,7 @@ export async function runCrawlChecks(config: CrawlConfig): Promise<CheckResult>
     // Add crawl failure as an issue
     issues.push({
       category: 'performance',
+      rule: 'crawl_failed',
       severity: 'warning',
       title: 'Site crawl failed',
       description: `Could not complete Screaming Frog crawl: ${error instanceof Error ? error.message : String(error)}`,
@@ -190,11 +202,12 @@ function processCrawlResults(results: ScreamingFrogResults): CrawlAuditData {
   };
 }
 
-function generateCrawlIssues(data: CrawlAuditData, issues: CheckResult['issues']): void {
+function generateCrawlIssues(data: CrawlAuditData, issues: CheckResult['issues'], thresholds: Thresholds): void {
   // Check server error rate
   if (data.backend_health.server_errors_5xx > 0) {
     issues.push({
       category: 'performance',
+      rule: 'server_errors',
       severity: data.backend_health.server_errors_5xx > 5 ? 'critical' : 'warning',
       title: `${data.backend_health.server_errors_5xx} server errors detected`,
       description: `Found ${data.backend_health.server_errors_5xx} pages returning 5xx server errors during crawl.`,
@@ -206,10 +219,11 @@ function generateCrawlIssues(data: CrawlAuditData, issues: CheckResult['issues']
   }
 
   // Check error rate
-  if (data.crawl_summary.error_rate_percent > THRESHOLDS.CRAWL_ERROR_RATE_WARNING) {
+  if (data.crawl_summary.error_rate_percent > thresholds.CRAWL_ERROR_RATE_WARNING) {
     issues.push({
       category: 'performance',
-      severity: data.crawl_summary.error_rate_percent > THRESHOLDS.CRAWL_ERROR_RATE_CRITICAL ? 'critical' : 'warning',
+      rule: 'error_rate',
+      severity: data.crawl_summary.error_rate_percent > thresholds.CRAWL_ERROR_RATE_CRITICAL ? 'critical' : 'warning',
       title: `High error rate: ${data.crawl_summary.error_rate_percent}%`,
       description: `${data.crawl_summary.error_rate_percent}% of crawled pages returned errors (4xx/5xx).`,
       recommendation: 'Review and fix broken links, missing pages, and server errors.',
@@ -220,10 +234,11 @@ function generateCrawlIssues(data: CrawlAuditData, issues: CheckResult['issues']
   }
 
   // Check average response time
-  if (data.crawl_summary.avg_response_time_ms > THRESHOLDS.AVG_RESPONSE_TIME_WARNING) {
+  if (data.crawl_summary.avg_response_time_ms > thresholds.AVG_RESPONSE_TIME_WARNING) {
     issues.push({
       category: 'performance',
-      severity: data.crawl_summary.avg_response_time_ms > THRESHOLDS.AVG_RESPONSE_TIME_CRITICAL ? 'critical' : 'warning',
+      rule: 'slow_response_time',
+      severity: data.crawl_summary.avg_response_time_ms > thresholds.AVG_RESPONSE_TIME_CRITICAL ? 'critical' : 'warning',
       title: `Slow average response time: ${Math.round(data.crawl_summary.avg_response_time_ms)}ms`,
       description: `Average page response time is ${Math.round(data.crawl_summary.avg_response_time_ms)}ms, which is slow.`,
       recommendation: 'Optimize server performance, database queries, and caching. Consider CDN optimization.',
@@ -234,10 +249,11 @@ function generateCrawlIssues(data: CrawlAuditData, issues: CheckResult['issues']
   }
 
   // Check slow pages
-  if (data.backend_health.slow_pages_count > THRESHOLDS.SLOW_PAGES_WARNING) {
+  if (data.backend_health.slow_pages_count > thresholds.SLOW_PAGES_WARNING) {
     issues.push({
       category: 'performance',
-      severity: data.backend_health.slow_pages_count > THRESHOLDS.SLOW_PAGES_CRITICAL ? 'critical' : 'warning',
+      rule: 'slow_pages',
+      severity: data.backend_health.slow_pages_count > thresholds.SLOW_PAGES_CRITICAL ? 'critical' : 'warning',
       title: `${data.backend_health.slow_pages_count} slow pages detected`,
       description: `Found ${data.backend_health.slow_pages_count} pages with response times over 3 seconds.`,
       recommendation: 'Optimize slow pages by reducing database queries, optimizing images, and improving caching.',
@@ -248,10 +264,11 @@ function generateCrawlIssues(data: CrawlAuditData, issues: CheckResult['issues']
   }
 
   // Check broken links
-  if (data.backend_health.broken_links_count > THRESHOLDS.BROKEN_LINKS_WARNING) {
+  if (data.backend_health.broken_links_count > thresholds.BROKEN_LINKS_WARNING) {
     issues.push({
       category: 'performance',
-      severity: data.backend_health.broken_links_count > THRESHOLDS.BROKEN_LINKS_CRITICAL ? 'warning' : 'info',
+      rule: 'broken_links',
+      severity: data.backend_health.broken_links_count > thresholds.BROKEN_LINKS_CRITICAL ? 'warning' : 'info',
       title: `${data.backend_health.broken_links_count} broken links found`,
       description: `Found ${data.backend_health.broken_links_count} broken internal or external links.`,
       recommendation: 'Review and fix broken links to improve user experience and SEO.',
@@ -260,4 +277,21 @@ function generateCrawlIssues(data: CrawlAuditData, issues: CheckResult['issues']
       fix_params: {},
     });
   }
-}
\ No newline at end of file
+}
+
+registerCheck({
+  key: 'crawl',
+  label: 'Comprehensive site analysis',
+  category: 'performance',
+  // Crawl timeouts scale with site type and include a retry with fallback settings
+  timeoutMs: 30 * 60 * 1000,
+  estimatedSeconds: 300,
+  run: ({ site, ...context }) =>
+    runCrawlChecks({
+      domain: site.domain,
+      wpengine_install_id: site.wpengine_install_id ?? undefined,
+      wpengine_environment: site.wpengine_environment,
+      is_ecommerce: site.is_ecommerce,
+      page_builder: site.page_builder ?? undefined,
+    }, context),
+});
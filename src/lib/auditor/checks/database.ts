@@ -1,72 +1,37 @@
-import {
-  WPCLIConfig,
-  getDbSize,
-  getAutoloadOptions,
-  getRevisionCount,
-  getTransientCount,
-} from '@/lib/connectors/wpcli';
-import { THRESHOLDS } from '@/lib/constants/thresholds';
-import { CheckResult, DatabaseAuditData } from '@/lib/types';
+import type { Thresholds } from '@/lib/constants/thresholds';
+import { CheckResult, DatabaseAuditData, DetectedPass, WordPressSnapshot } from '@/lib/types';
+import { registerCheck } from '../registry';
 
-export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResult> {
+export async function runDatabaseChecks(wordpress: WordPressSnapshot, thresholds: Thresholds): Promise<CheckResult> {
   const issues: CheckResult['issues'] = [];
+  const passed: DetectedPass[] = [];
+  const { database, counts } = wordpress;
 
-  // Get database size
-  const dbSizeData = await getDbSize(config);
-  const tables = Array.isArray(dbSizeData) ? dbSizeData : [];
-
+  // Database size
   let totalSizeMb = 0;
-  const tableInfo = tables.map((t: { Name: string; Size?: string; Rows?: number; 'Data_length'?: number }) => {
-    let sizeBytes = 0;
-    
-    // Handle WP-CLI format: {"Name": "wp_options", "Size": "9977856 B"}
-    if (t.Size && typeof t.Size === 'string') {
-      const match = t.Size.match(/^(\d+)\s*B$/);
-      if (match) {
-        sizeBytes = parseInt(match[1], 10);
-      }
-    }
-    // Handle alternative format: {"Name": "wp_options", "Data_length": 9977856}
-    else if (t.Data_length) {
-      sizeBytes = t.Data_length;
-    }
-    
-    const sizeMb = sizeBytes / (1024 * 1024);
+  const tableInfo = database.tables.map((t) => {
+    const sizeMb = t.size_bytes / (1024 * 1024);
     totalSizeMb += sizeMb;
-    
+
     return {
-      name: t.Name,
-      rows: t.Rows || 0, // Row count not available from wp db size command
+      name: t.name,
+      rows: t.rows,
       size_mb: Math.round(sizeMb * 100) / 100,
     };
   });
 
-  // Get autoload options
-  const autoloadOptions = await getAutoloadOptions(config);
-  let autoloadSizeBytes = 0;
-  const largeAutoloadOptions: { name: string; size_bytes: number }[] = [];
-
-  for (const opt of autoloadOptions) {
-    const size = opt.value?.length || 0;
-    autoloadSizeBytes += size;
-    if (size > 50000) {
-      largeAutoloadOptions.push({
-        name: opt.option_name,
-        size_bytes: size,
-      });
-    }
-  }
-
-  const autoloadSizeKb = autoloadSizeBytes / 1024;
+  // Autoload options
+  const autoloadSizeKb = database.autoload_bytes / 1024;
+  const largeAutoloadOptions = database.largest_autoload_options.filter((o) => o.size_bytes > 50000);
 
-  // Get counts
-  const revisionCount = await getRevisionCount(config);
-  const transientCount = await getTransientCount(config);
+  const revisionCount = counts.revisions;
+  const transientCount = counts.transients;
 
   // Check autoload size
-  if (autoloadSizeKb >= THRESHOLDS.autoload_size_kb.critical) {
+  if (autoloadSizeKb >= thresholds.autoload_size_kb.critical) {
     issues.push({
       category: 'database',
+      rule: 'autoload_size',
       severity: 'critical',
       title: `Autoload data is ${Math.round(autoloadSizeKb)}KB (critical)`,
       description: `Large autoload options: ${largeAutoloadOptions.map((o) => o.name).join(', ')}`,
@@ -75,9 +40,10 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: null,
       fix_params: {},
     });
-  } else if (autoloadSizeKb >= THRESHOLDS.autoload_size_kb.warning) {
+  } else if (autoloadSizeKb >= thresholds.autoload_size_kb.warning) {
     issues.push({
       category: 'database',
+      rule: 'autoload_size',
       severity: 'warning',
       title: `Autoload data is ${Math.round(autoloadSizeKb)}KB`,
       description: `Consider reviewing autoloaded options.`,
@@ -86,12 +52,20 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'database',
+      rule: 'autoload_size',
+      title: `Autoload data is ${Math.round(autoloadSizeKb)}KB`,
+      description: 'Autoloaded options are below the warning threshold.',
+    });
   }
 
   // Check revisions
-  if (revisionCount >= THRESHOLDS.revision_count.critical) {
+  if (revisionCount >= thresholds.revision_count.critical) {
     issues.push({
       category: 'database',
+      rule: 'revision_count',
       severity: 'critical',
       title: `${revisionCount.toLocaleString()} post revisions`,
       description: 'Excessive revisions are bloating the database.',
@@ -100,9 +74,10 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: 'cleanup_revisions',
       fix_params: {},
     });
-  } else if (revisionCount >= THRESHOLDS.revision_count.warning) {
+  } else if (revisionCount >= thresholds.revision_count.warning) {
     issues.push({
       category: 'database',
+      rule: 'revision_count',
       severity: 'warning',
       title: `${revisionCount.toLocaleString()} post revisions`,
       description: 'Consider cleaning up old revisions.',
@@ -114,9 +89,10 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
   }
 
   // Check transients
-  if (transientCount >= THRESHOLDS.transient_count.critical) {
+  if (transientCount >= thresholds.transient_count.critical) {
     issues.push({
       category: 'database',
+      rule: 'transient_count',
       severity: 'critical',
       title: `${transientCount.toLocaleString()} transients in database`,
       description: 'Excessive transients indicate caching issues.',
@@ -125,9 +101,10 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: 'cleanup_transients',
       fix_params: {},
     });
-  } else if (transientCount >= THRESHOLDS.transient_count.warning) {
+  } else if (transientCount >= thresholds.transient_count.warning) {
     issues.push({
       category: 'database',
+      rule: 'transient_count',
       severity: 'warning',
       title: `${transientCount.toLocaleString()} transients in database`,
       description: 'Consider cleaning up expired transients.',
@@ -139,9 +116,10 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
   }
 
   // Check total database size
-  if (totalSizeMb >= THRESHOLDS.database_size_mb.critical) {
+  if (totalSizeMb >= thresholds.database_size_mb.critical) {
     issues.push({
       category: 'database',
+      rule: 'database_size',
       severity: 'critical',
       title: `Database size is ${Math.round(totalSizeMb)}MB`,
       description: 'Very large database may cause performance issues.',
@@ -150,9 +128,10 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: null,
       fix_params: {},
     });
-  } else if (totalSizeMb >= THRESHOLDS.database_size_mb.warning) {
+  } else if (totalSizeMb >= thresholds.database_size_mb.warning) {
     issues.push({
       category: 'database',
+      rule: 'database_size',
       severity: 'warning',
       title: `Database size is ${Math.round(totalSizeMb)}MB`,
       description: 'Database is larger than typical.',
@@ -161,6 +140,13 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'database',
+      rule: 'database_size',
+      title: `Database size is ${Math.round(totalSizeMb)}MB`,
+      description: 'The database is below the warning threshold.',
+    });
   }
 
   const data: DatabaseAuditData = {
@@ -168,10 +154,19 @@ export async function runDatabaseChecks(config: WPCLIConfig): Promise<CheckResul
     autoload_size_kb: Math.round(autoloadSizeKb * 100) / 100,
     revision_count: revisionCount,
     transient_count: transientCount,
-    spam_comments: 0, // TODO: implement
+    spam_comments: counts.spam_comments,
     tables: tableInfo,
     large_autoload_options: largeAutoloadOptions,
   };
 
-  return { data, issues };
+  return { data, issues, passed };
 }
+
+registerCheck({
+  key: 'database',
+  label: 'Analyzing database',
+  category: 'database',
+  timeoutMs: 4 * 60 * 1000,
+  estimatedSeconds: 5, // Reads the WordPress snapshot
+  run: async ({ connectors, thresholds }) => runDatabaseChecks(await connectors.wordpress(), thresholds),
+});
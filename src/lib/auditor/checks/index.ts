@@ -0,0 +1,10 @@
+// Importing a check module registers it with the audit check registry.
+// Registration order is the default run order (dependencies permitting).
+import './plugins';
+import './themes';
+import './database';
+import './performance';
+import './security';
+import './vulnerabilities';
+import './seo';
+import './crawl';
@@ -1,23 +1,26 @@
 import { getAnalytics, CloudflareAnalytics } from '@/lib/connectors/cloudflare';
-import { getPerformanceInsights } from '@/lib/connectors/wpengine';
-import { WPCLIConfig } from '@/lib/connectors/wpcli';
-import { THRESHOLDS } from '@/lib/constants/thresholds';
-import { CheckResult, PerformanceAuditData } from '@/lib/types';
+import { CheckResult, DetectedPass, PerformanceAuditData } from '@/lib/types';
+import type { AuditContext } from '../context';
+import { registerCheck } from '../registry';
 
-interface PerformanceConfig extends WPCLIConfig {
+interface PerformanceConfig {
   cloudflareZoneId?: string;
   wpengineInstallId?: string;
   domain: string;
 }
 
-export async function runPerformanceChecks(config: PerformanceConfig): Promise<CheckResult> {
+export async function runPerformanceChecks(
+  config: PerformanceConfig,
+  { thresholds, connectors, logger, signal }: Pick<AuditContext, 'thresholds' | 'connectors' | 'logger' | 'signal'>
+): Promise<CheckResult> {
   const issues: CheckResult['issues'] = [];
+  const passed: DetectedPass[] = [];
   const data: PerformanceAuditData = {};
 
   // Cloudflare analytics
   if (config.cloudflareZoneId) {
     try {
-      const cfAnalytics = await getAnalytics(config.cloudflareZoneId, 24);
+      const cfAnalytics = await getAnalytics(config.cloudflareZoneId, 24, signal);
 
       data.cloudflare = {
         requests_24h: cfAnalytics.requests_total,
@@ -37,9 +40,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
 
       // Check Cloudflare edge cache hit ratio (CDN level - different from WPEngine server cache)
       // Note: This measures CDN edge caching, not server-side WordPress cache (WP Rocket, etc.)
-      if (cfAnalytics.cache_hit_ratio < THRESHOLDS.cache_hit_ratio.critical) {
+      if (cfAnalytics.cache_hit_ratio < thresholds.cache_hit_ratio.critical) {
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_cache_hit_ratio',
           severity: 'warning', // Reduced severity since server cache is more important
           title: `Cloudflare CDN cache hit ratio is ${Math.round(cfAnalytics.cache_hit_ratio * 100)}%`,
           description: 'Low CDN edge cache hit ratio. Most requests are going to origin server instead of being served from Cloudflare edge cache.',
@@ -48,9 +52,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
-      } else if (cfAnalytics.cache_hit_ratio < THRESHOLDS.cache_hit_ratio.warning) {
+      } else if (cfAnalytics.cache_hit_ratio < thresholds.cache_hit_ratio.warning) {
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_cache_hit_ratio',
           severity: 'info', // Reduced severity since server cache is more important
           title: `Cloudflare CDN cache hit ratio is ${Math.round(cfAnalytics.cache_hit_ratio * 100)}%`,
           description: 'CDN edge cache hit ratio could be improved to reduce load on origin server.',
@@ -59,12 +64,20 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
+      } else {
+        passed.push({
+          category: 'performance',
+          rule: 'cloudflare_cache_hit_ratio',
+          title: `Cloudflare CDN cache hit ratio is ${Math.round(cfAnalytics.cache_hit_ratio * 100)}%`,
+          description: 'Most requests are served from the Cloudflare edge cache.',
+        });
       }
 
       // Check 5xx errors
-      if (cfAnalytics.status_5xx >= THRESHOLDS.status_5xx_24h.critical) {
+      if (cfAnalytics.status_5xx >= thresholds.status_5xx_24h.critical) {
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_5xx_errors',
           severity: 'critical',
           title: `${cfAnalytics.status_5xx} server errors (5xx) in last 24h`,
           description: 'High number of server errors indicates serious issues.',
@@ -73,9 +86,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
-      } else if (cfAnalytics.status_5xx >= THRESHOLDS.status_5xx_24h.warning) {
+      } else if (cfAnalytics.status_5xx >= thresholds.status_5xx_24h.warning) {
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_5xx_errors',
           severity: 'warning',
           title: `${cfAnalytics.status_5xx} server errors (5xx) in last 24h`,
           description: 'Elevated server errors detected.',
@@ -84,6 +98,13 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
+      } else {
+        passed.push({
+          category: 'performance',
+          rule: 'cloudflare_5xx_errors',
+          title: `${cfAnalytics.status_5xx} server errors (5xx) in last 24h`,
+          description: 'Server errors are below the warning threshold.',
+        });
       }
 
       // Check for threats
@@ -91,6 +112,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       if (threat_rate > 0.01) { // More than 1% threats
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_threats',
           severity: 'warning',
           title: `${cfAnalytics.threats_total} threats blocked in 24h (${Math.round(threat_rate * 100)}% of traffic)`,
           description: 'High level of threats detected and blocked by Cloudflare.',
@@ -102,6 +124,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       } else if (cfAnalytics.threats_total > 100) {
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_threats',
           severity: 'info',
           title: `${cfAnalytics.threats_total} threats blocked in last 24h`,
           description: 'Cloudflare is blocking malicious traffic.',
@@ -117,6 +140,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       if (cfAnalytics.status_4xx > error_4xx_threshold) {
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_4xx_errors',
           severity: 'warning',
           title: `${cfAnalytics.status_4xx} client errors in 24h (${Math.round(cfAnalytics.status_4xx / cfAnalytics.requests_total * 100)}%)`,
           description: 'High number of 4xx client errors detected. This may indicate broken links or missing resources.',
@@ -132,6 +156,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       if (ssl_rate < 0.95) { // Less than 95% SSL
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_ssl_rate',
           severity: 'warning',
           title: `SSL encryption rate is ${Math.round(ssl_rate * 100)}%`,
           description: 'Some requests are not using SSL encryption.',
@@ -140,20 +165,23 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
+      } else {
+        passed.push({
+          category: 'performance',
+          rule: 'cloudflare_ssl_rate',
+          title: `SSL encryption rate is ${Math.round(ssl_rate * 100)}%`,
+          description: 'Nearly all requests use SSL encryption.',
+        });
       }
 
       // Check bandwidth savings from caching
       const bandwidth_savings_rate = cfAnalytics.bandwidth_total_mb > 0 ? cfAnalytics.bandwidth_saved_mb / cfAnalytics.bandwidth_total_mb : 0;
       if (bandwidth_savings_rate > 0.5) {
-        issues.push({
+        passed.push({
           category: 'performance',
-          severity: 'info',
+          rule: 'cloudflare_bandwidth_saved',
           title: `Cloudflare saved ${Math.round(cfAnalytics.bandwidth_saved_mb)}MB bandwidth (${Math.round(bandwidth_savings_rate * 100)}%)`,
           description: 'Good CDN performance - significant bandwidth savings from edge caching.',
-          recommendation: 'CDN is working well. Continue optimizing cache headers for better performance.',
-          auto_fixable: false,
-          fix_action: null,
-          fix_params: {},
         });
       }
 
@@ -162,6 +190,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       if (bot_rate > 0.3) { // More than 30% bot traffic
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_bot_traffic',
           severity: 'warning',
           title: `${cfAnalytics.bot_requests} bot requests in 24h (${Math.round(bot_rate * 100)}% of traffic)`,
           description: 'High level of bot traffic detected. This may impact server performance.',
@@ -173,6 +202,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       } else if (bot_rate > 0.1) { // More than 10% bot traffic
         issues.push({
           category: 'performance',
+          rule: 'cloudflare_bot_traffic',
           severity: 'info',
           title: `${cfAnalytics.bot_requests} bot requests in 24h (${Math.round(bot_rate * 100)}% of traffic)`,
           description: 'Moderate bot traffic detected.',
@@ -191,6 +221,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
         if (topCountryRate > 0.8) { // More than 80% from one country
           issues.push({
             category: 'performance',
+            rule: 'traffic_concentration',
             severity: 'info',
             title: `${Math.round(topCountryRate * 100)}% of traffic from ${topCountry.country}`,
             description: 'Traffic is highly concentrated in one geographic region.',
@@ -201,15 +232,11 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           });
         } else {
           const countries = cfAnalytics.countries_top.slice(0, 3).map(c => c.country).join(', ');
-          issues.push({
+          passed.push({
             category: 'performance',
-            severity: 'info',
+            rule: 'traffic_countries',
             title: `Global traffic from ${cfAnalytics.countries_top.length} countries`,
             description: `Top traffic sources: ${countries}. Good geographic distribution.`,
-            recommendation: 'Monitor regional performance and consider geo-specific optimizations if needed.',
-            auto_fixable: false,
-            fix_action: null,
-            fix_params: {},
           });
         }
       }
@@ -227,6 +254,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           const oldTLSRate = tls10_11_requests / totalSSLRequests;
           issues.push({
             category: 'performance',
+            rule: 'outdated_tls',
             severity: 'warning',
             title: `${tls10_11_requests} requests using outdated TLS 1.0/1.1 (${Math.round(oldTLSRate * 100)}%)`,
             description: 'Some clients are using outdated TLS versions with security vulnerabilities.',
@@ -242,20 +270,17 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
         if (tls13_requests > 0) {
           const tls13Rate = tls13_requests / totalSSLRequests;
           if (tls13Rate > 0.5) {
-            issues.push({
+            passed.push({
               category: 'performance',
-              severity: 'info',
+              rule: 'tls13_adoption',
               title: `${Math.round(tls13Rate * 100)}% of SSL traffic using TLS 1.3`,
               description: 'Excellent SSL security - high adoption of modern TLS 1.3 protocol.',
-              recommendation: 'TLS configuration is optimal. Continue monitoring for security best practices.',
-              auto_fixable: false,
-              fix_action: null,
-              fix_params: {},
             });
           }
         }
       }
     } catch (error) {
+      signal.throwIfAborted();
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       // Determine severity based on error type
@@ -277,6 +302,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       
       issues.push({
         category: 'performance',
+        rule: 'cloudflare_unavailable',
         severity,
         title: 'Could not fetch Cloudflare analytics',
         description: `Cloudflare API error: ${errorMessage}`,
@@ -286,12 +312,13 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
         fix_params: {},
       });
       
-      console.log(`[Performance] Cloudflare analytics failed: ${errorMessage}`);
+      logger.warn(`Cloudflare analytics failed: ${errorMessage}`);
     }
   } else {
     // No Cloudflare zone ID configured
     issues.push({
       category: 'performance',
+      rule: 'cloudflare_not_configured',
       severity: 'info',
       title: 'Cloudflare not configured',
       description: 'No Cloudflare zone ID is set for this site.',
@@ -318,9 +345,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       };
 
       // Check WPEngine server cache hit ratio (more important than CDN cache)
-      if (wpeInsights.cache_hit_ratio < THRESHOLDS.cache_hit_ratio.critical) {
+      if (wpeInsights.cache_hit_ratio < thresholds.cache_hit_ratio.critical) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_cache_hit_ratio',
           severity: 'critical',
           title: `WPEngine server cache hit ratio is ${Math.round(wpeInsights.cache_hit_ratio * 100)}%`,
           description: 'Very low server-side cache hit ratio. Most requests are generating pages instead of serving from cache.',
@@ -329,9 +357,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
-      } else if (wpeInsights.cache_hit_ratio < THRESHOLDS.cache_hit_ratio.warning) {
+      } else if (wpeInsights.cache_hit_ratio < thresholds.cache_hit_ratio.warning) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_cache_hit_ratio',
           severity: 'warning',
           title: `WPEngine server cache hit ratio is ${Math.round(wpeInsights.cache_hit_ratio * 100)}%`,
           description: 'Server cache hit ratio could be improved to reduce server load and improve performance.',
@@ -343,9 +372,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       }
 
       // Check error rate
-      if (wpeInsights.error_rate > THRESHOLDS.error_rate.critical) {
+      if (wpeInsights.error_rate > thresholds.error_rate.critical) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_error_rate',
           severity: 'critical',
           title: `High error rate: ${Math.round(wpeInsights.error_rate * 100)}%`,
           description: 'Site is experiencing a high rate of errors.',
@@ -354,9 +384,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
-      } else if (wpeInsights.error_rate > THRESHOLDS.error_rate.warning) {
+      } else if (wpeInsights.error_rate > thresholds.error_rate.warning) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_error_rate',
           severity: 'warning',
           title: `Error rate: ${Math.round(wpeInsights.error_rate * 100)}%`,
           description: 'Site is experiencing some errors.',
@@ -368,9 +399,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       }
 
       // Check average latency
-      if (wpeInsights.average_latency_ms > THRESHOLDS.average_latency_ms.critical) {
+      if (wpeInsights.average_latency_ms > thresholds.average_latency_ms.critical) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_latency',
           severity: 'critical',
           title: `Very high average latency: ${wpeInsights.average_latency_ms}ms`,
           description: 'Site response times are critically slow.',
@@ -379,9 +411,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
-      } else if (wpeInsights.average_latency_ms > THRESHOLDS.average_latency_ms.warning) {
+      } else if (wpeInsights.average_latency_ms > thresholds.average_latency_ms.warning) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_latency',
           severity: 'warning',
           title: `High average latency: ${wpeInsights.average_latency_ms}ms`,
           description: 'Site response times are higher than ideal.',
@@ -393,9 +426,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       }
 
       // Check slow pages count
-      if (wpeInsights.slow_pages_count > THRESHOLDS.slow_pages_count.critical) {
+      if (wpeInsights.slow_pages_count > thresholds.slow_pages_count.critical) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_slow_pages',
           severity: 'critical',
           title: `${wpeInsights.slow_pages_count} slow pages detected`,
           description: 'Many pages are loading slowly, significantly impacting user experience.',
@@ -404,9 +438,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
           fix_action: null,
           fix_params: {},
         });
-      } else if (wpeInsights.slow_pages_count > THRESHOLDS.slow_pages_count.warning) {
+      } else if (wpeInsights.slow_pages_count > thresholds.slow_pages_count.warning) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_slow_pages',
           severity: 'warning',
           title: `${wpeInsights.slow_pages_count} slow pages detected`,
           description: 'Multiple pages are loading slowly, which impacts user experience.',
@@ -418,6 +453,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       } else if (wpeInsights.slow_pages_count > 0) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_slow_pages',
           severity: 'info',
           title: `${wpeInsights.slow_pages_count} slow page(s) detected`,
           description: 'Some pages are loading slowly.',
@@ -432,6 +468,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       if (wpeInsights.page_requests_peak_hour > 10000) {
         issues.push({
           category: 'performance',
+          rule: 'wpengine_peak_traffic',
           severity: 'info',
           title: `High peak traffic: ${wpeInsights.page_requests_peak_hour.toLocaleString()} requests/hour`,
           description: 'Site experiences high traffic during peak hours.',
@@ -449,6 +486,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       // Add informational note about WPEngine cache monitoring
       issues.push({
         category: 'performance',
+        rule: 'wpengine_insights_unavailable',
         severity: 'info',
         title: 'WPEngine Performance Insights unavailable',
         description: errorMessage,
@@ -462,6 +500,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
     // No WPEngine install ID configured
     issues.push({
       category: 'performance',
+      rule: 'wpengine_insights_not_configured',
       severity: 'info',
       title: 'WPEngine Performance Insights not configured',
       description: 'No WPEngine install ID is set for this site.',
@@ -475,18 +514,15 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
 
   // Basic response time check
   try {
-    const startTime = Date.now();
-    const response = await fetch(`https://${config.domain}`, {
-      method: 'HEAD',
-      cache: 'no-store',
-    });
-    const responseTime = Date.now() - startTime;
+    const homepage = await connectors.fetchPage();
+    const responseTime = homepage.elapsed_ms;
 
     data.response_time_ms = responseTime;
 
     if (responseTime > 3000) {
       issues.push({
         category: 'performance',
+        rule: 'response_time',
         severity: 'critical',
         title: `Slow response time: ${responseTime}ms`,
         description: 'Site is responding very slowly.',
@@ -498,6 +534,7 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
     } else if (responseTime > 1500) {
       issues.push({
         category: 'performance',
+        rule: 'response_time',
         severity: 'warning',
         title: `Response time: ${responseTime}ms`,
         description: 'Site response time is higher than ideal.',
@@ -508,8 +545,10 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
       });
     }
   } catch (error) {
+    signal.throwIfAborted();
     issues.push({
       category: 'performance',
+      rule: 'site_unreachable',
       severity: 'critical',
       title: 'Site unreachable',
       description: `Could not connect to ${config.domain}: ${error}`,
@@ -520,5 +559,19 @@ export async function runPerformanceChecks(config: PerformanceConfig): Promise<C
     });
   }
 
-  return { data, issues };
+  return { data, issues, passed };
 }
+
+registerCheck({
+  key: 'performance',
+  label: 'Testing performance',
+  category: 'performance',
+  timeoutMs: 3 * 60 * 1000,
+  estimatedSeconds: 45,
+  run: ({ site, ...context }) =>
+    runPerformanceChecks({
+      cloudflareZoneId: site.cloudflare_zone_id || undefined,
+      wpengineInstallId: site.wpengine_install_id || undefined,
+      domain: site.domain,
+    }, context),
+});
@@ -1,20 +1,38 @@
-import { WPCLIConfig, getPluginList } from '@/lib/connectors/wpcli';
-import { STANDARD_PLUGINS, PROBLEMATIC_PLUGINS, REQUIRED_PLUGINS } from '@/lib/constants/plugins';
-import { THRESHOLDS } from '@/lib/constants/thresholds';
-import { CheckResult, PluginAuditData } from '@/lib/types';
+import type { Thresholds } from '@/lib/constants/thresholds';
+import { getHostingProvider } from '@/lib/hosting';
+import {
+  AcceptedSystemPluginHashes,
+  diffSystemPlugins,
+  getModifiedSystemPluginSubject,
+} from '@/lib/inventory/system-plugins';
+import { describePolicyVersions, evaluatePluginPolicies } from '@/lib/plugin-policies';
+import { CheckResult, DetectedPass, PluginAuditData, PluginPolicy, WordPressSnapshot } from '@/lib/types';
+import { registerCheck } from '../registry';
 
-export async function runPluginChecks(config: WPCLIConfig): Promise<CheckResult> {
-  const plugins = await getPluginList(config);
+export async function runPluginChecks(
+  plugins: WordPressSnapshot['plugins'],
+  thresholds: Thresholds,
+  policies: PluginPolicy[],
+  // The previous audit's plugin data, the must-use plugins the host installs
+  // and the must-use plugin and drop-in hashes that have been accepted
+  baseline: {
+    previous: PluginAuditData | null | undefined;
+    providedFiles: string[];
+    acceptedHashes?: AcceptedSystemPluginHashes;
+  }
+): Promise<CheckResult> {
   const issues: CheckResult['issues'] = [];
+  const passed: DetectedPass[] = [];
 
   const active = plugins.filter((p) => p.status === 'active');
   const inactive = plugins.filter((p) => p.status === 'inactive');
   const needsUpdate = plugins.filter((p) => p.update === 'available');
 
   // Check for inactive plugins
-  if (inactive.length >= THRESHOLDS.inactive_plugins.critical) {
+  if (inactive.length >= thresholds.inactive_plugins.critical) {
     issues.push({
       category: 'plugins',
+      rule: 'inactive_plugins',
       severity: 'critical',
       title: `${inactive.length} inactive plugins installed`,
       description: `Inactive plugins: ${inactive.map((p) => p.name).join(', ')}`,
@@ -23,9 +41,10 @@ export async function runPluginChecks(config: WPCLIConfig): Promise<CheckResult>
       fix_action: 'remove_inactive_plugins',
       fix_params: { plugins: inactive.map((p) => p.name) },
     });
-  } else if (inactive.length >= THRESHOLDS.inactive_plugins.warning) {
+  } else if (inactive.length >= thresholds.inactive_plugins.warning) {
     issues.push({
       category: 'plugins',
+      rule: 'inactive_plugins',
       severity: 'warning',
       title: `${inactive.length} inactive plugins installed`,
       description: `Inactive plugins: ${inactive.map((p) => p.name).join(', ')}`,
@@ -34,12 +53,20 @@ export async function runPluginChecks(config: WPCLIConfig): Promise<CheckResult>
       fix_action: 'remove_inactive_plugins',
       fix_params: { plugins: inactive.map((p) => p.name) },
     });
+  } else {
+    passed.push({
+      category: 'plugins',
+      rule: 'inactive_plugins',
+      title: inactive.length === 0 ? 'No inactive plugins' : `Only ${inactive.length} inactive plugin(s)`,
+      description: 'Inactive plugins are below the warning threshold.',
+    });
   }
 
   // Check for outdated plugins
-  if (needsUpdate.length >= THRESHOLDS.outdated_plugins.critical) {
+  if (needsUpdate.length >= thresholds.outdated_plugins.critical) {
     issues.push({
       category: 'plugins',
+      rule: 'outdated_plugins',
       severity: 'critical',
       title: `${needsUpdate.length} plugins need updates`,
       description: `Outdated: ${needsUpdate.map((p) => `${p.name} (${p.version} → ${p.update_version})`).join(', ')}`,
@@ -48,9 +75,10 @@ export async function runPluginChecks(config: WPCLIConfig): Promise<CheckResult>
       fix_action: 'update_plugins_staging',
       fix_params: { plugins: needsUpdate.map((p) => p.name) },
     });
-  } else if (needsUpdate.length >= THRESHOLDS.outdated_plugins.warning) {
+  } else if (needsUpdate.length >= thresholds.outdated_plugins.warning) {
     issues.push({
       category: 'plugins',
+      rule: 'outdated_plugins',
       severity: 'warning',
       title: `${needsUpdate.length} plugins need updates`,
       description: `Outdated: ${needsUpdate.map((p) => p.name).join(', ')}`,
@@ -59,102 +87,92 @@ export async function runPluginChecks(config: WPCLIConfig): Promise<CheckResult>
       fix_action: 'update_plugins_staging',
       fix_params: { plugins: needsUpdate.map((p) => p.name) },
     });
+  } else {
+    passed.push({
+      category: 'plugins',
+      rule: 'outdated_plugins',
+      title: needsUpdate.length === 0 ? 'All plugins are up to date' : `Only ${needsUpdate.length} plugin update(s) pending`,
+      description: 'Pending plugin updates are below the warning threshold.',
+    });
   }
 
-  // Check for missing required plugins
-  for (const required of REQUIRED_PLUGINS) {
-    // More flexible matching for plugin names
-    const found = active.find((p) => {
-      // Exact match first
-      if (p.name === required) return true;
-      
-      // Handle SEOPress variations
-      if (required === 'seopress') {
-        return p.name === 'wp-seopress' || 
-               p.name === 'seopress-pro' || 
-               p.name === 'wp-seopress-pro' ||
-               p.name.includes('seopress');
-      }
-      
-      // Handle WP Mail SMTP variations
-      if (required === 'wp-mail-smtp') {
-        return p.name === 'wp-mail-smtp' || 
-               p.name === 'wp-mail-smtp-pro' ||
-               p.name === 'wp-smtp' ||
-               p.name.includes('mail-smtp');
-      }
-      
-      // Handle Gravity Forms variations
-      if (required === 'gravityforms') {
-        return p.name === 'gravityforms' || 
-               p.name === 'gravity-forms' ||
-               p.name.includes('gravityforms');
-      }
-      
-      // Handle WP Rocket variations
-      if (required === 'wp-rocket') {
-        return p.name === 'wp-rocket' || p.name.includes('rocket');
-      }
-      
-      // Handle Really Simple Security variations
-      if (required === 'really-simple-security') {
-        return p.name === 'really-simple-security' || 
-               p.name === 'really-simple-ssl' ||  // Legacy name
-               p.name === 'ssl-insecure-content-fixer' ||
-               p.name.includes('simple-security') ||
-               p.name.includes('simple-ssl');
-      }
-      
-      return false;
-    });
-    
-    if (!found) {
-      issues.push({
-        category: 'plugins',
-        severity: 'warning',
-        title: `Required plugin missing: ${required}`,
-        description: `The plugin ${required} is part of the standard stack but is not active.`,
-        recommendation: `Install and activate ${required}.`,
-        auto_fixable: false,
-        fix_action: null,
-        fix_params: {},
-      });
-    }
+  // Check the site's plugin policies (required, recommended, banned, replaced)
+  const evaluation = evaluatePluginPolicies(plugins, policies);
+
+  for (const policy of evaluation.missing) {
+    const required = policy.rule === 'required';
+    issues.push({
+      category: 'plugins',
+      rule: required ? 'required_plugin_missing' : 'recommended_plugin_missing',
+      subject: policy.slug,
+      severity: required ? 'warning' : 'info',
+      title: `${required ? 'Required' : 'Recommended'} plugin missing: ${policy.slug}`,
+      description: required
+        ? `The plugin ${policy.slug} is part of the standard stack but is not active.`
+        : `The plugin ${policy.slug} is recommended for this site but is not active.`,
+      recommendation: `Install and activate ${policy.slug}.`,
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
   }
 
-  // Check for problematic plugins
-  for (const problematic of PROBLEMATIC_PLUGINS) {
-    const found = active.find((p) => {
-      // Exact match first
-      if (p.name === problematic.slug) return true;
-      
-      // Check for common variations
-      if (problematic.slug === 'wordpress-seo') {
-        return p.name === 'wordpress-seo' || p.name === 'yoast-seo';
-      }
-      
-      return false;
-    });
-    
-    if (found) {
-      issues.push({
-        category: 'plugins',
-        severity: 'warning',
-        title: `Problematic plugin active: ${found.name}`,
-        description: problematic.reason,
-        recommendation: `Consider replacing or removing ${found.name}.`,
-        auto_fixable: false,
-        fix_action: null,
-        fix_params: {},
-      });
-    }
+  for (const { policy, plugin } of evaluation.outside_version) {
+    issues.push({
+      category: 'plugins',
+      rule: 'plugin_version_policy',
+      subject: policy.slug,
+      severity: policy.rule === 'required' ? 'warning' : 'info',
+      title: `${plugin.name} ${plugin.version} is outside the supported versions`,
+      description: `Policy for ${policy.slug} allows ${describePolicyVersions(policy)}.`,
+      recommendation: `Move ${plugin.name} to a supported version.`,
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  }
+
+  for (const { policy, plugin } of evaluation.violations) {
+    issues.push({
+      category: 'plugins',
+      rule: 'problematic_plugin_active',
+      subject: policy.slug,
+      severity: 'warning',
+      title: `Problematic plugin active: ${plugin.name}`,
+      description: policy.reason || `${policy.slug} is not allowed on this site.`,
+      recommendation: policy.replacement
+        ? `Replace ${plugin.name} with ${policy.replacement}.`
+        : `Consider replacing or removing ${plugin.name}.`,
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  }
+
+  const requiredCount = policies.filter((policy) => policy.rule === 'required').length;
+  if (requiredCount > 0 && !evaluation.missing.some((policy) => policy.rule === 'required')) {
+    passed.push({
+      category: 'plugins',
+      rule: 'required_plugin_missing',
+      title: `All ${requiredCount} required plugins are active`,
+      description: 'Every plugin the site\'s policies require is active.',
+    });
+  }
+  if (policies.some((policy) => policy.rule === 'banned' || policy.rule === 'replaced_by') && evaluation.violations.length === 0) {
+    passed.push({
+      category: 'plugins',
+      rule: 'problematic_plugin_active',
+      title: 'No banned plugins active',
+      description: 'None of the plugins the site\'s policies ban or replace are active.',
+    });
   }
 
   // Check for non-standard plugins (info only)
-  const nonStandard = active.filter((p) => !STANDARD_PLUGINS.includes(p.name));
+  const nonStandard = evaluation.unlisted;
   if (nonStandard.length > 5) {
     issues.push({
       category: 'plugins',
+      rule: 'non_standard_plugins',
       severity: 'info',
       title: `${nonStandard.length} non-standard plugins`,
       description: `Custom plugins: ${nonStandard.map((p) => p.name).join(', ')}`,
@@ -165,6 +183,73 @@ export async function runPluginChecks(config: WPCLIConfig): Promise<CheckResult>
     });
   }
 
+  // Check must-use plugins and drop-ins: they run without being activated, so
+  // any the host didn't install, or that changed, need a look
+  const systemPlugins = diffSystemPlugins(plugins, baseline.previous, baseline.providedFiles, baseline.acceptedHashes);
+  const systemFiles = new Map(plugins.filter((p) => p.file).map((p) => [p.file!, p]));
+
+  for (const file of systemPlugins.unexpected) {
+    const plugin = systemFiles.get(file)!;
+    const kind = plugin.status === 'dropin' ? 'drop-in' : 'must-use plugin';
+    issues.push({
+      category: 'security',
+      rule: 'unexpected_system_plugin',
+      subject: file,
+      severity: 'critical',
+      title: systemPlugins.added.includes(file)
+        ? `New ${kind} since the last audit: ${file}`
+        : `Unrecognized ${kind}: ${file}`,
+      description:
+        `${plugin.title || plugin.name}${plugin.version ? ` ${plugin.version}` : ''} ` +
+        `(SHA-256 ${plugin.sha256 || 'unreadable'}) was not installed by the host.`,
+      recommendation:
+        'Confirm where it came from (caching plugins write advanced-cache.php, for example) and accept this issue ' +
+        'if it is legitimate. Otherwise remove it and check the site for compromise.',
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  }
+
+  for (const file of systemPlugins.modified) {
+    const plugin = systemFiles.get(file)!;
+    issues.push({
+      category: 'security',
+      rule: 'system_plugin_modified',
+      subject: getModifiedSystemPluginSubject(file, plugin.sha256!),
+      severity: 'critical',
+      title: `${file} has changed`,
+      description:
+        `The ${plugin.status === 'dropin' ? 'drop-in' : 'must-use plugin'} now has SHA-256 ${plugin.sha256}, ` +
+        'which has not been accepted.',
+      recommendation:
+        'Confirm the change was a plugin or hosting platform update and accept this issue. ' +
+        'Otherwise restore the file and check the site for compromise.',
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  }
+
+  if (systemPlugins.unexpected.length === 0) {
+    passed.push({
+      category: 'security',
+      rule: 'unexpected_system_plugin',
+      title: 'No unexpected must-use plugins or drop-ins',
+      description: systemFiles.size > 0
+        ? `All ${systemFiles.size} must-use plugins and drop-ins were installed by the host.`
+        : 'The site has no must-use plugins or drop-ins.',
+    });
+  }
+  if (systemPlugins.compared_to_previous && systemPlugins.modified.length === 0) {
+    passed.push({
+      category: 'security',
+      rule: 'system_plugin_modified',
+      title: 'Must-use plugins and drop-ins unchanged',
+      description: 'Every must-use plugin and drop-in matches its accepted or first seen hash.',
+    });
+  }
+
   const data: PluginAuditData = {
     total: plugins.length,
     active: active.length,
@@ -172,12 +257,28 @@ export async function runPluginChecks(config: WPCLIConfig): Promise<CheckResult>
     needs_update: needsUpdate.length,
     plugins: plugins.map((p) => ({
       name: p.name,
-      status: p.status as 'active' | 'inactive',
+      status: p.status,
       version: p.version,
-      update_version: p.update_version,
+      update_version: p.update_version ?? undefined,
       title: p.title,
+      ...(p.file ? { file: p.file, sha256: p.sha256 ?? null } : {}),
     })),
+    system_plugins: systemPlugins,
   };
 
-  return { data, issues };
+  return { data, issues, passed };
 }
+
+registerCheck({
+  key: 'plugins',
+  label: 'Checking plugins',
+  category: 'plugins',
+  timeoutMs: 4 * 60 * 1000,
+  estimatedSeconds: 60, // Usually the first to collect the WordPress snapshot
+  run: async ({ site, connectors, thresholds, pluginPolicies, previousResults, systemPluginHashes }) =>
+    runPluginChecks(await connectors.getPluginList(), thresholds, pluginPolicies, {
+      previous: previousResults?.plugins,
+      providedFiles: getHostingProvider(site).providedFiles,
+      acceptedHashes: systemPluginHashes,
+    }),
+});
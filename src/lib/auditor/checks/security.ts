@@ -1,19 +1,18 @@
-import {
-  WPCLIConfig,
-  getCoreVersion,
-  checkCoreUpdates,
-  verifyChecksums,
-  getUserList,
-  getOption,
-  getPluginList,
-} from '@/lib/connectors/wpcli';
-import { CheckResult, SecurityAuditData } from '@/lib/types';
-
-export async function runSecurityChecks(config: WPCLIConfig): Promise<CheckResult> {
+import { WPCLIConfig, verifyChecksums } from '@/lib/connectors/wpcli';
+import { getWPCLIConfig } from '@/lib/hosting';
+import { CheckResult, DetectedPass, SecurityAuditData, WordPressSnapshot } from '@/lib/types';
+import { registerCheck } from '../registry';
+
+export async function runSecurityChecks(
+  config: WPCLIConfig,
+  wordpress: WordPressSnapshot,
+  signal?: AbortSignal
+): Promise<CheckResult> {
   const issues: CheckResult['issues'] = [];
+  const passed: DetectedPass[] = [];
 
   // Check for security plugin (Really Simple Security is the standard)
-  const plugins = await getPluginList(config);
+  const plugins = wordpress.plugins;
   const standardSecurityPlugins = ['really-simple-ssl'];
   const otherSecurityPlugins = ['wordfence', 'sucuri-scanner', 'ithemes-security-pro', 'all-in-one-wp-security-and-firewall'];
 
@@ -27,6 +26,7 @@ export async function runSecurityChecks(config: WPCLIConfig): Promise<CheckResul
   if (!activeStandardSecurity && !activeOtherSecurity) {
     issues.push({
       category: 'security',
+      rule: 'no_security_plugin',
       severity: 'warning',
       title: 'No security plugin detected',
       description: 'No security plugin is active.',
@@ -38,6 +38,8 @@ export async function runSecurityChecks(config: WPCLIConfig): Promise<CheckResul
   } else if (!activeStandardSecurity && activeOtherSecurity) {
     issues.push({
       category: 'security',
+      rule: 'non_standard_security_plugin',
+      subject: activeOtherSecurity.name,
       severity: 'info',
       title: `Non-standard security plugin: ${activeOtherSecurity.name}`,
       description: 'Site is using a different security plugin than the standard (Really Simple Security).',
@@ -46,19 +48,25 @@ export async function runSecurityChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: null,
       fix_params: {},
     });
+  } else if (activeStandardSecurity) {
+    passed.push({
+      category: 'security',
+      rule: 'no_security_plugin',
+      title: `Standard security plugin active: ${activeStandardSecurity.name}`,
+      description: 'The site uses Really Simple Security, the standard security plugin.',
+    });
   }
 
-  // Get WordPress version
-  const wpVersion = await getCoreVersion(config);
-
   // Check for core updates
-  const coreUpdates = await checkCoreUpdates(config);
-  const wpUpdateAvailable = Array.isArray(coreUpdates) && coreUpdates.length > 0;
+  const wpVersion = wordpress.core.version;
+  const coreUpdates = wordpress.core.updates;
+  const wpUpdateAvailable = coreUpdates.length > 0;
 
   if (wpUpdateAvailable) {
     const latestVersion = coreUpdates[0]?.version;
     issues.push({
       category: 'security',
+      rule: 'core_update_available',
       severity: 'critical',
       title: `WordPress core update available (${wpVersion} → ${latestVersion})`,
       description: 'Running outdated WordPress core is a security risk.',
@@ -67,13 +75,21 @@ export async function runSecurityChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'security',
+      rule: 'core_update_available',
+      title: `WordPress core is up to date (${wpVersion})`,
+      description: 'No WordPress core updates are pending.',
+    });
   }
 
-  // Verify checksums
-  const checksumResult = await verifyChecksums(config);
+  // Verify checksums (a separate WP-CLI run; it reads every core file)
+  const checksumResult = await verifyChecksums(config, signal);
   if (!checksumResult.valid) {
     issues.push({
       category: 'security',
+      rule: 'core_checksums_failed',
       severity: 'critical',
       title: 'WordPress core file integrity check failed',
       description: `Modified or missing files detected: ${checksumResult.errors.join(', ')}`,
@@ -82,32 +98,48 @@ export async function runSecurityChecks(config: WPCLIConfig): Promise<CheckResul
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'security',
+      rule: 'core_checksums_failed',
+      title: 'WordPress core files verified',
+      description: 'Every core file matches the official checksums.',
+    });
   }
 
   // Check admin users
-  const adminUsers = await getUserList(config, 'administrator');
+  const adminUsers = wordpress.administrators;
 
   const weakUsernames = ['admin', 'administrator', 'root', 'user', 'test'];
-  const suspiciousAdmins = adminUsers.filter((u: { user_login: string }) =>
+  const suspiciousAdmins = adminUsers.filter((u) =>
     weakUsernames.includes(u.user_login.toLowerCase())
   );
 
   if (suspiciousAdmins.length > 0) {
     issues.push({
       category: 'security',
+      rule: 'weak_admin_username',
       severity: 'warning',
-      title: `Weak admin username detected: ${suspiciousAdmins.map((u: { user_login: string }) => u.user_login).join(', ')}`,
+      title: `Weak admin username detected: ${suspiciousAdmins.map((u) => u.user_login).join(', ')}`,
       description: 'Common usernames are targets for brute force attacks.',
       recommendation: 'Create new admin account with unique username and remove weak ones.',
       auto_fixable: false,
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'security',
+      rule: 'weak_admin_username',
+      title: 'No weak admin usernames',
+      description: 'No administrator uses a commonly guessed username.',
+    });
   }
 
   if (adminUsers.length > 5) {
     issues.push({
       category: 'security',
+      rule: 'admin_count',
       severity: 'info',
       title: `${adminUsers.length} administrator accounts`,
       description: 'Consider if all admin accounts are necessary.',
@@ -118,43 +150,55 @@ export async function runSecurityChecks(config: WPCLIConfig): Promise<CheckResul
     });
   }
 
-  // Check debug mode (try to detect if enabled)
-  let debugMode = false;
-  try {
-    const debugOption = await getOption(config, 'wp_debug_mode');
-    debugMode = debugOption === '1' || debugOption === 'true';
-  } catch {
-    // Option may not exist
-  }
+  // Check debug mode
+  const debugMode = wordpress.constants.wp_debug;
 
   if (debugMode) {
     issues.push({
       category: 'security',
+      rule: 'debug_mode',
       severity: 'warning',
-      title: 'Debug mode may be enabled',
+      title: 'Debug mode is enabled',
       description: 'Debug mode can expose sensitive information.',
       recommendation: 'Ensure WP_DEBUG is false in production.',
       auto_fixable: false,
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'security',
+      rule: 'debug_mode',
+      title: 'Debug mode is off',
+      description: 'WP_DEBUG is disabled in production.',
+    });
   }
 
   const data: SecurityAuditData = {
     wp_version: wpVersion,
     wp_update_available: wpUpdateAvailable,
-    php_version: '', // Would need WPEngine API
+    php_version: wordpress.php.version,
     ssl_valid: true, // Assumed on WPEngine
     xmlrpc_enabled: true, // Would need HTTP check
     debug_mode: debugMode,
-    file_editing_disabled: true, // Assumed on WPEngine
-    admin_users: adminUsers.map((u: { ID: number; user_login: string; user_email: string; display_name: string }) => ({
-      id: u.ID,
+    file_editing_disabled: wordpress.constants.disallow_file_edit || wordpress.constants.disallow_file_mods,
+    admin_users: adminUsers.map((u) => ({
+      id: u.id,
       username: u.user_login,
       email: u.user_email,
       display_name: u.display_name,
     })),
   };
 
-  return { data, issues };
+  return { data, issues, passed };
 }
+
+registerCheck({
+  key: 'security',
+  label: 'Security scan',
+  category: 'security',
+  timeoutMs: 8 * 60 * 1000,
+  estimatedSeconds: 90, // Checksum verification is slow
+  run: async ({ site, connectors, signal }) =>
+    runSecurityChecks(getWPCLIConfig(site), await connectors.wordpress(), signal),
+});
@@ -1,17 +1,15 @@
-import { WPCLIConfig, getPluginList } from '@/lib/connectors/wpcli';
-import { CheckResult, SEOAuditData } from '@/lib/types';
+import { CheckResult, DetectedPass, SEOAuditData } from '@/lib/types';
+import type { AuditConnectors } from '../context';
+import { registerCheck } from '../registry';
 
-interface SEOConfig extends WPCLIConfig {
-  domain: string;
-}
-
-export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
+export async function runSEOChecks(connectors: Pick<AuditConnectors, 'fetchPage' | 'getPluginList'>): Promise<CheckResult> {
   const issues: CheckResult['issues'] = [];
+  const passed: DetectedPass[] = [];
 
   // Check robots.txt
   let hasRobotsTxt = false;
   try {
-    const robotsResponse = await fetch(`https://${config.domain}/robots.txt`);
+    const robotsResponse = await connectors.fetchPage('/robots.txt');
     hasRobotsTxt = robotsResponse.ok;
   } catch {
     hasRobotsTxt = false;
@@ -20,6 +18,7 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
   if (!hasRobotsTxt) {
     issues.push({
       category: 'seo',
+      rule: 'robots_txt_missing',
       severity: 'warning',
       title: 'robots.txt not found',
       description: 'Missing robots.txt file.',
@@ -28,6 +27,13 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'seo',
+      rule: 'robots_txt_missing',
+      title: 'robots.txt is in place',
+      description: 'Search engines get crawl guidance from robots.txt.',
+    });
   }
 
   // Check sitemap
@@ -41,12 +47,11 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
 
   for (const location of sitemapLocations) {
     try {
-      const sitemapResponse = await fetch(`https://${config.domain}${location}`);
+      const sitemapResponse = await connectors.fetchPage(location);
       if (sitemapResponse.ok) {
         hasSitemap = true;
-        const content = await sitemapResponse.text();
         // Rough count of URLs
-        sitemapUrlCount = (content.match(/<loc>/g) || []).length;
+        sitemapUrlCount = ((await sitemapResponse.text()).match(/<loc>/g) || []).length;
         break;
       }
     } catch {
@@ -57,6 +62,7 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
   if (!hasSitemap) {
     issues.push({
       category: 'seo',
+      rule: 'sitemap_missing',
       severity: 'warning',
       title: 'Sitemap not found',
       description: 'No XML sitemap detected.',
@@ -65,10 +71,17 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
       fix_action: null,
       fix_params: {},
     });
+  } else {
+    passed.push({
+      category: 'seo',
+      rule: 'sitemap_missing',
+      title: `XML sitemap found (${sitemapUrlCount} URLs)`,
+      description: 'Search engines can discover the site\'s pages from its sitemap.',
+    });
   }
 
   // Check for SEO plugin (SEOPress is the standard)
-  const plugins = await getPluginList(config);
+  const plugins = await connectors.getPluginList();
   // SEOPress can have various slugs depending on version/install
   const seoPlugins = ['wp-seopress', 'wp-seopress-pro', 'seopress', 'seopress-pro'];
   const otherSeoPlugins = ['wordpress-seo', 'seo-by-rank-math', 'all-in-one-seo-pack'];
@@ -83,6 +96,7 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
   if (!activeSEOPress && !activeOtherSEO) {
     issues.push({
       category: 'seo',
+      rule: 'no_seo_plugin',
       severity: 'warning',
       title: 'No SEO plugin detected',
       description: 'No SEO plugin is active.',
@@ -94,6 +108,8 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
   } else if (!activeSEOPress && activeOtherSEO) {
     issues.push({
       category: 'seo',
+      rule: 'non_standard_seo_plugin',
+      subject: activeOtherSEO.name,
       severity: 'info',
       title: `Non-standard SEO plugin: ${activeOtherSEO.name}`,
       description: 'Site is using a different SEO plugin than the standard (SEOPress).',
@@ -102,6 +118,13 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
       fix_action: null,
       fix_params: {},
     });
+  } else if (activeSEOPress) {
+    passed.push({
+      category: 'seo',
+      rule: 'no_seo_plugin',
+      title: `Standard SEO plugin active: ${activeSEOPress.name}`,
+      description: 'The site uses SEOPress, the standard SEO plugin.',
+    });
   }
 
   const activeSEOPlugin = activeSEOPress || activeOtherSEO;
@@ -113,5 +136,14 @@ export async function runSEOChecks(config: SEOConfig): Promise<CheckResult> {
     seo_plugin: activeSEOPlugin?.name || null,
   };
 
-  return { data, issues };
+  return { data, issues, passed };
 }
+
+registerCheck({
+  key: 'seo',
+  label: 'SEO analysis',
+  category: 'seo',
+  timeoutMs: 3 * 60 * 1000,
+  estimatedSeconds: 30,
+  run: ({ connectors }) => runSEOChecks(connectors),
+});
@@ -0,0 +1,148 @@
+import { APPROVED_THEMES } from '@/lib/constants/themes';
+import type { Thresholds } from '@/lib/constants/thresholds';
+import { CheckResult, DetectedPass, ThemeAuditData, WordPressSnapshot } from '@/lib/types';
+import { registerCheck } from '../registry';
+
+export async function runThemeChecks(
+  themes: WordPressSnapshot['themes'],
+  thresholds: Thresholds
+): Promise<CheckResult> {
+  const issues: CheckResult['issues'] = [];
+  const passed: DetectedPass[] = [];
+
+  const active = themes.find((t) => t.status === 'active') || null;
+  // A child theme's parent has status 'parent', so it isn't counted as unused
+  const inactive = themes.filter((t) => t.status === 'inactive');
+  const needsUpdate = themes.filter((t) => t.update === 'available');
+  const parentSlug = active?.parent || null;
+  const parentInstalled = parentSlug !== null && themes.some((t) => t.name === parentSlug);
+  // A child theme is judged by the theme it is built on
+  const baseTheme = parentSlug || active?.name || null;
+  const approved = baseTheme !== null && APPROVED_THEMES.includes(baseTheme);
+
+  // Check the active child theme's parent is installed
+  if (active && parentSlug && !parentInstalled) {
+    issues.push({
+      category: 'plugins',
+      rule: 'missing_parent_theme',
+      subject: parentSlug,
+      severity: 'critical',
+      title: `Parent theme missing: ${parentSlug}`,
+      description: `The active theme ${active.name} is a child of ${parentSlug}, which is not installed, so WordPress can't load it.`,
+      recommendation: `Reinstall ${parentSlug} or switch to a working theme.`,
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  } else if (active && parentSlug) {
+    passed.push({
+      category: 'plugins',
+      rule: 'missing_parent_theme',
+      title: `Parent theme ${parentSlug} is installed`,
+      description: `The active theme ${active.name} is a child theme of ${parentSlug}.`,
+    });
+  }
+
+  // Check for outdated themes; only the ones in use need updating urgently
+  if (needsUpdate.length > 0) {
+    const inUse = needsUpdate.some((t) => t.status !== 'inactive');
+    issues.push({
+      category: 'plugins',
+      rule: 'outdated_themes',
+      severity: inUse ? 'warning' : 'info',
+      title: `${needsUpdate.length} theme${needsUpdate.length === 1 ? ' needs an update' : 's need updates'}`,
+      description: `Outdated: ${needsUpdate.map((t) => `${t.name} (${t.version} → ${t.update_version})`).join(', ')}`,
+      recommendation: inUse
+        ? 'Update the active theme on staging first, verify, then promote to production.'
+        : 'Update or remove the inactive themes.',
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  } else {
+    passed.push({
+      category: 'plugins',
+      rule: 'outdated_themes',
+      title: 'All themes are up to date',
+      description: `None of the ${themes.length} installed themes has an update available.`,
+    });
+  }
+
+  // Check for unused themes: their files are still reachable, so they are
+  // attack surface for no benefit
+  if (inactive.length >= thresholds.inactive_themes.warning) {
+    const critical = inactive.length >= thresholds.inactive_themes.critical;
+    issues.push({
+      category: 'plugins',
+      rule: 'inactive_themes',
+      severity: critical ? 'critical' : 'warning',
+      title: `${inactive.length} inactive themes installed`,
+      description: `Inactive themes: ${inactive.map((t) => t.name).join(', ')}`,
+      recommendation: 'Remove unused themes, keeping at most one default theme as a fallback.',
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  } else {
+    passed.push({
+      category: 'plugins',
+      rule: 'inactive_themes',
+      title: inactive.length === 0 ? 'No inactive themes' : `Only ${inactive.length} inactive theme(s)`,
+      description: 'Inactive themes are below the warning threshold.',
+    });
+  }
+
+  // Check the site is built on an approved theme
+  if (active && baseTheme && !approved) {
+    issues.push({
+      category: 'plugins',
+      rule: 'unapproved_theme',
+      subject: baseTheme,
+      severity: 'warning',
+      title: `Theme not on the approved list: ${baseTheme}`,
+      description: parentSlug
+        ? `The active theme ${active.name} is a child of ${baseTheme}, which is not an approved theme.`
+        : `The active theme ${active.name} is not an approved theme.`,
+      recommendation: `Plan a move to an approved theme (${APPROVED_THEMES.join(', ')}).`,
+      auto_fixable: false,
+      fix_action: null,
+      fix_params: {},
+    });
+  } else if (active && baseTheme) {
+    passed.push({
+      category: 'plugins',
+      rule: 'unapproved_theme',
+      title: `Built on an approved theme: ${baseTheme}`,
+      description: parentSlug ? `Active child theme ${active.name} of ${baseTheme}.` : `Active theme ${active.name}.`,
+    });
+  }
+
+  const data: ThemeAuditData = {
+    total: themes.length,
+    inactive: inactive.length,
+    needs_update: needsUpdate.length,
+    active_theme: active?.name || null,
+    parent_theme: parentSlug,
+    is_child_theme: parentSlug !== null,
+    approved,
+    themes: themes.map((t) => ({
+      name: t.name,
+      status: t.status,
+      version: t.version,
+      update_version: t.update_version ?? undefined,
+      title: t.title,
+      parent: t.parent,
+    })),
+  };
+
+  return { data, issues, passed };
+}
+
+registerCheck({
+  key: 'themes',
+  label: 'Checking themes',
+  category: 'plugins',
+  timeoutMs: 4 * 60 * 1000,
+  estimatedSeconds: 5, // Reads the WordPress snapshot the plugins check collected
+  run: async ({ connectors, thresholds }) => runThemeChecks(await connectors.getThemeList(), thresholds),
+});
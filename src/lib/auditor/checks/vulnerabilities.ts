@@ -0,0 +1,76 @@
+import {
+  InstalledSoftware,
+  matchAdvisories,
+  VULNERABILITY_CHECK_KEY,
+  VULNERABILITY_RULE,
+} from '@/lib/vulnerabilities';
+import {
+  CheckResult,
+  DetectedPass,
+  VulnerabilityAdvisory,
+  VulnerabilityAuditData,
+  WordPressSnapshot,
+} from '@/lib/types';
+import { registerCheck } from '../registry';
+
+export async function runVulnerabilityChecks(
+  wordpress: WordPressSnapshot,
+  findAdvisories: (software: InstalledSoftware[]) => Promise<VulnerabilityAdvisory[]>
+): Promise<CheckResult> {
+  const issues: CheckResult['issues'] = [];
+  const passed: DetectedPass[] = [];
+
+  // Inactive plugins and themes are still reachable over HTTP, so they count too
+  const software: InstalledSoftware[] = [
+    ...wordpress.plugins.map((p) => ({ type: 'plugin' as const, slug: p.name, version: p.version })),
+    ...wordpress.themes.map((t) => ({ type: 'theme' as const, slug: t.name, version: t.version })),
+  ];
+
+  const advisories = await findAdvisories(software);
+  const matches = matchAdvisories(software, advisories);
+
+  for (const match of matches) {
+    const reference = match.cve || match.title;
+    const canUpdate = match.software_type === 'plugin' && match.fixed_version !== null;
+
+    issues.push({
+      category: 'security',
+      rule: VULNERABILITY_RULE,
+      subject: match.advisory_id,
+      severity: 'critical',
+      title: `${match.slug} ${match.installed_version} is vulnerable: ${reference}`,
+      description: match.cve ? `${match.title} (${match.cve})` : match.title,
+      recommendation: match.fixed_version
+        ? `Update ${match.slug} to ${match.fixed_version} or later.`
+        : `No fixed version is available. Remove or replace ${match.slug}.`,
+      auto_fixable: canUpdate,
+      fix_action: canUpdate ? 'update_plugins_staging' : null,
+      fix_params: canUpdate ? { plugins: [match.slug] } : {},
+    });
+  }
+
+  if (matches.length === 0) {
+    passed.push({
+      category: 'security',
+      rule: VULNERABILITY_RULE,
+      title: 'No known vulnerabilities',
+      description: `None of the ${software.length} installed plugins and themes match an imported advisory.`,
+    });
+  }
+
+  const data: VulnerabilityAuditData = {
+    packages_checked: software.length,
+    matches,
+  };
+
+  return { data, issues, passed };
+}
+
+registerCheck({
+  key: VULNERABILITY_CHECK_KEY,
+  label: 'Matching vulnerability advisories',
+  category: 'security',
+  timeoutMs: 2 * 60 * 1000,
+  estimatedSeconds: 5, // Reads the WordPress snapshot and one advisory query
+  run: async ({ connectors, findAdvisories }) => runVulnerabilityChecks(await connectors.wordpress(), findAdvisories),
+});
@@ -0,0 +1,134 @@
+import { collectWordPressSnapshot } from '@/lib/connectors/wpcli';
+import { recordedFetch } from '@/lib/connectors/transcript';
+import { getWPCLIConfig, HostingSite } from '@/lib/hosting';
+import type { Thresholds } from '@/lib/constants/thresholds';
+import type { AcceptedSystemPluginHashes } from '@/lib/inventory/system-plugins';
+import type { InstalledSoftware } from '@/lib/vulnerabilities';
+import { AuditRawData, PluginPolicy, Site, VulnerabilityAdvisory, WordPressSnapshot } from '@/lib/types';
+
+export interface AuditLogger {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+  error: (message: string, error?: unknown) => void;
+  // Same audit tag plus a scope, e.g. "[Audit 42] [crawl]"
+  child: (scope: string) => AuditLogger;
+}
+
+export interface PageResponse {
+  url: string;
+  ok: boolean;
+  status: number;
+  // Time until the response headers arrived
+  elapsed_ms: number;
+  // The body is only downloaded when a check reads it (then shared)
+  text: () => Promise<string>;
+}
+
+/**
+ * Connector calls shared by the checks of one audit. Each distinct request is
+ * made once and every check sees the same result, failures included.
+ */
+export interface AuditConnectors {
+  wordpress: () => Promise<WordPressSnapshot>;
+  getPluginList: () => Promise<WordPressSnapshot['plugins']>;
+  getThemeList: () => Promise<WordPressSnapshot['themes']>;
+  // GET a path on the site's domain, e.g. '/robots.txt' ('/' by default)
+  fetchPage: (path?: string) => Promise<PageResponse>;
+}
+
+export interface AuditContext {
+  auditId: string;
+  site: Site;
+  // Data collected by the checks that have already run in this audit
+  results: AuditRawData;
+  // Global thresholds with the site's client and site overrides applied
+  thresholds: Thresholds;
+  // Plugin policies that apply to the site, one per slug
+  pluginPolicies: PluginPolicy[];
+  // Data the site's previous completed audit collected; null for its first
+  previousResults: AuditRawData | null;
+  // Must-use plugin and drop-in hashes that have been accepted for the site
+  systemPluginHashes: AcceptedSystemPluginHashes;
+  // Advisories for any of the given plugins and themes
+  findAdvisories: (software: InstalledSoftware[]) => Promise<VulnerabilityAdvisory[]>;
+  connectors: AuditConnectors;
+  logger: AuditLogger;
+  // Aborted when the audit is cancelled (reason: AuditCancelledError) or once
+  // it is over, and for a check when it times out; SSH commands, requests and
+  // child processes stop when it fires. The shared connectors follow the
+  // audit's signal, since later checks reuse their results.
+  signal: AbortSignal;
+}
+
+export type AuditLogSink = (level: 'info' | 'warn' | 'error', message: string, scope: string | null) => void;
+
+/**
+ * Console logger tagged with the audit ID. Lines also go to `sink` (the
+ * audit's event stream) when one is given.
+ */
+export function createAuditLogger(auditId: string, sink?: AuditLogSink, scopes: string[] = []): AuditLogger {
+  const prefix = [`[Audit ${auditId}]`, ...scopes.map((scope) => `[${scope}]`)].join(' ');
+  const scope = scopes.length > 0 ? scopes.join('/') : null;
+
+  return {
+    info: (message) => {
+      console.log(`${prefix} ${message}`);
+      sink?.('info', message, scope);
+    },
+    warn: (message) => {
+      console.warn(`${prefix} ${message}`);
+      sink?.('warn', message, scope);
+    },
+    error: (message, error) => {
+      if (error === undefined) {
+        console.error(`${prefix} ${message}`);
+        sink?.('error', message, scope);
+      } else {
+        console.error(`${prefix} ${message}`, error);
+        sink?.('error', `${message} ${error instanceof Error ? error.message : String(error)}`, scope);
+      }
+    },
+    child: (childScope) => createAuditLogger(auditId, sink, [...scopes, childScope]),
+  };
+}
+
+function memoize<T>(load: () => Promise<T>): () => Promise<T> {
+  let result: Promise<T> | null = null;
+  return () => (result ??= load());
+}
+
+export function createAuditConnectors(
+  site: HostingSite,
+  signal: AbortSignal
+): AuditConnectors {
+  const wordpress = memoize(() => collectWordPressSnapshot(getWPCLIConfig(site), signal));
+  const pages = new Map<string, Promise<PageResponse>>();
+
+  const fetchPage = (path = '/') => {
+    const url = `https://${site.domain}${path === '/' ? '' : path}`;
+    let page = pages.get(url);
+    if (!page) {
+      page = (async () => {
+        const startTime = Date.now();
+        const response = await recordedFetch(url, { cache: 'no-store', signal });
+        const elapsed = Date.now() - startTime;
+        return {
+          url,
+          ok: response.ok,
+          status: response.status,
+          elapsed_ms: elapsed,
+          text: memoize(() => response.text()),
+        };
+      })();
+      pages.set(url, page);
+    }
+    return page;
+  };
+
+  return {
+    wordpress,
+    getPluginList: async () => (await wordpress()).plugins,
+    getThemeList: async () => (await wordpress()).themes,
+    fetchPage,
+  };
+}
@@ -0,0 +1,166 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { readAuditRawData } from './raw-data';
+import { Audit, AuditDiff, IssueSnapshot, NumericDelta, PluginChange } from '@/lib/types';
+
+export type DiffableAudit = Pick<Audit, 'id' | 'health_score' | 'raw_data' | 'issue_snapshot' | 'check_runs'>;
+
+function numericDelta(from: number | null | undefined, to: number | null | undefined): NumericDelta | null {
+  if (from === null || from === undefined || to === null || to === undefined) return null;
+  return { from, to, delta: Math.round((to - from) * 100) / 100 };
+}
+
+function getUnfinishedChecks(audit: DiffableAudit): Set<string> {
+  return new Set((audit.check_runs || []).filter((r) => r.status !== 'succeeded').map((r) => r.key));
+}
+
+function diffPlugins(base: DiffableAudit, target: DiffableAudit): PluginChange[] {
+  const basePlugins = base.raw_data.plugins?.plugins;
+  const targetPlugins = target.raw_data.plugins?.plugins;
+  if (!basePlugins || !targetPlugins) return [];
+
+  const before = new Map(basePlugins.map((p) => [p.name, p.version]));
+  const after = new Map(targetPlugins.map((p) => [p.name, p.version]));
+  const changes: PluginChange[] = [];
+
+  for (const [name, version] of after) {
+    if (!before.has(name)) {
+      changes.push({ name, change: 'added', from_version: null, to_version: version });
+    } else if (before.get(name) !== version) {
+      changes.push({ name, change: 'updated', from_version: before.get(name)!, to_version: version });
+    }
+  }
+  for (const [name, version] of before) {
+    if (!after.has(name)) {
+      changes.push({ name, change: 'removed', from_version: version, to_version: null });
+    }
+  }
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function diffAdminUsers(base: DiffableAudit, target: DiffableAudit): AuditDiff['admin_users'] {
+  const baseAdmins = base.raw_data.security?.admin_users;
+  const targetAdmins = target.raw_data.security?.admin_users;
+  if (!baseAdmins || !targetAdmins) return { added: [], removed: [] };
+
+  const before = new Set(baseAdmins.map((u) => u.username));
+  const after = new Set(targetAdmins.map((u) => u.username));
+
+  return {
+    added: Array.from(after).filter((u) => !before.has(u)).sort(),
+    removed: Array.from(before).filter((u) => !after.has(u)).sort(),
+  };
+}
+
+/**
+ * Compare two audits of the same site. Sections whose data is missing from
+ * either audit (e.g. a check that failed) come back empty or null rather
+ * than reporting everything as added or removed.
+ */
+export function diffAudits(base: DiffableAudit, target: DiffableAudit): AuditDiff {
+  const baseIssues = new Map((base.issue_snapshot || []).map((i) => [i.fingerprint, i]));
+  const targetIssues = new Map((target.issue_snapshot || []).map((i) => [i.fingerprint, i]));
+  const baseUnfinished = getUnfinishedChecks(base);
+  const targetUnfinished = getUnfinishedChecks(target);
+
+  const newIssues: IssueSnapshot[] = [];
+  const severityChanges: AuditDiff['severity_changes'] = [];
+  for (const [fingerprint, issue] of targetIssues) {
+    const previous = baseIssues.get(fingerprint);
+    if (!previous) {
+      if (!issue.check_key || !baseUnfinished.has(issue.check_key)) {
+        newIssues.push(issue);
+      }
+    } else if (previous.severity !== issue.severity) {
+      severityChanges.push({ ...issue, from_severity: previous.severity });
+    }
+  }
+  const resolvedIssues = Array.from(baseIssues.values()).filter(
+    (i) => !targetIssues.has(i.fingerprint) && !(i.check_key && targetUnfinished.has(i.check_key))
+  );
+
+  const baseWpVersion = base.raw_data.security?.wp_version;
+  const targetWpVersion = target.raw_data.security?.wp_version;
+
+  return {
+    base_audit_id: base.id,
+    target_audit_id: target.id,
+    health_score: numericDelta(base.health_score, target.health_score),
+    new_issues: newIssues,
+    resolved_issues: resolvedIssues,
+    severity_changes: severityChanges,
+    plugin_changes: diffPlugins(base, target),
+    wp_version: baseWpVersion && targetWpVersion && baseWpVersion !== targetWpVersion
+      ? { from: baseWpVersion, to: targetWpVersion }
+      : null,
+    admin_users: diffAdminUsers(base, target),
+    database_size_mb: numericDelta(base.raw_data.database?.total_size_mb, target.raw_data.database?.total_size_mb),
+    sitemap_url_count: numericDelta(base.raw_data.seo?.sitemap_url_count, target.raw_data.seo?.sitemap_url_count),
+  };
+}
+
+async function loadDiffableAudit(
+  supabase: ReturnType<typeof createServerClient>,
+  auditId: string
+): Promise<(DiffableAudit & { site_id: string; created_at: string }) | null> {
+  const { data: audit } = await supabase
+    .from('audits')
+    .select('id, site_id, health_score, raw_data, schema_version, issue_snapshot, check_runs, created_at')
+    .eq('id', auditId)
+    .single();
+
+  if (!audit) return null;
+
+  // Audits from before snapshots were kept: fall back to the issues rows
+  // they inserted (matched on title, since those rows have no fingerprint)
+  if (!audit.issue_snapshot) {
+    const { data: issues } = await supabase
+      .from('issues')
+      .select('fingerprint, check_key, category, severity, title')
+      .eq('audit_id', auditId);
+
+    audit.issue_snapshot = (issues || []).map((i) => ({
+      ...i,
+      fingerprint: i.fingerprint || `${i.category}:${i.title}`,
+    }));
+  }
+
+  return { ...audit, raw_data: readAuditRawData(audit) };
+}
+
+/**
+ * Diff an audit against another one, by default the site's previous
+ * completed audit. Returns null when either audit can't be found, and
+ * throws when they belong to different sites.
+ */
+export async function getAuditDiff(auditId: string, againstId?: string): Promise<AuditDiff | null> {
+  const supabase = createServerClient();
+
+  const target = await loadDiffableAudit(supabase, auditId);
+  if (!target) return null;
+
+  let baseId = againstId;
+  if (!baseId) {
+    const { data: previous } = await supabase
+      .from('audits')
+      .select('id')
+      .eq('site_id', target.site_id)
+      .eq('status', 'completed')
+      .lt('created_at', target.created_at)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    baseId = previous?.[0]?.id;
+  }
+
+  if (!baseId) return null;
+
+  const base = await loadDiffableAudit(supabase, baseId);
+  if (!base) return null;
+
+  if (base.site_id !== target.site_id) {
+    throw new Error('Audits belong to different sites');
+  }
+
+  return diffAudits(base, target);
+}
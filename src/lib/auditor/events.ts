@@ -0,0 +1,52 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { AuditEvent, AuditEventData, AuditEventType } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+export interface AuditEventWriter {
+  emit: (type: AuditEventType, message: string, data?: AuditEventData) => void;
+  // Resolves once every event emitted so far is stored
+  flush: () => Promise<void>;
+}
+
+/**
+ * Append progress events for an audit. Events are written one at a time in
+ * the order they were emitted, without making the caller wait; a failed
+ * write is logged and dropped rather than failing the audit.
+ */
+export function createAuditEventWriter(supabase: SupabaseClient, auditId: string): AuditEventWriter {
+  let pending: Promise<void> = Promise.resolve();
+
+  return {
+    emit: (type, message, data = {}) => {
+      pending = pending
+        .then(async () => {
+          const { error } = await supabase.from('audit_events').insert({ audit_id: auditId, type, message, data });
+          if (error) throw new Error(error.message);
+        })
+        .catch((error) => {
+          console.error(`[Audit ${auditId}] Failed to record ${type} event:`, error);
+        });
+    },
+    flush: () => pending,
+  };
+}
+
+export async function getAuditEvents(
+  supabase: SupabaseClient,
+  auditId: string,
+  afterId: number = 0
+): Promise<AuditEvent[]> {
+  const { data, error } = await supabase
+    .from('audit_events')
+    .select('*')
+    .eq('audit_id', auditId)
+    .gt('id', afterId)
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load audit events: ${error.message}`);
+  }
+
+  return (data || []) as AuditEvent[];
+}
@@ -1,335 +1,212 @@
 import { createServerClient } from '@/lib/supabase/server';
-import { runPluginChecks } from './checks/plugins';
-import { runDatabaseChecks } from './checks/database';
-import { runPerformanceChecks } from './checks/performance';
-import { runSecurityChecks } from './checks/security';
-import { runSEOChecks } from './checks/seo';
-import { runCrawlChecks } from './checks/crawl';
-import { calculateHealthScore } from './scoring';
-import { CheckResult, AuditRawData } from '@/lib/types';
+import { acquireWPCLISession } from '@/lib/connectors/wpcli';
+import { getSecretEnvVars, getWPCLIConfig } from '@/lib/hosting';
+import { createTranscript } from '@/lib/connectors/transcript';
+import type { FixtureSession } from '@/lib/connectors/fixtures';
+import './checks';
+import { AuditContext, createAuditConnectors, createAuditLogger } from './context';
+import { AuditCancelledError } from './cancellation';
+import { getAuditPlan, FINALIZING_STEP } from './registry';
+import { AUDIT_RAW_DATA_VERSION } from './raw-data';
+import { runAuditChecks } from './runner';
+import { calculateScoreBreakdown, isScoredStatus } from './scoring';
+import { AuditIssue, getIssueFingerprint } from './issues';
+import { AuditInputs, AuditStorage, createSupabaseAuditStorage } from './storage';
+import { CheckRun, AuditRawData } from '@/lib/types';
+
+export { getPreviousAuditResults, loadAuditInputs } from './storage';
+export type { AuditInputs, AuditStorage } from './storage';
 
 export interface AuditResult {
   auditId: string;
-  healthScore: number;
+  // Null when no check finished, so there was nothing to score
+  healthScore: number | null;
   issueCount: number;
+  isComplete: boolean;
   summary: string;
 }
 
-const AUDIT_STEPS = [
-  { key: 'plugins', label: 'Checking plugins', percent: 15 },
-  { key: 'database', label: 'Analyzing database', percent: 30 },
-  { key: 'performance', label: 'Testing performance', percent: 45 },
-  { key: 'security', label: 'Security scan', percent: 60 },
-  { key: 'seo', label: 'SEO analysis', percent: 75 },
-  { key: 'crawl', label: 'Comprehensive site analysis', percent: 90 },
-  { key: 'complete', label: 'Finalizing', percent: 100 },
-];
-
-async function updateProgress(supabase: ReturnType<typeof createServerClient>, auditId: string, step: string, percent: number) {
-  await supabase
-    .from('audits')
-    .update({
-      summary: step,
-      raw_data: { 
-        progress: { 
-          step, 
-          percent,
-          started_at: new Date().toISOString(),
-        } 
-      },
-    })
-    .eq('id', auditId);
+export interface RunAuditOptions {
+  // Record the audit's connector traffic (see scripts/record-audit.ts), or answer it from a bundle
+  fixtures?: FixtureSession;
+  // The site, thresholds, policies, previous results and scoring model to use
+  // instead of loading them from storage
+  inputs?: AuditInputs;
+  // Where the audit and its results go; the database unless given
+  storage?: AuditStorage;
+  // False when the caller decides whether a failure is final: the worker
+  // retries failed jobs and only marks the audit failed after the last attempt
+  failureIsFinal?: boolean;
 }
 
-async function storePerformanceMetrics(
-  supabase: ReturnType<typeof createServerClient>, 
-  siteId: string, 
-  auditId: string, 
-  rawData: AuditRawData
-) {
-  const promises = [];
-
-  // Store WPEngine metrics - DISABLED (API does not provide Performance Insights)
-  /*
-  if (rawData.performance?.wpengine) {
-    promises.push(
-      supabase.from('wpengine_metrics').insert({
-        site_id: siteId,
-        audit_id: auditId,
-        cache_hit_ratio: rawData.performance.wpengine.cache_hit_ratio,
-        average_latency_ms: rawData.performance.wpengine.average_latency_ms,
-        error_rate: rawData.performance.wpengine.error_rate,
-        page_requests_peak_hour: rawData.performance.wpengine.page_requests_peak_hour,
-        slow_pages_count: rawData.performance.wpengine.slow_pages_count,
-      })
-    );
-  }
-  */
-
-  // Store Cloudflare metrics
-  if (rawData.performance?.cloudflare) {
-    promises.push(
-      supabase.from('cloudflare_metrics').insert({
-        site_id: siteId,
-        audit_id: auditId,
-        requests_24h: rawData.performance.cloudflare.requests_24h,
-        cached_requests_24h: rawData.performance.cloudflare.cached_requests_24h,
-        cache_hit_ratio: rawData.performance.cloudflare.cache_hit_ratio,
-        bandwidth_mb: rawData.performance.cloudflare.bandwidth_mb,
-        bandwidth_saved_mb: rawData.performance.cloudflare.bandwidth_saved_mb,
-        threats_24h: rawData.performance.cloudflare.threats_24h,
-        status_5xx_24h: rawData.performance.cloudflare.status_5xx_24h,
-        status_4xx_24h: rawData.performance.cloudflare.status_4xx_24h,
-        ssl_encrypted_requests: rawData.performance.cloudflare.ssl_encrypted_requests,
-        bot_requests: rawData.performance.cloudflare.bot_requests,
-        bot_score_avg: rawData.performance.cloudflare.bot_score_avg,
-      })
-    );
-  }
-
-  // Store Database metrics
-  if (rawData.database) {
-    promises.push(
-      supabase.from('database_metrics').insert({
-        site_id: siteId,
-        audit_id: auditId,
-        total_size_mb: rawData.database.total_size_mb,
-        autoload_size_kb: rawData.database.autoload_size_kb,
-        revision_count: rawData.database.revision_count,
-        transient_count: rawData.database.transient_count,
-      })
-    );
-  }
+export async function runAudit(
+  siteId: string,
+  existingAuditId?: string,
+  options: RunAuditOptions = {}
+): Promise<AuditResult> {
+  const storage = options.storage || createSupabaseAuditStorage(createServerClient());
+  const site = options.inputs?.site || (await storage.loadSite(siteId));
+  const audit = { id: await storage.startAudit(siteId, existingAuditId) };
 
-  // Store Plugin metrics
-  if (rawData.plugins) {
-    promises.push(
-      supabase.from('plugin_metrics').insert({
-        site_id: siteId,
-        audit_id: auditId,
-        total_plugins: rawData.plugins.total,
-        active_plugins: rawData.plugins.active,
-        inactive_plugins: rawData.plugins.inactive,
-        plugins_needing_updates: rawData.plugins.needs_update,
-      })
-    );
-  }
-
-  // Execute all inserts
-  if (promises.length > 0) {
-    await Promise.all(promises);
-    console.log(`[Audit ${auditId}] Stored ${promises.length} metric records`);
-  }
-}
-
-export async function runAudit(siteId: string, existingAuditId?: string): Promise<AuditResult> {
-  const supabase = createServerClient();
-
-  // Get site details
-  const { data: site, error: siteError } = await supabase
-    .from('sites')
-    .select('*')
-    .eq('id', siteId)
-    .single();
-
-  if (siteError || !site) {
-    throw new Error(`Site not found: ${siteId}`);
-  }
-
-  let audit: { id: string };
-
-  if (existingAuditId) {
-    // Use existing audit record
-    audit = { id: existingAuditId };
-    await supabase
-      .from('audits')
-      .update({
-        status: 'running',
-        started_at: new Date().toISOString(),
-      })
-      .eq('id', existingAuditId);
-  } else {
-    // Create new audit record
-    const { data: newAudit, error: auditError } = await supabase
-      .from('audits')
-      .insert({
-        site_id: siteId,
-        status: 'running',
-        started_at: new Date().toISOString(),
-        summary: 'Starting audit...',
-        raw_data: { progress: { step: 'Starting audit...', percent: 0 } },
-      })
-      .select()
-      .single();
-
-    if (auditError || !newAudit) {
-      throw new Error(`Failed to create audit: ${auditError?.message}`);
-    }
-    audit = newAudit;
-  }
-
-  const allIssues: CheckResult['issues'] = [];
+  const allIssues: AuditIssue[] = [];
   const rawData: AuditRawData = {};
+  const checkRuns: CheckRun[] = [];
+
+  // Progress goes to the audit's event stream (see /api/audits/{id}/events)
+  const events = storage.createEventWriter(audit.id);
+  const logger = createAuditLogger(audit.id, (level, message, scope) => events.emit('log', message, { level, scope }));
+  // Every SSH command, request and process the checks run (see /api/audits/{id}/transcript)
+  const transcript = createTranscript();
+  const abortController = new AbortController();
+  // Set up inside the try, so a site whose config doesn't resolve still fails the audit
+  let stopWatchingForCancellation = () => {};
+  let releaseSSHSession = () => {};
 
   try {
-    const wpcliConfig = {
-      installName: site.wpengine_install_id,
-      environment: site.wpengine_environment,
+    stopWatchingForCancellation = storage.watchForCancellation(audit.id, abortController);
+    transcript.secretEnvVars.push(...getSecretEnvVars(site));
+    // One SSH connection to the install serves every check in this audit
+    releaseSSHSession = acquireWPCLISession(getWPCLIConfig(site));
+
+    const plan = getAuditPlan(site);
+    const inputs = options.inputs || { site, ...(await storage.loadInputs(site, audit.id)) };
+    const context: AuditContext = {
+      auditId: audit.id,
+      site,
+      results: rawData,
+      thresholds: inputs.thresholds,
+      pluginPolicies: inputs.pluginPolicies,
+      previousResults: inputs.previousResults,
+      systemPluginHashes: inputs.systemPluginHashes,
+      findAdvisories: inputs.findAdvisories,
+      connectors: createAuditConnectors(site, abortController.signal),
+      logger,
+      signal: abortController.signal,
     };
 
-    // Run plugin checks
-    await updateProgress(supabase, audit.id, AUDIT_STEPS[0].label, AUDIT_STEPS[0].percent);
-    console.log(`[Audit ${audit.id}] ${AUDIT_STEPS[0].label}...`);
-    const pluginResult = await runPluginChecks(wpcliConfig);
-    rawData.plugins = pluginResult.data as AuditRawData['plugins'];
-    allIssues.push(...pluginResult.issues);
-
-    // Run database checks
-    await updateProgress(supabase, audit.id, AUDIT_STEPS[1].label, AUDIT_STEPS[1].percent);
-    console.log(`[Audit ${audit.id}] ${AUDIT_STEPS[1].label}...`);
-    const dbResult = await runDatabaseChecks(wpcliConfig);
-    rawData.database = dbResult.data as AuditRawData['database'];
-    allIssues.push(...dbResult.issues);
+    // Every check plus the finalizing step
+    const stepCount = plan.length + 1;
 
-    // Run performance checks
-    await updateProgress(supabase, audit.id, AUDIT_STEPS[2].label, AUDIT_STEPS[2].percent);
-    console.log(`[Audit ${audit.id}] ${AUDIT_STEPS[2].label}...`);
-    const perfResult = await runPerformanceChecks({
-      ...wpcliConfig,
-      cloudflareZoneId: site.cloudflare_zone_id || undefined,
-      wpengineInstallId: site.wpengine_install_id || undefined,
-      domain: site.domain,
+    const { checkRuns: runs, issues, passed } = await runAuditChecks(plan, context, {
+      events,
+      stepCount,
+      transcript,
+      fixtures: options.fixtures,
     });
-    rawData.performance = perfResult.data as AuditRawData['performance'];
-    allIssues.push(...perfResult.issues);
-
-    // Run security checks
-    await updateProgress(supabase, audit.id, AUDIT_STEPS[3].label, AUDIT_STEPS[3].percent);
-    console.log(`[Audit ${audit.id}] ${AUDIT_STEPS[3].label}...`);
-    const securityResult = await runSecurityChecks(wpcliConfig);
-    rawData.security = securityResult.data as AuditRawData['security'];
-    allIssues.push(...securityResult.issues);
-
-    // Run SEO checks
-    await updateProgress(supabase, audit.id, AUDIT_STEPS[4].label, AUDIT_STEPS[4].percent);
-    console.log(`[Audit ${audit.id}] ${AUDIT_STEPS[4].label}...`);
-    const seoResult = await runSEOChecks({
-      ...wpcliConfig,
-      domain: site.domain,
-    });
-    rawData.seo = seoResult.data as AuditRawData['seo'];
-    allIssues.push(...seoResult.issues);
-
-    // Run crawl checks (Screaming Frog)
-    await updateProgress(supabase, audit.id, AUDIT_STEPS[5].label, AUDIT_STEPS[5].percent);
-    console.log(`[Audit ${audit.id}] ${AUDIT_STEPS[5].label}...`);
-    const crawlResult = await runCrawlChecks({
-      domain: site.domain,
-      wpengine_install_id: site.wpengine_install_id,
-      wpengine_environment: site.wpengine_environment,
-      is_ecommerce: site.is_ecommerce,
-      page_builder: site.page_builder,
+    checkRuns.push(...runs);
+    allIssues.push(...issues);
+
+    abortController.signal.throwIfAborted();
+    const finalizingStartedAt = Date.now();
+    events.emit('step_started', FINALIZING_STEP.label, {
+      step: FINALIZING_STEP.key,
+      step_index: plan.length,
+      step_count: stepCount,
+      estimated_seconds: FINALIZING_STEP.estimatedSeconds,
     });
-    rawData.crawl = crawlResult.data as AuditRawData['crawl'];
-    allIssues.push(...crawlResult.issues);
 
-    // Calculate health score
-    await updateProgress(supabase, audit.id, AUDIT_STEPS[5].label, AUDIT_STEPS[5].percent);
-    const healthScore = calculateHealthScore(allIssues);
+    // A cancelled audit must not touch the site's issues, and the poll that
+    // aborts the signal may not have noticed the cancellation yet
+    abortController.signal.throwIfAborted();
+    await storage.throwIfCancelled(audit.id);
 
-    // Generate summary
-    const criticalCount = allIssues.filter((i) => i.severity === 'critical').length;
-    const warningCount = allIssues.filter((i) => i.severity === 'warning').length;
-    const summary = `Health: ${healthScore}/100. Found ${criticalCount} critical, ${warningCount} warning issues.`;
-
-    // Update audit record
-    await supabase
-      .from('audits')
-      .update({
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        health_score: healthScore,
-        raw_data: rawData,
-        summary,
-      })
-      .eq('id', audit.id);
+    // Match issues against earlier audits (recurring, regressed, resolved)
+    const issueSync = await storage.syncIssues(siteId, audit.id, allIssues, checkRuns);
+    logger.info(
+      `Issues: ${issueSync.created} new, ${issueSync.updated} recurring, ` +
+      `${issueSync.regressed} regressed, ${issueSync.resolved} resolved`
+    );
 
-    // Store performance metrics in dedicated tables for historical tracking
-    await storePerformanceMetrics(supabase, siteId, audit.id, rawData);
+    // Score the categories whose checks finished, leaving out issues someone
+    // has ignored, snoozed or (depending on the model) accepted
+    const scoringModel = inputs.scoringModel;
+    const scoredIssues = allIssues.filter((issue) =>
+      isScoredStatus(
+        issueSync.statuses.get(getIssueFingerprint(issue)) || 'open',
+        scoringModel.config.exclude_accepted_risk
+      )
+    );
+    const evaluatedCategories = Array.from(
+      new Set(checkRuns.filter((r) => r.status === 'succeeded').map((r) => r.category))
+    );
+    const scoreBreakdown = calculateScoreBreakdown(scoredIssues, scoringModel, evaluatedCategories);
+    const healthScore = scoreBreakdown.overall;
+    const unfinishedRuns = checkRuns.filter((r) => r.status !== 'succeeded');
+    const isComplete = unfinishedRuns.length === 0;
 
-    // Close existing open issues for this site (they'll be recreated if still present)
-    await supabase
-      .from('issues')
-      .update({ status: 'fixed', resolved_at: new Date().toISOString() })
-      .eq('site_id', siteId)
-      .eq('status', 'open');
+    // Generate summary
+    const criticalCount = scoredIssues.filter((i) => i.severity === 'critical').length;
+    const warningCount = scoredIssues.filter((i) => i.severity === 'warning').length;
+    const health = healthScore === null ? 'Not scored: no check finished.' : `Health: ${healthScore}/100.`;
+    let summary = `${health} Found ${criticalCount} critical, ${warningCount} warning issues.`;
+    if (!isComplete) {
+      summary = `Incomplete audit (${unfinishedRuns.map((r) => `${r.key} ${r.status.replace('_', ' ')}`).join(', ')}). ${summary}`;
+    }
 
-    // Insert new issues
-    if (allIssues.length > 0) {
-      const issuesToInsert = allIssues.map((issue) => ({
-        site_id: siteId,
-        audit_id: audit.id,
-        ...issue,
-      }));
+    events.emit('step_finished', FINALIZING_STEP.label, {
+      step: FINALIZING_STEP.key,
+      step_index: plan.length,
+      step_count: stepCount,
+      status: 'succeeded',
+      duration_ms: Date.now() - finalizingStartedAt,
+      error: null,
+    });
+    // Stream readers stop once the status changes, so every event has to be in first
+    await events.flush();
+
+    // Update audit record, unless it was cancelled in the meantime
+    const saved = await storage.completeAudit(audit.id, {
+      health_score: healthScore,
+      score_breakdown: scoreBreakdown,
+      raw_data: rawData,
+      schema_version: AUDIT_RAW_DATA_VERSION,
+      check_runs: checkRuns,
+      passed_checks: passed,
+      is_complete: isComplete,
+      issue_snapshot: allIssues.map((issue) => ({
+        fingerprint: getIssueFingerprint(issue),
+        check_key: issue.check_key,
+        category: issue.category,
+        severity: issue.severity,
+        title: issue.title,
+      })),
+      summary,
+    });
 
-      await supabase.from('issues').insert(issuesToInsert);
+    if (!saved) {
+      throw new AuditCancelledError(audit.id);
     }
 
-    console.log(`[Audit ${audit.id}] Completed. Score: ${healthScore}, Issues: ${allIssues.length}`);
+    await storage.storeSiteData(siteId, audit.id, rawData);
+
+    logger.info(`Completed${isComplete ? '' : ' (incomplete)'}. Score: ${healthScore ?? 'none'}, Issues: ${allIssues.length}`);
 
     return {
       auditId: audit.id,
       healthScore,
       issueCount: allIssues.length,
+      isComplete,
       summary,
     };
   } catch (error) {
-    console.error(`[Audit ${audit.id}] Failed:`, error);
-
-    await supabase
-      .from('audits')
-      .update({
-        status: 'failed',
-        completed_at: new Date().toISOString(),
-        error_message: String(error),
-      })
-      .eq('id', audit.id);
-
-    throw error;
-  }
-}
-
-export async function runAllAudits(): Promise<{ succeeded: number; failed: number }> {
-  const supabase = createServerClient();
-
-  // Only audit production sites - exclude staging/dev environments
-  const { data: sites } = await supabase
-    .from('sites')
-    .select('id, name, domain, wpengine_environment')
-    .not('domain', 'ilike', '%stg%')
-    .not('domain', 'ilike', '%dev%')
-    .not('domain', 'ilike', '%.wpenginepowered.com')
-    .not('domain', 'ilike', '%.wpengine.com')
-    .neq('wpengine_environment', 'staging')
-    .neq('wpengine_environment', 'development');
+    // Whatever a check threw on its way out, a cancelled audit stays cancelled
+    if (abortController.signal.reason instanceof AuditCancelledError || error instanceof AuditCancelledError) {
+      logger.info('Cancelled');
+      await events.flush();
+      throw abortController.signal.reason instanceof AuditCancelledError ? abortController.signal.reason : error;
+    }
 
-  if (!sites || sites.length === 0) {
-    return { succeeded: 0, failed: 0 };
-  }
+    logger.error('Failed:', error);
+    await events.flush();
 
-  let succeeded = 0;
-  let failed = 0;
+    await storage.failAudit(audit.id, error, checkRuns, options.failureIsFinal ?? true);
 
-  for (const site of sites) {
-    try {
-      console.log(`Starting audit for ${site.name}...`);
-      await runAudit(site.id);
-      succeeded++;
-    } catch (error) {
-      console.error(`Audit failed for ${site.name}:`, error);
-      failed++;
-    }
+    throw error;
+  } finally {
+    stopWatchingForCancellation();
+    // Stop anything a timed-out check left running
+    abortController.abort();
+    releaseSSHSession();
+    await storage.saveTranscript(audit.id, transcript);
   }
-
-  return { succeeded, failed };
 }
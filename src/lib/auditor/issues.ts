@@ -0,0 +1,175 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { CheckRun, DetectedIssue, Issue, IssueStatus } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+// A detected issue tagged with the check that reported it
+export type AuditIssue = DetectedIssue & { check_key: string };
+
+type StoredIssue = Pick<Issue, 'id' | 'fingerprint' | 'check_key' | 'status' | 'snoozed_until' | 'occurrence_count'>;
+
+export function getIssueFingerprint(issue: Pick<AuditIssue, 'check_key' | 'rule' | 'subject'>): string {
+  return [issue.check_key, issue.rule, issue.subject ?? ''].join(':');
+}
+
+function isSnoozeExpired(issue: Pick<Issue, 'status' | 'snoozed_until'>, now: string): boolean {
+  return issue.status === 'snoozed' && (!issue.snoozed_until || new Date(issue.snoozed_until) <= new Date(now));
+}
+
+export interface IssueSyncResult {
+  created: number;
+  updated: number;
+  regressed: number;
+  resolved: number;
+  // Status of each reported issue after the sync, keyed by fingerprint
+  statuses: Map<string, IssueStatus>;
+}
+
+/**
+ * Reconcile this audit's issues with the site's stored ones:
+ * - new fingerprints are inserted
+ * - recurring ones get their details, last_seen_at and occurrence_count updated
+ * - previously resolved ones are reopened and flagged as regressions
+ * - open ones that weren't reported are resolved, but only if the check that
+ *   owns them succeeded (otherwise we don't know whether they went away)
+ * - ignored and accepted issues keep their status; snoozed ones do until the
+ *   snooze runs out, after which they are treated as open again
+ */
+export async function syncIssues(
+  supabase: SupabaseClient,
+  siteId: string,
+  auditId: string,
+  detected: AuditIssue[],
+  checkRuns: CheckRun[]
+): Promise<IssueSyncResult> {
+  const now = new Date().toISOString();
+  const result: IssueSyncResult = { created: 0, updated: 0, regressed: 0, resolved: 0, statuses: new Map() };
+
+  const { data: storedRows, error } = await supabase
+    .from('issues')
+    .select('id, fingerprint, check_key, status, snoozed_until, occurrence_count')
+    .eq('site_id', siteId)
+    .not('fingerprint', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to load issues: ${error.message}`);
+  }
+
+  const stored = new Map(
+    (storedRows as StoredIssue[] || []).map((row) => [
+      row.fingerprint!,
+      isSnoozeExpired(row, now) ? { ...row, status: 'open' as const, snoozed_until: null } : row,
+    ])
+  );
+  const seen = new Set<string>();
+  const toInsert: Record<string, unknown>[] = [];
+  const toUpdate: Record<string, unknown>[] = [];
+
+  for (const issue of detected) {
+    const fingerprint = getIssueFingerprint(issue);
+    if (seen.has(fingerprint)) continue;
+    seen.add(fingerprint);
+
+    const details = {
+      audit_id: auditId,
+      category: issue.category,
+      severity: issue.severity,
+      title: issue.title,
+      description: issue.description,
+      recommendation: issue.recommendation,
+      auto_fixable: issue.auto_fixable,
+      fix_action: issue.fix_action,
+      fix_params: issue.fix_params,
+      last_seen_at: now,
+    };
+
+    const existing = stored.get(fingerprint);
+    if (!existing) {
+      toInsert.push({
+        site_id: siteId,
+        ...details,
+        fingerprint,
+        check_key: issue.check_key,
+        rule: issue.rule,
+        subject: issue.subject ?? null,
+        status: 'open',
+        first_seen_at: now,
+        occurrence_count: 1,
+      });
+      result.statuses.set(fingerprint, 'open');
+      continue;
+    }
+
+    const isRegression = existing.status === 'resolved' || existing.status === 'fixed';
+    toUpdate.push({
+      id: existing.id,
+      ...details,
+      occurrence_count: existing.occurrence_count + 1,
+      status: isRegression ? 'open' : existing.status,
+      snoozed_until: existing.snoozed_until,
+      regressed: isRegression,
+    });
+    result.statuses.set(fingerprint, isRegression ? 'open' : existing.status);
+
+    if (isRegression) {
+      result.regressed++;
+    } else {
+      result.updated++;
+    }
+  }
+
+  // Each recurring issue has its own details, so they go in one call to update_recurring_issues
+  if (toUpdate.length > 0) {
+    const { error: updateError } = await supabase.rpc('update_recurring_issues', { p_issues: toUpdate });
+    if (updateError) {
+      throw new Error(`Failed to update issues: ${updateError.message}`);
+    }
+  }
+
+  if (toInsert.length > 0) {
+    const { error: insertError } = await supabase.from('issues').insert(toInsert);
+    if (insertError) {
+      throw new Error(`Failed to insert issues: ${insertError.message}`);
+    }
+    result.created = toInsert.length;
+  }
+
+  const succeededChecks = new Set(checkRuns.filter((r) => r.status === 'succeeded').map((r) => r.key));
+  const resolvedIds = Array.from(stored.values())
+    .filter((row) => (row.status === 'open' || row.status === 'in_progress') && !seen.has(row.fingerprint!))
+    .filter((row) => row.check_key && succeededChecks.has(row.check_key))
+    .map((row) => row.id);
+
+  if (resolvedIds.length > 0) {
+    const { error: resolveError } = await supabase
+      .from('issues')
+      .update({ status: 'resolved', resolved_at: now, resolved_by: 'audit' })
+      .in('id', resolvedIds);
+    if (resolveError) {
+      throw new Error(`Failed to resolve issues: ${resolveError.message}`);
+    }
+    result.resolved = resolvedIds.length;
+  }
+
+  // Issues recorded before fingerprints existed can't be matched; retire them
+  // in categories where every check finished, since the audit re-created them
+  const unfinishedCategories = new Set(checkRuns.filter((r) => r.status !== 'succeeded').map((r) => r.category));
+  const retirableCategories = Array.from(new Set(checkRuns.map((r) => r.category))).filter(
+    (category) => !unfinishedCategories.has(category)
+  );
+
+  if (retirableCategories.length > 0) {
+    const { error: retireError } = await supabase
+      .from('issues')
+      .update({ status: 'resolved', resolved_at: now, resolved_by: 'audit' })
+      .eq('site_id', siteId)
+      .eq('status', 'open')
+      .is('fingerprint', null)
+      .in('category', retirableCategories);
+    if (retireError) {
+      throw new Error(`Failed to retire unfingerprinted issues: ${retireError.message}`);
+    }
+  }
+
+  return result;
+}
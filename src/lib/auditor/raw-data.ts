@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import {
+  AuditRawData,
+  CrawlAuditData,
+  DatabaseAuditData,
+  PerformanceAuditData,
+  PluginAuditData,
+  SecurityAuditData,
+  SEOAuditData,
+  ThemeAuditData,
+  VulnerabilityAuditData,
+} from '@/lib/types';
+
+/**
+ * Version of the audits.raw_data shape. Bump it when a check's data changes
+ * shape, and add an upgrade below that brings the previous version's data
+ * up to the new one.
+ *
+ * 1: unversioned audits. raw_data was never checked, and running audits kept
+ *    a `{ progress }` blob in it that was left behind when they failed.
+ * 2: every check's data is validated against the schemas below before it is
+ *    stored.
+ */
+export const AUDIT_RAW_DATA_VERSION = 2;
+
+const pluginAuditDataSchema: z.ZodType<PluginAuditData> = z.object({
+  total: z.number(),
+  active: z.number(),
+  inactive: z.number(),
+  needs_update: z.number(),
+  plugins: z.array(
+    z.object({
+      name: z.string(),
+      status: z.enum(['active', 'inactive', 'must-use', 'dropin']),
+      version: z.string(),
+      update_version: z.string().optional(),
+      title: z.string().optional(),
+      file: z.string().optional(),
+      sha256: z.string().nullable().optional(),
+    })
+  ),
+  system_plugins: z
+    .object({
+      compared_to_previous: z.boolean(),
+      added: z.array(z.string()),
+      modified: z.array(z.string()),
+      removed: z.array(z.string()),
+      unexpected: z.array(z.string()),
+      baseline: z.record(z.string(), z.string()).optional(),
+    })
+    .optional(),
+});
+
+const databaseAuditDataSchema: z.ZodType<DatabaseAuditData> = z.object({
+  total_size_mb: z.number(),
+  autoload_size_kb: z.number(),
+  revision_count: z.number(),
+  transient_count: z.number(),
+  spam_comments: z.number(),
+  tables: z.array(z.object({ name: z.string(), rows: z.number(), size_mb: z.number() })),
+  large_autoload_options: z.array(z.object({ name: z.string(), size_bytes: z.number() })),
+});
+
+const performanceAuditDataSchema: z.ZodType<PerformanceAuditData> = z.object({
+  cloudflare: z
+    .object({
+      requests_24h: z.number(),
+      cached_requests_24h: z.number(),
+      cache_hit_ratio: z.number(),
+      bandwidth_mb: z.number(),
+      bandwidth_saved_mb: z.number(),
+      threats_24h: z.number(),
+      status_5xx_24h: z.number(),
+      status_4xx_24h: z.number(),
+      ssl_encrypted_requests: z.number(),
+      bot_requests: z.number(),
+      bot_score_avg: z.number(),
+      countries_top: z.array(z.object({ country: z.string(), requests: z.number() })),
+      ssl_protocol_breakdown: z.record(z.string(), z.number()),
+    })
+    .optional(),
+  response_time_ms: z.number().optional(),
+  ttfb_ms: z.number().optional(),
+});
+
+const securityAuditDataSchema: z.ZodType<SecurityAuditData> = z.object({
+  wp_version: z.string(),
+  wp_update_available: z.boolean(),
+  php_version: z.string(),
+  ssl_valid: z.boolean(),
+  xmlrpc_enabled: z.boolean(),
+  debug_mode: z.boolean(),
+  file_editing_disabled: z.boolean(),
+  admin_users: z.array(
+    z.object({ id: z.number(), username: z.string(), email: z.string(), display_name: z.string() })
+  ),
+});
+
+const seoAuditDataSchema: z.ZodType<SEOAuditData> = z.object({
+  has_robots_txt: z.boolean(),
+  has_sitemap: z.boolean(),
+  sitemap_url_count: z.number(),
+  seo_plugin: z.string().nullable(),
+});
+
+const crawlAuditDataSchema: z.ZodType<CrawlAuditData> = z.object({
+  crawl_summary: z.object({
+    total_pages: z.number(),
+    crawl_duration_seconds: z.number(),
+    avg_response_time_ms: z.number(),
+    error_rate_percent: z.number(),
+    crawl_completed_at: z.string(),
+  }),
+  backend_health: z.object({
+    server_errors_5xx: z.number(),
+    client_errors_4xx: z.number(),
+    slow_pages_count: z.number(),
+    broken_links_count: z.number(),
+    redirect_chains_count: z.number(),
+    large_pages_count: z.number(),
+  }),
+  core_web_vitals: z
+    .object({
+      lcp_avg_ms: z.number(),
+      cls_avg_score: z.number(),
+      fid_avg_ms: z.number(),
+      pages_failing_cwv: z.number(),
+      cwv_pass_rate_percent: z.number(),
+    })
+    .optional(),
+  performance_issues: z.array(
+    z.object({
+      type: z.enum(['server_error', 'slow_page', 'broken_link', 'large_page', 'redirect_chain']),
+      url: z.string(),
+      details: z.string(),
+      severity: z.enum(['critical', 'warning', 'info']),
+      response_time_ms: z.number().optional(),
+      status_code: z.number().optional(),
+      page_size_kb: z.number().optional(),
+    })
+  ),
+});
+
+const vulnerabilityAuditDataSchema: z.ZodType<VulnerabilityAuditData> = z.object({
+  packages_checked: z.number(),
+  matches: z.array(
+    z.object({
+      advisory_id: z.string(),
+      software_type: z.enum(['plugin', 'theme']),
+      slug: z.string(),
+      installed_version: z.string(),
+      title: z.string(),
+      cve: z.string().nullable(),
+      severity: z.enum(['critical', 'high', 'medium', 'low']).nullable(),
+      fixed_version: z.string().nullable(),
+    })
+  ),
+});
+
+const themeAuditDataSchema: z.ZodType<ThemeAuditData> = z.object({
+  total: z.number(),
+  inactive: z.number(),
+  needs_update: z.number(),
+  active_theme: z.string().nullable(),
+  parent_theme: z.string().nullable(),
+  is_child_theme: z.boolean(),
+  approved: z.boolean(),
+  themes: z.array(
+    z.object({
+      name: z.string(),
+      status: z.enum(['active', 'parent', 'inactive']),
+      version: z.string(),
+      update_version: z.string().optional(),
+      title: z.string().optional(),
+      parent: z.string().nullable(),
+    })
+  ),
+});
+
+// One schema per check key; a check can't be registered without one
+export const CHECK_DATA_SCHEMAS: { [K in keyof AuditRawData]-?: z.ZodType<NonNullable<AuditRawData[K]>> } = {
+  plugins: pluginAuditDataSchema,
+  database: databaseAuditDataSchema,
+  performance: performanceAuditDataSchema,
+  security: securityAuditDataSchema,
+  seo: seoAuditDataSchema,
+  crawl: crawlAuditDataSchema,
+  vulnerabilities: vulnerabilityAuditDataSchema,
+  themes: themeAuditDataSchema,
+};
+
+export class InvalidCheckDataError extends Error {
+  constructor(key: keyof AuditRawData, error: z.ZodError) {
+    super(`Check '${key}' returned invalid data: ${z.prettifyError(error)}`);
+    this.name = 'InvalidCheckDataError';
+  }
+}
+
+/**
+ * Validate the data a check returned before it is stored. Unknown fields are
+ * dropped; anything missing or of the wrong type throws InvalidCheckDataError.
+ */
+export function parseCheckData<K extends keyof AuditRawData>(key: K, data: unknown): NonNullable<AuditRawData[K]> {
+  const schema = CHECK_DATA_SCHEMAS[key] as z.ZodType<NonNullable<AuditRawData[K]>>;
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw new InvalidCheckDataError(key, parsed.error);
+  }
+  return parsed.data;
+}
+
+type RawDataUpgrade = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version each upgrade produces, from the one before it
+const UPGRADES: Record<number, RawDataUpgrade> = {
+  // Drop the progress blob failed audits from before the events table kept
+  2: (data) => Object.fromEntries(Object.entries(data).filter(([key]) => key !== 'progress')),
+};
+
+export function upgradeAuditRawData(data: Record<string, unknown>, fromVersion: number): Record<string, unknown> {
+  let upgraded = data;
+  for (let version = fromVersion + 1; version <= AUDIT_RAW_DATA_VERSION; version++) {
+    upgraded = UPGRADES[version](upgraded);
+  }
+  return upgraded;
+}
+
+/**
+ * Bring a stored audit's raw_data up to the current version and check every
+ * section against its schema. A section that still doesn't match (an old
+ * audit's data from before the check's shape changed) is dropped, so readers
+ * see it the same way as a check that didn't run.
+ */
+export function readAuditRawData(audit: {
+  id?: string;
+  raw_data: unknown;
+  schema_version?: number | null;
+}): AuditRawData {
+  const stored = audit.raw_data && typeof audit.raw_data === 'object' ? (audit.raw_data as Record<string, unknown>) : {};
+  const version = audit.schema_version || 1;
+  if (version > AUDIT_RAW_DATA_VERSION) {
+    throw new Error(`Audit ${audit.id} has raw_data version ${version}, newer than this code (${AUDIT_RAW_DATA_VERSION})`);
+  }
+
+  const upgraded = upgradeAuditRawData(stored, version);
+  const rawData: Record<string, unknown> = {};
+  for (const key of Object.keys(CHECK_DATA_SCHEMAS) as Array<keyof AuditRawData>) {
+    if (upgraded[key] === undefined || upgraded[key] === null) continue;
+
+    const parsed = CHECK_DATA_SCHEMAS[key].safeParse(upgraded[key]);
+    if (parsed.success) {
+      rawData[key] = parsed.data;
+    } else {
+      console.warn(`[AuditData] Dropping invalid ${key} data from audit ${audit.id}: ${parsed.error.issues.length} problem(s)`);
+    }
+  }
+  return rawData as AuditRawData;
+}
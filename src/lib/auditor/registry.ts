@@ -0,0 +1,90 @@
+import { AuditRawData, CheckResult, Issue, Site } from '@/lib/types';
+import type { AuditContext } from './context';
+
+export interface CheckApplicability {
+  ecommerce?: boolean;
+  pageBuilders?: Array<NonNullable<Site['page_builder']>>;
+  environments?: string[];
+}
+
+export interface AuditCheck {
+  key: keyof AuditRawData;
+  label: string;
+  category: Issue['category'];
+  dependsOn?: Array<keyof AuditRawData>;
+  timeoutMs: number;
+  estimatedSeconds: number;
+  appliesTo?: CheckApplicability;
+  run: (context: AuditContext) => Promise<CheckResult>;
+}
+
+// Scoring and storing issues after the last check has run
+export const FINALIZING_STEP = { key: 'finalize', label: 'Finalizing', estimatedSeconds: 15 };
+
+const registry = new Map<string, AuditCheck>();
+
+export function registerCheck(check: AuditCheck): AuditCheck {
+  // Keyed by check so a module re-evaluated during dev reloads replaces itself
+  registry.set(check.key, check);
+  return check;
+}
+
+export function getRegisteredChecks(): AuditCheck[] {
+  return Array.from(registry.values());
+}
+
+export function checkAppliesTo(
+  check: AuditCheck,
+  site: Pick<Site, 'is_ecommerce' | 'page_builder' | 'wpengine_environment'>
+): boolean {
+  const rules = check.appliesTo;
+  if (!rules) return true;
+
+  if (rules.ecommerce !== undefined && rules.ecommerce !== Boolean(site.is_ecommerce)) {
+    return false;
+  }
+  if (rules.pageBuilders && (!site.page_builder || !rules.pageBuilders.includes(site.page_builder))) {
+    return false;
+  }
+  if (rules.environments && !rules.environments.includes(site.wpengine_environment)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Order checks so every check runs after its dependencies, keeping
+ * registration order wherever the dependency graph allows it.
+ */
+export function resolveCheckOrder(checks: AuditCheck[]): AuditCheck[] {
+  const byKey = new Map(checks.map((c) => [c.key, c]));
+  const ordered: AuditCheck[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (check: AuditCheck) => {
+    if (visited.has(check.key)) return;
+    if (visiting.has(check.key)) {
+      throw new Error(`Circular audit check dependency involving: ${check.key}`);
+    }
+    visiting.add(check.key);
+    for (const dependency of check.dependsOn || []) {
+      const dependencyCheck = byKey.get(dependency);
+      // Dependencies that don't apply to this site are simply not waited on
+      if (dependencyCheck) visit(dependencyCheck);
+    }
+    visiting.delete(check.key);
+    visited.add(check.key);
+    ordered.push(check);
+  };
+
+  checks.forEach(visit);
+  return ordered;
+}
+
+// The checks that apply to a site, in the order they run
+export function getAuditPlan(
+  site: Pick<Site, 'is_ecommerce' | 'page_builder' | 'wpengine_environment'>
+): AuditCheck[] {
+  return resolveCheckOrder(getRegisteredChecks().filter((c) => checkAppliesTo(c, site)));
+}
@@ -0,0 +1,82 @@
+import { createFixturePlayer, FixtureBundle } from '@/lib/connectors/fixtures';
+import { DEFAULT_SCORING_MODEL } from '@/lib/constants/scoring';
+import { getIssueFingerprint, type AuditIssue } from './issues';
+import type { AuditStorage, CompletedAudit } from './storage';
+import { runAudit } from '@/lib/auditor';
+import { AuditRawData, CheckRun, PassedCheck, ScoreBreakdown, ScoringModel } from '@/lib/types';
+
+export interface ReplayResult {
+  rawData: AuditRawData;
+  checkRuns: CheckRun[];
+  issues: AuditIssue[];
+  passed: PassedCheck[];
+  scoreBreakdown: ScoreBreakdown;
+}
+
+/**
+ * Storage that keeps a replayed audit in memory. There are no stored issue
+ * statuses to consult, so every issue counts as new and open.
+ */
+function createReplayStorage(auditId: string) {
+  const replay: { issues: AuditIssue[]; completed: CompletedAudit | null } = { issues: [], completed: null };
+
+  const storage: AuditStorage = {
+    loadSite: () => Promise.reject(new Error('Replays run with the site from their bundle')),
+    loadInputs: () => Promise.reject(new Error('Replays run with the inputs from their bundle')),
+    startAudit: async () => auditId,
+    createEventWriter: () => ({ emit: () => {}, flush: async () => {} }),
+    watchForCancellation: () => () => {},
+    throwIfCancelled: async () => {},
+    syncIssues: async (_siteId, _auditId, issues) => {
+      replay.issues = issues;
+      const statuses = new Map(issues.map((issue) => [getIssueFingerprint(issue), 'open' as const]));
+      return { created: statuses.size, updated: 0, regressed: 0, resolved: 0, statuses };
+    },
+    completeAudit: async (_auditId, audit) => {
+      replay.completed = audit;
+      return true;
+    },
+    failAudit: async () => {},
+    storeSiteData: async () => {},
+    saveTranscript: async () => {},
+  };
+
+  return { storage, replay };
+}
+
+/**
+ * Run an audit against a recorded fixture bundle instead of the live site:
+ * the same runAudit, with the bundle's inputs and in-memory storage, so no
+ * SSH, HTTP or database access. Issues are scored with `scoringModel` or the
+ * default. A connector call the bundle has no answer for fails its check.
+ */
+export async function replayAudit(
+  bundle: FixtureBundle,
+  options: { scoringModel?: ScoringModel } = {}
+): Promise<ReplayResult> {
+  const { storage, replay } = createReplayStorage(`replay:${bundle.site.id}`);
+
+  await runAudit(bundle.site.id, undefined, {
+    fixtures: createFixturePlayer(bundle),
+    inputs: {
+      site: bundle.site,
+      thresholds: bundle.thresholds,
+      pluginPolicies: bundle.plugin_policies,
+      previousResults: bundle.previous_results,
+      systemPluginHashes: bundle.system_plugin_hashes,
+      // Matching picks out each package's advisories
+      findAdvisories: async () => bundle.advisories,
+      scoringModel: options.scoringModel || DEFAULT_SCORING_MODEL,
+    },
+    storage,
+  });
+
+  const completed = replay.completed!;
+  return {
+    rawData: completed.raw_data,
+    checkRuns: completed.check_runs,
+    issues: replay.issues,
+    passed: completed.passed_checks,
+    scoreBreakdown: completed.score_breakdown,
+  };
+}
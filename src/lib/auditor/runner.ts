@@ -0,0 +1,178 @@
+import { FixtureSession, withFixtures } from '@/lib/connectors/fixtures';
+import { Transcript, withTranscript } from '@/lib/connectors/transcript';
+import type { AuditContext } from './context';
+import type { AuditEventWriter } from './events';
+import type { AuditIssue } from './issues';
+import { parseCheckData } from './raw-data';
+import { AuditCheck } from './registry';
+import { CheckResult, CheckRun, PassedCheck } from '@/lib/types';
+
+class CheckTimeoutError extends Error {
+  constructor(check: AuditCheck) {
+    super(`Check '${check.key}' timed out after ${check.timeoutMs}ms`);
+    this.name = 'CheckTimeoutError';
+  }
+}
+
+/**
+ * Run the check with its own signal, linked to the audit's. When the check
+ * times out its signal is aborted, so its SSH commands and requests stop
+ * instead of running on alongside the checks after it.
+ */
+function runWithTimeout<T>(
+  check: AuditCheck,
+  run: (signal: AbortSignal) => Promise<T>,
+  auditSignal: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const signal = AbortSignal.any([auditSignal, controller.signal]);
+  let timeoutId: NodeJS.Timeout;
+  let onAbort: () => void;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      const error = new CheckTimeoutError(check);
+      reject(error);
+      controller.abort(error);
+    }, check.timeoutMs);
+    // Don't wait on a check that ignores the abort signal
+    onAbort = () => reject(auditSignal.reason);
+    auditSignal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  return Promise.race([run(signal), timeout]).finally(() => {
+    clearTimeout(timeoutId);
+    auditSignal.removeEventListener('abort', onAbort);
+  });
+}
+
+export interface CheckExecution {
+  run: CheckRun;
+  result?: CheckResult;
+}
+
+/**
+ * Run a single check in isolation. Failures and timeouts are recorded on the
+ * returned CheckRun instead of being thrown, so one broken check can't take
+ * the rest of the audit down with it; data that fails its schema counts as
+ * a failure too. Only an abort (the audit being cancelled) is thrown, with
+ * the signal's reason.
+ */
+export async function executeCheck(
+  check: AuditCheck,
+  context: AuditContext,
+  completedRuns: CheckRun[]
+): Promise<CheckExecution> {
+  const startedAt = new Date();
+  const baseRun = {
+    key: check.key,
+    label: check.label,
+    category: check.category,
+    started_at: startedAt.toISOString(),
+  };
+
+  const blockedBy = (check.dependsOn || []).find((dependency) => {
+    const dependencyRun = completedRuns.find((r) => r.key === dependency);
+    return dependencyRun && dependencyRun.status !== 'succeeded';
+  });
+
+  if (blockedBy) {
+    return {
+      run: {
+        ...baseRun,
+        status: 'skipped',
+        error: `Dependency '${blockedBy}' did not complete`,
+        duration_ms: 0,
+        completed_at: startedAt.toISOString(),
+      },
+    };
+  }
+
+  context.signal.throwIfAborted();
+
+  try {
+    const result = await runWithTimeout(check, (signal) => check.run({ ...context, signal }), context.signal);
+    // Data that doesn't match its schema is never stored
+    const data = parseCheckData(check.key, result.data);
+    return {
+      run: {
+        ...baseRun,
+        status: 'succeeded',
+        error: null,
+        duration_ms: Date.now() - startedAt.getTime(),
+        completed_at: new Date().toISOString(),
+      },
+      result: { ...result, data },
+    };
+  } catch (error) {
+    context.signal.throwIfAborted();
+    return {
+      run: {
+        ...baseRun,
+        status: error instanceof CheckTimeoutError ? 'timed_out' : 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        duration_ms: Date.now() - startedAt.getTime(),
+        completed_at: new Date().toISOString(),
+      },
+    };
+  }
+}
+
+export interface AuditCheckOptions {
+  // Progress events; stepCount includes any steps the caller runs afterwards
+  events?: AuditEventWriter;
+  stepCount?: number;
+  transcript?: Transcript;
+  // Record the checks' connector traffic, or answer it from a bundle
+  fixtures?: FixtureSession;
+}
+
+/**
+ * Run the plan's checks in order, storing each one's data under its key in
+ * context.results. Returns every check's run, the issues they found and the
+ * checks that passed.
+ */
+export async function runAuditChecks(
+  plan: AuditCheck[],
+  context: AuditContext,
+  { events, stepCount = plan.length, transcript, fixtures }: AuditCheckOptions = {}
+): Promise<{ checkRuns: CheckRun[]; issues: AuditIssue[]; passed: PassedCheck[] }> {
+  const checkRuns: CheckRun[] = [];
+  const issues: AuditIssue[] = [];
+  const passed: PassedCheck[] = [];
+
+  for (const [index, check] of plan.entries()) {
+    events?.emit('step_started', check.label, {
+      step: check.key,
+      step_index: index,
+      step_count: stepCount,
+      estimated_seconds: check.estimatedSeconds,
+    });
+
+    const execute = () => executeCheck(check, { ...context, logger: context.logger.child(check.key) }, checkRuns);
+    const traced = transcript ? () => withTranscript(transcript, check.key, execute) : execute;
+    const { run, result } = await (fixtures ? withFixtures(fixtures, traced) : traced());
+    checkRuns.push(run);
+
+    events?.emit('step_finished', check.label, {
+      step: check.key,
+      step_index: index,
+      step_count: stepCount,
+      status: run.status,
+      duration_ms: run.duration_ms,
+      error: run.error,
+    });
+
+    if (result) {
+      (context.results as Record<string, unknown>)[check.key] = result.data;
+      issues.push(...result.issues.map((issue) => ({ ...issue, check_key: check.key })));
+      passed.push(...(result.passed || []).map((pass) => ({ ...pass, check_key: check.key })));
+      for (const issue of result.issues) {
+        events?.emit('issue_found', issue.title, { step: check.key, severity: issue.severity, category: issue.category });
+      }
+    } else {
+      context.logger.error(`Check ${check.key} ${run.status}: ${run.error}`);
+    }
+  }
+
+  return { checkRuns, issues, passed };
+}
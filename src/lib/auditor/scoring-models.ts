@@ -0,0 +1,47 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { DEFAULT_SCORING_MODEL } from '@/lib/constants/scoring';
+import { IssueCategory, ScoringModel, ScoringModelConfig, StoredScoringModelConfig } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+/**
+ * Fill in anything a stored model leaves out from the default model, so a
+ * row only has to list what it changes (e.g. just security's weight).
+ */
+export function mergeScoringConfig(config: StoredScoringModelConfig | null | undefined): ScoringModelConfig {
+  const defaults = DEFAULT_SCORING_MODEL.config;
+  const categories = { ...defaults.categories };
+
+  for (const category of Object.keys(categories) as IssueCategory[]) {
+    const override = config?.categories?.[category] || {};
+    categories[category] = {
+      weight: override.weight ?? defaults.categories[category].weight,
+      deductions: { ...defaults.categories[category].deductions, ...override.deductions },
+      caps: { ...defaults.categories[category].caps, ...override.caps },
+    };
+  }
+
+  return {
+    categories,
+    exclude_accepted_risk: config?.exclude_accepted_risk ?? defaults.exclude_accepted_risk,
+  };
+}
+
+// The active row in scoring_models, or the built-in default when there is none
+export async function getActiveScoringModel(supabase: SupabaseClient): Promise<ScoringModel> {
+  const { data, error } = await supabase
+    .from('scoring_models')
+    .select('id, name, config')
+    .eq('is_active', true)
+    .limit(1);
+
+  if (error) {
+    console.error('[Scoring] Failed to load scoring model, using default:', error.message);
+    return DEFAULT_SCORING_MODEL;
+  }
+
+  const row = data?.[0];
+  if (!row) return DEFAULT_SCORING_MODEL;
+
+  return { id: row.id, name: row.name, config: mergeScoringConfig(row.config) };
+}
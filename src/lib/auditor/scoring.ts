@@ -1,17 +1,90 @@
-import { THRESHOLDS } from '@/lib/constants/thresholds';
-import { Issue } from '@/lib/types';
+import {
+  CategoryScore,
+  CategoryScoringRule,
+  Issue,
+  IssueCategory,
+  IssueSeverity,
+  IssueStatus,
+  ScoreBreakdown,
+  ScoringModel,
+} from '@/lib/types';
 
 type IssueLike = Pick<Issue, 'severity'>;
 
-export function calculateHealthScore(issues: IssueLike[]): number {
-  let score = 100;
+const SEVERITIES: IssueSeverity[] = ['critical', 'warning', 'info'];
 
+/**
+ * Whether an issue in this status counts against the health score. Ignored
+ * and snoozed issues never do; accepted risks unless the scoring model
+ * excludes them.
+ */
+export function isScoredStatus(status: IssueStatus, excludeAcceptedRisk: boolean): boolean {
+  if (status === 'ignored' || status === 'snoozed') return false;
+  if (status === 'accepted') return !excludeAcceptedRisk;
+  return true;
+}
+
+export function calculateCategoryScore(
+  issues: IssueLike[],
+  rule: Omit<CategoryScoringRule, 'weight'>
+): Pick<CategoryScore, 'score' | 'issue_counts' | 'deductions' | 'capped'> {
+  const issueCounts = { critical: 0, warning: 0, info: 0 };
   for (const issue of issues) {
-    const deduction = THRESHOLDS.severity_deduction[issue.severity] || 0;
-    score -= deduction;
+    issueCounts[issue.severity]++;
+  }
+
+  const deductions = { critical: 0, warning: 0, info: 0 };
+  const capped: IssueSeverity[] = [];
+  for (const severity of SEVERITIES) {
+    const uncapped = issueCounts[severity] * rule.deductions[severity];
+    deductions[severity] = Math.min(uncapped, rule.caps[severity]);
+    if (uncapped > rule.caps[severity]) capped.push(severity);
+  }
+
+  const total = deductions.critical + deductions.warning + deductions.info;
+  return {
+    score: Math.max(0, Math.min(100, 100 - total)),
+    issue_counts: issueCounts,
+    deductions,
+    capped,
+  };
+}
+
+/**
+ * Score each category on its own (with per-severity caps, so a pile of
+ * notices can't sink it) and combine the subscores by weight. Categories
+ * without a finished check are reported but left out of the overall score;
+ * with none finished the audit is unscored.
+ */
+export function calculateScoreBreakdown(
+  issues: Pick<Issue, 'category' | 'severity'>[],
+  model: ScoringModel,
+  evaluatedCategories?: IssueCategory[]
+): ScoreBreakdown {
+  const categories = {} as Record<IssueCategory, CategoryScore>;
+  let weightedTotal = 0;
+  let totalWeight = 0;
+
+  for (const [category, rule] of Object.entries(model.config.categories) as Array<[IssueCategory, CategoryScoringRule]>) {
+    const evaluated = !evaluatedCategories || evaluatedCategories.includes(category);
+    const categoryScore = calculateCategoryScore(
+      issues.filter((i) => i.category === category),
+      rule
+    );
+
+    categories[category] = { ...categoryScore, weight: rule.weight, evaluated };
+
+    if (evaluated && rule.weight > 0) {
+      weightedTotal += categoryScore.score * rule.weight;
+      totalWeight += rule.weight;
+    }
   }
 
-  return Math.max(0, Math.min(100, score));
+  return {
+    model: model.name,
+    overall: totalWeight > 0 ? Math.round(weightedTotal / totalWeight) : null,
+    categories,
+  };
 }
 
 export function getHealthStatus(score: number): 'healthy' | 'attention' | 'critical' {
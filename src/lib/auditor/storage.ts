@@ -0,0 +1,298 @@
+import { createServerClient } from '@/lib/supabase/server';
+import type { Transcript } from '@/lib/connectors/transcript';
+import type { Thresholds } from '@/lib/constants/thresholds';
+import { getSiteThresholds } from '@/lib/thresholds';
+import { getSitePluginPolicies } from '@/lib/plugin-policies';
+import { syncSitePlugins } from '@/lib/inventory/plugins';
+import { AcceptedSystemPluginHashes, getAcceptedSystemPluginHashes } from '@/lib/inventory/system-plugins';
+import { findAdvisories, InstalledSoftware } from '@/lib/vulnerabilities';
+import { AuditCancelledError, throwIfCancelled, watchForCancellation } from './cancellation';
+import { AuditEventWriter, createAuditEventWriter } from './events';
+import { AuditIssue, IssueSyncResult, syncIssues } from './issues';
+import { readAuditRawData } from './raw-data';
+import { getActiveScoringModel } from './scoring-models';
+import { saveTranscript } from './transcript';
+import {
+  AuditRawData,
+  CheckRun,
+  IssueSnapshot,
+  PassedCheck,
+  PluginPolicy,
+  ScoreBreakdown,
+  ScoringModel,
+  Site,
+  VulnerabilityAdvisory,
+} from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+// What an audit runs with besides the site's live data
+export interface AuditInputs {
+  site: Site;
+  thresholds: Thresholds;
+  pluginPolicies: PluginPolicy[];
+  previousResults: AuditRawData | null;
+  systemPluginHashes: AcceptedSystemPluginHashes;
+  // Advisories for the installed plugins and themes, once the audit knows them
+  findAdvisories: (software: InstalledSoftware[]) => Promise<VulnerabilityAdvisory[]>;
+  scoringModel: ScoringModel;
+}
+
+// The record of a finished audit
+export interface CompletedAudit {
+  // Null when unscored
+  health_score: number | null;
+  score_breakdown: ScoreBreakdown;
+  raw_data: AuditRawData;
+  schema_version: number;
+  check_runs: CheckRun[];
+  passed_checks: PassedCheck[];
+  is_complete: boolean;
+  issue_snapshot: IssueSnapshot[];
+  summary: string;
+}
+
+/**
+ * Everything runAudit reads and writes besides the site itself: the audit
+ * record, its events, issues and transcript, and the site data it refreshes.
+ * The database by default; replays keep it all in memory.
+ */
+export interface AuditStorage {
+  loadSite: (siteId: string) => Promise<Site>;
+  loadInputs: (site: Site, auditId: string) => Promise<Omit<AuditInputs, 'site'>>;
+  // Returns the audit's ID; throws AuditCancelledError if an existing audit was cancelled
+  startAudit: (siteId: string, existingAuditId?: string) => Promise<string>;
+  createEventWriter: (auditId: string) => AuditEventWriter;
+  watchForCancellation: (auditId: string, controller: AbortController) => () => void;
+  throwIfCancelled: (auditId: string) => Promise<void>;
+  syncIssues: (siteId: string, auditId: string, issues: AuditIssue[], checkRuns: CheckRun[]) => Promise<IssueSyncResult>;
+  // False when the audit was cancelled in the meantime
+  completeAudit: (auditId: string, audit: CompletedAudit) => Promise<boolean>;
+  // Records the error and check runs; only a final failure marks the audit failed
+  failAudit: (auditId: string, error: unknown, checkRuns: CheckRun[], final: boolean) => Promise<void>;
+  storeSiteData: (siteId: string, auditId: string, rawData: AuditRawData) => Promise<void>;
+  saveTranscript: (auditId: string, transcript: Transcript) => Promise<void>;
+}
+
+async function storePerformanceMetrics(
+  supabase: SupabaseClient,
+  siteId: string,
+  auditId: string,
+  rawData: AuditRawData
+) {
+  const promises = [];
+
+  // Store WPEngine metrics - DISABLED (API does not provide Performance Insights)
+  /*
+  if (rawData.performance?.wpengine) {
+    promises.push(
+      supabase.from('wpengine_metrics').insert({
+        site_id: siteId,
+        audit_id: auditId,
+        cache_hit_ratio: rawData.performance.wpengine.cache_hit_ratio,
+        average_latency_ms: rawData.performance.wpengine.average_latency_ms,
+        error_rate: rawData.performance.wpengine.error_rate,
+        page_requests_peak_hour: rawData.performance.wpengine.page_requests_peak_hour,
+        slow_pages_count: rawData.performance.wpengine.slow_pages_count,
+      })
+    );
+  }
+  */
+
+  // Store Cloudflare metrics
+  if (rawData.performance?.cloudflare) {
+    promises.push(
+      supabase.from('cloudflare_metrics').insert({
+        site_id: siteId,
+        audit_id: auditId,
+        requests_24h: rawData.performance.cloudflare.requests_24h,
+        cached_requests_24h: rawData.performance.cloudflare.cached_requests_24h,
+        cache_hit_ratio: rawData.performance.cloudflare.cache_hit_ratio,
+        bandwidth_mb: rawData.performance.cloudflare.bandwidth_mb,
+        bandwidth_saved_mb: rawData.performance.cloudflare.bandwidth_saved_mb,
+        threats_24h: rawData.performance.cloudflare.threats_24h,
+        status_5xx_24h: rawData.performance.cloudflare.status_5xx_24h,
+        status_4xx_24h: rawData.performance.cloudflare.status_4xx_24h,
+        ssl_encrypted_requests: rawData.performance.cloudflare.ssl_encrypted_requests,
+        bot_requests: rawData.performance.cloudflare.bot_requests,
+        bot_score_avg: rawData.performance.cloudflare.bot_score_avg,
+      })
+    );
+  }
+
+  // Store Database metrics
+  if (rawData.database) {
+    promises.push(
+      supabase.from('database_metrics').insert({
+        site_id: siteId,
+        audit_id: auditId,
+        total_size_mb: rawData.database.total_size_mb,
+        autoload_size_kb: rawData.database.autoload_size_kb,
+        revision_count: rawData.database.revision_count,
+        transient_count: rawData.database.transient_count,
+      })
+    );
+  }
+
+  // Store Plugin metrics
+  if (rawData.plugins) {
+    promises.push(
+      supabase.from('plugin_metrics').insert({
+        site_id: siteId,
+        audit_id: auditId,
+        total_plugins: rawData.plugins.total,
+        active_plugins: rawData.plugins.active,
+        inactive_plugins: rawData.plugins.inactive,
+        plugins_needing_updates: rawData.plugins.needs_update,
+      })
+    );
+  }
+
+  // Execute all inserts
+  if (promises.length > 0) {
+    await Promise.all(promises);
+    console.log(`[Audit ${auditId}] Stored ${promises.length} metric records`);
+  }
+}
+
+/**
+ * What the site's latest completed audit collected, for checks that compare
+ * against it. Null for a site's first audit.
+ */
+export async function getPreviousAuditResults(
+  supabase: SupabaseClient,
+  siteId: string,
+  excludeAuditId?: string
+): Promise<AuditRawData | null> {
+  let query = supabase
+    .from('audits')
+    .select('id, raw_data, schema_version')
+    .eq('site_id', siteId)
+    .eq('status', 'completed')
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (excludeAuditId) {
+    query = query.neq('id', excludeAuditId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load previous audit: ${error.message}`);
+  }
+  return data?.[0] ? readAuditRawData(data[0]) : null;
+}
+
+// The site's thresholds, plugin policies, previous results, accepted system
+// plugin hashes, advisory lookup and the active scoring model
+export async function loadAuditInputs(
+  supabase: SupabaseClient,
+  site: Site,
+  excludeAuditId?: string
+): Promise<Omit<AuditInputs, 'site'>> {
+  return {
+    thresholds: await getSiteThresholds(supabase, site),
+    pluginPolicies: await getSitePluginPolicies(supabase, site),
+    previousResults: await getPreviousAuditResults(supabase, site.id, excludeAuditId),
+    systemPluginHashes: await getAcceptedSystemPluginHashes(supabase, site),
+    findAdvisories: (software) => findAdvisories(supabase, software),
+    scoringModel: await getActiveScoringModel(supabase),
+  };
+}
+
+export function createSupabaseAuditStorage(supabase: SupabaseClient): AuditStorage {
+  return {
+    loadSite: async (siteId) => {
+      const { data: site, error } = await supabase.from('sites').select('*').eq('id', siteId).single();
+      if (error || !site) {
+        throw new Error(`Site not found: ${siteId}`);
+      }
+      return site as Site;
+    },
+
+    loadInputs: (site, auditId) => loadAuditInputs(supabase, site, auditId),
+
+    startAudit: async (siteId, existingAuditId) => {
+      if (existingAuditId) {
+        const { data: started } = await supabase
+          .from('audits')
+          .update({
+            status: 'running',
+            started_at: new Date().toISOString(),
+          })
+          .eq('id', existingAuditId)
+          .neq('status', 'cancelled')
+          .select('id');
+
+        if (!started?.length) {
+          throw new AuditCancelledError(existingAuditId);
+        }
+        return existingAuditId;
+      }
+
+      const { data: newAudit, error: auditError } = await supabase
+        .from('audits')
+        .insert({
+          site_id: siteId,
+          status: 'running',
+          started_at: new Date().toISOString(),
+          summary: 'Starting audit...',
+        })
+        .select()
+        .single();
+
+      if (auditError || !newAudit) {
+        throw new Error(`Failed to create audit: ${auditError?.message}`);
+      }
+      return newAudit.id;
+    },
+
+    createEventWriter: (auditId) => createAuditEventWriter(supabase, auditId),
+
+    watchForCancellation: (auditId, controller) => watchForCancellation(supabase, auditId, controller),
+
+    throwIfCancelled: (auditId) => throwIfCancelled(supabase, auditId),
+
+    syncIssues: (siteId, auditId, issues, checkRuns) => syncIssues(supabase, siteId, auditId, issues, checkRuns),
+
+    completeAudit: async (auditId, audit) => {
+      const { data: saved } = await supabase
+        .from('audits')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          ...audit,
+        })
+        .eq('id', auditId)
+        .neq('status', 'cancelled')
+        .select('id');
+
+      return Boolean(saved?.length);
+    },
+
+    failAudit: async (auditId, error, checkRuns, final) => {
+      await supabase
+        .from('audits')
+        .update({
+          ...(final ? { status: 'failed', completed_at: new Date().toISOString() } : {}),
+          error_message: String(error),
+          check_runs: checkRuns,
+          is_complete: false,
+        })
+        .eq('id', auditId)
+        .neq('status', 'cancelled');
+    },
+
+    storeSiteData: async (siteId, auditId, rawData) => {
+      // Store performance metrics in dedicated tables for historical tracking
+      await storePerformanceMetrics(supabase, siteId, auditId, rawData);
+
+      // Keep the last known plugin list when the plugins check didn't finish
+      if (rawData.plugins) {
+        await syncSitePlugins(supabase, siteId, auditId, rawData.plugins.plugins);
+      }
+    },
+
+    saveTranscript: (auditId, transcript) => saveTranscript(supabase, auditId, transcript),
+  };
+}
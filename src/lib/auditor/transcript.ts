@@ -0,0 +1,50 @@
+import { createServerClient } from '@/lib/supabase/server';
+import type { Transcript } from '@/lib/connectors/transcript';
+import { AuditTranscript, TranscriptEntry } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+/**
+ * Store an audit's transcript. A failure is logged rather than thrown so it
+ * can't replace the audit's own outcome.
+ */
+export async function saveTranscript(supabase: SupabaseClient, auditId: string, transcript: Transcript): Promise<void> {
+  if (transcript.entries.length === 0) return;
+
+  const rows = [...transcript.entries]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((entry) => ({ audit_id: auditId, ...entry }));
+
+  const { error } = await supabase.from('audit_transcript_entries').insert(rows);
+  if (error) {
+    console.error(`[Audit ${auditId}] Failed to save transcript:`, error.message);
+  }
+}
+
+export async function getAuditTranscript(supabase: SupabaseClient, auditId: string): Promise<AuditTranscript | null> {
+  const { data: audit } = await supabase
+    .from('audits')
+    .select('id, site_id, status, error_message')
+    .eq('id', auditId)
+    .single();
+
+  if (!audit) return null;
+
+  const { data, error } = await supabase
+    .from('audit_transcript_entries')
+    .select('sequence, check_key, kind, operation, ok, exit_code, http_status, stdout, stderr, error, duration_ms, started_at')
+    .eq('audit_id', auditId)
+    .order('sequence', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load audit transcript: ${error.message}`);
+  }
+
+  return {
+    audit_id: audit.id,
+    site_id: audit.site_id,
+    status: audit.status,
+    error_message: audit.error_message,
+    entries: (data || []) as TranscriptEntry[],
+  };
+}
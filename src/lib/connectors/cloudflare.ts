@@ -1,3 +1,5 @@
+import { recordedFetch } from './transcript';
+
 const CF_API_BASE = 'https://api.cloudflare.com/client/v4';
 
 function getAuthHeader(): string {
@@ -16,14 +18,17 @@ async function cfRequest<T>(
 ): Promise<T> {
   const url = `${CF_API_BASE}${endpoint}`;
 
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      Authorization: getAuthHeader(),
-      'Content-Type': 'application/json',
-      ...options.headers,
+  const response = await recordedFetch(
+    url,
+    {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
     },
-  });
+    () => ({ Authorization: getAuthHeader() })
+  );
 
   const data = await response.json();
 
@@ -91,7 +96,8 @@ export interface CloudflareAnalytics {
 
 export async function getAnalytics(
   zoneId: string,
-  hours: number = 24
+  hours: number = 24,
+  signal?: AbortSignal
 ): Promise<CloudflareAnalytics> {
   // Calculate time range
   const since = new Date(Date.now() - hours * 60 * 60 * 1000);
@@ -135,14 +141,16 @@ export async function getAnalytics(
       }
     `;
 
-    const response = await fetch('https://api.cloudflare.com/client/v4/graphql', {
-      method: 'POST',
-      headers: {
-        Authorization: getAuthHeader(),
-        'Content-Type': 'application/json',
+    const response = await recordedFetch(
+      'https://api.cloudflare.com/client/v4/graphql',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query }),
+        signal,
       },
-      body: JSON.stringify({ query }),
-    });
+      () => ({ Authorization: getAuthHeader() })
+    );
 
     const result = await response.json();
 
@@ -0,0 +1,164 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Thresholds } from '@/lib/constants/thresholds';
+import type { AcceptedSystemPluginHashes } from '@/lib/inventory/system-plugins';
+import { AuditRawData, PluginPolicy, Site, TranscriptEntryKind, VulnerabilityAdvisory } from '@/lib/types';
+
+// Bump when FixtureBundle changes shape
+export const FIXTURE_BUNDLE_VERSION = 5;
+
+// One connector call and what came back (or the error it threw)
+export interface FixtureExchange {
+  kind: TranscriptEntryKind;
+  operation: string;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Everything an audit got from the outside world: SSH command output, HTTP
+ * responses and crawls, plus the site, thresholds, plugin policies, previous
+ * audit results, accepted system plugin hashes and advisories it ran with.
+ */
+export interface FixtureBundle {
+  version: number;
+  recorded_at: string;
+  site: Site;
+  thresholds: Thresholds;
+  plugin_policies: PluginPolicy[];
+  previous_results: AuditRawData | null;
+  system_plugin_hashes: AcceptedSystemPluginHashes;
+  // Every advisory the audit looked up
+  advisories: VulnerabilityAdvisory[];
+  exchanges: FixtureExchange[];
+}
+
+export interface FixtureRecorder {
+  mode: 'record';
+  exchanges: FixtureExchange[];
+}
+
+export interface FixturePlayer {
+  mode: 'replay';
+  bundle: FixtureBundle;
+  // Exchanges not yet replayed, per kind + operation, in recorded order
+  pending: Map<string, FixtureExchange[]>;
+}
+
+export type FixtureSession = FixtureRecorder | FixturePlayer;
+
+// How a connector's result is stored in a bundle; plain JSON results need none
+export interface FixtureCodec<T> {
+  encode: (result: T) => unknown | Promise<unknown>;
+  decode: (stored: unknown) => T;
+}
+
+export class FixtureMissingError extends Error {
+  constructor(kind: TranscriptEntryKind, operation: string) {
+    super(`No recorded ${kind} exchange left for: ${operation}`);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+const IDENTITY_CODEC: FixtureCodec<unknown> = {
+  encode: (result) => result,
+  decode: (stored) => stored,
+};
+
+// Same approach as the transcript: the session follows the async call chain
+const sessions = new AsyncLocalStorage<FixtureSession>();
+
+function getExchangeKey(kind: TranscriptEntryKind, operation: string): string {
+  return `${kind} ${operation}`;
+}
+
+export function createFixtureRecorder(): FixtureRecorder {
+  return { mode: 'record', exchanges: [] };
+}
+
+export function createFixturePlayer(bundle: FixtureBundle): FixturePlayer {
+  if (bundle.version !== FIXTURE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported fixture bundle version ${bundle.version} (expected ${FIXTURE_BUNDLE_VERSION})`);
+  }
+
+  const pending = new Map<string, FixtureExchange[]>();
+  for (const exchange of bundle.exchanges) {
+    const key = getExchangeKey(exchange.kind, exchange.operation);
+    pending.set(key, [...(pending.get(key) || []), exchange]);
+  }
+
+  return { mode: 'replay', bundle, pending };
+}
+
+// What an audit ran with besides its connector traffic
+export type FixtureAuditInputs = Pick<
+  FixtureBundle,
+  'thresholds' | 'plugin_policies' | 'previous_results' | 'system_plugin_hashes' | 'advisories'
+>;
+
+export function createFixtureBundle(recorder: FixtureRecorder, site: Site, inputs: FixtureAuditInputs): FixtureBundle {
+  return {
+    version: FIXTURE_BUNDLE_VERSION,
+    recorded_at: new Date().toISOString(),
+    site,
+    ...inputs,
+    exchanges: recorder.exchanges,
+  };
+}
+
+export function withFixtures<T>(session: FixtureSession, run: () => Promise<T>): Promise<T> {
+  return sessions.run(session, run);
+}
+
+/**
+ * Run a connector call through the active fixture session, if any: recording
+ * stores its result, replaying returns the next stored result for the same
+ * kind and operation without calling `run` at all.
+ */
+export async function runWithFixtures<T>(
+  kind: TranscriptEntryKind,
+  operation: string,
+  run: () => Promise<T>,
+  codec: FixtureCodec<T> = IDENTITY_CODEC as FixtureCodec<T>
+): Promise<T> {
+  const session = sessions.getStore();
+  if (!session) return run();
+
+  if (session.mode === 'replay') {
+    const exchange = session.pending.get(getExchangeKey(kind, operation))?.shift();
+    if (!exchange) {
+      throw new FixtureMissingError(kind, operation);
+    }
+    if (exchange.error !== undefined) {
+      throw new Error(exchange.error);
+    }
+    return codec.decode(exchange.result);
+  }
+
+  // Keep the recorded order even when calls finish out of order
+  const exchange: FixtureExchange = { kind, operation };
+  session.exchanges.push(exchange);
+
+  try {
+    const result = await run();
+    exchange.result = await codec.encode(result);
+    return result;
+  } catch (error) {
+    exchange.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  }
+}
+
+// Responses are stored as status, headers and body text
+export const RESPONSE_CODEC: FixtureCodec<Response> = {
+  encode: async (response) => ({
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: await response.clone().text(),
+  }),
+  decode: (stored) => {
+    const { status, headers, body } = stored as { status: number; headers: Record<string, string>; body: string };
+    // Bodies aren't allowed on these statuses
+    const nullBody = status === 204 || status === 304;
+    return new Response(nullBody ? null : body, { status, headers });
+  },
+};
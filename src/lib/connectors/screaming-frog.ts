@@ -3,6 +3,8 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { runWithFixtures } from './fixtures';
+import { recordOperation } from './transcript';
 
 const execAsync = promisify(exec);
 
@@ -43,19 +45,29 @@ export interface ScreamingFrogResults {
   };
 }
 
+interface CrawlOptions {
+  maxPages?: number;
+  timeout?: number;
+  outputFolder?: string;
+  authConfig?: any;
+  // Kills the Screaming Frog process when aborted
+  signal?: AbortSignal;
+}
+
 export async function crawlSiteForBackendMetrics(
   siteUrl: string,
-  options: {
-    maxPages?: number;
-    timeout?: number;
-    outputFolder?: string;
-    authConfig?: any;
-  } = {}
+  options: CrawlOptions = {}
 ): Promise<ScreamingFrogResults> {
+  // Results are parsed from the export files, so fixtures keep the parsed results
+  return runWithFixtures('process', `screaming-frog --crawl ${siteUrl}`, () => crawlSite(siteUrl, options));
+}
+
+async function crawlSite(siteUrl: string, options: CrawlOptions): Promise<ScreamingFrogResults> {
   const {
     maxPages = 100,
     timeout = 300000, // 5 minutes
-    outputFolder = path.join(process.cwd(), 'temp', 'screaming-frog')
+    outputFolder = path.join(process.cwd(), 'temp', 'screaming-frog'),
+    signal,
   } = options;
 
   console.log(`[Screaming Frog] Starting crawl for ${siteUrl}...`);
@@ -87,10 +99,16 @@ export async function crawlSiteForBackendMetrics(
     console.log(`[Screaming Frog] Running command: ${command}`);
 
     // Execute crawl
-    const { stdout, stderr } = await execAsync(command, { 
-      timeout,
-      maxBuffer: 1024 * 1024 * 10 // 10MB buffer
-    });
+    const { stdout, stderr } = await recordOperation(
+      'process',
+      command,
+      () => execAsync(command, {
+        timeout,
+        maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+        signal,
+      }),
+      (output) => ({ ok: true, exit_code: 0, stdout: output.stdout, stderr: output.stderr })
+    );
 
     console.log(`[Screaming Frog] Crawl completed for ${siteUrl}`);
     
@@ -0,0 +1,351 @@
+import { Client, ClientChannel, ConnectConfig } from 'ssh2';
+import { SSH_POOL_CONFIG } from '@/lib/constants/ssh';
+
+export interface SSHExecResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface SSHExecOptions {
+  timeout: number;
+  // Piped to the command's standard input
+  stdin?: string;
+  // Closes the channel and rejects with the signal's reason when aborted
+  signal?: AbortSignal;
+}
+
+// Failures before a command started running; safe to retry on a new connection
+class SSHConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SSHConnectionError';
+  }
+}
+
+// The server refused a channel on a live connection (e.g. sshd's MaxSessions)
+class SSHChannelOpenError extends SSHConnectionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SSHChannelOpenError';
+  }
+}
+
+interface PooledSession {
+  key: string;
+  getConfig: () => ConnectConfig;
+  client: Client | null;
+  connecting: Promise<Client> | null;
+  // Holders (e.g. a running audit) keeping the connection open between commands
+  refs: number;
+  activeChannels: number;
+  waiting: Array<() => void>;
+  // Commands waiting for another channel to close before retrying
+  channelWaiters: Array<() => void>;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+const sessions = new Map<string, PooledSession>();
+
+function getSession(key: string, getConfig: () => ConnectConfig): PooledSession {
+  let session = sessions.get(key);
+  if (!session) {
+    session = {
+      key,
+      getConfig,
+      client: null,
+      connecting: null,
+      refs: 0,
+      activeChannels: 0,
+      waiting: [],
+      channelWaiters: [],
+      idleTimer: null,
+    };
+    sessions.set(key, session);
+  }
+  return session;
+}
+
+function disconnect(session: PooledSession) {
+  const client = session.client;
+  session.client = null;
+  try {
+    client?.end();
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+function closeSession(session: PooledSession) {
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = null;
+  }
+  disconnect(session);
+  sessions.delete(session.key);
+}
+
+// Close the connection once nobody holds it and no command is running
+function scheduleIdleClose(session: PooledSession) {
+  if (session.refs > 0 || session.activeChannels > 0) return;
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+
+  session.idleTimer = setTimeout(() => {
+    session.idleTimer = null;
+    if (session.refs === 0 && session.activeChannels === 0) {
+      closeSession(session);
+    }
+  }, SSH_POOL_CONFIG.IDLE_TIMEOUT_MS);
+  session.idleTimer.unref();
+}
+
+function connect(session: PooledSession): Promise<Client> {
+  if (session.client) return Promise.resolve(session.client);
+  if (session.connecting) return session.connecting;
+
+  session.connecting = new Promise<Client>((resolve, reject) => {
+    const client = new Client();
+
+    const fail = (message: string) => {
+      if (session.client === client) session.client = null;
+      if (session.connecting) {
+        session.connecting = null;
+        reject(new SSHConnectionError(message));
+      }
+      try {
+        client.end();
+      } catch {
+        // Ignore cleanup errors
+      }
+    };
+
+    client.on('ready', () => {
+      session.client = client;
+      session.connecting = null;
+      resolve(client);
+    });
+    client.on('error', (err) => fail(`SSH connection error: ${err.message}`));
+    client.on('timeout', () => fail('SSH connection timed out'));
+    client.on('close', () => fail('SSH connection closed unexpectedly'));
+
+    client.connect({
+      ...session.getConfig(),
+      keepaliveInterval: SSH_POOL_CONFIG.KEEPALIVE_INTERVAL_MS,
+      keepaliveCountMax: SSH_POOL_CONFIG.KEEPALIVE_COUNT_MAX,
+    });
+  });
+
+  return session.connecting;
+}
+
+function acquireChannel(session: PooledSession): Promise<void> {
+  if (session.activeChannels < SSH_POOL_CONFIG.MAX_CHANNELS_PER_HOST) {
+    session.activeChannels++;
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    session.waiting.push(() => {
+      session.activeChannels++;
+      resolve();
+    });
+  });
+}
+
+function releaseChannel(session: PooledSession) {
+  session.activeChannels--;
+  session.channelWaiters.splice(0).forEach((wake) => wake());
+  const next = session.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    scheduleIdleClose(session);
+  }
+}
+
+// Resolve once any other command on the connection finishes. Rejects after
+// CHANNEL_WAIT_TIMEOUT_MS, since the other commands may be waiting too.
+function waitForChannelClose(session: PooledSession, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stopWaiting = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      session.channelWaiters = session.channelWaiters.filter((wake) => wake !== onClose);
+    };
+    const onAbort = () => {
+      stopWaiting();
+      reject(signal?.reason);
+    };
+    const onClose = () => {
+      stopWaiting();
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      stopWaiting();
+      reject(
+        new Error(
+          `No SSH channel freed up on ${session.key} within ${SSH_POOL_CONFIG.CHANNEL_WAIT_TIMEOUT_MS}ms`
+        )
+      );
+    }, SSH_POOL_CONFIG.CHANNEL_WAIT_TIMEOUT_MS);
+    session.channelWaiters.push(onClose);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function execOnce(
+  session: PooledSession,
+  command: string,
+  options: SSHExecOptions
+): Promise<SSHExecResult> {
+  const { timeout, stdin, signal } = options;
+  const client = await connect(session);
+
+  return new Promise<SSHExecResult>((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let channel: ClientChannel | null = null;
+    let settled = false;
+
+    const timeoutId = setTimeout(() => {
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      // Only this channel is abandoned; the connection stays up for other commands
+      channel?.close();
+      reject(new Error(`Command '${command}' timed out after ${timeout}ms on ${session.key}`));
+    }, timeout);
+
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      channel?.close();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+
+    try {
+      client.exec(command, (err, stream) => {
+        if (err) {
+          settle(() => reject(new SSHChannelOpenError(`Failed to open SSH channel: ${err.message}`)));
+          return;
+        }
+        if (settled) {
+          // Aborted or timed out while the channel was opening
+          stream.close();
+          return;
+        }
+
+        channel = stream;
+        stream.on('data', (data: Buffer) => {
+          stdout += data.toString();
+        });
+        stream.stderr.on('data', (data: Buffer) => {
+          stderr += data.toString();
+        });
+        if (stdin !== undefined) {
+          // Write the input and send EOF so the command can finish reading
+          stream.end(stdin);
+        }
+        stream.on('close', (code: number | null) => {
+          settle(() => {
+            if (code === null || code === undefined) {
+              // The connection dropped mid-command; don't rerun it
+              reject(new Error(`SSH connection closed while running '${command}' on ${session.key}`));
+            } else {
+              resolve({ code, stdout, stderr });
+            }
+          });
+        });
+      });
+    } catch (error) {
+      // exec throws synchronously when the connection is already gone
+      const message = error instanceof Error ? error.message : String(error);
+      settle(() => reject(new SSHConnectionError(`Failed to open SSH channel: ${message}`)));
+    }
+  });
+}
+
+/**
+ * Run a command over the pooled connection for `key`, opening (or
+ * re-opening) it as needed. At most MAX_CHANNELS_PER_HOST commands run at
+ * once per host. A non-zero exit code is returned, not thrown.
+ *
+ * When the server refuses a channel while other commands are running on a
+ * live connection, the host allows fewer sessions than we do, so the command
+ * waits for one of them to finish and retries rather than dropping the
+ * connection they share. The wait and the number of retries are bounded, so
+ * commands refused at the same time can't wait on each other forever.
+ */
+export async function execOverSSH(
+  key: string,
+  getConfig: () => ConnectConfig,
+  command: string,
+  options: SSHExecOptions
+): Promise<SSHExecResult> {
+  const session = getSession(key, getConfig);
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = null;
+  }
+
+  await acquireChannel(session);
+  try {
+    for (let attempt = 0, channelWaits = 0; ; ) {
+      options.signal?.throwIfAborted();
+      try {
+        return await execOnce(session, command, options);
+      } catch (error) {
+        if (!(error instanceof SSHConnectionError)) {
+          throw error;
+        }
+        if (error instanceof SSHChannelOpenError && session.client && session.activeChannels > 1) {
+          if (channelWaits++ >= SSH_POOL_CONFIG.MAX_CHANNEL_WAITS) {
+            throw error;
+          }
+          console.warn(`[SSH ${key}] ${error.message}; waiting for a running command to finish`);
+          await waitForChannelClose(session, options.signal);
+          continue;
+        }
+        if (attempt++ >= SSH_POOL_CONFIG.RECONNECT_ATTEMPTS) {
+          throw error;
+        }
+        console.warn(`[SSH ${key}] ${error.message}; reconnecting`);
+        disconnect(session);
+      }
+    }
+  } finally {
+    releaseChannel(session);
+  }
+}
+
+/**
+ * Keep the connection for `key` open until the returned release function is
+ * called (e.g. for the length of an audit). Holds are counted, so several
+ * audits of one host share a connection; it closes when the last one lets go.
+ */
+export function acquireSSHSession(key: string, getConfig: () => ConnectConfig): () => void {
+  const session = getSession(key, getConfig);
+  session.refs++;
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = null;
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    session.refs--;
+    if (session.refs === 0 && session.activeChannels === 0) {
+      closeSession(session);
+    }
+  };
+}
@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { REDACTED, SECRET_ENV_VARS, TRANSCRIPT_CONFIG } from '@/lib/constants/transcript';
+import { RESPONSE_CODEC, runWithFixtures } from './fixtures';
+import { TranscriptEntry, TranscriptEntryKind } from '@/lib/types';
+
+// Connector operations of one audit; entries are added as operations finish
+// and `sequence` gives the order they started in
+export interface Transcript {
+  entries: TranscriptEntry[];
+  nextSequence: number;
+  // Masked like SECRET_ENV_VARS, e.g. the SSH key variable the site names
+  secretEnvVars: string[];
+}
+
+interface TranscriptScope {
+  transcript: Transcript;
+  checkKey: string | null;
+}
+
+// What an operation returned, as far as the transcript cares
+export interface OperationOutcome {
+  ok: boolean;
+  exit_code?: number | null;
+  http_status?: number | null;
+  stdout?: string | null;
+  stderr?: string | null;
+}
+
+// Connectors are called from deep inside the checks, so the transcript being
+// recorded rides along with the async call chain instead of every signature
+const scopes = new AsyncLocalStorage<TranscriptScope>();
+
+export function createTranscript(secretEnvVars: string[] = []): Transcript {
+  return { entries: [], nextSequence: 0, secretEnvVars };
+}
+
+/**
+ * Run `run` with connector operations recorded to `transcript`, attributed to
+ * `checkKey`. Outside of this, recordOperation just runs the operation.
+ */
+export function withTranscript<T>(transcript: Transcript, checkKey: string | null, run: () => Promise<T>): Promise<T> {
+  return scopes.run({ transcript, checkKey }, run);
+}
+
+/**
+ * Mask credentials: the values of SECRET_ENV_VARS and `secretEnvVars`,
+ * private key blocks, Authorization header values and password/token style
+ * parameters.
+ */
+export function redactSecrets(
+  text: string,
+  env: Record<string, string | undefined> = process.env,
+  secretEnvVars: string[] = []
+): string {
+  let redacted = text;
+
+  for (const name of new Set([...SECRET_ENV_VARS, ...secretEnvVars])) {
+    const value = env[name];
+    // Too short to be a real secret, and would mangle unrelated text
+    if (!value || value.length < 6) continue;
+    // Keys are often configured with escaped newlines
+    for (const variant of new Set([value, value.replace(/\\n/g, '\n')])) {
+      redacted = redacted.split(variant).join(REDACTED);
+    }
+  }
+
+  return redacted
+    .replace(/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, REDACTED)
+    .replace(/\b(Bearer|Basic) +[A-Za-z0-9._~+/-]+=*/g, `$1 ${REDACTED}`)
+    // Any name ending in one of these, e.g. WP-CLI's --user_pass, --admin_password and --dbpass
+    .replace(/\b(\w*(?:pass|passwd|password|pwd|token|secret|api[_-]?key)["']?\s*[=:]\s*["']?)[^\s"'&,]+/gi, `$1${REDACTED}`);
+}
+
+function clip(text: string | null | undefined, secretEnvVars: string[]): string | null {
+  if (!text) return null;
+  const redacted = redactSecrets(text, process.env, secretEnvVars);
+  return redacted.length > TRANSCRIPT_CONFIG.MAX_OUTPUT_CHARS
+    ? `${redacted.substring(0, TRANSCRIPT_CONFIG.MAX_OUTPUT_CHARS)}... (${redacted.length - TRANSCRIPT_CONFIG.MAX_OUTPUT_CHARS} more characters)`
+    : redacted;
+}
+
+/**
+ * Run a connector operation and, inside withTranscript, record it with what
+ * `describe` makes of its result (or the error it threw, which is rethrown).
+ */
+export async function recordOperation<T>(
+  kind: TranscriptEntryKind,
+  operation: string,
+  run: () => Promise<T>,
+  describe: (result: T) => OperationOutcome | Promise<OperationOutcome>
+): Promise<T> {
+  const scope = scopes.getStore();
+  if (!scope) return run();
+
+  const sequence = scope.transcript.nextSequence++;
+  const startedAt = new Date();
+  const { secretEnvVars } = scope.transcript;
+  const record = (outcome: OperationOutcome & { error?: string | null }) => {
+    scope.transcript.entries.push({
+      sequence,
+      check_key: scope.checkKey,
+      kind,
+      operation: redactSecrets(operation, process.env, secretEnvVars),
+      ok: outcome.ok,
+      exit_code: outcome.exit_code ?? null,
+      http_status: outcome.http_status ?? null,
+      stdout: clip(outcome.stdout, secretEnvVars),
+      stderr: clip(outcome.stderr, secretEnvVars),
+      error: clip(outcome.error, secretEnvVars),
+      duration_ms: Date.now() - startedAt.getTime(),
+      started_at: startedAt.toISOString(),
+    });
+  };
+
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    record({ ok: false, error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+
+  record(await describe(result));
+  return result;
+}
+
+/**
+ * fetch, recorded as an 'http' transcript entry (and fixture exchange). Bodies
+ * are only kept in the transcript for responses that weren't ok; the caller
+ * still gets to read the body. `getHeaders` is only called when the request
+ * is really sent, so replays need no credentials.
+ */
+export function recordedFetch(url: string, init: RequestInit = {}, getHeaders?: () => HeadersInit): Promise<Response> {
+  const operation = `${init.method || 'GET'} ${url}`;
+
+  return recordOperation(
+    'http',
+    operation,
+    () =>
+      runWithFixtures(
+        'http',
+        operation,
+        () => fetch(url, getHeaders ? { ...init, headers: { ...getHeaders(), ...init.headers } } : init),
+        RESPONSE_CODEC
+      ),
+    async (response) => ({
+      ok: response.ok,
+      http_status: response.status,
+      stdout: response.ok ? null : await response.clone().text().catch(() => null),
+    })
+  );
+}
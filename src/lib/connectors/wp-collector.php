@@ -0,0 +1,212 @@
+<?php
+/**
+ * WordPress collector for site audits.
+ *
+ * Piped to `wp eval-file -` so a whole audit's worth of WordPress facts is
+ * gathered in a single bootstrap. Prints one JSON document on a line prefixed
+ * with ASYMSITES_SNAPSHOT: (anything else on stdout, e.g. PHP notices from
+ * plugins, is ignored by the parser).
+ *
+ * Bump schema_version whenever the shape of the document changes, and
+ * collector_version for any other change to this file.
+ */
+
+if ( ! defined( 'ABSPATH' ) ) {
+	exit( 1 );
+}
+
+require_once ABSPATH . 'wp-admin/includes/plugin.php';
+require_once ABSPATH . 'wp-admin/includes/update.php';
+
+global $wpdb, $wp_version;
+
+// Refresh update data, as `wp plugin list` and `wp core check-update` do
+wp_version_check( array(), true );
+wp_update_plugins();
+wp_update_themes();
+
+// Same slug WP-CLI reports: the plugin's folder, or the file name for single-file plugins
+function asymsites_plugin_slug( $file ) {
+	$name = dirname( $file );
+	return '.' === $name ? basename( $file, '.php' ) : $name;
+}
+
+// Only must-use plugins and drop-ins are hashed: they load without being
+// activated, so they are where host code and malware both live
+function asymsites_file_hash( $path ) {
+	return is_readable( $path ) ? hash_file( 'sha256', $path ) : null;
+}
+
+$core_updates = array();
+foreach ( (array) get_core_updates() as $offer ) {
+	if ( isset( $offer->response, $offer->current ) && 'upgrade' === $offer->response && version_compare( $offer->current, $wp_version, '>' ) ) {
+		$core_updates[] = array( 'version' => $offer->current );
+	}
+}
+
+$plugin_updates = get_site_transient( 'update_plugins' );
+$plugins        = array();
+
+foreach ( get_plugins() as $file => $plugin ) {
+	$update    = isset( $plugin_updates->response[ $file ] ) ? $plugin_updates->response[ $file ] : null;
+	$plugins[] = array(
+		'name'           => asymsites_plugin_slug( $file ),
+		'status'         => is_plugin_active( $file ) ? 'active' : 'inactive',
+		'version'        => $plugin['Version'],
+		'update'         => $update ? 'available' : 'none',
+		'update_version' => $update ? $update->new_version : null,
+		'title'          => $plugin['Name'],
+	);
+}
+
+foreach ( get_mu_plugins() as $file => $plugin ) {
+	$plugins[] = array(
+		'name'           => asymsites_plugin_slug( $file ),
+		'status'         => 'must-use',
+		'version'        => $plugin['Version'],
+		'update'         => 'none',
+		'update_version' => null,
+		'title'          => $plugin['Name'],
+		'file'           => 'mu-plugins/' . $file,
+		'sha256'         => asymsites_file_hash( WPMU_PLUGIN_DIR . '/' . $file ),
+	);
+}
+
+foreach ( get_dropins() as $file => $plugin ) {
+	$plugins[] = array(
+		'name'           => asymsites_plugin_slug( $file ),
+		'status'         => 'dropin',
+		'version'        => $plugin['Version'],
+		'update'         => 'none',
+		'update_version' => null,
+		'title'          => $plugin['Name'],
+		'file'           => $file,
+		'sha256'         => asymsites_file_hash( WP_CONTENT_DIR . '/' . $file ),
+	);
+}
+
+$theme_updates = get_site_transient( 'update_themes' );
+$active_theme  = get_stylesheet();
+$parent_theme  = get_template();
+$themes        = array();
+
+// Broken themes too, so a child theme whose parent is missing still shows up
+foreach ( wp_get_themes( array( 'errors' => null ) ) as $stylesheet => $theme ) {
+	$update   = isset( $theme_updates->response[ $stylesheet ] ) ? $theme_updates->response[ $stylesheet ] : null;
+	$status   = 'inactive';
+	if ( $stylesheet === $active_theme ) {
+		$status = 'active';
+	} elseif ( $stylesheet === $parent_theme ) {
+		$status = 'parent';
+	}
+	$themes[] = array(
+		'name'           => $stylesheet,
+		'status'         => $status,
+		'version'        => $theme->get( 'Version' ),
+		'update'         => $update ? 'available' : 'none',
+		'update_version' => $update ? $update['new_version'] : null,
+		'title'          => $theme->get( 'Name' ),
+		'parent'         => $theme->get_template() !== $stylesheet ? $theme->get_template() : null,
+	);
+}
+
+$administrators = array();
+foreach ( get_users( array( 'role' => 'administrator' ) ) as $user ) {
+	$administrators[] = array(
+		'id'           => (int) $user->ID,
+		'user_login'   => $user->user_login,
+		'user_email'   => $user->user_email,
+		'display_name' => $user->display_name,
+	);
+}
+
+// TABLE_ROWS is an estimate for InnoDB tables, which is good enough for sizing
+$tables = array();
+$table_rows = $wpdb->get_results(
+	$wpdb->prepare(
+		"SELECT TABLE_NAME AS name, TABLE_ROWS AS row_count, DATA_LENGTH + INDEX_LENGTH AS size_bytes
+		FROM information_schema.TABLES
+		WHERE TABLE_SCHEMA = %s AND TABLE_NAME LIKE %s
+		ORDER BY TABLE_NAME",
+		DB_NAME,
+		$wpdb->esc_like( $wpdb->base_prefix ) . '%'
+	)
+);
+foreach ( $table_rows as $table ) {
+	$tables[] = array(
+		'name'       => $table->name,
+		'rows'       => (int) $table->row_count,
+		'size_bytes' => (int) $table->size_bytes,
+	);
+}
+
+// WordPress 6.6 added autoload values beyond 'yes'
+$autoload_values = function_exists( 'wp_autoload_values_to_autoload' ) ? wp_autoload_values_to_autoload() : array( 'yes' );
+$autoload_in     = implode( ',', array_fill( 0, count( $autoload_values ), '%s' ) );
+
+$autoload_bytes = (int) $wpdb->get_var(
+	$wpdb->prepare( "SELECT COALESCE(SUM(LENGTH(option_value)), 0) FROM {$wpdb->options} WHERE autoload IN ($autoload_in)", $autoload_values )
+);
+
+$largest_autoload_options = array();
+$autoload_rows = $wpdb->get_results(
+	$wpdb->prepare(
+		"SELECT option_name AS name, LENGTH(option_value) AS size_bytes FROM {$wpdb->options}
+		WHERE autoload IN ($autoload_in) ORDER BY size_bytes DESC LIMIT 25",
+		$autoload_values
+	)
+);
+foreach ( $autoload_rows as $option ) {
+	$largest_autoload_options[] = array(
+		'name'       => $option->name,
+		'size_bytes' => (int) $option->size_bytes,
+	);
+}
+
+$revisions  = (int) $wpdb->get_var( "SELECT COUNT(*) FROM {$wpdb->posts} WHERE post_type = 'revision'" );
+$transients = (int) $wpdb->get_var(
+	"SELECT COUNT(*) FROM {$wpdb->options}
+	WHERE option_name LIKE '\_transient\_%' AND option_name NOT LIKE '\_transient\_timeout\_%'"
+);
+$comment_counts = wp_count_comments();
+
+$snapshot = array(
+	'schema_version'    => 3,
+	'collector_version' => '1.2.0',
+	'collected_at'      => gmdate( 'c' ),
+	'core'              => array(
+		'version'      => $wp_version,
+		'updates'      => $core_updates,
+		'is_multisite' => is_multisite(),
+	),
+	'php'               => array(
+		'version'      => PHP_VERSION,
+		'memory_limit' => ini_get( 'memory_limit' ),
+	),
+	'constants'         => array(
+		'wp_debug'           => defined( 'WP_DEBUG' ) && WP_DEBUG,
+		'wp_debug_display'   => defined( 'WP_DEBUG_DISPLAY' ) && WP_DEBUG_DISPLAY,
+		'disallow_file_edit' => defined( 'DISALLOW_FILE_EDIT' ) && DISALLOW_FILE_EDIT,
+		'disallow_file_mods' => defined( 'DISALLOW_FILE_MODS' ) && DISALLOW_FILE_MODS,
+	),
+	'options'           => array(
+		'home'        => get_option( 'home' ),
+		'siteurl'     => get_option( 'siteurl' ),
+		'blog_public' => '1' === (string) get_option( 'blog_public' ),
+	),
+	'plugins'           => $plugins,
+	'themes'            => $themes,
+	'administrators'    => $administrators,
+	'counts'            => array(
+		'revisions'     => $revisions,
+		'transients'    => $transients,
+		'spam_comments' => (int) $comment_counts->spam,
+	),
+	'database'          => array(
+		'tables'                   => $tables,
+		'autoload_bytes'           => $autoload_bytes,
+		'largest_autoload_options' => $largest_autoload_options,
+	),
+);
+
+echo "\nASYMSITES_SNAPSHOT:" . wp_json_encode( $snapshot ) . "\n";
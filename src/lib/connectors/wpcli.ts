@@ -1,121 +1,59 @@
-import { Client, ConnectConfig } from 'ssh2';
-
+import { readFile } from 'fs/promises';
+import { ConnectConfig } from 'ssh2';
+import { WordPressSnapshot } from '@/lib/types';
+import { acquireSSHSession, execOverSSH } from './ssh-pool';
+import { runWithFixtures } from './fixtures';
+import { recordOperation } from './transcript';
+
+// Where WP-CLI runs; hosting providers build this for their sites (see getWPCLIConfig in @/lib/hosting)
 export interface WPCLIConfig {
-  installName: string;
-  environment?: string;
+  // Pooled SSH connections are shared per key
+  connectionKey: string;
+  getSSHConfig: () => ConnectConfig;
+  // WordPress root, for hosts where the SSH login doesn't start there
+  wpPath?: string;
 }
 
-function getSSHConfig(installName: string): ConnectConfig {
-  let privateKey = process.env.WPENGINE_SSH_PRIVATE_KEY;
-
-  if (!privateKey) {
-    throw new Error('WPENGINE_SSH_PRIVATE_KEY not configured');
-  }
-
-  // Handle escaped newlines from environment variables
-  if (privateKey.includes('\\n')) {
-    privateKey = privateKey.replace(/\\n/g, '\n');
-  }
-
-  return {
-    host: `${installName}.ssh.wpengine.net`,
-    port: 22,
-    username: installName,
-    privateKey: privateKey,
-    readyTimeout: 30000,
-  };
+export function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
 }
 
 export async function runWPCLI(
   config: WPCLIConfig,
   command: string,
-  options: { format?: 'json' | 'csv' | 'table'; timeout?: number } = {}
+  options: { format?: 'json' | 'csv' | 'table'; timeout?: number; stdin?: string; signal?: AbortSignal } = {}
 ): Promise<string> {
-  const { format = 'json', timeout = 120000 } = options; // Increased to 2 minutes
-
-  // Wrap entire operation with a hard timeout to prevent hangs
-  const connectionPromise = new Promise<string>((resolve, reject) => {
-    const conn = new Client();
-    let output = '';
-    let errorOutput = '';
-    let commandTimeoutId: NodeJS.Timeout;
-    let resolved = false;
-
-    const cleanup = () => {
-      if (resolved) return;
-      resolved = true;
-      clearTimeout(commandTimeoutId);
-      try {
-        conn.end();
-      } catch {
-        // Ignore cleanup errors
-      }
-    };
-
-    commandTimeoutId = setTimeout(() => {
-      cleanup();
-      reject(new Error(`WP-CLI command '${command}' timed out after ${timeout}ms on ${config.installName}`));
-    }, timeout);
-
-    conn.on('ready', () => {
-      const formatFlag = format !== 'table' ? ` --format=${format}` : '';
-      const fullCommand = `wp ${command}${formatFlag}`;
-
-      conn.exec(fullCommand, (err, stream) => {
-        if (err) {
-          cleanup();
-          reject(err);
-          return;
-        }
-
-        stream.on('data', (data: Buffer) => {
-          output += data.toString();
-        });
-
-        stream.stderr.on('data', (data: Buffer) => {
-          errorOutput += data.toString();
-        });
-
-        stream.on('close', (code: number) => {
-          cleanup();
-
-          if (code === 0) {
-            resolve(output.trim());
-          } else {
-            reject(new Error(`WP-CLI error (code ${code}): ${errorOutput || output}`));
-          }
-        });
-      });
-    });
-
-    conn.on('error', (err) => {
-      cleanup();
-      reject(new Error(`SSH connection error: ${err.message}`));
-    });
-
-    conn.on('close', () => {
-      if (!resolved) {
-        cleanup();
-        reject(new Error('SSH connection closed unexpectedly'));
-      }
-    });
-
-    conn.on('timeout', () => {
-      cleanup();
-      reject(new Error('SSH connection timed out'));
-    });
-
-    conn.connect(getSSHConfig(config.installName));
-  });
+  const { format = 'json', timeout = 120000, stdin, signal } = options; // Increased to 2 minutes
+
+  const formatFlag = format !== 'table' ? ` --format=${format}` : '';
+  // cd rather than --path so nested `wp` calls (e.g. in $(...)) run there too
+  const cdPrefix = config.wpPath ? `cd ${quoteShellArg(config.wpPath)} && ` : '';
+  const fullCommand = `${cdPrefix}wp ${command}${formatFlag}`;
+
+  // Runs over the install's pooled connection (opened on first use)
+  const result = await recordOperation(
+    'ssh',
+    fullCommand,
+    () =>
+      runWithFixtures('ssh', fullCommand, () =>
+        execOverSSH(config.connectionKey, config.getSSHConfig, fullCommand, { timeout, stdin, signal })
+      ),
+    ({ code, stdout, stderr }) => ({ ok: code === 0, exit_code: code, stdout, stderr })
+  );
+
+  if (result.code !== 0) {
+    throw new Error(`WP-CLI error (code ${result.code}): ${result.stderr || result.stdout}`);
+  }
 
-  // Hard timeout wrapper - ensures we never hang indefinitely
-  const hardTimeout = new Promise<never>((_, reject) => {
-    setTimeout(() => {
-      reject(new Error(`SSH operation timed out after ${timeout + 5000}ms (hard timeout)`));
-    }, timeout + 5000);
-  });
+  return result.stdout.trim();
+}
 
-  return Promise.race([connectionPromise, hardTimeout]);
+/**
+ * Keep one SSH connection to the install open until the returned function is
+ * called, so a run of WP-CLI commands (an audit) doesn't reconnect each time.
+ */
+export function acquireWPCLISession(config: WPCLIConfig): () => void {
+  return acquireSSHSession(config.connectionKey, config.getSSHConfig);
 }
 
 // Typed helper functions
@@ -152,11 +90,13 @@ export async function checkCoreUpdates(config: WPCLIConfig) {
   }
 }
 
-export async function verifyChecksums(config: WPCLIConfig) {
+export async function verifyChecksums(config: WPCLIConfig, signal?: AbortSignal) {
   try {
-    await runWPCLI(config, 'core verify-checksums', { format: 'table', timeout: 180000 }); // 3 minutes
+    await runWPCLI(config, 'core verify-checksums', { format: 'table', timeout: 180000, signal }); // 3 minutes
     return { valid: true, errors: [] };
   } catch (err) {
+    // Being aborted says nothing about the files
+    signal?.throwIfAborted();
     return { valid: false, errors: [String(err)] };
   }
 }
@@ -201,6 +141,50 @@ export async function getTransientCount(config: WPCLIConfig) {
   }
 }
 
+// WordPress snapshot (bundled collector)
+
+// Shape of the collector's output this code understands; see wp-collector.php
+export const COLLECTOR_SCHEMA_VERSION = 3;
+// Resolved next to this module (bundlers copy it as an asset), not from the working directory
+const COLLECTOR_URL = new URL('./wp-collector.php', import.meta.url);
+const SNAPSHOT_MARKER = 'ASYMSITES_SNAPSHOT:';
+
+let collectorScript: Promise<string> | null = null;
+
+/**
+ * Gather plugins, themes, core, users, counts and database sizes in a single
+ * WP-CLI run by piping the bundled PHP collector to `wp eval-file -`.
+ */
+export async function collectWordPressSnapshot(config: WPCLIConfig, signal?: AbortSignal): Promise<WordPressSnapshot> {
+  collectorScript ??= readFile(COLLECTOR_URL, 'utf8').catch((error) => {
+    collectorScript = null;
+    throw error;
+  });
+  const script = await collectorScript;
+
+  // Update checks against wordpress.org happen inside the collector
+  const output = await runWPCLI(config, 'eval-file -', {
+    format: 'table',
+    timeout: 180000,
+    stdin: script,
+    signal,
+  });
+
+  const line = output.split('\n').find((l) => l.startsWith(SNAPSHOT_MARKER));
+  if (!line) {
+    throw new Error(`WordPress collector returned no snapshot: ${output.slice(0, 500)}`);
+  }
+
+  const snapshot = JSON.parse(line.slice(SNAPSHOT_MARKER.length)) as WordPressSnapshot;
+  if (snapshot.schema_version !== COLLECTOR_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported WordPress snapshot schema ${snapshot.schema_version} (expected ${COLLECTOR_SCHEMA_VERSION})`
+    );
+  }
+
+  return snapshot;
+}
+
 // Action commands (use with caution)
 
 export async function updatePlugin(config: WPCLIConfig, pluginSlug: string) {
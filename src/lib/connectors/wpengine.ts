@@ -1,3 +1,5 @@
+import { recordedFetch } from './transcript';
+
 const WPE_API_BASE = 'https://api.wpengineapi.com/v1';
 
 function getAuthHeader(): string {
@@ -17,14 +19,17 @@ async function wpeRequest<T>(
 ): Promise<T> {
   const url = `${WPE_API_BASE}${endpoint}`;
 
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      Authorization: getAuthHeader(),
-      'Content-Type': 'application/json',
-      ...options.headers,
+  const response = await recordedFetch(
+    url,
+    {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
     },
-  });
+    () => ({ Authorization: getAuthHeader() })
+  );
 
   if (!response.ok) {
     const error = await response.text();
@@ -0,0 +1,27 @@
+import type { Audit } from '@/lib/types';
+
+// Audit job queue configuration
+export const QUEUE_CONFIG = {
+  // How long a claimed job stays locked to a worker without a heartbeat
+  LEASE_SECONDS: 120,
+  HEARTBEAT_INTERVAL_MS: 30000, // 30 seconds
+  POLL_INTERVAL_MS: 5000, // 5 seconds between empty polls
+  CANCEL_POLL_INTERVAL_MS: 5000, // How often a running audit checks whether it was cancelled
+
+  // GET /api/audits/{id}/events
+  EVENT_STREAM_POLL_INTERVAL_MS: 1000,
+  EVENT_STREAM_KEEPALIVE_MS: 15000, // Comment line so proxies don't drop an idle stream
+
+  MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 60000, // 1 minute, doubled per attempt
+  RETRY_MAX_DELAY_MS: 30 * 60 * 1000, // 30 minutes
+};
+
+// Fleet audit batches
+export const FLEET_CONFIG = {
+  DEFAULT_CONCURRENCY: 4,
+  MAX_CONCURRENCY: 20,
+};
+
+// Audits in these states won't change any more
+export const FINISHED_AUDIT_STATUSES: Array<Audit['status']> = ['completed', 'failed', 'cancelled'];
@@ -0,0 +1,33 @@
+// Audit scheduling configuration
+// A site's schedule is 'daily', 'weekly' or a 5-field cron expression (UTC).
+// Sites without an explicit schedule get the default cadence of their plan tier.
+
+export const SCHEDULE_PRESETS = {
+  daily: '0 4 * * *', // 04:00 UTC every day
+  weekly: '0 4 * * 1', // 04:00 UTC every Monday
+} as const;
+
+// Tiers are ordered from highest to lowest; a site without an explicit tier
+// gets the first tier its monthly fee qualifies for.
+export const PLAN_TIERS = {
+  premium: {
+    label: 'Premium',
+    minMonthlyFee: 500,
+    defaultSchedule: 'daily',
+  },
+  standard: {
+    label: 'Standard',
+    minMonthlyFee: 200,
+    defaultSchedule: '0 4 * * 1,4', // Monday and Thursday
+  },
+  basic: {
+    label: 'Basic',
+    minMonthlyFee: 0,
+    defaultSchedule: 'weekly',
+  },
+} as const;
+
+export const SCHEDULER_CONFIG = {
+  // How often workers check for sites with a due audit
+  TICK_INTERVAL_MS: 60000, // 1 minute
+};
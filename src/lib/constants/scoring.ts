@@ -0,0 +1,27 @@
+import { CategoryScoringRule, ScoringModel } from '@/lib/types';
+
+const STANDARD_RULE: Omit<CategoryScoringRule, 'weight'> = {
+  deductions: { critical: 25, warning: 10, info: 2 },
+  caps: { critical: 100, warning: 40, info: 6 },
+};
+
+// Used when no scoring model is active in the scoring_models table
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  id: null,
+  name: 'default',
+  config: {
+    categories: {
+      security: { ...STANDARD_RULE, weight: 0.3 },
+      performance: {
+        ...STANDARD_RULE,
+        weight: 0.25,
+        // Cloudflare traffic notices are mostly informational
+        caps: { ...STANDARD_RULE.caps, info: 4 },
+      },
+      plugins: { ...STANDARD_RULE, weight: 0.2 },
+      database: { ...STANDARD_RULE, weight: 0.15 },
+      seo: { ...STANDARD_RULE, weight: 0.1 },
+    },
+    exclude_accepted_risk: false,
+  },
+};
@@ -0,0 +1,15 @@
+// Pooled SSH sessions (see src/lib/connectors/ssh-pool.ts)
+export const SSH_POOL_CONFIG = {
+  // exec channels run at once over one connection; the rest wait their turn
+  MAX_CHANNELS_PER_HOST: 4,
+  KEEPALIVE_INTERVAL_MS: 15000, // 15 seconds
+  KEEPALIVE_COUNT_MAX: 3, // Missed keepalives before the connection is dropped
+  // How long a connection nobody holds stays open for follow-up commands
+  IDLE_TIMEOUT_MS: 30000, // 30 seconds
+  // Fresh connections tried when a channel can't be opened
+  RECONNECT_ATTEMPTS: 1,
+  // How long a refused command waits for another command's channel to close
+  CHANNEL_WAIT_TIMEOUT_MS: 30000, // 30 seconds
+  // Times a refused command waits and retries before giving up
+  MAX_CHANNEL_WAITS: 5,
+};
@@ -0,0 +1,7 @@
+// Themes sites are built on (Asymmetric Marketing standard). A child theme is
+// approved when its parent is.
+export const APPROVED_THEMES = [
+  'astra',
+  'hello-elementor',
+  'bb-theme', // Beaver Builder Theme
+];
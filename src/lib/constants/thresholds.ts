@@ -59,10 +59,16 @@ export const THRESHOLDS = {
     critical: 10,
   },
 
-  // Health score weights
-  severity_deduction: {
-    critical: 15,
-    warning: 5,
-    info: 1,
+  // Themes (one inactive default theme is a reasonable fallback)
+  inactive_themes: {
+    warning: 2,
+    critical: 4,
   },
 };
+
+export type Thresholds = typeof THRESHOLDS;
+
+// A threshold profile only lists the values it changes
+export type ThresholdOverrides = {
+  [K in keyof Thresholds]?: Thresholds[K] extends number ? number : Partial<Thresholds[K]>;
+};
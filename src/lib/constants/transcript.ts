@@ -0,0 +1,19 @@
+// Per-audit connector transcripts (see src/lib/connectors/transcript.ts)
+export const TRANSCRIPT_CONFIG = {
+  // stdout/stderr/response bodies are cut to this many characters per entry
+  MAX_OUTPUT_CHARS: 8000,
+};
+
+// Environment variables whose values never appear in a transcript, on top of
+// those a site names itself (see HostingProvider.getSecretEnvVars)
+export const SECRET_ENV_VARS = [
+  'SUPABASE_SERVICE_ROLE_KEY',
+  'WPENGINE_API_PASSWORD',
+  'WPENGINE_SSH_PRIVATE_KEY',
+  'SSH_PRIVATE_KEY',
+  'WPENGINE_STAGING_PASSWORD',
+  'WP_ADMIN_PASSWORD',
+  'CLOUDFLARE_API_TOKEN',
+];
+
+export const REDACTED = '[REDACTED]';
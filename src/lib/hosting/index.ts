@@ -0,0 +1,37 @@
+import type { WPCLIConfig } from '@/lib/connectors/wpcli';
+import { HostingProviderType } from '@/lib/types';
+import { HostingProvider, HostingSite } from './provider';
+import { sshProvider } from './ssh';
+import { wpengineProvider } from './wpengine';
+
+export type { HostingBackup, HostingInstall, HostingProvider, HostingSite, HostingStatus } from './provider';
+export { HostingOperationUnsupportedError } from './provider';
+
+// Site columns to select wherever a provider is looked up
+export const HOSTING_SITE_COLUMNS = 'domain, hosting_provider, hosting_config, wpengine_install_id, wpengine_environment';
+
+const PROVIDERS: Record<HostingProviderType, HostingProvider> = {
+  wpengine: wpengineProvider,
+  ssh: sshProvider,
+};
+
+export function getHostingProvider(site: Pick<HostingSite, 'hosting_provider'>): HostingProvider {
+  // Rows from before providers existed are WPEngine sites
+  const provider = PROVIDERS[site.hosting_provider || 'wpengine'];
+  if (!provider) {
+    throw new Error(`Unknown hosting provider: ${site.hosting_provider}`);
+  }
+  return provider;
+}
+
+export function getWPCLIConfig(site: HostingSite): WPCLIConfig {
+  return getHostingProvider(site).getWPCLIConfig(site);
+}
+
+export function getSecretEnvVars(site: HostingSite): string[] {
+  return getHostingProvider(site).getSecretEnvVars(site);
+}
+
+export function getHostKey(site: HostingSite): string {
+  return getHostingProvider(site).getHostKey(site);
+}
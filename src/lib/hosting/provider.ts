@@ -0,0 +1,58 @@
+import type { WPCLIConfig } from '@/lib/connectors/wpcli';
+import { HostingProviderType, Site } from '@/lib/types';
+
+// The site columns providers read
+export type HostingSite = Pick<
+  Site,
+  'domain' | 'hosting_provider' | 'hosting_config' | 'wpengine_install_id' | 'wpengine_environment'
+>;
+
+export interface HostingInstall {
+  id: string;
+  name: string;
+  environment: string;
+  domain: string | null;
+}
+
+export interface HostingBackup {
+  id: string;
+  description: string;
+  created_at: string;
+}
+
+export interface HostingStatus {
+  status: string;
+  php_version: string | null;
+}
+
+/**
+ * What the auditor and actions need from a site's host. Implementations live
+ * next to this file and are looked up with getHostingProvider(site).
+ */
+export interface HostingProvider {
+  type: HostingProviderType;
+  label: string;
+  // Must-use plugins and drop-ins the host installs itself (relative to
+  // wp-content); the plugins check treats any other as unexpected
+  providedFiles: string[];
+  // Audits of sites with the same host key never run at the same time
+  getHostKey: (site: HostingSite) => string;
+  // SSH target for WP-CLI commands
+  getWPCLIConfig: (site: HostingSite) => WPCLIConfig;
+  // Environment variables holding the site's own credentials, beyond
+  // SECRET_ENV_VARS; their values are masked in audit transcripts
+  getSecretEnvVars: (site: HostingSite) => string[];
+  createBackup: (site: HostingSite, description: string) => Promise<HostingBackup>;
+  purgeCache: (site: HostingSite) => Promise<void>;
+  // Installs the configured account can see, for importing sites
+  listInstalls: () => Promise<HostingInstall[]>;
+  getStatus: (site: HostingSite) => Promise<HostingStatus>;
+}
+
+// Thrown for operations a provider has no way of doing
+export class HostingOperationUnsupportedError extends Error {
+  constructor(provider: string, operation: string) {
+    super(`${provider} does not support ${operation}`);
+    this.name = 'HostingOperationUnsupportedError';
+  }
+}
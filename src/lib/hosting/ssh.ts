@@ -0,0 +1,129 @@
+import * as path from 'path';
+import { ConnectConfig } from 'ssh2';
+import { quoteShellArg, runWPCLI } from '@/lib/connectors/wpcli';
+import { SSHHostingConfig } from '@/lib/types';
+import { HostingOperationUnsupportedError, HostingProvider, HostingSite } from './provider';
+
+const DEFAULT_PRIVATE_KEY_ENV = 'SSH_PRIVATE_KEY';
+const DEFAULT_BACKUP_DIR = '~/backups';
+
+function getConfig(site: HostingSite): SSHHostingConfig {
+  const { host, username } = site.hosting_config;
+  if (!host || !username) {
+    throw new Error(`SSH-hosted site ${site.domain} needs hosting_config.host and hosting_config.username`);
+  }
+  return { ...site.hosting_config, host, username };
+}
+
+function getSSHConfig(config: SSHHostingConfig): ConnectConfig {
+  const keyEnv = config.private_key_env || DEFAULT_PRIVATE_KEY_ENV;
+  let privateKey = process.env[keyEnv];
+
+  if (!privateKey) {
+    throw new Error(`${keyEnv} not configured`);
+  }
+
+  // Handle escaped newlines from environment variables
+  if (privateKey.includes('\\n')) {
+    privateKey = privateKey.replace(/\\n/g, '\n');
+  }
+
+  return {
+    host: config.host,
+    port: config.port || 22,
+    username: config.username,
+    privateKey,
+    readyTimeout: 30000,
+  };
+}
+
+// PHP single-quoted string literal
+function phpString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function isWithin(child: string, parent: string): boolean {
+  const relative = path.posix.relative(parent, child);
+  return !relative.startsWith('..') && !path.posix.isAbsolute(relative);
+}
+
+/**
+ * Create the site's backup directory and return its real path. Anything in
+ * the WordPress root can be downloaded over HTTP, so a directory inside it
+ * (checked on the server, after symlinks) is refused.
+ */
+async function resolveBackupDir(site: HostingSite): Promise<string> {
+  const dir = getConfig(site).backup_dir || DEFAULT_BACKUP_DIR;
+  if (!dir.startsWith('/') && !dir.startsWith('~/')) {
+    throw new Error(`hosting_config.backup_dir for ${site.domain} must be absolute or start with ~/: ${dir}`);
+  }
+
+  const dirExpression = dir.startsWith('~/') ? `getenv('HOME') . ${phpString(dir.slice(1))}` : phpString(dir);
+  const php =
+    `$dir = ${dirExpression}; ` +
+    'if (!wp_mkdir_p($dir)) { fwrite(STDERR, "Cannot create $dir"); exit(1); } ' +
+    'echo realpath($dir), PHP_EOL, realpath(ABSPATH);';
+  const output = await runWPCLI(sshProvider.getWPCLIConfig(site), `eval ${quoteShellArg(php)}`, { format: 'table' });
+
+  const [backupDir, wordpressRoot] = output.split('\n').map((line) => line.trim());
+  if (!backupDir || !wordpressRoot) {
+    throw new Error(`Could not resolve the backup directory for ${site.domain}: ${output}`);
+  }
+  if (isWithin(backupDir, wordpressRoot)) {
+    throw new Error(
+      `Backup directory ${backupDir} is inside the WordPress root ${wordpressRoot}; set hosting_config.backup_dir outside it`
+    );
+  }
+  return backupDir;
+}
+
+/**
+ * Any host reachable with SSH and WP-CLI (Kinsta, Pressable, a VPS). There is
+ * no host API, so everything goes through WP-CLI.
+ */
+export const sshProvider: HostingProvider = {
+  type: 'ssh',
+  label: 'SSH',
+  // Nothing is known about the host, so every must-use plugin is reported
+  providedFiles: [],
+
+  // One server may host several sites; don't audit them all at once
+  getHostKey: (site) => getConfig(site).host,
+
+  getWPCLIConfig: (site) => {
+    const config = getConfig(site);
+    return {
+      connectionKey: `${config.username}@${config.host}:${config.port || 22}`,
+      getSSHConfig: () => getSSHConfig(config),
+      wpPath: config.wp_path,
+    };
+  },
+
+  // Each site may name its own key variable
+  getSecretEnvVars: (site) => [site.hosting_config?.private_key_env || DEFAULT_PRIVATE_KEY_ENV],
+
+  // Database only: files are left to the host's own backups
+  createBackup: async (site, description) => {
+    const createdAt = new Date().toISOString();
+    const backupDir = await resolveBackupDir(site);
+    const file = path.posix.join(backupDir, `asymsites-backup-${createdAt.replace(/[:.]/g, '-')}.sql`);
+    await runWPCLI(sshProvider.getWPCLIConfig(site), `db export ${quoteShellArg(file)}`, {
+      format: 'table',
+      timeout: 300000,
+    });
+    return { id: file, description, created_at: createdAt };
+  },
+
+  purgeCache: async (site) => {
+    await runWPCLI(sshProvider.getWPCLIConfig(site), 'cache flush', { format: 'table' });
+  },
+
+  listInstalls: async () => {
+    throw new HostingOperationUnsupportedError('SSH hosting', 'listing installs');
+  },
+
+  getStatus: async (site) => {
+    const phpVersion = await runWPCLI(sshProvider.getWPCLIConfig(site), "eval 'echo PHP_VERSION;'", { format: 'table' });
+    return { status: 'reachable', php_version: phpVersion || null };
+  },
+};
@@ -0,0 +1,82 @@
+import { ConnectConfig } from 'ssh2';
+import { createBackup, getStatus, listInstalls, purgeCache } from '@/lib/connectors/wpengine';
+import { HostingProvider, HostingSite } from './provider';
+
+function getInstallName(site: HostingSite): string {
+  if (!site.wpengine_install_id) {
+    throw new Error(`WPEngine site ${site.domain} has no install ID`);
+  }
+  return site.wpengine_install_id;
+}
+
+function getSSHConfig(installName: string): ConnectConfig {
+  let privateKey = process.env.WPENGINE_SSH_PRIVATE_KEY;
+
+  if (!privateKey) {
+    throw new Error('WPENGINE_SSH_PRIVATE_KEY not configured');
+  }
+
+  // Handle escaped newlines from environment variables
+  if (privateKey.includes('\\n')) {
+    privateKey = privateKey.replace(/\\n/g, '\n');
+  }
+
+  return {
+    host: `${installName}.ssh.wpengine.net`,
+    port: 22,
+    username: installName,
+    privateKey: privateKey,
+    readyTimeout: 30000,
+  };
+}
+
+export const wpengineProvider: HostingProvider = {
+  type: 'wpengine',
+  label: 'WP Engine',
+  providedFiles: [
+    'mu-plugins/mu-plugin.php',
+    'mu-plugins/slt-force-strong-passwords.php',
+    'mu-plugins/stop-long-comments.php',
+    'mu-plugins/wpengine-security-auditor.php',
+    'mu-plugins/wpe-wp-sign-on-plugin.php',
+    'mu-plugins/wpe-elasticpress-autosuggest-logger.php',
+    'mu-plugins/wpe-cache-plugin.php',
+    'mu-plugins/wpe-update-source-selector.php',
+    'object-cache.php',
+  ],
+
+  getHostKey: (site) => getInstallName(site),
+
+  getWPCLIConfig: (site) => {
+    const installName = getInstallName(site);
+    return {
+      connectionKey: installName,
+      getSSHConfig: () => getSSHConfig(installName),
+    };
+  },
+
+  // The WP Engine credentials are all in SECRET_ENV_VARS
+  getSecretEnvVars: () => [],
+
+  createBackup: async (site, description) => {
+    const backup = await createBackup(getInstallName(site), description);
+    return { id: backup.id, description: backup.description, created_at: backup.created_at };
+  },
+
+  purgeCache: (site) => purgeCache(getInstallName(site)),
+
+  listInstalls: async () => {
+    const { results } = await listInstalls();
+    return results.map((install) => ({
+      id: install.name,
+      name: install.name,
+      environment: install.environment || 'production',
+      domain: install.primary_domain || null,
+    }));
+  },
+
+  getStatus: async (site) => {
+    const status = await getStatus(getInstallName(site));
+    return { status: status.status, php_version: status.php_version || null };
+  },
+};
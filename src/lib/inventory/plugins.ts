@@ -0,0 +1,155 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { compareVersions, isVersionInRange } from '@/lib/utils/version-range';
+import { PluginInfo, PluginVersionMatrix, SitePluginRow, SitePluginType, VersionRange } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+// PostgREST caps each response; larger reads are paged
+const PAGE_SIZE = 1000;
+
+export const PLUGIN_STATUSES: PluginInfo['status'][] = ['active', 'inactive', 'must-use', 'dropin'];
+
+export interface PluginSearch {
+  // Part of a slug, e.g. 'elementor' for elementor and elementor-pro
+  slug?: string;
+  status?: PluginInfo['status'];
+  range?: VersionRange | null;
+}
+
+export function getSitePluginType(status: PluginInfo['status']): SitePluginType {
+  return status === 'must-use' || status === 'dropin' ? status : 'plugin';
+}
+
+/**
+ * Replace a site's inventory with the plugins an audit found. Plugins not in
+ * the list are removed, so a failed plugins check should not call this.
+ * A failure is logged rather than thrown so it can't fail the audit.
+ */
+export async function syncSitePlugins(
+  supabase: SupabaseClient,
+  siteId: string,
+  auditId: string,
+  plugins: PluginInfo[]
+): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  // first_seen_at is left out so existing rows keep theirs
+  // A must-use plugin or drop-in may share its slug with a regular plugin
+  const unique = new Map(plugins.map((plugin) => [`${getSitePluginType(plugin.status)}:${plugin.name}`, plugin]));
+  const rows = Array.from(unique.values()).map((plugin) => ({
+    site_id: siteId,
+    type: getSitePluginType(plugin.status),
+    slug: plugin.name,
+    title: plugin.title || null,
+    version: plugin.version,
+    status: plugin.status,
+    update_version: plugin.update_version || null,
+    audit_id: auditId,
+    updated_at: updatedAt,
+  }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('site_plugins').upsert(rows, { onConflict: 'site_id,type,slug' });
+    if (error) {
+      console.error(`[Audit ${auditId}] Failed to update plugin inventory:`, error.message);
+      return;
+    }
+  }
+
+  // Whatever this audit didn't refresh has been removed from the site
+  const { error } = await supabase
+    .from('site_plugins')
+    .delete()
+    .eq('site_id', siteId)
+    .or(`audit_id.is.null,audit_id.neq.${auditId}`);
+
+  if (error) {
+    console.error(`[Audit ${auditId}] Failed to prune plugin inventory:`, error.message);
+  }
+}
+
+/**
+ * Installs matching a search, across every site. Version ranges are applied
+ * here rather than in SQL since versions don't sort as text; installs whose
+ * version is unknown never match a range.
+ */
+export async function searchSitePlugins(supabase: SupabaseClient, search: PluginSearch = {}): Promise<SitePluginRow[]> {
+  const rows: SitePluginRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('site_plugins')
+      .select('*, sites(name, domain)')
+      .order('slug')
+      .order('site_id')
+      .order('type')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (search.slug) {
+      query = query.ilike('slug', `%${search.slug.replace(/[%_\\]/g, '\\$&')}%`);
+    }
+    if (search.status) {
+      query = query.eq('status', search.status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to search plugins: ${error.message}`);
+    }
+
+    for (const { sites, ...plugin } of data || []) {
+      const site = sites as unknown as { name: string; domain: string } | null;
+      rows.push({ ...plugin, site_name: site?.name || '', domain: site?.domain || '' });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return search.range ? rows.filter((row) => row.version && isVersionInRange(row.version, search.range!)) : rows;
+}
+
+/**
+ * Group installs by plugin, then by version, newest version first. A plugin
+ * installed at more than one version has drift.
+ */
+export function buildVersionMatrix(rows: SitePluginRow[]): PluginVersionMatrix[] {
+  const byPlugin = new Map<string, SitePluginRow[]>();
+  for (const row of rows) {
+    const key = `${row.type}:${row.slug}`;
+    byPlugin.set(key, [...(byPlugin.get(key) || []), row]);
+  }
+
+  return Array.from(byPlugin.values()).map((installs) => {
+    const byVersion = new Map<string, SitePluginRow[]>();
+    for (const install of installs) {
+      byVersion.set(install.version, [...(byVersion.get(install.version) || []), install]);
+    }
+
+    const versions = Array.from(byVersion.entries())
+      .map(([version, versionInstalls]) => ({
+        version,
+        installs: versionInstalls.sort((a, b) => a.site_name.localeCompare(b.site_name)),
+      }))
+      .sort((a, b) => compareVersions(b.version, a.version));
+
+    return {
+      type: installs[0].type,
+      slug: installs[0].slug,
+      title: installs.find((install) => install.title)?.title || null,
+      site_count: new Set(installs.map((install) => install.site_id)).size,
+      versions,
+      has_drift: versions.length > 1,
+    };
+  });
+}
+
+// Plugins installed at different versions across the fleet, widest spread first
+export async function getPluginDrift(supabase: SupabaseClient): Promise<PluginVersionMatrix[]> {
+  return buildVersionMatrix(await searchSitePlugins(supabase))
+    .filter((plugin) => plugin.has_drift)
+    .sort((a, b) => b.versions.length - a.versions.length || b.site_count - a.site_count);
+}
+
+// ?min= (inclusive) and ?below= (exclusive) query parameters as a range
+export function parseVersionRange(min: string | null | undefined, below: string | null | undefined): VersionRange | null {
+  if (!min && !below) return null;
+  return { from: min || null, from_inclusive: true, to: below || null, to_inclusive: false };
+}
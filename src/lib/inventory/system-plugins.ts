@@ -0,0 +1,172 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { getHostingProvider } from '@/lib/hosting';
+import { readAuditRawData } from '@/lib/auditor/raw-data';
+import { Issue, PluginAuditData, PluginInfo, Site, SystemPluginChanges } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+type SystemPlugin = Pick<PluginInfo, 'status' | 'file' | 'sha256'>;
+
+// Hashes accepted for each must-use plugin or drop-in, by file
+export type AcceptedSystemPluginHashes = Record<string, string[]>;
+
+// PostgREST caps each response; larger reads are paged
+const PAGE_SIZE = 1000;
+
+// Accepting one of these issues accepts the file's hash
+const HASH_ACCEPTING_RULES = ['system_plugin_modified', 'unexpected_system_plugin'];
+
+// Must-use plugins and drop-ins by file
+function getSystemFiles(plugins: SystemPlugin[]): Map<string, string | null> {
+  return new Map(
+    plugins
+      .filter((plugin) => (plugin.status === 'must-use' || plugin.status === 'dropin') && plugin.file)
+      .map((plugin) => [plugin.file!, plugin.sha256 ?? null])
+  );
+}
+
+/**
+ * Compare a site's must-use plugins and drop-ins with their accepted hashes
+ * and with the files the host provides. A file nobody has accepted a hash for
+ * is compared with the hash it had when first seen, so a change stays
+ * reported until it is accepted. A file that couldn't be hashed is never
+ * reported as modified.
+ */
+export function diffSystemPlugins(
+  plugins: SystemPlugin[],
+  previous: Pick<PluginAuditData, 'plugins' | 'system_plugins'> | null | undefined,
+  providedFiles: string[],
+  acceptedHashes: AcceptedSystemPluginHashes = {}
+): SystemPluginChanges {
+  const current = getSystemFiles(plugins);
+  const before = previous?.system_plugins ? getSystemFiles(previous.plugins) : null;
+  const files = Array.from(current.keys()).sort();
+  const modified: string[] = [];
+  const baseline: Record<string, string> = {};
+
+  for (const file of files) {
+    const hash = current.get(file);
+    if (!hash) continue;
+
+    const accepted = acceptedHashes[file] || [];
+    const firstSeen = previous?.system_plugins?.baseline?.[file] ?? before?.get(file) ?? null;
+    const isModified = accepted.length > 0 ? !accepted.includes(hash) : Boolean(firstSeen && hash !== firstSeen);
+
+    if (isModified) modified.push(file);
+    // Keep comparing against the old hash until the new one is accepted
+    baseline[file] = isModified && firstSeen ? firstSeen : hash;
+  }
+
+  return {
+    compared_to_previous: before !== null,
+    added: before ? files.filter((file) => !before.has(file)) : [],
+    modified,
+    removed: before ? Array.from(before.keys()).filter((file) => !current.has(file)).sort() : [],
+    unexpected: files.filter((file) => !providedFiles.includes(file)),
+    baseline,
+  };
+}
+
+// A modified file's issue is per hash, so accepting one change doesn't hide the next
+export function getModifiedSystemPluginSubject(file: string, sha256: string): string {
+  return `${file}@${sha256}`;
+}
+
+/**
+ * Hashes accepted for the site's must-use plugins and drop-ins, plus those
+ * accepted on the host's other sites for files the host installs itself:
+ * those files are the same on every install, so a tampered one is caught
+ * even on a site's first audit.
+ */
+export async function getAcceptedSystemPluginHashes(
+  supabase: SupabaseClient,
+  site: Pick<Site, 'id' | 'hosting_provider'>
+): Promise<AcceptedSystemPluginHashes> {
+  const provider = getHostingProvider(site);
+  const rows: Array<{ file: string; sha256: string }> = [];
+
+  const { data: own, error } = await supabase.from('system_plugin_hashes').select('file, sha256').eq('site_id', site.id);
+  if (error) {
+    throw new Error(`Failed to load accepted system plugin hashes: ${error.message}`);
+  }
+  rows.push(...(own || []));
+
+  if (provider.providedFiles.length > 0) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error: hostError } = await supabase
+        .from('system_plugin_hashes')
+        .select('file, sha256, sites(hosting_provider)')
+        .in('file', provider.providedFiles)
+        .neq('site_id', site.id)
+        .order('site_id')
+        .order('file')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (hostError) {
+        throw new Error(`Failed to load accepted system plugin hashes: ${hostError.message}`);
+      }
+
+      for (const row of data || []) {
+        const other = row.sites as unknown as Pick<Site, 'hosting_provider'> | null;
+        if (other && getHostingProvider(other).type === provider.type) {
+          rows.push(row);
+        }
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  const hashes: AcceptedSystemPluginHashes = {};
+  for (const { file, sha256 } of rows) {
+    hashes[file] = Array.from(new Set([...(hashes[file] || []), sha256]));
+  }
+  return hashes;
+}
+
+/**
+ * Record the hash an accepted system_plugin_modified or
+ * unexpected_system_plugin issue was raised for, as of the last audit that
+ * reported it. Other issues are left alone.
+ */
+export async function acceptSystemPluginHash(
+  supabase: SupabaseClient,
+  issue: Pick<Issue, 'id' | 'site_id' | 'audit_id' | 'rule' | 'subject'>
+): Promise<void> {
+  if (!issue.rule || !HASH_ACCEPTING_RULES.includes(issue.rule) || !issue.subject || !issue.audit_id) return;
+
+  // Modified issues carry their hash; unexpected ones are per file
+  const separator = issue.rule === 'system_plugin_modified' ? issue.subject.lastIndexOf('@') : -1;
+  const file = separator >= 0 ? issue.subject.slice(0, separator) : issue.subject;
+  let sha256 = separator >= 0 ? issue.subject.slice(separator + 1) : null;
+
+  if (!sha256) {
+    const { data: audit, error } = await supabase
+      .from('audits')
+      .select('id, raw_data, schema_version')
+      .eq('id', issue.audit_id)
+      .single();
+
+    if (error || !audit) {
+      throw new Error(`Failed to load audit ${issue.audit_id}: ${error?.message}`);
+    }
+    sha256 = readAuditRawData(audit).plugins?.plugins.find((plugin) => plugin.file === file)?.sha256 ?? null;
+  }
+
+  // An unreadable file has no hash to accept
+  if (!sha256) return;
+
+  const { error } = await supabase.from('system_plugin_hashes').upsert(
+    {
+      site_id: issue.site_id,
+      file,
+      sha256,
+      issue_id: issue.id,
+      accepted_at: new Date().toISOString(),
+    },
+    { onConflict: 'site_id,file' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to accept ${file}: ${error.message}`);
+  }
+}
@@ -0,0 +1,167 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { isVersionInRange } from '@/lib/utils/version-range';
+import { parseVersionRange } from '@/lib/inventory/plugins';
+import { PluginPolicy, PluginPolicyRule, PluginPolicyScope, Site, WordPressSnapshot } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+type InstalledPlugin = WordPressSnapshot['plugins'][number];
+
+export const PLUGIN_POLICY_RULES: PluginPolicyRule[] = ['required', 'recommended', 'allowed', 'banned', 'replaced_by'];
+
+// Least to most specific; a more specific policy for a slug replaces the others
+export const PLUGIN_POLICY_SCOPES: PluginPolicyScope[] = ['default', 'ecommerce', 'page_builder', 'client'];
+
+const PAGE_BUILDERS: Array<NonNullable<Site['page_builder']>> = ['elementor', 'beaver', 'gutenberg', 'other'];
+
+// Fields a policy is created or updated with
+export type PluginPolicyInput = Omit<PluginPolicy, 'id' | 'created_at' | 'updated_at'>;
+
+export interface PluginPolicyMatch {
+  policy: PluginPolicy;
+  plugin: InstalledPlugin;
+}
+
+export interface PluginPolicyEvaluation {
+  // Required and recommended policies with no active plugin
+  missing: PluginPolicy[];
+  // Required and recommended plugins active at a version the policy doesn't allow
+  outside_version: PluginPolicyMatch[];
+  // Banned and replaced plugins that are active
+  violations: PluginPolicyMatch[];
+  // Active plugins no required, recommended or allowed policy covers
+  unlisted: InstalledPlugin[];
+}
+
+type SiteScope = Pick<Site, 'client_name' | 'page_builder' | 'is_ecommerce'>;
+
+export function policyAppliesTo(policy: PluginPolicy, site: SiteScope): boolean {
+  switch (policy.scope) {
+    case 'default':
+      return true;
+    case 'ecommerce':
+      return Boolean(site.is_ecommerce);
+    case 'page_builder':
+      return policy.page_builder === site.page_builder;
+    case 'client':
+      return Boolean(site.client_name) && policy.client_name === site.client_name;
+  }
+}
+
+// The policies that apply to a site, one per slug (the most specific)
+export function resolvePluginPolicies(policies: PluginPolicy[], site: SiteScope): PluginPolicy[] {
+  const bySlug = new Map<string, PluginPolicy>();
+  const applicable = policies
+    .filter((policy) => policyAppliesTo(policy, site))
+    .sort((a, b) => PLUGIN_POLICY_SCOPES.indexOf(a.scope) - PLUGIN_POLICY_SCOPES.indexOf(b.scope));
+
+  for (const policy of applicable) {
+    bySlug.set(policy.slug, policy);
+  }
+  return Array.from(bySlug.values()).sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+// The table is small, so every policy is loaded and resolved here
+export async function getSitePluginPolicies(supabase: SupabaseClient, site: SiteScope): Promise<PluginPolicy[]> {
+  const { data, error } = await supabase.from('plugin_policies').select('*');
+
+  if (error) {
+    throw new Error(`Failed to load plugin policies: ${error.message}`);
+  }
+
+  return resolvePluginPolicies((data || []) as PluginPolicy[], site);
+}
+
+function matchesPolicy(plugin: InstalledPlugin, policy: PluginPolicy): boolean {
+  return plugin.name === policy.slug || policy.aliases.includes(plugin.name);
+}
+
+function isWithinPolicyVersions(plugin: InstalledPlugin, policy: PluginPolicy): boolean {
+  const range = parseVersionRange(policy.min_version, policy.below_version);
+  // Unversioned plugins (some drop-ins) can't be held to a range
+  return !range || !plugin.version || isVersionInRange(plugin.version, range);
+}
+
+/**
+ * Evaluate a site's active plugins against its resolved policies. Only active
+ * plugins count: an inactive required plugin is missing, an inactive banned
+ * one is left to the inactive plugins rule.
+ */
+export function evaluatePluginPolicies(plugins: InstalledPlugin[], policies: PluginPolicy[]): PluginPolicyEvaluation {
+  const active = plugins.filter((plugin) => plugin.status === 'active');
+  const evaluation: PluginPolicyEvaluation = { missing: [], outside_version: [], violations: [], unlisted: [] };
+
+  for (const policy of policies) {
+    const found = active.filter((plugin) => matchesPolicy(plugin, policy));
+
+    if (policy.rule === 'required' || policy.rule === 'recommended') {
+      if (found.length === 0) {
+        evaluation.missing.push(policy);
+      } else if (!found.some((plugin) => isWithinPolicyVersions(plugin, policy))) {
+        evaluation.outside_version.push({ policy, plugin: found[0] });
+      }
+    } else if (policy.rule === 'banned' || policy.rule === 'replaced_by') {
+      // A version constraint limits the ban to those versions
+      const plugin = found.find((p) => isWithinPolicyVersions(p, policy));
+      if (plugin) {
+        evaluation.violations.push({ policy, plugin });
+      }
+    }
+  }
+
+  const listed = policies.filter((policy) => ['required', 'recommended', 'allowed'].includes(policy.rule));
+  evaluation.unlisted = active.filter((plugin) => !listed.some((policy) => matchesPolicy(plugin, policy)));
+
+  return evaluation;
+}
+
+// e.g. "3.0 or later, below 4.0"
+export function describePolicyVersions(policy: Pick<PluginPolicy, 'min_version' | 'below_version'>): string | null {
+  const parts = [
+    policy.min_version ? `${policy.min_version} or later` : null,
+    policy.below_version ? `below ${policy.below_version}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+/**
+ * Check a policy before it is stored. Returns an error message, or null when
+ * it is valid.
+ */
+export function validatePluginPolicy(policy: Partial<Record<keyof PluginPolicyInput, unknown>>): string | null {
+  const { slug, rule, aliases, replacement, min_version, below_version, reason, scope, client_name, page_builder } = policy;
+
+  if (!slug || typeof slug !== 'string') {
+    return 'slug is required';
+  }
+  if (!PLUGIN_POLICY_RULES.includes(rule as PluginPolicyRule)) {
+    return `Invalid rule. Valid rules: ${PLUGIN_POLICY_RULES.join(', ')}`;
+  }
+  if (!PLUGIN_POLICY_SCOPES.includes(scope as PluginPolicyScope)) {
+    return `Invalid scope. Valid scopes: ${PLUGIN_POLICY_SCOPES.join(', ')}`;
+  }
+  if (aliases !== undefined && (!Array.isArray(aliases) || aliases.some((alias) => !alias || typeof alias !== 'string'))) {
+    return 'aliases must be an array of slugs';
+  }
+  if (![replacement, min_version, below_version, reason, client_name, page_builder].every(isOptionalString)) {
+    return 'replacement, min_version, below_version, reason, client_name and page_builder must be strings';
+  }
+  if (rule === 'replaced_by' ? !replacement : replacement) {
+    return 'replacement is required for replaced_by policies, and only for them';
+  }
+  if (rule === 'allowed' && (min_version || below_version)) {
+    return 'allowed policies take no version constraint';
+  }
+  if (scope === 'client' && !client_name) {
+    return 'client_name is required for client policies';
+  }
+  if (scope === 'page_builder' && !PAGE_BUILDERS.includes(page_builder as NonNullable<Site['page_builder']>)) {
+    return `page_builder policies need a page_builder: ${PAGE_BUILDERS.join(', ')}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,200 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { FLEET_CONFIG } from '@/lib/constants/queue';
+import { HOSTING_SITE_COLUMNS } from '@/lib/hosting';
+import { AuditBatch, AuditBatchProgress, AuditJob } from '@/lib/types';
+import { enqueueAudit, getAuditHostKey } from './audit-jobs';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+// A failed audit and job for a site that couldn't be queued, so the batch accounts for it
+async function recordFailedSite(supabase: SupabaseClient, batchId: string, siteId: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const completedAt = new Date().toISOString();
+
+  const { data: audit, error: auditError } = await supabase
+    .from('audits')
+    .insert({
+      site_id: siteId,
+      status: 'failed',
+      summary: 'Could not be queued',
+      error_message: message,
+      completed_at: completedAt,
+    })
+    .select('id')
+    .single();
+
+  if (auditError || !audit) {
+    throw new Error(`Failed to record audit failure: ${auditError?.message}`);
+  }
+
+  const { error: jobError } = await supabase.from('audit_jobs').insert({
+    audit_id: audit.id,
+    site_id: siteId,
+    batch_id: batchId,
+    status: 'failed',
+    last_error: message,
+    completed_at: completedAt,
+  });
+
+  if (jobError) {
+    throw new Error(`Failed to record audit failure: ${jobError.message}`);
+  }
+}
+
+/**
+ * Queue an audit for every production site as one batch and return right
+ * away. Workers run the batch's jobs at most `concurrency` at a time.
+ */
+export async function startFleetAudit(
+  options: { concurrency?: number } = {}
+): Promise<{ batchId: string; totalSites: number }> {
+  const supabase = createServerClient();
+  const concurrency = Math.min(
+    Math.max(1, Math.floor(options.concurrency ?? FLEET_CONFIG.DEFAULT_CONCURRENCY)),
+    FLEET_CONFIG.MAX_CONCURRENCY
+  );
+
+  // Only audit production sites - exclude staging/dev environments
+  const { data: sites, error: sitesError } = await supabase
+    .from('sites')
+    .select(`id, name, ${HOSTING_SITE_COLUMNS}`)
+    .not('domain', 'ilike', '%stg%')
+    .not('domain', 'ilike', '%dev%')
+    .not('domain', 'ilike', '%.wpenginepowered.com')
+    .not('domain', 'ilike', '%.wpengine.com')
+    .neq('wpengine_environment', 'staging')
+    .neq('wpengine_environment', 'development');
+
+  if (sitesError) {
+    throw new Error(`Failed to load sites: ${sitesError.message}`);
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from('audit_batches')
+    .insert({
+      concurrency,
+      total_sites: sites?.length || 0,
+      ...(sites && sites.length > 0 ? {} : { status: 'completed', completed_at: new Date().toISOString() }),
+    })
+    .select('id')
+    .single();
+
+  if (batchError || !batch) {
+    throw new Error(`Failed to create audit batch: ${batchError?.message}`);
+  }
+
+  // One misconfigured site (e.g. SSH hosting_config without a host) fails
+  // on its own rather than leaving the rest of the fleet unqueued
+  let failed = 0;
+  for (const site of sites || []) {
+    try {
+      await enqueueAudit(site.id, {
+        batchId: batch.id,
+        hostKey: getAuditHostKey(site),
+        supabase,
+      });
+    } catch (error) {
+      console.error(`[Fleet] Could not queue ${site.name}:`, error);
+      await recordFailedSite(supabase, batch.id, site.id, error);
+      failed++;
+    }
+  }
+
+  // Completes the batch if no site could be queued
+  if (failed > 0) {
+    await refreshBatchStatus(supabase, batch.id);
+  }
+
+  console.log(
+    `[Fleet] Batch ${batch.id} queued ${(sites?.length || 0) - failed} audits (concurrency ${concurrency})` +
+    (failed > 0 ? `, ${failed} failed to queue` : '')
+  );
+
+  return { batchId: batch.id, totalSites: sites?.length || 0 };
+}
+
+/**
+ * Mark a batch completed (with final counts) once none of its jobs are
+ * queued or running. Called by workers whenever a batch job finishes.
+ */
+export async function refreshBatchStatus(supabase: SupabaseClient, batchId: string): Promise<void> {
+  const { data: jobs } = await supabase
+    .from('audit_jobs')
+    .select('status')
+    .eq('batch_id', batchId);
+
+  if (!jobs) return;
+
+  const pending = jobs.filter((j) => j.status === 'queued' || j.status === 'running').length;
+  if (pending > 0) return;
+
+  await supabase
+    .from('audit_batches')
+    .update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      succeeded: jobs.filter((j) => j.status === 'succeeded').length,
+      failed: jobs.filter((j) => j.status === 'failed').length,
+    })
+    .eq('id', batchId)
+    .eq('status', 'running');
+}
+
+export async function getBatchProgress(batchId: string): Promise<AuditBatchProgress | null> {
+  const supabase = createServerClient();
+
+  const { data: batch } = await supabase
+    .from('audit_batches')
+    .select('*')
+    .eq('id', batchId)
+    .single();
+
+  if (!batch) return null;
+
+  const { data: jobRows } = await supabase
+    .from('audit_jobs')
+    .select('*, sites(name), audits(health_score)')
+    .eq('batch_id', batchId)
+    .order('created_at');
+
+  const jobs = (jobRows || []) as Array<
+    AuditJob & { sites: { name: string } | null; audits: { health_score: number | null } | null }
+  >;
+
+  const queued = jobs.filter((j) => j.status === 'queued').length;
+  const inProgress = jobs.filter((j) => j.status === 'running').length;
+  const done = jobs.filter((j) => j.status === 'succeeded').length;
+  const failed = jobs.filter((j) => j.status === 'failed').length;
+
+  // Estimate the remaining time from how long finished audits took
+  const durations = jobs
+    .filter((j) => j.status === 'succeeded' && j.locked_at && j.completed_at)
+    .map((j) => new Date(j.completed_at!).getTime() - new Date(j.locked_at!).getTime());
+
+  let etaSeconds: number | null = null;
+  if (queued + inProgress === 0) {
+    etaSeconds = 0;
+  } else if (durations.length > 0) {
+    const averageMs = durations.reduce((sum, d) => sum + d, 0) / durations.length;
+    const remaining = queued + inProgress / 2; // Running audits are roughly half done
+    etaSeconds = Math.round((remaining * averageMs) / batch.concurrency / 1000);
+  }
+
+  return {
+    batch: batch as AuditBatch,
+    queued,
+    in_progress: inProgress,
+    done,
+    failed,
+    eta_seconds: etaSeconds,
+    sites: jobs.map((j) => ({
+      site_id: j.site_id,
+      site_name: j.sites?.name || j.site_id,
+      audit_id: j.audit_id,
+      status: j.status,
+      attempts: j.attempts,
+      health_score: j.audits?.health_score ?? null,
+      error: j.last_error,
+    })),
+  };
+}
@@ -0,0 +1,260 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { QUEUE_CONFIG } from '@/lib/constants/queue';
+import { getHostKey, HOSTING_SITE_COLUMNS, HostingSite } from '@/lib/hosting';
+import { AuditJob } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+export function getRetryDelayMs(attempt: number): number {
+  const delay = QUEUE_CONFIG.RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+  return Math.min(delay, QUEUE_CONFIG.RETRY_MAX_DELAY_MS);
+}
+
+// Workers never run two audits against the same host at once
+export function getAuditHostKey(site: HostingSite): string {
+  return getHostKey(site);
+}
+
+/**
+ * Create a pending audit record and queue a job for it. The audit itself is
+ * run later by a worker (see scripts/audit-worker.ts).
+ */
+export async function enqueueAudit(
+  siteId: string,
+  options: { maxAttempts?: number; batchId?: string; hostKey?: string; supabase?: SupabaseClient } = {}
+): Promise<{ auditId: string; jobId: string }> {
+  const supabase = options.supabase || createServerClient();
+
+  let hostKey = options.hostKey;
+  if (!hostKey) {
+    const { data: site, error: siteError } = await supabase
+      .from('sites')
+      .select(HOSTING_SITE_COLUMNS)
+      .eq('id', siteId)
+      .single();
+
+    if (siteError || !site) {
+      throw new Error(`Site not found: ${siteId}`);
+    }
+    hostKey = getAuditHostKey(site);
+  }
+
+  const { data: audit, error: auditError } = await supabase
+    .from('audits')
+    .insert({
+      site_id: siteId,
+      status: 'pending',
+      summary: 'Queued',
+    })
+    .select('id')
+    .single();
+
+  if (auditError || !audit) {
+    throw new Error(`Failed to create audit: ${auditError?.message}`);
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('audit_jobs')
+    .insert({
+      audit_id: audit.id,
+      site_id: siteId,
+      max_attempts: options.maxAttempts ?? QUEUE_CONFIG.MAX_ATTEMPTS,
+      batch_id: options.batchId ?? null,
+      host_key: hostKey,
+    })
+    .select('id')
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Failed to queue audit: ${jobError?.message}`);
+  }
+
+  return { auditId: audit.id, jobId: job.id };
+}
+
+export async function claimAuditJob(
+  supabase: SupabaseClient,
+  workerId: string,
+  leaseSeconds: number = QUEUE_CONFIG.LEASE_SECONDS
+): Promise<AuditJob | null> {
+  const { data, error } = await supabase.rpc('claim_audit_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim audit job: ${error.message}`);
+  }
+
+  const jobs = (data || []) as AuditJob[];
+  return jobs[0] || null;
+}
+
+/**
+ * Extend the lease on a job this worker holds. Returns false when the lease
+ * was lost (expired and claimed by another worker), in which case the caller
+ * should stop reporting results for the job.
+ */
+export async function heartbeatAuditJob(
+  supabase: SupabaseClient,
+  job: AuditJob,
+  workerId: string,
+  leaseSeconds: number = QUEUE_CONFIG.LEASE_SECONDS
+): Promise<boolean> {
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from('audit_jobs')
+    .update({
+      heartbeat_at: new Date(now).toISOString(),
+      lease_expires_at: new Date(now + leaseSeconds * 1000).toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to extend lease on job ${job.id}: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+export async function completeAuditJob(supabase: SupabaseClient, job: AuditJob, workerId: string) {
+  await supabase
+    .from('audit_jobs')
+    .update({
+      status: 'succeeded',
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null,
+      last_error: null,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+}
+
+/**
+ * Record a failed attempt. The job goes back on the queue with exponential
+ * backoff until it runs out of attempts, at which point it (and its audit)
+ * is marked failed for good.
+ */
+export async function failAuditJob(
+  supabase: SupabaseClient,
+  job: AuditJob,
+  workerId: string,
+  error: unknown
+): Promise<{ willRetry: boolean }> {
+  const message = error instanceof Error ? error.message : String(error);
+  const willRetry = job.attempts < job.max_attempts;
+
+  if (willRetry) {
+    const retryAt = new Date(Date.now() + getRetryDelayMs(job.attempts)).toISOString();
+
+    await supabase
+      .from('audit_jobs')
+      .update({
+        status: 'queued',
+        run_after: retryAt,
+        locked_by: null,
+        lease_expires_at: null,
+        last_error: message,
+      })
+      .eq('id', job.id)
+      .eq('locked_by', workerId);
+
+    await supabase
+      .from('audits')
+      .update({
+        status: 'pending',
+        summary: `Retrying (attempt ${job.attempts + 1} of ${job.max_attempts})`,
+        error_message: message,
+        completed_at: null,
+      })
+      .eq('id', job.audit_id)
+      .neq('status', 'cancelled');
+  } else {
+    await supabase
+      .from('audit_jobs')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        lease_expires_at: null,
+        last_error: message,
+      })
+      .eq('id', job.id)
+      .eq('locked_by', workerId);
+
+    await supabase
+      .from('audits')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        error_message: `${message} (gave up after ${job.attempts} attempts)`,
+      })
+      .eq('id', job.audit_id)
+      .neq('status', 'cancelled');
+  }
+
+  return { willRetry };
+}
+
+// The audit was cancelled while running; finish the job without retrying
+export async function cancelAuditJob(supabase: SupabaseClient, job: AuditJob, workerId: string) {
+  await supabase
+    .from('audit_jobs')
+    .update({
+      status: 'failed',
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null,
+      last_error: 'Cancelled while running',
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+}
+
+/**
+ * Put running jobs whose lease has expired back on the queue right away.
+ * Workers would reclaim them on their own; this just skips the wait.
+ */
+export async function releaseExpiredLeases(supabase: SupabaseClient): Promise<AuditJob[]> {
+  const { data, error } = await supabase
+    .from('audit_jobs')
+    .update({
+      status: 'queued',
+      run_after: new Date().toISOString(),
+      locked_by: null,
+      lease_expires_at: null,
+      last_error: 'Worker lease expired',
+    })
+    .eq('status', 'running')
+    .lt('lease_expires_at', new Date().toISOString())
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to release expired leases: ${error.message}`);
+  }
+
+  return (data || []) as AuditJob[];
+}
+
+/**
+ * Stop a queued job from being picked up. Returns the cancelled job, or null
+ * if no queued job was found (already running or finished).
+ */
+export async function cancelQueuedAuditJob(
+  supabase: SupabaseClient,
+  auditId: string
+): Promise<Pick<AuditJob, 'id' | 'batch_id'> | null> {
+  const { data } = await supabase
+    .from('audit_jobs')
+    .update({
+      status: 'failed',
+      completed_at: new Date().toISOString(),
+      last_error: 'Cancelled before it started',
+    })
+    .eq('audit_id', auditId)
+    .eq('status', 'queued')
+    .select('id, batch_id');
+
+  return data?.[0] || null;
+}
@@ -0,0 +1,161 @@
+import os from 'os';
+import { createServerClient } from '@/lib/supabase/server';
+import { runAudit } from '@/lib/auditor';
+import { AuditCancelledError } from '@/lib/auditor/cancellation';
+import { enqueueDueAudits } from '@/lib/scheduler';
+import { QUEUE_CONFIG } from '@/lib/constants/queue';
+import { SCHEDULER_CONFIG } from '@/lib/constants/schedules';
+import { AuditJob } from '@/lib/types';
+import {
+  claimAuditJob,
+  heartbeatAuditJob,
+  completeAuditJob,
+  failAuditJob,
+  cancelAuditJob,
+} from './audit-jobs';
+import { refreshBatchStatus } from './audit-batches';
+
+export interface AuditWorkerOptions {
+  workerId?: string;
+  leaseSeconds?: number;
+  heartbeatIntervalMs?: number;
+  pollIntervalMs?: number;
+  // Number of audits this process runs in parallel
+  concurrency?: number;
+  // Also enqueue scheduled audits as they come due (safe to enable on every worker)
+  runScheduler?: boolean;
+  // Resolves the worker loop once aborted (after the current job finishes)
+  signal?: AbortSignal;
+}
+
+export function getDefaultWorkerId(): string {
+  return process.env.AUDIT_WORKER_ID || `${os.hostname()}-${process.pid}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    }, { once: true });
+  });
+}
+
+async function processJob(
+  supabase: ReturnType<typeof createServerClient>,
+  job: AuditJob,
+  workerId: string,
+  leaseSeconds: number,
+  heartbeatIntervalMs: number
+) {
+  const tag = `[Worker ${workerId}] Job ${job.id} (audit ${job.audit_id})`;
+
+  // A job reclaimed from a crashed worker counts that attempt too
+  if (job.attempts > job.max_attempts) {
+    console.error(`${tag} exceeded ${job.max_attempts} attempts`);
+    await failAuditJob(supabase, { ...job, attempts: job.max_attempts }, workerId, new Error(job.last_error || 'Worker lease expired'));
+    if (job.batch_id) {
+      await refreshBatchStatus(supabase, job.batch_id);
+    }
+    return;
+  }
+
+  console.log(`${tag} attempt ${job.attempts}/${job.max_attempts}`);
+
+  let leaseLost = false;
+  const heartbeat = setInterval(async () => {
+    try {
+      const held = await heartbeatAuditJob(supabase, job, workerId, leaseSeconds);
+      if (!held && !leaseLost) {
+        leaseLost = true;
+        console.warn(`${tag} lost its lease; results will not be recorded`);
+      }
+    } catch (error) {
+      console.error(`${tag} heartbeat failed:`, error);
+    }
+  }, heartbeatIntervalMs);
+
+  try {
+    // failAuditJob below decides between a retry and a failed audit
+    const result = await runAudit(job.site_id, job.audit_id, { failureIsFinal: false });
+    if (!leaseLost) {
+      await completeAuditJob(supabase, job, workerId);
+    }
+    console.log(`${tag} succeeded. Score: ${result.healthScore}`);
+  } catch (error) {
+    if (error instanceof AuditCancelledError) {
+      if (!leaseLost) {
+        await cancelAuditJob(supabase, job, workerId);
+      }
+      console.log(`${tag} cancelled`);
+    } else if (!leaseLost) {
+      const { willRetry } = await failAuditJob(supabase, job, workerId, error);
+      console.error(`${tag} failed${willRetry ? ', will retry' : ''}:`, error);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  if (job.batch_id) {
+    await refreshBatchStatus(supabase, job.batch_id);
+  }
+}
+
+/**
+ * Poll the audit job queue and run up to `concurrency` jobs at a time until
+ * the signal aborts. The first slot also ticks the audit scheduler.
+ */
+export async function runAuditWorker(options: AuditWorkerOptions = {}): Promise<void> {
+  const {
+    workerId = getDefaultWorkerId(),
+    leaseSeconds = QUEUE_CONFIG.LEASE_SECONDS,
+    heartbeatIntervalMs = QUEUE_CONFIG.HEARTBEAT_INTERVAL_MS,
+    pollIntervalMs = QUEUE_CONFIG.POLL_INTERVAL_MS,
+    concurrency = 1,
+    runScheduler = true,
+    signal,
+  } = options;
+
+  const supabase = createServerClient();
+  console.log(`[Worker ${workerId}] Started with ${concurrency} slot(s)`);
+
+  const runSlot = async (slot: number) => {
+    // Each slot holds its own leases
+    const slotId = concurrency > 1 ? `${workerId}#${slot}` : workerId;
+    let lastSchedulerTick = 0;
+
+    while (!signal?.aborted) {
+      if (runScheduler && slot === 0 && Date.now() - lastSchedulerTick >= SCHEDULER_CONFIG.TICK_INTERVAL_MS) {
+        lastSchedulerTick = Date.now();
+        try {
+          const { enqueued } = await enqueueDueAudits();
+          if (enqueued > 0) {
+            console.log(`[Worker ${workerId}] Scheduler enqueued ${enqueued} audit(s)`);
+          }
+        } catch (error) {
+          console.error(`[Worker ${workerId}] Scheduler tick failed:`, error);
+        }
+      }
+
+      let job: AuditJob | null = null;
+
+      try {
+        job = await claimAuditJob(supabase, slotId, leaseSeconds);
+      } catch (error) {
+        console.error(`[Worker ${slotId}] Claim failed:`, error);
+      }
+
+      if (!job) {
+        await sleep(pollIntervalMs, signal);
+        continue;
+      }
+
+      await processJob(supabase, job, slotId, leaseSeconds, heartbeatIntervalMs);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, (_, slot) => runSlot(slot)));
+
+  console.log(`[Worker ${workerId}] Stopped`);
+}
@@ -0,0 +1,151 @@
+// Minimal 5-field cron expression support (minute hour day-of-month month day-of-week).
+// Supports *, numbers, ranges (1-5), lists (1,15) and steps (*/15, 0-30/10).
+// All times are evaluated in UTC.
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week (0 and 7 are Sunday)
+];
+
+// Searching further ahead than this means the expression can never match (e.g. 31 February)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+// Number('') is 0, so empty pieces such as the middle of "1,,5" must be rejected explicitly
+function toInteger(value: string | undefined): number {
+  return value !== undefined && /^\d+$/.test(value) ? Number(value) : NaN;
+}
+
+function parseField(expression: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of expression.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : toInteger(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(toInteger);
+    } else {
+      start = toInteger(rangePart);
+      // "5/10" means every 10 starting at 5
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid cron value: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): ParsedCron {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  // Normalize Sunday to 0
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time (strictly after `from`) that the expression matches.
+ */
+export function getNextCronRun(expression: string, from: Date = new Date()): Date {
+  const cron = parseCronExpression(expression);
+
+  const date = new Date(from.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const searchLimit = from.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= searchLimit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression never matches: "${expression}"`);
+}
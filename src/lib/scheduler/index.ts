@@ -0,0 +1,126 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { enqueueAudit } from '@/lib/queue/audit-jobs';
+import { PLAN_TIERS, SCHEDULE_PRESETS } from '@/lib/constants/schedules';
+import { PlanTier, Site } from '@/lib/types';
+import { getNextCronRun, isValidCronExpression } from './cron';
+
+type ScheduledSite = Pick<Site, 'id' | 'name' | 'monthly_fee' | 'plan_tier' | 'audit_schedule' | 'next_audit_at'>;
+
+export function getPlanTier(site: Pick<Site, 'plan_tier' | 'monthly_fee'>): PlanTier {
+  if (site.plan_tier) return site.plan_tier;
+
+  const fee = Number(site.monthly_fee) || 0;
+  const tiers = Object.entries(PLAN_TIERS) as Array<[PlanTier, (typeof PLAN_TIERS)[PlanTier]]>;
+  const match = tiers.find(([, tier]) => fee >= tier.minMonthlyFee);
+  return match ? match[0] : 'basic';
+}
+
+export function getEffectiveSchedule(site: Pick<Site, 'plan_tier' | 'monthly_fee' | 'audit_schedule'>): string {
+  return site.audit_schedule || PLAN_TIERS[getPlanTier(site)].defaultSchedule;
+}
+
+function toCronExpression(schedule: string): string {
+  return SCHEDULE_PRESETS[schedule as keyof typeof SCHEDULE_PRESETS] || schedule;
+}
+
+export function isValidSchedule(schedule: string): boolean {
+  return isValidCronExpression(toCronExpression(schedule));
+}
+
+export function getNextAuditAt(schedule: string, from: Date = new Date()): Date {
+  return getNextCronRun(toCronExpression(schedule), from);
+}
+
+export function describeSchedule(schedule: string): string {
+  if (schedule === 'daily') return 'Daily';
+  if (schedule === 'weekly') return 'Weekly';
+  return `Cron: ${schedule}`;
+}
+
+/**
+ * Enqueue audits for every production site whose next scheduled run is due,
+ * and record when each one is next due. Sites that have never been scheduled
+ * just get a next_audit_at (no immediate audit, to avoid a burst on rollout).
+ *
+ * Safe to run from several workers at once: a site's schedule is only advanced
+ * (and its audit only enqueued) by whichever caller still sees the old
+ * next_audit_at value.
+ */
+export async function enqueueDueAudits(now: Date = new Date()): Promise<{ enqueued: number; initialized: number }> {
+  const supabase = createServerClient();
+
+  // Only schedule production sites - exclude staging/dev environments
+  const { data: sites, error } = await supabase
+    .from('sites')
+    .select('id, name, monthly_fee, plan_tier, audit_schedule, next_audit_at')
+    .or(`next_audit_at.is.null,next_audit_at.lte.${now.toISOString()}`)
+    .not('domain', 'ilike', '%stg%')
+    .not('domain', 'ilike', '%dev%')
+    .not('domain', 'ilike', '%.wpenginepowered.com')
+    .not('domain', 'ilike', '%.wpengine.com')
+    .neq('wpengine_environment', 'staging')
+    .neq('wpengine_environment', 'development');
+
+  if (error) {
+    throw new Error(`Failed to load scheduled sites: ${error.message}`);
+  }
+
+  let enqueued = 0;
+  let initialized = 0;
+
+  for (const site of (sites || []) as ScheduledSite[]) {
+    const schedule = getEffectiveSchedule(site);
+
+    let nextAuditAt: Date;
+    try {
+      nextAuditAt = getNextAuditAt(schedule, now);
+    } catch (scheduleError) {
+      console.error(`[Scheduler] Invalid schedule "${schedule}" for ${site.name}:`, scheduleError);
+      continue;
+    }
+
+    const isDue = site.next_audit_at !== null;
+    let claim = supabase
+      .from('sites')
+      .update({
+        next_audit_at: nextAuditAt.toISOString(),
+        ...(isDue ? { last_scheduled_audit_at: now.toISOString() } : {}),
+      })
+      .eq('id', site.id);
+    claim = isDue ? claim.eq('next_audit_at', site.next_audit_at) : claim.is('next_audit_at', null);
+
+    const { data: claimed } = await claim.select('id');
+    if (!claimed || claimed.length === 0) {
+      // Another scheduler got there first
+      continue;
+    }
+
+    if (!isDue) {
+      initialized++;
+      continue;
+    }
+
+    // Don't pile up audits behind one that is still queued or running
+    const { data: activeJobs } = await supabase
+      .from('audit_jobs')
+      .select('id')
+      .eq('site_id', site.id)
+      .in('status', ['queued', 'running'])
+      .limit(1);
+
+    if (activeJobs && activeJobs.length > 0) {
+      console.log(`[Scheduler] Skipping ${site.name}: an audit is already queued or running`);
+      continue;
+    }
+
+    try {
+      await enqueueAudit(site.id, { supabase });
+      enqueued++;
+      console.log(`[Scheduler] Enqueued audit for ${site.name}; next due ${nextAuditAt.toISOString()}`);
+    } catch (enqueueError) {
+      console.error(`[Scheduler] Failed to enqueue audit for ${site.name}:`, enqueueError);
+    }
+  }
+
+  return { enqueued, initialized };
+}
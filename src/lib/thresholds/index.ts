@@ -0,0 +1,98 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { THRESHOLDS, Thresholds, ThresholdOverrides } from '@/lib/constants/thresholds';
+import { Site, ThresholdProfile, ThresholdScope } from '@/lib/types';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+export const THRESHOLD_SCOPES: ThresholdScope[] = ['global', 'client', 'site'];
+
+/**
+ * Apply overrides on top of a set of thresholds, later ones winning.
+ * Grouped thresholds (e.g. database_size_mb) merge per level, so a profile
+ * can raise just the critical value.
+ */
+export function mergeThresholds(base: Thresholds, ...overrides: ThresholdOverrides[]): Thresholds {
+  const merged = { ...base } as Record<string, unknown>;
+
+  for (const override of overrides) {
+    for (const [key, value] of Object.entries(override)) {
+      if (value === undefined || !(key in base)) continue;
+      merged[key] = typeof value === 'object' && value !== null
+        ? { ...(merged[key] as object), ...value }
+        : value;
+    }
+  }
+
+  return merged as Thresholds;
+}
+
+/**
+ * Check a profile's overrides against the known thresholds. Returns an
+ * error message, or null when they are valid.
+ */
+export function validateThresholdOverrides(overrides: unknown): string | null {
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    return 'overrides must be an object';
+  }
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in THRESHOLDS)) {
+      return `Unknown threshold: ${key}`;
+    }
+
+    const defaultValue = THRESHOLDS[key as keyof Thresholds];
+    if (typeof defaultValue === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${key} must be a number`;
+      }
+      continue;
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return `${key} must be an object`;
+    }
+    for (const [level, levelValue] of Object.entries(value)) {
+      if (!(level in defaultValue)) {
+        return `Unknown threshold: ${key}.${level}`;
+      }
+      if (typeof levelValue !== 'number' || !Number.isFinite(levelValue)) {
+        return `${key}.${level} must be a number`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Profiles that apply to a site, in the order they are merged
+export async function getSiteThresholdProfiles(
+  supabase: SupabaseClient,
+  site: Pick<Site, 'id' | 'client_name'>
+): Promise<ThresholdProfile[]> {
+  const filters = ['scope.eq.global', `and(scope.eq.site,site_id.eq.${site.id})`];
+  if (site.client_name) {
+    filters.push(`and(scope.eq.client,client_name.eq."${site.client_name.replace(/"/g, '\\"')}")`);
+  }
+
+  const { data, error } = await supabase
+    .from('threshold_profiles')
+    .select('*')
+    .or(filters.join(','));
+
+  if (error) {
+    throw new Error(`Failed to load threshold profiles: ${error.message}`);
+  }
+
+  return ((data || []) as ThresholdProfile[]).sort(
+    (a, b) => THRESHOLD_SCOPES.indexOf(a.scope) - THRESHOLD_SCOPES.indexOf(b.scope)
+  );
+}
+
+// Global thresholds with the site's global → client → site profiles applied
+export async function getSiteThresholds(
+  supabase: SupabaseClient,
+  site: Pick<Site, 'id' | 'client_name'>
+): Promise<Thresholds> {
+  const profiles = await getSiteThresholdProfiles(supabase, site);
+  return mergeThresholds(THRESHOLDS, ...profiles.map((p) => p.overrides));
+}
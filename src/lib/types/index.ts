@@ -1,8 +1,13 @@
+import type { ThresholdOverrides } from '@/lib/constants/thresholds';
+
 export interface Site {
   id: string;
   name: string;
   domain: string;
-  wpengine_install_id: string;
+  hosting_provider: HostingProviderType;
+  hosting_config: HostingConfig;
+  // Set for WPEngine sites only
+  wpengine_install_id: string | null;
   wpengine_site_name: string | null;
   wpengine_environment: string;
   cloudflare_zone_id: string | null;
@@ -10,24 +15,150 @@ export interface Site {
   page_builder: 'elementor' | 'beaver' | 'gutenberg' | 'other' | null;
   monthly_fee: number;
   is_ecommerce: boolean;
+  plan_tier: PlanTier | null;
+  audit_schedule: string | null;
+  next_audit_at: string | null;
+  last_scheduled_audit_at: string | null;
   notes: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type PlanTier = 'premium' | 'standard' | 'basic';
+
+export type HostingProviderType = 'wpengine' | 'ssh';
+
+// Settings for the 'ssh' provider; WPEngine sites leave hosting_config empty
+export interface SSHHostingConfig {
+  host: string;
+  port?: number;
+  username: string;
+  // WordPress root, when the SSH login doesn't start in it
+  wp_path?: string;
+  // Where database backups are written: absolute or under ~/, never inside the WordPress root
+  backup_dir?: string;
+  // Environment variable holding the private key (keys never go in the database)
+  private_key_env?: string;
+}
+
+export type HostingConfig = Partial<SSHHostingConfig>;
+
 export interface Audit {
   id: string;
   site_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   started_at: string | null;
   completed_at: string | null;
   health_score: number | null;
   summary: string | null;
   raw_data: AuditRawData;
+  // Version of the raw_data shape it was stored with; read it through readAuditRawData
+  schema_version: number;
   error_message: string | null;
+  check_runs: CheckRun[];
+  is_complete: boolean;
+  // Issues this audit reported; null for audits from before snapshots were kept
+  issue_snapshot: IssueSnapshot[] | null;
+  // How health_score was arrived at; null for audits scored before breakdowns
+  score_breakdown: ScoreBreakdown | null;
+  // What's working: rules that passed and positive findings, kept out of issues
+  passed_checks: PassedCheck[];
+  created_at: string;
+}
+
+export interface PassedCheck {
+  check_key: string;
+  category: Issue['category'];
+  rule: string;
+  title: string;
+  description: string;
+}
+
+export interface IssueSnapshot {
+  fingerprint: string;
+  check_key: string | null;
+  category: Issue['category'];
+  severity: Issue['severity'];
+  title: string;
+}
+
+export type CheckRunStatus = 'succeeded' | 'failed' | 'skipped' | 'timed_out';
+
+// Outcome of one registered check within an audit
+export interface CheckRun {
+  key: string;
+  label: string;
+  category: Issue['category'];
+  status: CheckRunStatus;
+  error: string | null;
+  duration_ms: number;
+  started_at: string;
+  completed_at: string;
+}
+
+export type AuditEventType = 'step_started' | 'step_finished' | 'issue_found' | 'log';
+
+// Progress of a running audit, streamed at /api/audits/{id}/events
+export interface AuditEvent {
+  id: number;
+  audit_id: string;
+  type: AuditEventType;
+  message: string;
+  data: AuditEventData;
   created_at: string;
 }
 
+export interface AuditEventData {
+  // step_started / step_finished: the check key, or 'finalize'
+  step?: string;
+  step_index?: number;
+  step_count?: number;
+  estimated_seconds?: number;
+  status?: CheckRunStatus;
+  duration_ms?: number;
+  error?: string | null;
+  // issue_found
+  severity?: Issue['severity'];
+  category?: Issue['category'];
+  // log
+  level?: 'info' | 'warn' | 'error';
+  scope?: string | null;
+}
+
+// Sent on the event stream whenever the audit row's status changes
+export type AuditStreamStatus = Pick<Audit, 'status' | 'health_score' | 'is_complete' | 'error_message'>;
+
+export type TranscriptEntryKind = 'ssh' | 'http' | 'process';
+
+// One connector operation made during an audit, secrets redacted
+export interface TranscriptEntry {
+  // Order within the audit, from 0
+  sequence: number;
+  // The check that made the call; null outside of a check
+  check_key: string | null;
+  kind: TranscriptEntryKind;
+  // The command line, or "METHOD url" for HTTP requests
+  operation: string;
+  ok: boolean;
+  exit_code: number | null;
+  http_status: number | null;
+  stdout: string | null;
+  stderr: string | null;
+  // Thrown before a result came back (connection failure, timeout, abort)
+  error: string | null;
+  duration_ms: number;
+  started_at: string;
+}
+
+// Served by /api/audits/{id}/transcript
+export interface AuditTranscript {
+  audit_id: string;
+  site_id: string;
+  status: Audit['status'];
+  error_message: string | null;
+  entries: TranscriptEntry[];
+}
+
 export interface AuditRawData {
   plugins?: PluginAuditData;
   database?: DatabaseAuditData;
@@ -35,6 +166,8 @@ export interface AuditRawData {
   security?: SecurityAuditData;
   seo?: SEOAuditData;
   crawl?: CrawlAuditData;
+  vulnerabilities?: VulnerabilityAuditData;
+  themes?: ThemeAuditData;
 }
 
 export interface PluginAuditData {
@@ -43,6 +176,46 @@ export interface PluginAuditData {
   inactive: number;
   needs_update: number;
   plugins: PluginInfo[];
+  // Missing from audits before must-use plugins and drop-ins were hashed
+  system_plugins?: SystemPluginChanges;
+}
+
+// Must-use plugins and drop-ins (by file, relative to wp-content) compared with
+// the previous audit, their accepted hashes and the files the host installs itself
+export interface SystemPluginChanges {
+  // False when there was no previous audit with hashes to compare against
+  compared_to_previous: boolean;
+  added: string[];
+  // Hash differs from an accepted one or, with none accepted, from the first one seen
+  modified: string[];
+  removed: string[];
+  // Not installed by the host
+  unexpected: string[];
+  // The hash each file is compared with when nobody has accepted one yet
+  baseline?: Record<string, string>;
+}
+
+export interface ThemeAuditData {
+  total: number;
+  inactive: number;
+  needs_update: number;
+  // Stylesheet slug of the active theme, and of its parent for a child theme
+  active_theme: string | null;
+  parent_theme: string | null;
+  is_child_theme: boolean;
+  // The active theme, or its parent for a child theme, is on the approved list
+  approved: boolean;
+  themes: ThemeInfo[];
+}
+
+export interface ThemeInfo {
+  name: string;
+  status: 'active' | 'parent' | 'inactive';
+  version: string;
+  update_version?: string;
+  title?: string;
+  // Parent theme slug, for child themes
+  parent: string | null;
 }
 
 export interface PluginInfo {
@@ -51,6 +224,39 @@ export interface PluginInfo {
   version: string;
   update_version?: string;
   title?: string;
+  // Must-use plugins and drop-ins: the file, relative to wp-content, and its SHA-256
+  file?: string;
+  sha256?: string | null;
+}
+
+// Regular (active or inactive) plugins, must-use plugins and drop-ins
+export type SitePluginType = 'plugin' | 'must-use' | 'dropin';
+
+// A plugin installed on a site, as of the site's latest audit
+export interface SitePlugin {
+  site_id: string;
+  type: SitePluginType;
+  slug: string;
+  title: string | null;
+  version: string;
+  status: PluginInfo['status'];
+  update_version: string | null;
+  audit_id: string | null;
+  first_seen_at: string;
+  updated_at: string;
+}
+
+export type SitePluginRow = SitePlugin & { site_name: string; domain: string };
+
+// One plugin across the fleet, its installs grouped by version (newest first)
+export interface PluginVersionMatrix {
+  type: SitePluginType;
+  slug: string;
+  title: string | null;
+  site_count: number;
+  versions: Array<{ version: string; installs: SitePluginRow[] }>;
+  // More than one version installed across the fleet
+  has_drift: boolean;
 }
 
 export interface DatabaseAuditData {
@@ -119,6 +325,127 @@ export interface SEOAuditData {
   seo_plugin: string | null;
 }
 
+export interface VulnerabilityAuditData {
+  // Installed plugins and themes matched against the advisories
+  packages_checked: number;
+  matches: VulnerabilityMatch[];
+}
+
+// An installed plugin or theme version an advisory applies to
+export interface VulnerabilityMatch {
+  advisory_id: string;
+  software_type: AdvisorySoftwareType;
+  slug: string;
+  installed_version: string;
+  title: string;
+  cve: string | null;
+  severity: AdvisorySeverity | null;
+  // Lowest fixed version above the installed one; null when there is no fix
+  fixed_version: string | null;
+}
+
+export type AdvisorySource = 'wpscan' | 'wordfence';
+export type AdvisorySoftwareType = 'plugin' | 'theme';
+export type AdvisorySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// Versions an advisory affects; a null bound is open-ended
+export interface VersionRange {
+  from: string | null;
+  from_inclusive: boolean;
+  to: string | null;
+  to_inclusive: boolean;
+}
+
+export interface VulnerabilityAdvisory {
+  id: string;
+  source: AdvisorySource;
+  source_id: string;
+  software_type: AdvisorySoftwareType;
+  slug: string;
+  title: string;
+  cve: string | null;
+  severity: AdvisorySeverity | null;
+  cvss_score: number | null;
+  affected_versions: VersionRange[];
+  fixed_versions: string[];
+  references: string[];
+  published_at: string | null;
+  imported_at: string;
+}
+
+// An advisory as parsed from a feed, before it is stored
+export type AdvisoryImport = Omit<VulnerabilityAdvisory, 'id' | 'imported_at'>;
+
+// A site exposed to an advisory, for the fleet view
+export interface AdvisoryExposure {
+  site_id: string;
+  site_name: string;
+  domain: string;
+  // The site's known_vulnerability issue for the advisory
+  issue_id: string;
+  issue_title: string;
+  issue_status: Issue['status'];
+  first_seen_at: string;
+}
+
+// Everything the bundled PHP collector reports from one WordPress bootstrap
+export interface WordPressSnapshot {
+  schema_version: number;
+  collector_version: string;
+  collected_at: string;
+  core: {
+    version: string;
+    updates: Array<{ version: string }>;
+    is_multisite: boolean;
+  };
+  php: {
+    version: string;
+    memory_limit: string;
+  };
+  constants: {
+    wp_debug: boolean;
+    wp_debug_display: boolean;
+    disallow_file_edit: boolean;
+    disallow_file_mods: boolean;
+  };
+  options: {
+    home: string;
+    siteurl: string;
+    blog_public: boolean;
+  };
+  plugins: Array<WordPressPackage<PluginInfo['status']> & Pick<PluginInfo, 'file' | 'sha256'>>;
+  themes: Array<WordPressPackage<ThemeInfo['status']> & { parent: string | null }>;
+  administrators: Array<{
+    id: number;
+    user_login: string;
+    user_email: string;
+    display_name: string;
+  }>;
+  counts: {
+    revisions: number;
+    transients: number;
+    spam_comments: number;
+  };
+  database: {
+    tables: Array<{ name: string; rows: number; size_bytes: number }>;
+    autoload_bytes: number;
+    // The largest autoloaded options, biggest first
+    largest_autoload_options: AutoloadOption[];
+  };
+}
+
+export interface WordPressPackage<Status extends string> {
+  name: string;
+  status: Status;
+  version: string;
+  update: 'available' | 'none';
+  update_version: string | null;
+  title: string;
+}
+
+// ignored / snoozed / accepted are set by people and survive re-audits
+export type IssueStatus = 'open' | 'fixed' | 'resolved' | 'ignored' | 'snoozed' | 'accepted' | 'in_progress';
+
 export interface Issue {
   id: string;
   site_id: string;
@@ -131,10 +458,200 @@ export interface Issue {
   auto_fixable: boolean;
   fix_action: string | null;
   fix_params: Record<string, unknown>;
-  status: 'open' | 'fixed' | 'ignored' | 'in_progress';
+  status: IssueStatus;
   resolved_at: string | null;
   resolved_by: string | null;
+  snoozed_until: string | null;
+  risk_justification: string | null;
+  // Identity across audits: check key + rule + subject (e.g. a plugin slug)
+  fingerprint: string | null;
+  check_key: string | null;
+  rule: string | null;
+  subject: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  occurrence_count: number;
+  // Came back after an audit had resolved it
+  is_regression: boolean;
+  created_at: string;
+}
+
+export interface AuditJob {
+  id: string;
+  audit_id: string;
+  site_id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by: string | null;
+  locked_at: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  last_error: string | null;
+  completed_at: string | null;
+  batch_id: string | null;
+  host_key: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AuditBatch {
+  id: string;
+  status: 'running' | 'completed';
+  concurrency: number;
+  total_sites: number;
+  succeeded: number;
+  failed: number;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface AuditBatchProgress {
+  batch: AuditBatch;
+  queued: number;
+  in_progress: number;
+  done: number;
+  failed: number;
+  eta_seconds: number | null;
+  sites: Array<{
+    site_id: string;
+    site_name: string;
+    audit_id: string;
+    status: AuditJob['status'];
+    attempts: number;
+    health_score: number | null;
+    error: string | null;
+  }>;
+}
+
+export type IssueCategory = Issue['category'];
+export type IssueSeverity = Issue['severity'];
+
+export interface CategoryScoringRule {
+  // Relative weight of this category's subscore in the overall score
+  weight: number;
+  // Points taken off the category's subscore per issue
+  deductions: Record<IssueSeverity, number>;
+  // Most points issues of one severity can take off in total
+  caps: Record<IssueSeverity, number>;
+}
+
+export interface ScoringModelConfig {
+  categories: Record<IssueCategory, CategoryScoringRule>;
+  // Leave accepted-risk issues out of the score (ignored/snoozed never count)
+  exclude_accepted_risk: boolean;
+}
+
+// A scoring_models.config row only has to list what it changes from the default model
+export interface StoredScoringModelConfig {
+  categories?: Partial<
+    Record<
+      IssueCategory,
+      {
+        weight?: number;
+        deductions?: Partial<Record<IssueSeverity, number>>;
+        caps?: Partial<Record<IssueSeverity, number>>;
+      }
+    >
+  >;
+  exclude_accepted_risk?: boolean;
+}
+
+export interface ScoringModel {
+  id: string | null;
+  name: string;
+  config: ScoringModelConfig;
+}
+
+export interface CategoryScore {
+  score: number;
+  weight: number;
+  // False when no check in the category finished; such categories are left out of the overall score
+  evaluated: boolean;
+  issue_counts: Record<IssueSeverity, number>;
+  deductions: Record<IssueSeverity, number>;
+  capped: IssueSeverity[];
+}
+
+export interface ScoreBreakdown {
+  model: string;
+  // Null when no category could be scored (every check failed or timed out)
+  overall: number | null;
+  categories: Record<IssueCategory, CategoryScore>;
+}
+
+// Overrides applied on top of THRESHOLDS, merged global → client → site
+export type ThresholdScope = 'global' | 'client' | 'site';
+
+export interface ThresholdProfile {
+  id: string;
+  name: string;
+  scope: ThresholdScope;
+  // Set for client profiles (matches sites.client_name)
+  client_name: string | null;
+  // Set for site profiles
+  site_id: string | null;
+  overrides: ThresholdOverrides;
   created_at: string;
+  updated_at: string;
+}
+
+// required/recommended: must be active; allowed: part of the standard stack;
+// banned/replaced_by: must not be active
+export type PluginPolicyRule = 'required' | 'recommended' | 'allowed' | 'banned' | 'replaced_by';
+
+// Sites a policy applies to, from least to most specific
+export type PluginPolicyScope = 'default' | 'ecommerce' | 'page_builder' | 'client';
+
+export interface PluginPolicy {
+  id: string;
+  slug: string;
+  rule: PluginPolicyRule;
+  // Other slugs that count as this plugin, e.g. wp-seopress-pro for seopress
+  aliases: string[];
+  // Set for replaced_by policies
+  replacement: string | null;
+  // Version constraint (min inclusive, below exclusive): the versions that
+  // satisfy required/recommended policies, or the banned versions
+  min_version: string | null;
+  below_version: string | null;
+  reason: string | null;
+  scope: PluginPolicyScope;
+  // Set for client policies (matches sites.client_name)
+  client_name: string | null;
+  // Set for page_builder policies
+  page_builder: NonNullable<Site['page_builder']> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NumericDelta {
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface PluginChange {
+  name: string;
+  change: 'added' | 'removed' | 'updated';
+  from_version: string | null;
+  to_version: string | null;
+}
+
+// What changed between two audits of the same site (base -> target)
+export interface AuditDiff {
+  base_audit_id: string;
+  target_audit_id: string;
+  health_score: NumericDelta | null;
+  new_issues: IssueSnapshot[];
+  resolved_issues: IssueSnapshot[];
+  severity_changes: Array<IssueSnapshot & { from_severity: Issue['severity'] }>;
+  plugin_changes: PluginChange[];
+  wp_version: { from: string; to: string } | null;
+  admin_users: { added: string[]; removed: string[] };
+  database_size_mb: NumericDelta | null;
+  sitemap_url_count: NumericDelta | null;
 }
 
 export interface ActionLog {
@@ -257,6 +774,28 @@ export interface CrawlAuditData {
 
 // Check result type used by auditor
 export interface CheckResult {
-  data: PluginAuditData | DatabaseAuditData | PerformanceAuditData | SecurityAuditData | SEOAuditData | CrawlAuditData;
-  issues: Omit<Issue, 'id' | 'site_id' | 'audit_id' | 'status' | 'resolved_at' | 'resolved_by' | 'created_at'>[];
+  data:
+    | PluginAuditData
+    | DatabaseAuditData
+    | PerformanceAuditData
+    | SecurityAuditData
+    | SEOAuditData
+    | CrawlAuditData
+    | VulnerabilityAuditData
+    | ThemeAuditData;
+  issues: DetectedIssue[];
+  // Rules the check evaluated and found nothing wrong with, and good news
+  passed?: DetectedPass[];
 }
+
+// A passed check as reported by a check; never an issue, never scored
+export type DetectedPass = Omit<PassedCheck, 'check_key'>;
+
+// An issue as reported by a check, before it is matched against stored issues
+export type DetectedIssue = Pick<
+  Issue,
+  'category' | 'severity' | 'title' | 'description' | 'recommendation' | 'auto_fixable' | 'fix_action' | 'fix_params'
+> & {
+  rule: string;
+  subject?: string;
+};
@@ -0,0 +1,69 @@
+import { VersionRange } from '@/lib/types';
+
+// Pre-release and patch-level markers, ordered the way PHP's version_compare
+// orders them (which is what WordPress uses); numbers sit between rc and pl
+const MARKER_RANK: Record<string, number> = {
+  dev: 0,
+  alpha: 1,
+  a: 1,
+  beta: 2,
+  b: 2,
+  rc: 3,
+  pl: 5,
+  p: 5,
+};
+const NUMBER_RANK = 4;
+// Markers we don't know sort before everything else, as in version_compare
+const UNKNOWN_RANK = -1;
+
+function tokenize(version: string): string[] {
+  return version.trim().toLowerCase().replace(/^v/, '').match(/\d+|[a-z]+/g) || [];
+}
+
+function rank(token: string): number {
+  return /^\d/.test(token) ? NUMBER_RANK : (MARKER_RANK[token] ?? UNKNOWN_RANK);
+}
+
+/**
+ * Compare two plugin/theme version strings: negative when a < b, 0 when
+ * equal, positive when a > b. Missing trailing parts count as 0, so 1.2 and
+ * 1.2.0 are equal, and pre-releases sort before their release
+ * (1.2-beta1 < 1.2 < 1.2.1).
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = tokenize(a);
+  const right = tokenize(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    // Running out of parts is the same as a trailing .0
+    const l = left[i] ?? '0';
+    const r = right[i] ?? '0';
+    const lRank = rank(l);
+    const rRank = rank(r);
+
+    if (lRank !== rRank) return lRank - rRank;
+    if (lRank === NUMBER_RANK) {
+      const diff = Number(l) - Number(r);
+      if (diff !== 0) return diff;
+    } else if (l !== r) {
+      return l < r ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+export function isVersionInRange(version: string, range: VersionRange): boolean {
+  if (range.from) {
+    const fromComparison = compareVersions(version, range.from);
+    if (fromComparison < 0 || (fromComparison === 0 && !range.from_inclusive)) return false;
+  }
+  if (range.to) {
+    const toComparison = compareVersions(version, range.to);
+    if (toComparison > 0 || (toComparison === 0 && !range.to_inclusive)) return false;
+  }
+  return true;
+}
+
+export function isVersionAffected(version: string, ranges: VersionRange[]): boolean {
+  return ranges.some((range) => isVersionInRange(version, range));
+}
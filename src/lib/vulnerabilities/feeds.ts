@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { AdvisoryImport, AdvisorySeverity, AdvisorySoftwareType, VersionRange } from '@/lib/types';
+
+/*
+ * Advisory feed formats. Only the fields we store are described; anything
+ * else in the feed is ignored.
+ */
+
+// Wordfence Intelligence: { [id]: vulnerability }, one entry per vulnerability
+// listing every affected plugin, theme or core release
+const wordfenceFeedSchema = z.record(
+  z.string(),
+  z.object({
+    id: z.string(),
+    title: z.string(),
+    software: z.array(
+      z.object({
+        type: z.string(),
+        slug: z.string(),
+        affected_versions: z.record(
+          z.string(),
+          z.object({
+            from_version: z.string(),
+            from_inclusive: z.boolean(),
+            to_version: z.string(),
+            to_inclusive: z.boolean(),
+          })
+        ),
+        patched_versions: z.array(z.string()).default([]),
+      })
+    ),
+    references: z.array(z.string()).default([]),
+    cve: z.string().nullish(),
+    cvss: z.object({ score: z.number().nullish(), rating: z.string().nullish() }).nullish(),
+    published: z.string().nullish(),
+  })
+);
+
+// WPScan API responses: { [slug]: { vulnerabilities } }, for either plugins
+// or themes (the response doesn't say which)
+const wpscanFeedSchema = z.record(
+  z.string(),
+  z.object({
+    vulnerabilities: z.array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        published_date: z.string().nullish(),
+        references: z.object({ cve: z.array(z.string()).default([]), url: z.array(z.string()).default([]) }).default({
+          cve: [],
+          url: [],
+        }),
+        cvss: z.object({ score: z.coerce.number().nullish(), severity: z.string().nullish() }).nullish(),
+        introduced_in: z.string().nullish(),
+        fixed_in: z.string().nullish(),
+      })
+    ),
+  })
+);
+
+export type AdvisoryFeedFormat = 'wordfence' | 'wpscan';
+
+export function detectFeedFormat(feed: unknown): AdvisoryFeedFormat {
+  const first = feed && typeof feed === 'object' ? Object.values(feed)[0] : undefined;
+  if (first && typeof first === 'object') {
+    if ('software' in first) return 'wordfence';
+    if ('vulnerabilities' in first) return 'wpscan';
+  }
+  throw new Error('Unrecognised advisory feed: expected Wordfence Intelligence or WPScan JSON');
+}
+
+function toSeverity(rating: string | null | undefined): AdvisorySeverity | null {
+  const normalized = rating?.toLowerCase();
+  return normalized === 'critical' || normalized === 'high' || normalized === 'medium' || normalized === 'low'
+    ? normalized
+    : null;
+}
+
+// Wordfence uses '*' for an open bound
+function toBound(version: string): string | null {
+  return version === '*' ? null : version;
+}
+
+export function parseWordfenceFeed(feed: unknown): AdvisoryImport[] {
+  const vulnerabilities = wordfenceFeedSchema.parse(feed);
+  const advisories: AdvisoryImport[] = [];
+
+  for (const vulnerability of Object.values(vulnerabilities)) {
+    for (const software of vulnerability.software) {
+      // Core advisories are covered by the core update check
+      if (software.type !== 'plugin' && software.type !== 'theme') continue;
+
+      advisories.push({
+        source: 'wordfence',
+        source_id: vulnerability.id,
+        software_type: software.type,
+        slug: software.slug,
+        title: vulnerability.title,
+        cve: vulnerability.cve || null,
+        severity: toSeverity(vulnerability.cvss?.rating),
+        cvss_score: vulnerability.cvss?.score ?? null,
+        affected_versions: Object.values(software.affected_versions).map(
+          (range): VersionRange => ({
+            from: toBound(range.from_version),
+            from_inclusive: range.from_inclusive,
+            to: toBound(range.to_version),
+            to_inclusive: range.to_inclusive,
+          })
+        ),
+        fixed_versions: software.patched_versions,
+        references: vulnerability.references,
+        published_at: vulnerability.published || null,
+      });
+    }
+  }
+
+  return advisories;
+}
+
+export function parseWPScanFeed(feed: unknown, softwareType: AdvisorySoftwareType): AdvisoryImport[] {
+  const packages = wpscanFeedSchema.parse(feed);
+  const advisories: AdvisoryImport[] = [];
+
+  for (const [slug, { vulnerabilities }] of Object.entries(packages)) {
+    for (const vulnerability of vulnerabilities) {
+      const cve = vulnerability.references.cve[0];
+      advisories.push({
+        source: 'wpscan',
+        source_id: vulnerability.id,
+        software_type: softwareType,
+        slug,
+        title: vulnerability.title,
+        // WPScan lists CVEs without their prefix
+        cve: cve ? (cve.startsWith('CVE-') ? cve : `CVE-${cve}`) : null,
+        severity: toSeverity(vulnerability.cvss?.severity),
+        cvss_score: vulnerability.cvss?.score ?? null,
+        // Affected from introduced_in (or always) up to, not including, fixed_in
+        affected_versions: [
+          {
+            from: vulnerability.introduced_in || null,
+            from_inclusive: true,
+            to: vulnerability.fixed_in || null,
+            to_inclusive: false,
+          },
+        ],
+        fixed_versions: vulnerability.fixed_in ? [vulnerability.fixed_in] : [],
+        references: vulnerability.references.url,
+        published_at: vulnerability.published_date || null,
+      });
+    }
+  }
+
+  return advisories;
+}
+
+/**
+ * Parse a feed in either format. WPScan feeds need `softwareType`, since a
+ * WPScan response doesn't say whether its slugs are plugins or themes.
+ */
+export function parseAdvisoryFeed(feed: unknown, softwareType: AdvisorySoftwareType = 'plugin'): AdvisoryImport[] {
+  return detectFeedFormat(feed) === 'wordfence' ? parseWordfenceFeed(feed) : parseWPScanFeed(feed, softwareType);
+}
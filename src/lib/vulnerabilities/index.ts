@@ -0,0 +1,223 @@
+import { createServerClient } from '@/lib/supabase/server';
+import { compareVersions, isVersionAffected } from '@/lib/utils/version-range';
+import {
+  AdvisoryExposure,
+  AdvisoryImport,
+  AdvisorySoftwareType,
+  Issue,
+  VulnerabilityAdvisory,
+  VulnerabilityMatch,
+} from '@/lib/types';
+
+export { detectFeedFormat, parseAdvisoryFeed, parseWordfenceFeed, parseWPScanFeed } from './feeds';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+// Rows per upsert; feeds run to tens of thousands of advisories
+const IMPORT_BATCH_SIZE = 500;
+
+// PostgREST caps each response; larger reads are paged
+const PAGE_SIZE = 1000;
+
+// Advisory IDs per lookup
+const ID_BATCH_SIZE = 200;
+
+// The issue a site gets for each advisory it is exposed to (subject: advisory ID)
+export const VULNERABILITY_CHECK_KEY = 'vulnerabilities';
+export const VULNERABILITY_RULE = 'known_vulnerability';
+
+// Issue statuses that still count as exposed
+const EXPOSED_STATUSES: Issue['status'][] = ['open', 'in_progress', 'ignored', 'snoozed', 'accepted'];
+
+export interface InstalledSoftware {
+  type: AdvisorySoftwareType;
+  slug: string;
+  version: string;
+}
+
+/**
+ * Store advisories, replacing earlier imports of the same advisory so a
+ * re-import picks up new fixed versions. Returns how many were written.
+ */
+export async function importAdvisories(supabase: SupabaseClient, advisories: AdvisoryImport[]): Promise<number> {
+  const importedAt = new Date().toISOString();
+
+  // An upsert can't touch the same row twice, so feeds listing a slug twice keep the last entry
+  const unique = Array.from(
+    new Map(
+      advisories.map((advisory) => [
+        `${advisory.source}:${advisory.source_id}:${advisory.software_type}:${advisory.slug}`,
+        advisory,
+      ])
+    ).values()
+  );
+
+  for (let i = 0; i < unique.length; i += IMPORT_BATCH_SIZE) {
+    const batch = unique.slice(i, i + IMPORT_BATCH_SIZE).map((advisory) => ({ ...advisory, imported_at: importedAt }));
+    const { error } = await supabase
+      .from('vulnerability_advisories')
+      .upsert(batch, { onConflict: 'source,source_id,software_type,slug' });
+
+    if (error) {
+      throw new Error(`Failed to import advisories: ${error.message}`);
+    }
+  }
+
+  return unique.length;
+}
+
+// Advisories for any of the given plugins and themes
+export async function findAdvisories(
+  supabase: SupabaseClient,
+  software: InstalledSoftware[]
+): Promise<VulnerabilityAdvisory[]> {
+  const slugs = Array.from(new Set(software.map((s) => s.slug)));
+  if (slugs.length === 0) return [];
+
+  // Popular plugins have hundreds of advisories each
+  const advisories: VulnerabilityAdvisory[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('vulnerability_advisories')
+      .select('*')
+      .in('slug', slugs)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load advisories: ${error.message}`);
+    }
+
+    advisories.push(...((data || []) as VulnerabilityAdvisory[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return advisories;
+}
+
+// Lowest fix that is newer than the installed version
+function getFixedVersion(advisory: VulnerabilityAdvisory, installedVersion: string): string | null {
+  return (
+    advisory.fixed_versions
+      .filter((version) => compareVersions(version, installedVersion) > 0)
+      .sort(compareVersions)[0] ?? null
+  );
+}
+
+/**
+ * Match installed plugin and theme versions against advisories. Software
+ * without a version (some drop-ins) can't be matched and is skipped.
+ */
+export function matchAdvisories(
+  software: InstalledSoftware[],
+  advisories: VulnerabilityAdvisory[]
+): VulnerabilityMatch[] {
+  const matches: VulnerabilityMatch[] = [];
+
+  for (const installed of software) {
+    if (!installed.version) continue;
+
+    for (const advisory of advisories) {
+      if (advisory.software_type !== installed.type || advisory.slug !== installed.slug) continue;
+      if (!isVersionAffected(installed.version, advisory.affected_versions)) continue;
+
+      matches.push({
+        advisory_id: advisory.id,
+        software_type: installed.type,
+        slug: installed.slug,
+        installed_version: installed.version,
+        title: advisory.title,
+        cve: advisory.cve,
+        severity: advisory.severity,
+        fixed_version: getFixedVersion(advisory, installed.version),
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Every site currently exposed to an advisory, going by the issues the
+ * vulnerabilities check raised (resolved once the site is updated).
+ */
+export async function getAdvisoryExposures(supabase: SupabaseClient, advisoryId: string): Promise<AdvisoryExposure[]> {
+  const { data, error } = await supabase
+    .from('issues')
+    .select('id, title, status, first_seen_at, sites(id, name, domain)')
+    .eq('check_key', VULNERABILITY_CHECK_KEY)
+    .eq('rule', VULNERABILITY_RULE)
+    .eq('subject', advisoryId)
+    .in('status', EXPOSED_STATUSES);
+
+  if (error) {
+    throw new Error(`Failed to load exposed sites: ${error.message}`);
+  }
+
+  return (data || []).flatMap((issue) => {
+    const site = issue.sites as unknown as { id: string; name: string; domain: string } | null;
+    if (!site) return [];
+    return [
+      {
+        site_id: site.id,
+        site_name: site.name,
+        domain: site.domain,
+        issue_id: issue.id,
+        issue_title: issue.title,
+        issue_status: issue.status,
+        first_seen_at: issue.first_seen_at,
+      },
+    ];
+  });
+}
+
+/**
+ * Advisories at least one site is exposed to, with the number of exposed
+ * sites each, most exposed first.
+ */
+export async function getExposedAdvisories(
+  supabase: SupabaseClient
+): Promise<Array<VulnerabilityAdvisory & { exposed_sites: number }>> {
+  const sitesByAdvisory = new Map<string, Set<string>>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: issues, error } = await supabase
+      .from('issues')
+      .select('subject, site_id')
+      .eq('check_key', VULNERABILITY_CHECK_KEY)
+      .eq('rule', VULNERABILITY_RULE)
+      .in('status', EXPOSED_STATUSES)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load vulnerability issues: ${error.message}`);
+    }
+
+    for (const issue of issues || []) {
+      if (!issue.subject) continue;
+      const sites = sitesByAdvisory.get(issue.subject) || new Set<string>();
+      sites.add(issue.site_id);
+      sitesByAdvisory.set(issue.subject, sites);
+    }
+    if (!issues || issues.length < PAGE_SIZE) break;
+  }
+  if (sitesByAdvisory.size === 0) return [];
+
+  // IDs go in the URL, so a large fleet's advisories are read in batches
+  const ids = Array.from(sitesByAdvisory.keys());
+  const advisories: VulnerabilityAdvisory[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const { data, error: advisoryError } = await supabase
+      .from('vulnerability_advisories')
+      .select('*')
+      .in('id', ids.slice(i, i + ID_BATCH_SIZE));
+
+    if (advisoryError) {
+      throw new Error(`Failed to load advisories: ${advisoryError.message}`);
+    }
+    advisories.push(...((data || []) as VulnerabilityAdvisory[]));
+  }
+
+  return advisories
+    .map((advisory) => ({ ...advisory, exposed_sites: sitesByAdvisory.get(advisory.id)?.size || 0 }))
+    .sort((a, b) => b.exposed_sites - a.exposed_sites);
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createServerClient } from '@/lib/supabase/server';
+import { getBatchProgress, refreshBatchStatus, startFleetAudit } from '@/lib/queue/audit-batches';
+import { FLEET_CONFIG } from '@/lib/constants/queue';
+import { callArgs, createFakeSupabase, FakeQuery, FakeResponse, filters } from './fake-supabase';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createServerClient: vi.fn(),
+}));
+
+function serveFakeSupabase(respond: (query: FakeQuery) => FakeResponse) {
+  const fake = createFakeSupabase(respond);
+  vi.mocked(createServerClient).mockReturnValue(fake.client);
+  return fake;
+}
+
+const sites = [
+  { id: 'site-1', name: 'One', domain: 'one.com', hosting_provider: 'wpengine', wpengine_install_id: 'one' },
+  { id: 'site-2', name: 'Two', domain: 'two.com', hosting_provider: 'wpengine', wpengine_install_id: 'two' },
+  { id: 'site-3', name: 'Three', domain: 'three.com', hosting_provider: 'wpengine', wpengine_install_id: 'one' },
+];
+
+describe('startFleetAudit', () => {
+  function fleet(rows: typeof sites) {
+    return serveFakeSupabase((query) => {
+      if (query.table === 'sites') return { data: rows };
+      return { data: { id: `${query.table}-id` } };
+    });
+  }
+
+  it('queues one job per site, keyed by the server it runs on', async () => {
+    const { queries } = fleet(sites);
+    const result = await startFleetAudit({ concurrency: 2 });
+
+    expect(result).toEqual({ batchId: 'audit_batches-id', totalSites: 3 });
+    expect(callArgs(queries.find((q) => q.table === 'audit_batches')!, 'insert')).toEqual([
+      { concurrency: 2, total_sites: 3 },
+    ]);
+
+    const jobs = queries.filter((q) => q.table === 'audit_jobs').map((q) => callArgs(q, 'insert')?.[0]);
+    expect(jobs).toMatchObject([
+      { site_id: 'site-1', batch_id: 'audit_batches-id', host_key: 'one' },
+      { site_id: 'site-2', batch_id: 'audit_batches-id', host_key: 'two' },
+      // Sites sharing an install share a host key, so they never run at the same time
+      { site_id: 'site-3', batch_id: 'audit_batches-id', host_key: 'one' },
+    ]);
+  });
+
+  it('clamps the requested concurrency', async () => {
+    const { queries } = fleet(sites);
+    await startFleetAudit({ concurrency: 500 });
+    expect(callArgs(queries.find((q) => q.table === 'audit_batches')!, 'insert')?.[0]).toMatchObject({
+      concurrency: FLEET_CONFIG.MAX_CONCURRENCY,
+    });
+
+    const { queries: low } = fleet(sites);
+    await startFleetAudit({ concurrency: 0 });
+    expect(callArgs(low.find((q) => q.table === 'audit_batches')!, 'insert')?.[0]).toMatchObject({ concurrency: 1 });
+  });
+
+  it('records a site that cannot be queued as failed and queues the rest', async () => {
+    const misconfigured = { id: 'site-4', name: 'Four', domain: 'four.com', hosting_provider: 'ssh', hosting_config: {} };
+    const { queries } = serveFakeSupabase((query) => {
+      if (query.table === 'sites') return { data: [sites[0], misconfigured, sites[1]] };
+      // The batch's jobs, as refreshBatchStatus reads them
+      if (query.table === 'audit_jobs' && filters(query, 'eq').length > 0) {
+        return { data: [{ status: 'queued' }, { status: 'failed' }, { status: 'queued' }] };
+      }
+      return { data: { id: `${query.table}-id` } };
+    });
+
+    const result = await startFleetAudit();
+
+    expect(result.totalSites).toBe(3);
+    const jobs = queries.filter((q) => q.table === 'audit_jobs').map((q) => callArgs(q, 'insert')?.[0]);
+    expect(jobs).toMatchObject([
+      { site_id: 'site-1', host_key: 'one' },
+      {
+        site_id: 'site-4',
+        batch_id: 'audit_batches-id',
+        status: 'failed',
+        last_error: 'SSH-hosted site four.com needs hosting_config.host and hosting_config.username',
+      },
+      { site_id: 'site-2', host_key: 'two' },
+      // The batch is re-checked once every site has been handled
+      undefined,
+    ]);
+    expect(queries.filter((q) => q.table === 'audits').map((q) => callArgs(q, 'insert')?.[0])).toMatchObject([
+      { site_id: 'site-1', status: 'pending' },
+      { site_id: 'site-4', status: 'failed' },
+      { site_id: 'site-2', status: 'pending' },
+    ]);
+  });
+
+  it('completes an empty batch straight away', async () => {
+    const { queries } = fleet([]);
+    await startFleetAudit();
+
+    expect(callArgs(queries.find((q) => q.table === 'audit_batches')!, 'insert')?.[0]).toMatchObject({
+      concurrency: FLEET_CONFIG.DEFAULT_CONCURRENCY,
+      total_sites: 0,
+      status: 'completed',
+    });
+    expect(queries.some((q) => q.table === 'audit_jobs')).toBe(false);
+  });
+});
+
+describe('refreshBatchStatus', () => {
+  it('leaves the batch running while jobs are queued or running', async () => {
+    const { client, queries } = createFakeSupabase(() => ({
+      data: [{ status: 'succeeded' }, { status: 'queued' }],
+    }));
+    await refreshBatchStatus(client, 'batch-1');
+    expect(queries.map((q) => q.table)).toEqual(['audit_jobs']);
+  });
+
+  it('completes the batch with final counts once every job has finished', async () => {
+    const { client, queries } = createFakeSupabase((query) =>
+      query.table === 'audit_jobs'
+        ? { data: [{ status: 'succeeded' }, { status: 'failed' }, { status: 'succeeded' }, { status: 'cancelled' }] }
+        : {}
+    );
+    await refreshBatchStatus(client, 'batch-1');
+
+    const update = queries.find((q) => q.table === 'audit_batches')!;
+    expect(callArgs(update, 'update')?.[0]).toMatchObject({ status: 'completed', succeeded: 2, failed: 1 });
+    expect(filters(update, 'eq')).toEqual([
+      ['id', 'batch-1'],
+      ['status', 'running'],
+    ]);
+  });
+});
+
+describe('getBatchProgress', () => {
+  const batch = { id: 'batch-1', concurrency: 2, status: 'running' };
+
+  function job(status: string, extra: Record<string, unknown> = {}) {
+    return { site_id: `site-${status}`, audit_id: 'audit', status, attempts: 1, last_error: null, sites: null, audits: null, ...extra };
+  }
+
+  it('rolls job states up into counts and an ETA', async () => {
+    serveFakeSupabase((query) =>
+      query.table === 'audit_batches'
+        ? { data: batch }
+        : {
+            data: [
+              job('succeeded', {
+                locked_at: '2026-03-01T12:00:00Z',
+                completed_at: '2026-03-01T12:02:00Z',
+                sites: { name: 'Done site' },
+                audits: { health_score: 88 },
+              }),
+              job('failed', { last_error: 'SSH down' }),
+              job('running'),
+              job('queued'),
+              job('queued'),
+            ],
+          }
+    );
+
+    const progress = await getBatchProgress('batch-1');
+
+    expect(progress).toMatchObject({ queued: 2, in_progress: 1, done: 1, failed: 1 });
+    // 2.5 audits left at 120s each, two at a time
+    expect(progress?.eta_seconds).toBe(150);
+    expect(progress?.sites[0]).toMatchObject({ site_name: 'Done site', health_score: 88 });
+    expect(progress?.sites[1]).toMatchObject({ site_name: 'site-failed', error: 'SSH down' });
+  });
+
+  it('reports no ETA until an audit has finished, and zero once all have', async () => {
+    serveFakeSupabase((query) => (query.table === 'audit_batches' ? { data: batch } : { data: [job('running')] }));
+    expect((await getBatchProgress('batch-1'))?.eta_seconds).toBeNull();
+
+    serveFakeSupabase((query) => (query.table === 'audit_batches' ? { data: batch } : { data: [job('failed')] }));
+    expect((await getBatchProgress('batch-1'))?.eta_seconds).toBe(0);
+  });
+
+  it('returns null for an unknown batch', async () => {
+    serveFakeSupabase(() => ({}));
+    expect(await getBatchProgress('missing')).toBeNull();
+  });
+});
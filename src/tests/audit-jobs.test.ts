@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import {
+  claimAuditJob,
+  completeAuditJob,
+  failAuditJob,
+  getRetryDelayMs,
+  heartbeatAuditJob,
+} from '@/lib/queue/audit-jobs';
+import { QUEUE_CONFIG } from '@/lib/constants/queue';
+import { AuditJob } from '@/lib/types';
+import { callArgs, createFakeSupabase, filters } from './fake-supabase';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const job = { id: 'job-1', audit_id: 'audit-1', site_id: 'site-1', attempts: 1, max_attempts: 3 } as AuditJob;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getRetryDelayMs', () => {
+  it('doubles the delay per attempt up to the maximum', () => {
+    expect(getRetryDelayMs(1)).toBe(QUEUE_CONFIG.RETRY_BASE_DELAY_MS);
+    expect(getRetryDelayMs(2)).toBe(QUEUE_CONFIG.RETRY_BASE_DELAY_MS * 2);
+    expect(getRetryDelayMs(3)).toBe(QUEUE_CONFIG.RETRY_BASE_DELAY_MS * 4);
+    expect(getRetryDelayMs(20)).toBe(QUEUE_CONFIG.RETRY_MAX_DELAY_MS);
+  });
+
+  it('treats attempt 0 like the first', () => {
+    expect(getRetryDelayMs(0)).toBe(QUEUE_CONFIG.RETRY_BASE_DELAY_MS);
+  });
+});
+
+describe('claimAuditJob', () => {
+  it('returns the claimed job, or null when the queue is empty', async () => {
+    const { client } = createFakeSupabase(() => ({ data: [job] }));
+    expect(await claimAuditJob(client, 'worker-1')).toBe(job);
+
+    const { client: empty, queries } = createFakeSupabase(() => ({ data: [] }));
+    expect(await claimAuditJob(empty, 'worker-1', 30)).toBeNull();
+    expect(queries[0].table).toBe('rpc:claim_audit_job');
+    expect(callArgs(queries[0], 'rpc')).toEqual([{ p_worker_id: 'worker-1', p_lease_seconds: 30 }]);
+  });
+});
+
+describe('heartbeatAuditJob', () => {
+  it('extends the lease only while this worker still holds the running job', async () => {
+    const { client, queries } = createFakeSupabase(() => ({ data: [{ id: job.id }] }));
+
+    expect(await heartbeatAuditJob(client, job, 'worker-1', 60)).toBe(true);
+    expect(callArgs(queries[0], 'update')).toEqual([
+      { heartbeat_at: NOW.toISOString(), lease_expires_at: new Date(NOW.getTime() + 60000).toISOString() },
+    ]);
+    expect(filters(queries[0], 'eq')).toEqual([
+      ['id', job.id],
+      ['locked_by', 'worker-1'],
+      ['status', 'running'],
+    ]);
+  });
+
+  it('reports a lost lease when no row was updated', async () => {
+    const { client } = createFakeSupabase(() => ({ data: [] }));
+    expect(await heartbeatAuditJob(client, job, 'worker-1')).toBe(false);
+  });
+
+  it('throws when the update fails', async () => {
+    const { client } = createFakeSupabase(() => ({ error: { message: 'timeout' } }));
+    await expect(heartbeatAuditJob(client, job, 'worker-1')).rejects.toThrow('Failed to extend lease on job job-1: timeout');
+  });
+});
+
+describe('completeAuditJob', () => {
+  it('marks the job succeeded if this worker holds it', async () => {
+    const { client, queries } = createFakeSupabase();
+    await completeAuditJob(client, job, 'worker-1');
+
+    expect(callArgs(queries[0], 'update')?.[0]).toMatchObject({ status: 'succeeded', lease_expires_at: null });
+    expect(filters(queries[0], 'eq')).toContainEqual(['locked_by', 'worker-1']);
+  });
+});
+
+describe('failAuditJob', () => {
+  it('requeues the job with backoff while attempts remain', async () => {
+    const { client, queries } = createFakeSupabase();
+    const { willRetry } = await failAuditJob(client, { ...job, attempts: 2 }, 'worker-1', new Error('SSH down'));
+
+    expect(willRetry).toBe(true);
+    const [jobQuery, auditQuery] = queries;
+    expect(jobQuery.table).toBe('audit_jobs');
+    expect(callArgs(jobQuery, 'update')?.[0]).toEqual({
+      status: 'queued',
+      run_after: new Date(NOW.getTime() + getRetryDelayMs(2)).toISOString(),
+      locked_by: null,
+      lease_expires_at: null,
+      last_error: 'SSH down',
+    });
+    expect(filters(jobQuery, 'eq')).toContainEqual(['locked_by', 'worker-1']);
+
+    expect(auditQuery.table).toBe('audits');
+    expect(callArgs(auditQuery, 'update')?.[0]).toMatchObject({
+      status: 'pending',
+      summary: 'Retrying (attempt 3 of 3)',
+      error_message: 'SSH down',
+    });
+    // A cancelled audit stays cancelled
+    expect(filters(auditQuery, 'neq')).toEqual([['status', 'cancelled']]);
+  });
+
+  it('fails the job and its audit on the last attempt', async () => {
+    const { client, queries } = createFakeSupabase();
+    const { willRetry } = await failAuditJob(client, { ...job, attempts: 3 }, 'worker-1', 'boom');
+
+    expect(willRetry).toBe(false);
+    expect(callArgs(queries[0], 'update')?.[0]).toMatchObject({ status: 'failed', last_error: 'boom' });
+    expect(callArgs(queries[1], 'update')?.[0]).toMatchObject({
+      status: 'failed',
+      error_message: 'boom (gave up after 3 attempts)',
+    });
+    expect(filters(queries[1], 'neq')).toEqual([['status', 'cancelled']]);
+  });
+});
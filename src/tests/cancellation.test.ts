@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { AuditCancelledError, throwIfCancelled } from '@/lib/auditor/cancellation';
+import { createFakeSupabase } from './fake-supabase';
+
+describe('throwIfCancelled', () => {
+  it('throws once the audit has been cancelled', async () => {
+    const { client } = createFakeSupabase(() => ({ data: { status: 'cancelled' } }));
+    await expect(throwIfCancelled(client, 'audit-1')).rejects.toBeInstanceOf(AuditCancelledError);
+  });
+
+  it('lets a running audit carry on', async () => {
+    const { client } = createFakeSupabase(() => ({ data: { status: 'running' } }));
+    await expect(throwIfCancelled(client, 'audit-1')).resolves.toBeUndefined();
+  });
+});
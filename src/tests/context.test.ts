@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { collectWordPressSnapshot } from '@/lib/connectors/wpcli';
+import { createAuditConnectors } from '@/lib/auditor/context';
+import { WordPressSnapshot } from '@/lib/types';
+
+vi.mock('@/lib/connectors/wpcli', () => ({
+  collectWordPressSnapshot: vi.fn(),
+}));
+
+const site = {
+  domain: 'example.com',
+  hosting_provider: 'wpengine' as const,
+  hosting_config: {},
+  wpengine_install_id: 'example',
+  wpengine_environment: 'production',
+};
+
+describe('createAuditConnectors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(collectWordPressSnapshot).mockReset();
+  });
+
+  it('collects the WordPress snapshot once per audit', async () => {
+    const plugins = [{ name: 'akismet', status: 'active' }] as WordPressSnapshot['plugins'];
+    vi.mocked(collectWordPressSnapshot).mockResolvedValue({ plugins } as WordPressSnapshot);
+    const connectors = createAuditConnectors(site, new AbortController().signal);
+
+    await Promise.all([connectors.wordpress(), connectors.getPluginList(), connectors.getPluginList()]);
+
+    expect(await connectors.getPluginList()).toBe(plugins);
+    expect(collectWordPressSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it('requests each URL once and shares the response', async () => {
+    const fetchMock = vi.fn<(url: string) => Promise<Response>>(async () => new Response('<loc>a</loc>', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const connectors = createAuditConnectors(site, new AbortController().signal);
+
+    const [first, second] = await Promise.all([connectors.fetchPage('/sitemap.xml'), connectors.fetchPage('/sitemap.xml')]);
+    await connectors.fetchPage();
+    await connectors.fetchPage('/');
+
+    expect(first).toBe(second);
+    expect(await first.text()).toBe('<loc>a</loc>');
+    expect(await second.text()).toBe('<loc>a</loc>');
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://example.com/sitemap.xml', 'https://example.com']);
+  });
+
+  it('times the response to its headers without downloading the body', async () => {
+    let pulled = false;
+    // Nothing is pulled from the body until someone reads it
+    const body = new ReadableStream(
+      {
+        pull(controller) {
+          pulled = true;
+          controller.enqueue(new TextEncoder().encode('<html>'));
+          controller.close();
+        },
+      },
+      { highWaterMark: 0 }
+    );
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status: 200 })));
+    const connectors = createAuditConnectors(site, new AbortController().signal);
+
+    const page = await connectors.fetchPage();
+
+    expect(page).toMatchObject({ ok: true, status: 200 });
+    expect(page.elapsed_ms).toBeGreaterThanOrEqual(0);
+    expect(pulled).toBe(false);
+    expect(await page.text()).toBe('<html>');
+  });
+});
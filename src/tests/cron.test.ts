@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getNextCronRun, isValidCronExpression } from '@/lib/scheduler/cron';
+
+describe('getNextCronRun', () => {
+  const from = new Date('2026-03-10T10:30:00Z'); // Tuesday
+
+  it('finds the next daily run later the same day', () => {
+    expect(getNextCronRun('0 12 * * *', from).toISOString()).toBe('2026-03-10T12:00:00.000Z');
+  });
+
+  it('rolls over to the next day once the time has passed', () => {
+    expect(getNextCronRun('0 4 * * *', from).toISOString()).toBe('2026-03-11T04:00:00.000Z');
+  });
+
+  it('is strictly after the starting time', () => {
+    expect(getNextCronRun('30 10 * * *', from).toISOString()).toBe('2026-03-11T10:30:00.000Z');
+  });
+
+  it('handles day-of-week lists', () => {
+    // Next Monday or Thursday after Tuesday is Thursday
+    expect(getNextCronRun('0 4 * * 1,4', from).toISOString()).toBe('2026-03-12T04:00:00.000Z');
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(getNextCronRun('0 0 * * 7', from).toISOString()).toBe('2026-03-15T00:00:00.000Z');
+  });
+
+  it('handles steps and ranges', () => {
+    expect(getNextCronRun('*/15 9-17 * * *', from).toISOString()).toBe('2026-03-10T10:45:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 1st of the month or any Friday - Friday 13th comes first
+    expect(getNextCronRun('0 0 1 * 5', from).toISOString()).toBe('2026-03-13T00:00:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    expect(getNextCronRun('0 0 1 1 *', from).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('throws for expressions that never match', () => {
+    expect(() => getNextCronRun('0 0 31 2 *', from)).toThrow();
+  });
+});
+
+describe('isValidCronExpression', () => {
+  it('accepts standard expressions', () => {
+    expect(isValidCronExpression('0 4 * * 1')).toBe(true);
+    expect(isValidCronExpression('*/5 * * * *')).toBe(true);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCronExpression('daily')).toBe(false);
+    expect(isValidCronExpression('60 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 4 * *')).toBe(false);
+  });
+
+  it('rejects empty list elements, ranges and steps', () => {
+    expect(isValidCronExpression('1,,5 * * * *')).toBe(false);
+    expect(isValidCronExpression('1, * * * *')).toBe(false);
+    expect(isValidCronExpression('0- * * * *')).toBe(false);
+    expect(isValidCronExpression('*/ * * * *')).toBe(false);
+    expect(isValidCronExpression('/5 * * * *')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { diffAudits, DiffableAudit } from '@/lib/auditor/diff';
+import { AuditRawData, CheckRun, IssueSnapshot } from '@/lib/types';
+
+function issue(fingerprint: string, severity: IssueSnapshot['severity'] = 'warning'): IssueSnapshot {
+  const [checkKey] = fingerprint.split(':');
+  return { fingerprint, check_key: checkKey, category: 'plugins', severity, title: fingerprint };
+}
+
+function audit(id: string, overrides: Partial<DiffableAudit> = {}): DiffableAudit {
+  return { id, health_score: 80, raw_data: {}, issue_snapshot: [], check_runs: [], ...overrides };
+}
+
+function failedRun(key: string): CheckRun {
+  return {
+    key,
+    label: key,
+    category: 'plugins',
+    status: 'failed',
+    error: 'boom',
+    duration_ms: 0,
+    started_at: '2026-01-01T00:00:00Z',
+    completed_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+describe('diffAudits', () => {
+  it('reports new, resolved and re-graded issues', () => {
+    const base = audit('a', { issue_snapshot: [issue('plugins:outdated'), issue('plugins:inactive'), issue('seo:sitemap')] });
+    const target = audit('b', {
+      issue_snapshot: [issue('plugins:outdated', 'critical'), issue('seo:sitemap'), issue('security:debug')],
+    });
+
+    const diff = diffAudits(base, target);
+
+    expect(diff.new_issues.map((i) => i.fingerprint)).toEqual(['security:debug']);
+    expect(diff.resolved_issues.map((i) => i.fingerprint)).toEqual(['plugins:inactive']);
+    expect(diff.severity_changes).toEqual([{ ...issue('plugins:outdated', 'critical'), from_severity: 'warning' }]);
+  });
+
+  it('does not count issues from a check that did not finish as resolved or new', () => {
+    const base = audit('a', { issue_snapshot: [issue('plugins:outdated')], check_runs: [] });
+    const target = audit('b', { issue_snapshot: [], check_runs: [failedRun('plugins')] });
+
+    expect(diffAudits(base, target).resolved_issues).toEqual([]);
+    expect(diffAudits(target, base).new_issues).toEqual([]);
+  });
+
+  it('diffs plugin versions, admins, database size and sitemap URLs', () => {
+    const baseData: AuditRawData = {
+      plugins: {
+        total: 2, active: 2, inactive: 0, needs_update: 0,
+        plugins: [
+          { name: 'akismet', status: 'active', version: '5.0' },
+          { name: 'hello-dolly', status: 'active', version: '1.7' },
+        ],
+      },
+      security: {
+        wp_version: '6.4', wp_update_available: false, php_version: '', ssl_valid: true,
+        xmlrpc_enabled: true, debug_mode: false, file_editing_disabled: true,
+        admin_users: [{ id: 1, username: 'agency', email: '', display_name: '' }],
+      },
+      database: {
+        total_size_mb: 120, autoload_size_kb: 0, revision_count: 0, transient_count: 0,
+        spam_comments: 0, tables: [], large_autoload_options: [],
+      },
+      seo: { has_robots_txt: true, has_sitemap: true, sitemap_url_count: 40, seo_plugin: null },
+    };
+    const targetData: AuditRawData = {
+      ...baseData,
+      plugins: {
+        ...baseData.plugins!,
+        plugins: [
+          { name: 'akismet', status: 'active', version: '5.1' },
+          { name: 'wordfence', status: 'active', version: '7.0' },
+        ],
+      },
+      security: {
+        ...baseData.security!,
+        wp_version: '6.5',
+        admin_users: [{ id: 2, username: 'client', email: '', display_name: '' }],
+      },
+      database: { ...baseData.database!, total_size_mb: 150.5 },
+      seo: { ...baseData.seo!, sitemap_url_count: 12 },
+    };
+
+    const diff = diffAudits(audit('a', { raw_data: baseData }), audit('b', { raw_data: targetData }));
+
+    expect(diff.plugin_changes).toEqual([
+      { name: 'akismet', change: 'updated', from_version: '5.0', to_version: '5.1' },
+      { name: 'hello-dolly', change: 'removed', from_version: '1.7', to_version: null },
+      { name: 'wordfence', change: 'added', from_version: null, to_version: '7.0' },
+    ]);
+    expect(diff.wp_version).toEqual({ from: '6.4', to: '6.5' });
+    expect(diff.admin_users).toEqual({ added: ['client'], removed: ['agency'] });
+    expect(diff.database_size_mb).toEqual({ from: 120, to: 150.5, delta: 30.5 });
+    expect(diff.sitemap_url_count).toEqual({ from: 40, to: 12, delta: -28 });
+  });
+
+  it('leaves out sections missing from either audit', () => {
+    const diff = diffAudits(audit('a'), audit('b', { health_score: null }));
+
+    expect(diff.plugin_changes).toEqual([]);
+    expect(diff.admin_users).toEqual({ added: [], removed: [] });
+    expect(diff.database_size_mb).toBeNull();
+    expect(diff.health_score).toBeNull();
+  });
+});
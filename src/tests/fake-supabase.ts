@@ -0,0 +1,65 @@
+import type { createServerClient } from '@/lib/supabase/server';
+
+type SupabaseClient = ReturnType<typeof createServerClient>;
+
+// One query built against the fake client: its table (or rpc:<name>) and every builder call made on it
+export interface FakeQuery {
+  table: string;
+  calls: Array<[method: string, args: unknown[]]>;
+}
+
+export interface FakeResponse {
+  data?: unknown;
+  error?: { message: string; code?: string } | null;
+}
+
+/**
+ * A stand-in for the Supabase client that records each query and answers it
+ * with `respond` (data null and no error by default). Builder methods can be
+ * chained in any order, as with the real client.
+ */
+export function createFakeSupabase(respond: (query: FakeQuery) => FakeResponse = () => ({})) {
+  const queries: FakeQuery[] = [];
+
+  const build = (query: FakeQuery): unknown => {
+    const builder: unknown = new Proxy(
+      {},
+      {
+        get(_, method: string) {
+          if (method === 'then') {
+            const { data = null, error = null } = respond(query);
+            return (resolve: (value: unknown) => void) => resolve({ data, error });
+          }
+          return (...args: unknown[]) => {
+            query.calls.push([method, args]);
+            return builder;
+          };
+        },
+      }
+    );
+    return builder;
+  };
+
+  const start = (table: string, calls: FakeQuery['calls'] = []) => {
+    const query = { table, calls };
+    queries.push(query);
+    return build(query);
+  };
+
+  const client = {
+    from: (table: string) => start(table),
+    rpc: (name: string, args: unknown) => start(`rpc:${name}`, [['rpc', [args]]]),
+  } as unknown as SupabaseClient;
+
+  return { client, queries };
+}
+
+// Arguments of the first call to `method` on a query
+export function callArgs(query: FakeQuery, method: string): unknown[] | undefined {
+  return query.calls.find(([name]) => name === method)?.[1];
+}
+
+// Every [column, value] filter applied with `method` (eq, neq, ...)
+export function filters(query: FakeQuery, method: string): unknown[][] {
+  return query.calls.filter(([name]) => name === method).map(([, args]) => args);
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { AuditIssue, getIssueFingerprint, syncIssues } from '@/lib/auditor/issues';
+import { CheckRun } from '@/lib/types';
+import { callArgs, createFakeSupabase, FakeQuery, filters } from './fake-supabase';
+
+const NOW = '2026-03-01T12:00:00.000Z';
+
+function detected(rule: string, subject?: string): AuditIssue {
+  return {
+    check_key: 'plugins',
+    rule,
+    subject,
+    category: 'plugins',
+    severity: 'warning',
+    title: rule,
+    description: '',
+    recommendation: '',
+    auto_fixable: false,
+  } as AuditIssue;
+}
+
+function stored(rule: string, status: string, extra: Record<string, unknown> = {}) {
+  return {
+    id: `issue-${rule}`,
+    fingerprint: getIssueFingerprint({ check_key: 'plugins', rule, subject: undefined }),
+    check_key: 'plugins',
+    status,
+    snoozed_until: null,
+    occurrence_count: 2,
+    ...extra,
+  };
+}
+
+function run(key: string, status: CheckRun['status'], category: CheckRun['category'] = 'plugins'): CheckRun {
+  return { key, label: key, category, status, error: null, duration_ms: 0, started_at: '', completed_at: '' };
+}
+
+// Sync against these stored rows and return the fake's recorded writes
+async function sync(rows: unknown[], issues: AuditIssue[], checkRuns = [run('plugins', 'succeeded')]) {
+  const { client, queries } = createFakeSupabase((query) => (callArgs(query, 'select') ? { data: rows } : {}));
+  const result = await syncIssues(client, 'site-1', 'audit-1', issues, checkRuns);
+  const writes = queries.filter((q) => !callArgs(q, 'select'));
+  const updates = writes.filter((q) => q.table === 'rpc:update_recurring_issues');
+  // The recurring issues are all sent in one call
+  const updateOf = (id: string) =>
+    updates.flatMap((q: FakeQuery) => (callArgs(q, 'rpc')![0] as { p_issues: Array<{ id: string }> }).p_issues)
+      .find((update) => update.id === id);
+  return { result, writes, updates, updateOf };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(NOW));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('syncIssues', () => {
+  it('inserts new issues as open', async () => {
+    const { result, writes } = await sync([], [detected('outdated_plugins'), detected('outdated_plugins')]);
+
+    expect(result).toMatchObject({ created: 1, updated: 0 });
+    expect(result.statuses.get('plugins:outdated_plugins:')).toBe('open');
+    expect(callArgs(writes[0], 'insert')?.[0]).toEqual([
+      expect.objectContaining({ fingerprint: 'plugins:outdated_plugins:', status: 'open', occurrence_count: 1, first_seen_at: NOW }),
+    ]);
+  });
+
+  it('updates recurring issues and keeps ignored and accepted ones as they are', async () => {
+    const { result, updates, updateOf } = await sync(
+      [stored('outdated_plugins', 'in_progress'), stored('inactive_plugins', 'ignored'), stored('unapproved_plugin', 'accepted')],
+      [detected('outdated_plugins'), detected('inactive_plugins'), detected('unapproved_plugin')]
+    );
+
+    expect(result).toMatchObject({ created: 0, updated: 3, regressed: 0, resolved: 0 });
+    expect(updates).toHaveLength(1);
+    expect(updateOf('issue-outdated_plugins')).toMatchObject({
+      status: 'in_progress',
+      occurrence_count: 3,
+      audit_id: 'audit-1',
+      last_seen_at: NOW,
+      regressed: false,
+    });
+    expect(result.statuses.get('plugins:inactive_plugins:')).toBe('ignored');
+    expect(result.statuses.get('plugins:unapproved_plugin:')).toBe('accepted');
+  });
+
+  it('reopens resolved and fixed issues as regressions', async () => {
+    const { result, updateOf } = await sync(
+      [stored('outdated_plugins', 'resolved'), stored('inactive_plugins', 'fixed')],
+      [detected('outdated_plugins'), detected('inactive_plugins')]
+    );
+
+    expect(result).toMatchObject({ regressed: 2, updated: 0 });
+    expect(updateOf('issue-outdated_plugins')).toMatchObject({ status: 'open', regressed: true });
+    expect(updateOf('issue-inactive_plugins')).toMatchObject({ status: 'open', regressed: true });
+  });
+
+  it('keeps a snooze until it runs out, then treats the issue as open', async () => {
+    const { result } = await sync(
+      [
+        stored('outdated_plugins', 'snoozed', { snoozed_until: '2026-03-08T00:00:00Z' }),
+        stored('inactive_plugins', 'snoozed', { snoozed_until: '2026-02-28T00:00:00Z' }),
+      ],
+      [detected('outdated_plugins'), detected('inactive_plugins')]
+    );
+
+    expect(result.statuses.get('plugins:outdated_plugins:')).toBe('snoozed');
+    expect(result.statuses.get('plugins:inactive_plugins:')).toBe('open');
+  });
+
+  it('resolves open issues that were not reported again', async () => {
+    const { result, writes } = await sync(
+      [stored('outdated_plugins', 'open'), stored('inactive_plugins', 'in_progress'), stored('unapproved_plugin', 'accepted')],
+      []
+    );
+
+    expect(result.resolved).toBe(2);
+    const resolve = writes.find((q) => callArgs(q, 'in')?.[0] === 'id')!;
+    expect(callArgs(resolve, 'update')?.[0]).toMatchObject({ status: 'resolved', resolved_by: 'audit' });
+    expect(callArgs(resolve, 'in')).toEqual(['id', ['issue-outdated_plugins', 'issue-inactive_plugins']]);
+  });
+
+  it('leaves issues open when the check that owns them did not succeed', async () => {
+    const { result, writes } = await sync([stored('outdated_plugins', 'open')], [], [run('plugins', 'timed_out')]);
+
+    expect(result.resolved).toBe(0);
+    // Nor are legacy issues in the unfinished category retired
+    expect(writes).toEqual([]);
+  });
+
+  it('retires unfingerprinted issues only in categories where every check succeeded', async () => {
+    const { writes } = await sync(
+      [],
+      [],
+      [run('plugins', 'succeeded'), run('seo', 'succeeded', 'seo'), run('crawl', 'failed', 'seo')]
+    );
+
+    const retire = writes.find((q) => callArgs(q, 'is'))!;
+    expect(callArgs(retire, 'in')).toEqual(['category', ['plugins']]);
+    expect(filters(retire, 'eq')).toContainEqual(['status', 'open']);
+  });
+
+  it('throws when a write fails instead of losing it', async () => {
+    // Every write to `table` fails
+    const syncFailing = (table: string, issues: AuditIssue[]) => {
+      const { client } = createFakeSupabase((query) => {
+        if (callArgs(query, 'select')) return { data: [stored('outdated_plugins', 'open')] };
+        return query.table === table ? { error: { message: 'boom' } } : {};
+      });
+      return syncIssues(client, 'site-1', 'audit-1', issues, [run('plugins', 'succeeded')]);
+    };
+
+    await expect(syncFailing('rpc:update_recurring_issues', [detected('outdated_plugins')])).rejects.toThrow(
+      'Failed to update issues: boom'
+    );
+    await expect(syncFailing('issues', [])).rejects.toThrow('Failed to resolve issues: boom');
+  });
+});
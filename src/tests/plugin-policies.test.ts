@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePluginPolicies, resolvePluginPolicies, validatePluginPolicy } from '@/lib/plugin-policies';
+import { PluginPolicy, Site, WordPressSnapshot } from '@/lib/types';
+
+function policy(overrides: Partial<PluginPolicy>): PluginPolicy {
+  return {
+    id: `${overrides.scope || 'default'}:${overrides.slug}`,
+    slug: 'plugin',
+    rule: 'required',
+    aliases: [],
+    replacement: null,
+    min_version: null,
+    below_version: null,
+    reason: null,
+    scope: 'default',
+    client_name: null,
+    page_builder: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function plugin(name: string, version = '1.0', status: 'active' | 'inactive' = 'active'): WordPressSnapshot['plugins'][number] {
+  return { name, status, version, update: 'none', update_version: null, title: name };
+}
+
+const site = { client_name: 'Acme', page_builder: 'elementor', is_ecommerce: false } as Site;
+
+describe('resolvePluginPolicies', () => {
+  it('keeps the policies that apply to the site, the most specific per slug', () => {
+    const resolved = resolvePluginPolicies(
+      [
+        policy({ slug: 'wordfence', rule: 'replaced_by', replacement: 'really-simple-security' }),
+        policy({ slug: 'wordfence', rule: 'allowed', scope: 'client', client_name: 'Acme' }),
+        policy({ slug: 'elementor-pro', scope: 'page_builder', page_builder: 'elementor' }),
+        policy({ slug: 'bb-plugin', scope: 'page_builder', page_builder: 'beaver' }),
+        policy({ slug: 'woocommerce', scope: 'ecommerce' }),
+        policy({ slug: 'jetpack', rule: 'banned', scope: 'client', client_name: 'Other' }),
+      ],
+      site
+    );
+
+    expect(resolved.map((p) => [p.slug, p.rule])).toEqual([
+      ['elementor-pro', 'required'],
+      ['wordfence', 'allowed'],
+    ]);
+  });
+});
+
+describe('evaluatePluginPolicies', () => {
+  it('matches aliases and only counts active plugins', () => {
+    const evaluation = evaluatePluginPolicies(
+      [plugin('wp-seopress-pro'), plugin('gravityforms', '2.8', 'inactive'), plugin('custom-thing')],
+      [
+        policy({ slug: 'seopress', aliases: ['wp-seopress-pro'] }),
+        policy({ slug: 'gravityforms' }),
+        policy({ slug: 'akismet', rule: 'recommended' }),
+      ]
+    );
+
+    expect(evaluation.missing.map((p) => p.slug)).toEqual(['gravityforms', 'akismet']);
+    expect(evaluation.unlisted.map((p) => p.name)).toEqual(['custom-thing']);
+  });
+
+  it('applies version constraints', () => {
+    const evaluation = evaluatePluginPolicies(
+      [plugin('wp-rocket', '3.9'), plugin('jetpack', '12.0'), plugin('wordpress-seo', '22.1')],
+      [
+        policy({ slug: 'wp-rocket', min_version: '3.15' }),
+        // Only old Jetpack versions are banned
+        policy({ slug: 'jetpack', rule: 'banned', below_version: '10.0' }),
+        policy({ slug: 'wordpress-seo', rule: 'replaced_by', replacement: 'seopress' }),
+      ]
+    );
+
+    expect(evaluation.outside_version.map(({ plugin }) => plugin.name)).toEqual(['wp-rocket']);
+    expect(evaluation.violations.map(({ policy }) => policy.slug)).toEqual(['wordpress-seo']);
+  });
+});
+
+describe('validatePluginPolicy', () => {
+  it('accepts a complete policy', () => {
+    expect(
+      validatePluginPolicy({ slug: 'elementor-pro', rule: 'required', scope: 'page_builder', page_builder: 'elementor' })
+    ).toBeNull();
+  });
+
+  it('rejects policies missing what their rule or scope needs', () => {
+    expect(validatePluginPolicy({ slug: 'wordfence', rule: 'replaced_by', scope: 'default' })).toBe(
+      'replacement is required for replaced_by policies, and only for them'
+    );
+    expect(validatePluginPolicy({ slug: 'jetpack', rule: 'banned', scope: 'client' })).toBe(
+      'client_name is required for client policies'
+    );
+    expect(validatePluginPolicy({ slug: 'akismet', rule: 'allowed', scope: 'default', min_version: '5.0' })).toBe(
+      'allowed policies take no version constraint'
+    );
+  });
+});
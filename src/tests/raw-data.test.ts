@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { AUDIT_RAW_DATA_VERSION, InvalidCheckDataError, parseCheckData, readAuditRawData } from '@/lib/auditor/raw-data';
+
+const seo = { has_robots_txt: true, has_sitemap: false, sitemap_url_count: 0, seo_plugin: null };
+
+describe('parseCheckData', () => {
+  it('keeps valid data and drops unknown fields', () => {
+    expect(parseCheckData('seo', { ...seo, leftover: 1 })).toEqual(seo);
+  });
+
+  it('rejects data that does not match the schema', () => {
+    expect(() => parseCheckData('seo', { ...seo, sitemap_url_count: '12' })).toThrow(InvalidCheckDataError);
+  });
+});
+
+describe('readAuditRawData', () => {
+  it('upgrades a progress-only blob from an unversioned audit to empty data', () => {
+    const audit = { id: 'a', raw_data: { progress: { step: 'Starting audit...', percent: 0 } }, schema_version: 1 };
+    expect(readAuditRawData(audit)).toEqual({});
+  });
+
+  it('drops sections that do not match their schema and keeps the rest', () => {
+    const audit = {
+      id: 'a',
+      raw_data: { seo, crawl: { crawl_summary: { total_pages: 3 } } },
+      schema_version: 1,
+    };
+    expect(readAuditRawData(audit)).toEqual({ seo });
+  });
+
+  it('treats missing raw_data as empty', () => {
+    expect(readAuditRawData({ id: 'a', raw_data: null, schema_version: AUDIT_RAW_DATA_VERSION })).toEqual({});
+  });
+
+  it('refuses data written by a newer version', () => {
+    expect(() => readAuditRawData({ id: 'a', raw_data: {}, schema_version: AUDIT_RAW_DATA_VERSION + 1 })).toThrow();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { AuditCheck, checkAppliesTo, resolveCheckOrder } from '@/lib/auditor/registry';
+import { AuditRawData } from '@/lib/types';
+
+function check(key: string, dependsOn?: string[]): AuditCheck {
+  return {
+    key: key as keyof AuditRawData,
+    label: key,
+    category: 'plugins',
+    dependsOn: dependsOn as Array<keyof AuditRawData> | undefined,
+    timeoutMs: 1000,
+    estimatedSeconds: 1,
+    run: async () => ({ data: {} as never, issues: [] }),
+  };
+}
+
+const keys = (checks: AuditCheck[]) => checks.map((c) => c.key);
+
+describe('resolveCheckOrder', () => {
+  it('keeps registration order when there are no dependencies', () => {
+    expect(keys(resolveCheckOrder([check('plugins'), check('database'), check('seo')]))).toEqual([
+      'plugins',
+      'database',
+      'seo',
+    ]);
+  });
+
+  it('runs dependencies first, however they were registered', () => {
+    const ordered = resolveCheckOrder([check('crawl', ['seo']), check('seo', ['plugins']), check('plugins')]);
+    expect(keys(ordered)).toEqual(['plugins', 'seo', 'crawl']);
+  });
+
+  it('ignores dependencies that are not in the plan', () => {
+    expect(keys(resolveCheckOrder([check('seo', ['crawl']), check('plugins')]))).toEqual(['seo', 'plugins']);
+  });
+
+  it('throws on circular dependencies', () => {
+    expect(() => resolveCheckOrder([check('seo', ['crawl']), check('crawl', ['seo'])])).toThrow(
+      'Circular audit check dependency involving: seo'
+    );
+  });
+});
+
+describe('checkAppliesTo', () => {
+  const site = { is_ecommerce: false, page_builder: 'elementor' as const, wpengine_environment: 'production' };
+
+  it('applies checks without rules to every site', () => {
+    expect(checkAppliesTo(check('plugins'), site)).toBe(true);
+  });
+
+  it('matches ecommerce, page builder and environment rules', () => {
+    expect(checkAppliesTo({ ...check('seo'), appliesTo: { ecommerce: true } }, site)).toBe(false);
+    expect(checkAppliesTo({ ...check('seo'), appliesTo: { pageBuilders: ['elementor'] } }, site)).toBe(true);
+    expect(checkAppliesTo({ ...check('seo'), appliesTo: { pageBuilders: ['beaver'] } }, site)).toBe(false);
+    expect(checkAppliesTo({ ...check('seo'), appliesTo: { environments: ['staging'] } }, site)).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { replayAudit } from '@/lib/auditor/replay';
+import {
+  createFixtureBundle,
+  createFixturePlayer,
+  createFixtureRecorder,
+  FixtureMissingError,
+  RESPONSE_CODEC,
+  runWithFixtures,
+  withFixtures,
+} from '@/lib/connectors/fixtures';
+import { CRAWL_ERROR_HANDLING } from '@/lib/constants/crawl-config';
+import { THRESHOLDS } from '@/lib/constants/thresholds';
+import { PluginPolicy, Site, VulnerabilityAdvisory, WordPressSnapshot } from '@/lib/types';
+
+const site = {
+  id: 'site-1',
+  name: 'Example',
+  domain: 'example.com',
+  hosting_provider: 'wpengine',
+  hosting_config: {},
+  wpengine_install_id: 'example',
+  wpengine_environment: 'production',
+  is_ecommerce: false,
+  page_builder: null,
+} as unknown as Site;
+
+const policies = [
+  { slug: 'wp-rocket', rule: 'required', aliases: [], scope: 'default' },
+  { slug: 'seopress', rule: 'required', aliases: ['wp-seopress'], scope: 'default' },
+] as unknown as PluginPolicy[];
+
+const advisories = [
+  {
+    id: 'advisory-1',
+    source: 'wordfence',
+    source_id: 'wf-1',
+    software_type: 'plugin',
+    slug: 'wp-rocket',
+    title: 'WP Rocket <= 3.0 - Cross-Site Scripting',
+    cve: 'CVE-2026-0001',
+    severity: 'medium',
+    cvss_score: 6.1,
+    affected_versions: [{ from: null, from_inclusive: true, to: '3.0', to_inclusive: true }],
+    fixed_versions: ['3.1'],
+    references: [],
+    published_at: null,
+    imported_at: '2026-01-01T00:00:00Z',
+  },
+] as VulnerabilityAdvisory[];
+
+const inputs = {
+  thresholds: THRESHOLDS,
+  plugin_policies: policies,
+  previous_results: null,
+  system_plugin_hashes: {},
+  advisories,
+};
+
+const snapshot: WordPressSnapshot = {
+  schema_version: 3,
+  collector_version: '1.2.0',
+  collected_at: '2026-01-01T00:00:00Z',
+  core: { version: '6.8.1', updates: [], is_multisite: false },
+  php: { version: '8.2.10', memory_limit: '256M' },
+  constants: { wp_debug: false, wp_debug_display: false, disallow_file_edit: true, disallow_file_mods: false },
+  options: { home: 'https://example.com', siteurl: 'https://example.com', blog_public: true },
+  plugins: [
+    { name: 'wp-rocket', status: 'active', version: '3.0', update: 'available', update_version: '3.1', title: 'WP Rocket' },
+    { name: 'hello-dolly', status: 'inactive', version: '1.7', update: 'none', update_version: null, title: 'Hello Dolly' },
+    {
+      name: 'mu-plugin',
+      status: 'must-use',
+      version: '',
+      update: 'none',
+      update_version: null,
+      title: 'WP Engine System',
+      file: 'mu-plugins/mu-plugin.php',
+      sha256: 'aaa',
+    },
+  ],
+  themes: [
+    { name: 'astra-child', status: 'active', version: '1.0', update: 'none', update_version: null, title: 'Astra Child', parent: 'astra' },
+    { name: 'astra', status: 'parent', version: '4.6', update: 'available', update_version: '4.7', title: 'Astra', parent: null },
+    { name: 'twentytwentyfour', status: 'inactive', version: '1.1', update: 'none', update_version: null, title: 'Twenty Twenty-Four', parent: null },
+  ],
+  administrators: [],
+  counts: { revisions: 0, transients: 0, spam_comments: 0 },
+  database: { tables: [], autoload_bytes: 0, largest_autoload_options: [] },
+};
+
+describe('fixture sessions', () => {
+  it('replays what was recorded, responses included', async () => {
+    const recorder = createFixtureRecorder();
+    await withFixtures(recorder, () =>
+      runWithFixtures('http', 'GET https://example.com', async () => new Response('hello', { status: 404 }), RESPONSE_CODEC)
+    );
+
+    const player = createFixturePlayer(createFixtureBundle(recorder, site, inputs));
+    const response = await withFixtures(player, () =>
+      runWithFixtures('http', 'GET https://example.com', () => Promise.reject(new Error('went live')), RESPONSE_CODEC)
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe('hello');
+    await expect(
+      withFixtures(player, () => runWithFixtures('http', 'GET https://example.com', async () => new Response('live')))
+    ).rejects.toThrow(FixtureMissingError);
+  });
+});
+
+describe('replayAudit', () => {
+  it('runs the checks from a bundle without live connectors', async () => {
+    const bundle = {
+      ...createFixtureBundle(createFixtureRecorder(), site, inputs),
+      exchanges: [
+        {
+          kind: 'ssh' as const,
+          operation: 'wp eval-file -',
+          result: { code: 0, stdout: `ASYMSITES_SNAPSHOT:${JSON.stringify(snapshot)}`, stderr: '' },
+        },
+        { kind: 'ssh' as const, operation: 'wp core verify-checksums', result: { code: 0, stdout: 'Success', stderr: '' } },
+        {
+          kind: 'http' as const,
+          operation: 'GET https://example.com/robots.txt',
+          result: { status: 200, headers: {}, body: 'User-agent: *' },
+        },
+      ],
+    };
+
+    const result = await replayAudit(bundle);
+    const statuses = Object.fromEntries(result.checkRuns.map((run) => [run.key, run.status]));
+
+    expect(statuses).toMatchObject({
+      plugins: 'succeeded',
+      themes: 'succeeded',
+      database: 'succeeded',
+      security: 'succeeded',
+      seo: 'succeeded',
+      vulnerabilities: 'succeeded',
+    });
+    expect(result.rawData.plugins).toMatchObject({ total: 3, active: 1, inactive: 1, needs_update: 1 });
+    // WP Engine's own mu-plugin is expected; the first audit has nothing to diff against
+    expect(result.rawData.plugins?.system_plugins).toMatchObject({ compared_to_previous: false, unexpected: [] });
+    expect(result.rawData.themes).toMatchObject({ active_theme: 'astra-child', parent_theme: 'astra', is_child_theme: true, approved: true });
+    expect(result.rawData.seo).toMatchObject({ has_robots_txt: true, has_sitemap: false });
+    // Advisories come from the bundle, not the database
+    expect(result.rawData.vulnerabilities?.matches).toEqual([
+      expect.objectContaining({ advisory_id: 'advisory-1', slug: 'wp-rocket', installed_version: '3.0', fixed_version: '3.1' }),
+    ]);
+    expect(result.issues.map((issue) => issue.rule)).toEqual(
+      expect.arrayContaining(['required_plugin_missing', 'outdated_themes', 'sitemap_missing', 'site_unreachable'])
+    );
+    // Passed rules are reported separately, never as issues
+    expect(result.passed.map((pass) => pass.rule)).toEqual(
+      expect.arrayContaining(['outdated_plugins', 'unexpected_system_plugin', 'missing_parent_theme', 'unapproved_theme', 'debug_mode', 'robots_txt_missing', 'database_size'])
+    );
+    expect(result.issues.map((issue) => issue.rule)).not.toContain('debug_mode');
+    // The bundle has no crawl, and there's no point waiting to retry one
+    expect(result.checkRuns.find((run) => run.key === 'crawl')?.duration_ms).toBeLessThan(CRAWL_ERROR_HANDLING.RETRY_DELAY);
+  });
+});
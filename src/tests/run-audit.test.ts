@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runAudit, type AuditStorage } from '@/lib/auditor';
+import { createSupabaseAuditStorage } from '@/lib/auditor/storage';
+import { THRESHOLDS } from '@/lib/constants/thresholds';
+import { DEFAULT_SCORING_MODEL } from '@/lib/constants/scoring';
+import { Site } from '@/lib/types';
+import { callArgs, createFakeSupabase } from './fake-supabase';
+
+function createStorage() {
+  const stopWatching = vi.fn();
+  const storage: AuditStorage = {
+    loadSite: vi.fn(),
+    loadInputs: vi.fn(),
+    startAudit: async () => 'audit-1',
+    createEventWriter: () => ({ emit: () => {}, flush: async () => {} }),
+    watchForCancellation: vi.fn(() => stopWatching),
+    throwIfCancelled: async () => {},
+    syncIssues: vi.fn(),
+    completeAudit: vi.fn(),
+    failAudit: vi.fn(async () => {}),
+    storeSiteData: vi.fn(),
+    saveTranscript: vi.fn(async () => {}),
+  };
+  return { storage, stopWatching };
+}
+
+// A WP Engine site without an install ID has no SSH config
+const site = { id: 'site-1', domain: 'example.com', hosting_provider: 'wpengine', wpengine_install_id: null } as unknown as Site;
+
+const inputs = {
+  site,
+  thresholds: THRESHOLDS,
+  pluginPolicies: [],
+  previousResults: null,
+  systemPluginHashes: {},
+  findAdvisories: async () => [],
+  scoringModel: DEFAULT_SCORING_MODEL,
+};
+
+describe('runAudit', () => {
+  it('fails the audit and cleans up when the site has no SSH config', async () => {
+    const { storage, stopWatching } = createStorage();
+
+    await expect(runAudit(site.id, undefined, { inputs, storage })).rejects.toThrow(
+      'WPEngine site example.com has no install ID'
+    );
+
+    expect(storage.failAudit).toHaveBeenCalledWith('audit-1', expect.any(Error), [], true);
+    expect(storage.saveTranscript).toHaveBeenCalled();
+    expect(stopWatching).toHaveBeenCalled();
+  });
+});
+
+describe('failAudit', () => {
+  it('leaves the status alone while the failure may still be retried', async () => {
+    const { storage } = createStorage();
+    await expect(runAudit(site.id, undefined, { inputs, storage, failureIsFinal: false })).rejects.toThrow();
+    expect(storage.failAudit).toHaveBeenCalledWith('audit-1', expect.any(Error), [], false);
+
+    const { client, queries } = createFakeSupabase();
+    await createSupabaseAuditStorage(client).failAudit('audit-1', new Error('boom'), [], false);
+    const update = callArgs(queries[0], 'update')?.[0];
+    expect(update).toMatchObject({ error_message: 'Error: boom', is_complete: false });
+    expect(update).not.toHaveProperty('status');
+  });
+
+  it('marks the audit failed once the failure is final', async () => {
+    const { client, queries } = createFakeSupabase();
+    await createSupabaseAuditStorage(client).failAudit('audit-1', new Error('boom'), [], true);
+    expect(callArgs(queries[0], 'update')?.[0]).toMatchObject({ status: 'failed', is_complete: false });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { AuditContext, createAuditLogger } from '@/lib/auditor/context';
+import { AuditCheck } from '@/lib/auditor/registry';
+import { executeCheck } from '@/lib/auditor/runner';
+import { CheckResult, CheckRun } from '@/lib/types';
+
+const validData = { packages_checked: 0, matches: [] };
+
+function check(overrides: Partial<AuditCheck>): AuditCheck {
+  return {
+    key: 'vulnerabilities',
+    label: 'Matching vulnerability advisories',
+    category: 'security',
+    timeoutMs: 1000,
+    estimatedSeconds: 1,
+    run: async () => ({ data: validData, issues: [] }),
+    ...overrides,
+  };
+}
+
+function context(signal = new AbortController().signal): AuditContext {
+  return { auditId: 'test', results: {}, logger: createAuditLogger('test'), signal } as unknown as AuditContext;
+}
+
+function completedRun(key: string, status: CheckRun['status']): CheckRun {
+  return { key, label: key, category: 'plugins', status, error: null, duration_ms: 0, started_at: '', completed_at: '' };
+}
+
+describe('executeCheck', () => {
+  it('returns the validated result of a check that succeeds', async () => {
+    const { run, result } = await executeCheck(check({}), context(), []);
+    expect(run).toMatchObject({ key: 'vulnerabilities', status: 'succeeded', error: null });
+    expect(result?.data).toEqual(validData);
+  });
+
+  it('records a failure instead of throwing', async () => {
+    const { run, result } = await executeCheck(
+      check({ run: () => Promise.reject(new Error('SSH down')) }),
+      context(),
+      []
+    );
+    expect(run).toMatchObject({ status: 'failed', error: 'SSH down' });
+    expect(result).toBeUndefined();
+  });
+
+  it('fails a check whose data does not match its schema', async () => {
+    const { run } = await executeCheck(
+      check({ run: async () => ({ data: { packages_checked: 'many' }, issues: [] }) as unknown as CheckResult }),
+      context(),
+      []
+    );
+    expect(run.status).toBe('failed');
+    expect(run.error).toContain("Check 'vulnerabilities' returned invalid data");
+  });
+
+  it('times out a check that runs too long', async () => {
+    const { run } = await executeCheck(
+      check({ timeoutMs: 10, run: () => new Promise(() => {}) }),
+      context(),
+      []
+    );
+    expect(run).toMatchObject({ status: 'timed_out', error: "Check 'vulnerabilities' timed out after 10ms" });
+  });
+
+  it('aborts the work of a check that times out, but not the audit', async () => {
+    const audit = new AbortController();
+    let checkSignal: AbortSignal | undefined;
+    const { run } = await executeCheck(
+      check({
+        timeoutMs: 10,
+        run: ({ signal }) => {
+          checkSignal = signal;
+          return new Promise(() => {});
+        },
+      }),
+      context(audit.signal),
+      []
+    );
+
+    expect(run.status).toBe('timed_out');
+    expect(checkSignal?.aborted).toBe(true);
+    expect(checkSignal?.reason).toMatchObject({ name: 'CheckTimeoutError' });
+    expect(audit.signal.aborted).toBe(false);
+  });
+
+  it('gives the check a signal that follows the audit', async () => {
+    const audit = new AbortController();
+    let checkSignal: AbortSignal | undefined;
+    const execution = executeCheck(
+      check({
+        run: ({ signal }) => {
+          checkSignal = signal;
+          return new Promise(() => {});
+        },
+      }),
+      context(audit.signal),
+      []
+    );
+    audit.abort(new Error('cancelled'));
+
+    await expect(execution).rejects.toThrow('cancelled');
+    expect(checkSignal?.aborted).toBe(true);
+  });
+
+  it('skips a check whose dependency did not succeed, without running it', async () => {
+    let ran = false;
+    const { run } = await executeCheck(
+      check({
+        dependsOn: ['plugins'],
+        run: async () => {
+          ran = true;
+          return { data: validData, issues: [] };
+        },
+      }),
+      context(),
+      [completedRun('plugins', 'timed_out')]
+    );
+    expect(run).toMatchObject({ status: 'skipped', error: "Dependency 'plugins' did not complete" });
+    expect(ran).toBe(false);
+  });
+
+  it('runs a check whose dependency is not in the plan', async () => {
+    const { run } = await executeCheck(check({ dependsOn: ['plugins'] }), context(), []);
+    expect(run.status).toBe('succeeded');
+  });
+
+  it('throws the abort reason when the audit is cancelled mid-check', async () => {
+    const controller = new AbortController();
+    const execution = executeCheck(check({ run: () => new Promise(() => {}) }), context(controller.signal), []);
+    controller.abort(new Error('cancelled'));
+    await expect(execution).rejects.toThrow('cancelled');
+  });
+});
@@ -1,52 +1,100 @@
 import { describe, it, expect } from 'vitest';
-import { calculateHealthScore, getHealthStatus } from '@/lib/auditor/scoring';
+import {
+  calculateScoreBreakdown,
+  getHealthStatus,
+  isScoredStatus,
+} from '@/lib/auditor/scoring';
+import { mergeScoringConfig } from '@/lib/auditor/scoring-models';
+import { DEFAULT_SCORING_MODEL } from '@/lib/constants/scoring';
+import { Issue } from '@/lib/types';
 
-describe('calculateHealthScore', () => {
-  it('returns 100 for no issues', () => {
-    expect(calculateHealthScore([])).toBe(100);
+type ScoredIssue = Pick<Issue, 'category' | 'severity'>;
+
+describe('getHealthStatus', () => {
+  it('returns healthy for 90+', () => {
+    expect(getHealthStatus(90)).toBe('healthy');
+    expect(getHealthStatus(100)).toBe('healthy');
   });
 
-  it('deducts 15 for critical issues', () => {
-    expect(calculateHealthScore([{ severity: 'critical' }])).toBe(85);
+  it('returns attention for 70-89', () => {
+    expect(getHealthStatus(70)).toBe('attention');
+    expect(getHealthStatus(89)).toBe('attention');
   });
 
-  it('deducts 5 for warning issues', () => {
-    expect(calculateHealthScore([{ severity: 'warning' }])).toBe(95);
+  it('returns critical for below 70', () => {
+    expect(getHealthStatus(69)).toBe('critical');
+    expect(getHealthStatus(0)).toBe('critical');
+  });
+});
+
+describe('calculateScoreBreakdown', () => {
+  const model = DEFAULT_SCORING_MODEL;
+
+  it('returns 100 everywhere for no issues', () => {
+    const breakdown = calculateScoreBreakdown([], model);
+    expect(breakdown.overall).toBe(100);
+    expect(breakdown.categories.security.score).toBe(100);
   });
 
-  it('deducts 1 for info issues', () => {
-    expect(calculateHealthScore([{ severity: 'info' }])).toBe(99);
+  it('caps how much informational notices can cost', () => {
+    const issues: ScoredIssue[] = Array(10).fill({ category: 'performance', severity: 'info' });
+    const breakdown = calculateScoreBreakdown(issues, model);
+
+    expect(breakdown.categories.performance.score).toBe(96);
+    expect(breakdown.categories.performance.capped).toEqual(['info']);
+    expect(breakdown.overall).toBe(99);
   });
 
-  it('handles multiple issues', () => {
-    const issues = [
-      { severity: 'critical' as const },
-      { severity: 'critical' as const },
-      { severity: 'warning' as const },
-      { severity: 'info' as const },
+  it('floors a category rather than the whole score', () => {
+    const issues: ScoredIssue[] = Array(7).fill({ category: 'security', severity: 'critical' });
+    const breakdown = calculateScoreBreakdown(issues, model);
+
+    expect(breakdown.categories.security.score).toBe(0);
+    expect(breakdown.categories.security.issue_counts.critical).toBe(7);
+    expect(breakdown.overall).toBe(70);
+  });
+
+  it('leaves categories without a finished check out of the overall score', () => {
+    const issues: ScoredIssue[] = [
+      { category: 'plugins', severity: 'warning' },
+      { category: 'security', severity: 'critical' },
     ];
-    expect(calculateHealthScore(issues)).toBe(100 - 15 - 15 - 5 - 1);
+    const breakdown = calculateScoreBreakdown(issues, model, ['plugins']);
+
+    expect(breakdown.categories.security.evaluated).toBe(false);
+    expect(breakdown.overall).toBe(90);
   });
 
-  it('never goes below 0', () => {
-    const issues = Array(10).fill({ severity: 'critical' as const });
-    expect(calculateHealthScore(issues)).toBe(0);
+  it('leaves the audit unscored when no check finished', () => {
+    const breakdown = calculateScoreBreakdown([], model, []);
+
+    expect(breakdown.overall).toBeNull();
+    expect(Object.values(breakdown.categories).every((category) => !category.evaluated)).toBe(true);
   });
 });
 
-describe('getHealthStatus', () => {
-  it('returns healthy for 90+', () => {
-    expect(getHealthStatus(90)).toBe('healthy');
-    expect(getHealthStatus(100)).toBe('healthy');
+describe('mergeScoringConfig', () => {
+  it('fills in whatever a stored model leaves out', () => {
+    const config = mergeScoringConfig({
+      categories: { security: { weight: 0.5, deductions: { critical: 40 } } },
+    });
+
+    expect(config.categories.security.weight).toBe(0.5);
+    expect(config.categories.security.deductions).toEqual({ critical: 40, warning: 10, info: 2 });
+    expect(config.categories.seo).toEqual(DEFAULT_SCORING_MODEL.config.categories.seo);
+    expect(config.exclude_accepted_risk).toBe(false);
   });
+});
 
-  it('returns attention for 70-89', () => {
-    expect(getHealthStatus(70)).toBe('attention');
-    expect(getHealthStatus(89)).toBe('attention');
+describe('isScoredStatus', () => {
+  it('never scores ignored or snoozed issues', () => {
+    expect(isScoredStatus('ignored', false)).toBe(false);
+    expect(isScoredStatus('snoozed', false)).toBe(false);
+    expect(isScoredStatus('open', true)).toBe(true);
   });
 
-  it('returns critical for below 70', () => {
-    expect(getHealthStatus(69)).toBe('critical');
-    expect(getHealthStatus(0)).toBe('critical');
+  it('scores accepted risks unless the model excludes them', () => {
+    expect(isScoredStatus('accepted', false)).toBe(true);
+    expect(isScoredStatus('accepted', true)).toBe(false);
   });
 });
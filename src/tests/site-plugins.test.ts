@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildVersionMatrix, parseVersionRange, searchSitePlugins, syncSitePlugins } from '@/lib/inventory/plugins';
+import { PluginInfo, SitePluginRow } from '@/lib/types';
+import { callArgs, createFakeSupabase } from './fake-supabase';
+
+function row(slug: string, version: string, extra: Partial<SitePluginRow> = {}) {
+  return {
+    site_id: 'site-1',
+    type: 'plugin',
+    slug,
+    title: null,
+    version,
+    status: 'active',
+    update_version: null,
+    audit_id: 'audit-1',
+    first_seen_at: '',
+    updated_at: '',
+    sites: { name: 'Example', domain: 'example.com' },
+    ...extra,
+  };
+}
+
+describe('syncSitePlugins', () => {
+  it('keeps a must-use plugin and a regular plugin with the same slug apart', async () => {
+    const { client, queries } = createFakeSupabase();
+    const plugins: PluginInfo[] = [
+      { name: 'redis-cache', status: 'active', version: '2.5.0' },
+      { name: 'redis-cache', status: 'must-use', version: '' },
+      { name: 'object-cache', status: 'dropin', version: '' },
+    ];
+
+    await syncSitePlugins(client, 'site-1', 'audit-1', plugins);
+
+    const [rows, options] = callArgs(queries[0], 'upsert') as [Array<{ type: string; slug: string }>, unknown];
+    expect(rows.map((r) => `${r.type}:${r.slug}`)).toEqual([
+      'plugin:redis-cache',
+      'must-use:redis-cache',
+      'dropin:object-cache',
+    ]);
+    expect(options).toEqual({ onConflict: 'site_id,type,slug' });
+  });
+});
+
+describe('searchSitePlugins', () => {
+  it('leaves unversioned installs out of a version range search', async () => {
+    const rows = [row('redis-cache', '2.5.0'), row('redis-cache', '', { type: 'must-use', status: 'must-use' })];
+    const { client } = createFakeSupabase(() => ({ data: rows }));
+
+    const below = await searchSitePlugins(client, { slug: 'redis-cache', range: parseVersionRange(null, '3.0') });
+    const any = await searchSitePlugins(client, { slug: 'redis-cache' });
+
+    expect(below.map((plugin) => plugin.type)).toEqual(['plugin']);
+    expect(any).toHaveLength(2);
+  });
+});
+
+describe('buildVersionMatrix', () => {
+  it('groups installs by plugin type as well as slug', () => {
+    const matrix = buildVersionMatrix([
+      row('redis-cache', '2.5.0', { site_name: 'Example', domain: 'example.com' }),
+      row('redis-cache', '', { type: 'must-use', status: 'must-use', site_name: 'Example', domain: 'example.com' }),
+    ] as unknown as SitePluginRow[]);
+
+    expect(matrix.map((plugin) => [plugin.type, plugin.slug, plugin.has_drift])).toEqual([
+      ['plugin', 'redis-cache', false],
+      ['must-use', 'redis-cache', false],
+    ]);
+  });
+});
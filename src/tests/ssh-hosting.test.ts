@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { runWPCLI } from '@/lib/connectors/wpcli';
+import { sshProvider } from '@/lib/hosting/ssh';
+import { HostingSite } from '@/lib/hosting';
+
+vi.mock('@/lib/connectors/wpcli', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/connectors/wpcli')>()),
+  runWPCLI: vi.fn(),
+}));
+
+function site(hostingConfig: HostingSite['hosting_config'] = {}): HostingSite {
+  return {
+    domain: 'example.com',
+    hosting_provider: 'ssh',
+    hosting_config: { host: '203.0.113.10', username: 'deploy', wp_path: '/var/www/example.com', ...hostingConfig },
+    wpengine_install_id: null,
+    wpengine_environment: 'production',
+  };
+}
+
+// The backup directory and WordPress root as the server resolves them
+function serverPaths(backupDir: string, wordpressRoot = '/var/www/example.com') {
+  vi.mocked(runWPCLI).mockImplementation(async (_, command) =>
+    command.startsWith('eval ') ? `${backupDir}\n${wordpressRoot}` : 'Success: Exported'
+  );
+}
+
+describe('sshProvider.createBackup', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(runWPCLI).mockReset();
+  });
+
+  it('exports the database to ~/backups by default, outside the WordPress root', async () => {
+    serverPaths('/home/deploy/backups');
+
+    const backup = await sshProvider.createBackup(site(), 'Before updates');
+
+    const [resolve, exportCall] = vi.mocked(runWPCLI).mock.calls;
+    expect(resolve[1]).toContain(`getenv('\\''HOME'\\'') . '\\''/backups'\\''`);
+    expect(exportCall[1]).toBe("db export '/home/deploy/backups/asymsites-backup-2026-03-01T12-00-00-000Z.sql'");
+    expect(backup).toEqual({
+      id: '/home/deploy/backups/asymsites-backup-2026-03-01T12-00-00-000Z.sql',
+      description: 'Before updates',
+      created_at: '2026-03-01T12:00:00.000Z',
+    });
+  });
+
+  it('uses the configured backup_dir', async () => {
+    serverPaths('/srv/backups/example');
+
+    await sshProvider.createBackup(site({ backup_dir: '/srv/backups/example' }), 'Manual');
+
+    expect(vi.mocked(runWPCLI).mock.calls[0][1]).toContain(`'\\''/srv/backups/example'\\''`);
+    expect(vi.mocked(runWPCLI).mock.calls[1][1]).toMatch(/^db export '\/srv\/backups\/example\/asymsites-backup-/);
+  });
+
+  it('refuses a backup directory inside the WordPress root', async () => {
+    serverPaths('/var/www/example.com/wp-content/backups');
+
+    await expect(sshProvider.createBackup(site({ backup_dir: '~/public/wp-content/backups' }), 'Manual')).rejects.toThrow(
+      'Backup directory /var/www/example.com/wp-content/backups is inside the WordPress root /var/www/example.com'
+    );
+    expect(runWPCLI).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses the WordPress root itself and relative directories', async () => {
+    serverPaths('/var/www/example.com');
+    await expect(sshProvider.createBackup(site({ backup_dir: '/var/www/example.com' }), 'Manual')).rejects.toThrow(
+      'is inside the WordPress root'
+    );
+
+    await expect(sshProvider.createBackup(site({ backup_dir: 'backups' }), 'Manual')).rejects.toThrow(
+      'hosting_config.backup_dir for example.com must be absolute or start with ~/: backups'
+    );
+  });
+});
+
+describe('sshProvider.getSecretEnvVars', () => {
+  it("names the site's own key variable, or the default one", () => {
+    expect(sshProvider.getSecretEnvVars(site({ private_key_env: 'ACME_SSH_KEY' }))).toEqual(['ACME_SSH_KEY']);
+    expect(sshProvider.getSecretEnvVars(site())).toEqual(['SSH_PRIVATE_KEY']);
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { execOverSSH } from '@/lib/connectors/ssh-pool';
+import { SSH_POOL_CONFIG } from '@/lib/constants/ssh';
+
+const ssh = vi.hoisted(() => ({
+  clients: [] as Array<{ ended: boolean; commands: string[] }>,
+  // Decides what each exec does: run until its entry in `running` is called, refuse the channel, or throw
+  exec: null as unknown as (command: string) => 'run' | 'refuse' | 'throw',
+  running: [] as Array<() => void>,
+}));
+
+vi.mock('ssh2', async () => {
+  const { EventEmitter } = await import('events');
+
+  class Client extends EventEmitter {
+    ended = false;
+    commands: string[] = [];
+
+    connect() {
+      ssh.clients.push(this);
+      setImmediate(() => this.emit('ready'));
+    }
+
+    end() {
+      this.ended = true;
+    }
+
+    exec(command: string, callback: (err: Error | undefined, stream?: unknown) => void) {
+      this.commands.push(command);
+      const action = ssh.exec(command);
+      if (action === 'throw') throw new Error('Not connected');
+      if (action === 'refuse') {
+        setImmediate(() => callback(new Error('open failed')));
+        return;
+      }
+
+      const stream = Object.assign(new EventEmitter(), { stderr: new EventEmitter(), close: () => {}, end: () => {} });
+      setImmediate(() => {
+        callback(undefined, stream);
+        ssh.running.push(() => {
+          stream.emit('data', Buffer.from(`${command} done`));
+          stream.emit('close', 0);
+        });
+      });
+    }
+  }
+
+  return { Client };
+});
+
+const config = () => ({ host: 'example.test' });
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+let hostCount = 0;
+
+beforeEach(() => {
+  ssh.clients.length = 0;
+  ssh.running.length = 0;
+  ssh.exec = () => 'run';
+  hostCount++;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('execOverSSH', () => {
+  it('waits for a running command instead of reconnecting when a channel is refused', async () => {
+    const key = `host-${hostCount}`;
+    const first = execOverSSH(key, config, 'first', { timeout: 1000 });
+    await vi.waitFor(() => expect(ssh.running).toHaveLength(1));
+
+    // The host allows one session: the second command is refused until the first finishes
+    ssh.exec = () => (ssh.running.length > 0 ? 'refuse' : 'run');
+    const second = execOverSSH(key, config, 'second', { timeout: 1000 });
+    await vi.waitFor(() => expect(ssh.clients[0].commands).toEqual(['first', 'second']));
+    await tick();
+
+    ssh.running.shift()!();
+    await expect(first).resolves.toMatchObject({ code: 0, stdout: 'first done' });
+
+    await vi.waitFor(() => expect(ssh.running).toHaveLength(1));
+    ssh.running.shift()!();
+    await expect(second).resolves.toMatchObject({ stdout: 'second done' });
+
+    // Both ran over the one connection, which was never dropped
+    expect(ssh.clients).toHaveLength(1);
+    expect(ssh.clients[0].ended).toBe(false);
+    expect(ssh.clients[0].commands).toEqual(['first', 'second', 'second']);
+  });
+
+  it('reconnects when a channel is refused and nothing else is running', async () => {
+    let refused = false;
+    ssh.exec = () => {
+      if (refused) return 'run';
+      refused = true;
+      return 'refuse';
+    };
+
+    const result = execOverSSH(`host-${hostCount}`, config, 'uptime', { timeout: 1000 });
+    await vi.waitFor(() => expect(ssh.running).toHaveLength(1));
+    ssh.running.shift()!();
+
+    await expect(result).resolves.toMatchObject({ code: 0 });
+    expect(ssh.clients).toHaveLength(2);
+    expect(ssh.clients[0].ended).toBe(true);
+  });
+
+  it('reconnects when the connection is gone', async () => {
+    ssh.exec = () => (ssh.clients.length === 1 ? 'throw' : 'run');
+
+    const result = execOverSSH(`host-${hostCount}`, config, 'uptime', { timeout: 1000 });
+    await vi.waitFor(() => expect(ssh.running).toHaveLength(1));
+    ssh.running.shift()!();
+
+    await expect(result).resolves.toMatchObject({ code: 0 });
+    expect(ssh.clients).toHaveLength(2);
+  });
+
+  it('gives up once reconnecting does not help', async () => {
+    ssh.exec = () => 'refuse';
+    await expect(execOverSSH(`host-${hostCount}`, config, 'uptime', { timeout: 1000 })).rejects.toThrow(
+      'Failed to open SSH channel: open failed'
+    );
+    expect(ssh.clients).toHaveLength(2);
+  });
+
+  it('stops waiting for a channel when aborted', async () => {
+    const key = `host-${hostCount}`;
+    const first = execOverSSH(key, config, 'first', { timeout: 1000 });
+    await vi.waitFor(() => expect(ssh.running).toHaveLength(1));
+
+    ssh.exec = () => 'refuse';
+    const controller = new AbortController();
+    const second = execOverSSH(key, config, 'second', { timeout: 1000, signal: controller.signal });
+    await vi.waitFor(() => expect(ssh.clients[0].commands).toContain('second'));
+    await tick();
+    controller.abort(new Error('cancelled'));
+
+    await expect(second).rejects.toThrow('cancelled');
+    ssh.running.shift()!();
+    await first;
+    expect(ssh.clients[0].ended).toBe(false);
+  });
+
+  it('stops waiting when commands refused together wait on each other', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const key = `host-${hostCount}`;
+    ssh.exec = () => 'refuse';
+
+    const first = execOverSSH(key, config, 'first', { timeout: 1000 });
+    const second = execOverSSH(key, config, 'second', { timeout: 1000 });
+    const settled = Promise.allSettled([first, second]);
+    await vi.waitFor(() => expect(ssh.clients[0].commands).toEqual(['first', 'second']));
+    await tick();
+
+    await vi.advanceTimersByTimeAsync(SSH_POOL_CONFIG.CHANNEL_WAIT_TIMEOUT_MS);
+    const results = await settled;
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    await expect(first).rejects.toThrow(`No SSH channel freed up on ${key}`);
+  });
+
+  it('gives up after waiting for a channel too many times', async () => {
+    const key = `host-${hostCount}`;
+    const first = execOverSSH(key, config, 'first', { timeout: 1000 });
+    await vi.waitFor(() => expect(ssh.running).toHaveLength(1));
+
+    // Other commands keep finishing, but the host never lets this one in
+    ssh.exec = (command) => (command === 'refused' ? 'refuse' : 'run');
+    const refused = execOverSSH(key, config, 'refused', { timeout: 1000 });
+    const outcome = refused.catch((error: Error) => error);
+
+    for (let i = 0; i < SSH_POOL_CONFIG.MAX_CHANNEL_WAITS; i++) {
+      const attempts = i + 1;
+      await vi.waitFor(() =>
+        expect(ssh.clients[0].commands.filter((command) => command === 'refused')).toHaveLength(attempts)
+      );
+      await tick();
+      const quick = execOverSSH(key, config, `quick-${i}`, { timeout: 1000 });
+      await vi.waitFor(() => expect(ssh.running).toHaveLength(2));
+      ssh.running.pop()!();
+      await quick;
+    }
+
+    expect(await outcome).toMatchObject({ message: 'Failed to open SSH channel: open failed' });
+    expect(ssh.clients[0].commands.filter((command) => command === 'refused')).toHaveLength(
+      SSH_POOL_CONFIG.MAX_CHANNEL_WAITS + 1
+    );
+    ssh.running.shift()!();
+    await first;
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { runPluginChecks } from '@/lib/auditor/checks/plugins';
+import { AUDIT_RAW_DATA_VERSION } from '@/lib/auditor/raw-data';
+import { THRESHOLDS } from '@/lib/constants/thresholds';
+import {
+  acceptSystemPluginHash,
+  diffSystemPlugins,
+  getAcceptedSystemPluginHashes,
+} from '@/lib/inventory/system-plugins';
+import { PluginInfo } from '@/lib/types';
+import { callArgs, createFakeSupabase, filters } from './fake-supabase';
+
+function file(path: string, sha256: string | null, status: PluginInfo['status'] = 'must-use'): PluginInfo {
+  return { name: path, status, version: '', file: path, sha256 };
+}
+
+const provided = ['mu-plugins/mu-plugin.php', 'object-cache.php'];
+
+describe('diffSystemPlugins', () => {
+  it('reports files the host did not install, even on a first audit', () => {
+    const changes = diffSystemPlugins(
+      [file('mu-plugins/mu-plugin.php', 'a'), file('advanced-cache.php', 'b', 'dropin'), { name: 'akismet', status: 'active', version: '5.0' }],
+      null,
+      provided
+    );
+
+    expect(changes).toEqual({
+      compared_to_previous: false,
+      added: [],
+      modified: [],
+      removed: [],
+      unexpected: ['advanced-cache.php'],
+      baseline: { 'advanced-cache.php': 'b', 'mu-plugins/mu-plugin.php': 'a' },
+    });
+  });
+
+  it('diffs hashes against the previous audit', () => {
+    const previous = {
+      plugins: [file('mu-plugins/mu-plugin.php', 'a'), file('object-cache.php', 'c', 'dropin'), file('db.php', 'd', 'dropin')],
+      system_plugins: { compared_to_previous: false, added: [], modified: [], removed: [], unexpected: ['db.php'] },
+    };
+
+    const changes = diffSystemPlugins(
+      [file('mu-plugins/mu-plugin.php', 'a2'), file('object-cache.php', null, 'dropin'), file('mu-plugins/loader.php', 'e')],
+      previous,
+      provided
+    );
+
+    expect(changes.added).toEqual(['mu-plugins/loader.php']);
+    // An unreadable file is not reported as modified
+    expect(changes.modified).toEqual(['mu-plugins/mu-plugin.php']);
+    expect(changes.removed).toEqual(['db.php']);
+    expect(changes.unexpected).toEqual(['mu-plugins/loader.php']);
+  });
+
+  it('does not compare against audits from before files were hashed', () => {
+    const changes = diffSystemPlugins([file('mu-plugins/loader.php', 'e')], { plugins: [] }, provided);
+    expect(changes.compared_to_previous).toBe(false);
+    expect(changes.added).toEqual([]);
+  });
+
+  it('keeps reporting a change until it is accepted', () => {
+    const original = [file('object-cache.php', 'c', 'dropin')];
+    const first = { plugins: original, system_plugins: diffSystemPlugins(original, null, provided) };
+    const changed = [file('object-cache.php', 'c2', 'dropin')];
+
+    const second = diffSystemPlugins(changed, first, provided);
+    expect(second.modified).toEqual(['object-cache.php']);
+    expect(second.baseline).toEqual({ 'object-cache.php': 'c' });
+
+    // Still different from the hash first seen, though unchanged since the last audit
+    const third = diffSystemPlugins(changed, { plugins: changed, system_plugins: second }, provided);
+    expect(third.modified).toEqual(['object-cache.php']);
+
+    const accepted = diffSystemPlugins(changed, { plugins: changed, system_plugins: third }, provided, {
+      'object-cache.php': ['c2'],
+    });
+    expect(accepted.modified).toEqual([]);
+    expect(accepted.baseline).toEqual({ 'object-cache.php': 'c2' });
+  });
+
+  it('flags hashes that were not accepted, even on a first audit', () => {
+    const changes = diffSystemPlugins(
+      [file('mu-plugins/mu-plugin.php', 'tampered'), file('object-cache.php', 'c', 'dropin'), file('db.php', 'd', 'dropin')],
+      null,
+      provided,
+      { 'mu-plugins/mu-plugin.php': ['a', 'a2'], 'object-cache.php': ['b', 'c'] }
+    );
+
+    expect(changes.modified).toEqual(['mu-plugins/mu-plugin.php']);
+    expect(changes.unexpected).toEqual(['db.php']);
+  });
+});
+
+describe('runPluginChecks', () => {
+  it('raises one modified issue per unaccepted hash', async () => {
+    const plugin = { ...file('object-cache.php', 'c2', 'dropin'), update: 'none' as const, update_version: null, title: '' };
+    const result = await runPluginChecks([plugin], THRESHOLDS, [], {
+      previous: null,
+      providedFiles: provided,
+      acceptedHashes: { 'object-cache.php': ['c'] },
+    });
+
+    expect(result.issues.find((issue) => issue.rule === 'system_plugin_modified')).toMatchObject({
+      subject: 'object-cache.php@c2',
+      title: 'object-cache.php has changed',
+    });
+  });
+});
+
+describe('getAcceptedSystemPluginHashes', () => {
+  it("merges the site's hashes with those accepted for the host's files elsewhere", async () => {
+    const { client, queries } = createFakeSupabase((query) =>
+      filters(query, 'eq').length > 0
+        ? { data: [{ file: 'advanced-cache.php', sha256: 'b' }, { file: 'object-cache.php', sha256: 'c' }] }
+        : {
+            data: [
+              { file: 'object-cache.php', sha256: 'c', sites: { hosting_provider: 'wpengine' } },
+              { file: 'object-cache.php', sha256: 'c2', sites: { hosting_provider: null } },
+              { file: 'mu-plugins/mu-plugin.php', sha256: 'x', sites: { hosting_provider: 'ssh' } },
+            ],
+          }
+    );
+
+    const hashes = await getAcceptedSystemPluginHashes(client, { id: 'site-1', hosting_provider: 'wpengine' });
+
+    expect(hashes).toEqual({ 'advanced-cache.php': ['b'], 'object-cache.php': ['c', 'c2'] });
+    expect(filters(queries[1], 'neq')).toEqual([['site_id', 'site-1']]);
+    expect(callArgs(queries[1], 'in')?.[1]).toContain('mu-plugins/mu-plugin.php');
+  });
+});
+
+describe('acceptSystemPluginHash', () => {
+  const issue = { id: 'issue-1', site_id: 'site-1', audit_id: 'audit-1' };
+
+  it("accepts the hash a modified file's issue was raised for", async () => {
+    const { client, queries } = createFakeSupabase();
+    await acceptSystemPluginHash(client, { ...issue, rule: 'system_plugin_modified', subject: 'object-cache.php@c2' });
+
+    expect(queries.map((query) => query.table)).toEqual(['system_plugin_hashes']);
+    expect(callArgs(queries[0], 'upsert')).toEqual([
+      expect.objectContaining({ site_id: 'site-1', file: 'object-cache.php', sha256: 'c2', issue_id: 'issue-1' }),
+      { onConflict: 'site_id,file' },
+    ]);
+  });
+
+  it("takes an unexpected file's hash from the audit that last reported it", async () => {
+    const plugins = {
+      total: 1,
+      active: 0,
+      inactive: 0,
+      needs_update: 0,
+      plugins: [{ name: 'advanced-cache.php', status: 'dropin', version: '', file: 'advanced-cache.php', sha256: 'b' }],
+    };
+    const { client, queries } = createFakeSupabase((query) =>
+      query.table === 'audits'
+        ? { data: { id: 'audit-1', raw_data: { plugins }, schema_version: AUDIT_RAW_DATA_VERSION } }
+        : {}
+    );
+
+    await acceptSystemPluginHash(client, { ...issue, rule: 'unexpected_system_plugin', subject: 'advanced-cache.php' });
+
+    expect(filters(queries[0], 'eq')).toEqual([['id', 'audit-1']]);
+    expect(callArgs(queries[1], 'upsert')?.[0]).toMatchObject({ file: 'advanced-cache.php', sha256: 'b' });
+  });
+
+  it('ignores other issues', async () => {
+    const { client, queries } = createFakeSupabase();
+    await acceptSystemPluginHash(client, { ...issue, rule: 'outdated_plugins', subject: null });
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { runThemeChecks } from '@/lib/auditor/checks/themes';
+import { THRESHOLDS } from '@/lib/constants/thresholds';
+import { CheckResult, WordPressSnapshot } from '@/lib/types';
+
+type Theme = WordPressSnapshot['themes'][number];
+
+function theme(name: string, status: Theme['status'], parent: string | null = null): Theme {
+  return { name, status, version: '1.0.0', update: 'none', update_version: null, title: name, parent };
+}
+
+function inactiveThemes(count: number): Theme[] {
+  return Array.from({ length: count }, (_, i) => theme(`twentytwenty${i}`, 'inactive'));
+}
+
+function findIssue(result: CheckResult, rule: string) {
+  return result.issues.find((issue) => issue.rule === rule);
+}
+
+function findPass(result: CheckResult, rule: string) {
+  return result.passed?.find((pass) => pass.rule === rule);
+}
+
+describe('runThemeChecks', () => {
+  describe('missing_parent_theme', () => {
+    it('is critical when the active child theme has no parent installed', async () => {
+      const result = await runThemeChecks([theme('astra-child', 'active', 'astra')], THRESHOLDS);
+
+      expect(findIssue(result, 'missing_parent_theme')).toMatchObject({
+        subject: 'astra',
+        severity: 'critical',
+        title: 'Parent theme missing: astra',
+      });
+      expect(result.data).toMatchObject({ active_theme: 'astra-child', parent_theme: 'astra', is_child_theme: true });
+    });
+
+    it('passes when the parent is installed', async () => {
+      const result = await runThemeChecks(
+        [theme('astra-child', 'active', 'astra'), theme('astra', 'parent')],
+        THRESHOLDS
+      );
+
+      expect(findIssue(result, 'missing_parent_theme')).toBeUndefined();
+      expect(findPass(result, 'missing_parent_theme')?.title).toBe('Parent theme astra is installed');
+    });
+
+    it('does not apply to a theme without a parent', async () => {
+      const result = await runThemeChecks([theme('astra', 'active')], THRESHOLDS);
+
+      expect(findIssue(result, 'missing_parent_theme')).toBeUndefined();
+      expect(findPass(result, 'missing_parent_theme')).toBeUndefined();
+    });
+  });
+
+  describe('inactive_themes', () => {
+    it('passes below the warning threshold', async () => {
+      const result = await runThemeChecks([theme('astra', 'active'), ...inactiveThemes(1)], THRESHOLDS);
+
+      expect(findIssue(result, 'inactive_themes')).toBeUndefined();
+      expect(findPass(result, 'inactive_themes')?.title).toBe('Only 1 inactive theme(s)');
+    });
+
+    it('warns at the warning threshold', async () => {
+      const result = await runThemeChecks([theme('astra', 'active'), ...inactiveThemes(2)], THRESHOLDS);
+
+      expect(findIssue(result, 'inactive_themes')).toMatchObject({
+        severity: 'warning',
+        title: '2 inactive themes installed',
+        description: 'Inactive themes: twentytwenty0, twentytwenty1',
+      });
+    });
+
+    it('is critical at the critical threshold', async () => {
+      const at = await runThemeChecks([theme('astra', 'active'), ...inactiveThemes(4)], THRESHOLDS);
+      const below = await runThemeChecks([theme('astra', 'active'), ...inactiveThemes(3)], THRESHOLDS);
+
+      expect(findIssue(at, 'inactive_themes')?.severity).toBe('critical');
+      expect(findIssue(below, 'inactive_themes')?.severity).toBe('warning');
+    });
+
+    it('does not count the parent of a child theme as inactive', async () => {
+      const result = await runThemeChecks(
+        [theme('astra-child', 'active', 'astra'), theme('astra', 'parent'), ...inactiveThemes(1)],
+        THRESHOLDS
+      );
+
+      expect(findIssue(result, 'inactive_themes')).toBeUndefined();
+      expect(result.data).toMatchObject({ inactive: 1 });
+    });
+
+    it('follows the site thresholds', async () => {
+      const thresholds = { ...THRESHOLDS, inactive_themes: { warning: 1, critical: 2 } };
+      const result = await runThemeChecks([theme('astra', 'active'), ...inactiveThemes(2)], thresholds);
+
+      expect(findIssue(result, 'inactive_themes')?.severity).toBe('critical');
+    });
+  });
+
+  describe('unapproved_theme', () => {
+    it('warns when the active theme is not approved', async () => {
+      const result = await runThemeChecks([theme('divi', 'active')], THRESHOLDS);
+
+      expect(findIssue(result, 'unapproved_theme')).toMatchObject({
+        subject: 'divi',
+        severity: 'warning',
+        description: 'The active theme divi is not an approved theme.',
+      });
+      expect(result.data).toMatchObject({ approved: false });
+    });
+
+    it('judges a child theme by its parent', async () => {
+      const approvedParent = await runThemeChecks(
+        [theme('custom', 'active', 'hello-elementor'), theme('hello-elementor', 'parent')],
+        THRESHOLDS
+      );
+      const unapprovedParent = await runThemeChecks(
+        [theme('astra', 'active', 'divi'), theme('divi', 'parent')],
+        THRESHOLDS
+      );
+
+      expect(findIssue(approvedParent, 'unapproved_theme')).toBeUndefined();
+      expect(findPass(approvedParent, 'unapproved_theme')?.title).toBe('Built on an approved theme: hello-elementor');
+      expect(findIssue(unapprovedParent, 'unapproved_theme')).toMatchObject({
+        subject: 'divi',
+        description: 'The active theme astra is a child of divi, which is not an approved theme.',
+      });
+    });
+
+    it('is skipped when no theme is active', async () => {
+      const result = await runThemeChecks([theme('divi', 'inactive')], THRESHOLDS);
+
+      expect(findIssue(result, 'unapproved_theme')).toBeUndefined();
+      expect(findPass(result, 'unapproved_theme')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { THRESHOLDS } from '@/lib/constants/thresholds';
+import { mergeThresholds, validateThresholdOverrides } from '@/lib/thresholds';
+
+describe('mergeThresholds', () => {
+  it('applies overrides in order, merging grouped values per level', () => {
+    const merged = mergeThresholds(
+      THRESHOLDS,
+      { database_size_mb: { warning: 800, critical: 1500 } },
+      { database_size_mb: { critical: 3000 }, SLOW_PAGES_WARNING: 6 }
+    );
+
+    expect(merged.database_size_mb).toEqual({ warning: 800, critical: 3000 });
+    expect(merged.SLOW_PAGES_WARNING).toBe(6);
+    expect(merged.revision_count).toEqual(THRESHOLDS.revision_count);
+  });
+
+  it('does not modify the defaults', () => {
+    mergeThresholds(THRESHOLDS, { database_size_mb: { critical: 3000 } });
+    expect(THRESHOLDS.database_size_mb.critical).toBe(1000);
+  });
+});
+
+describe('validateThresholdOverrides', () => {
+  it('accepts known thresholds', () => {
+    expect(validateThresholdOverrides({ database_size_mb: { critical: 2000 }, BROKEN_LINKS_WARNING: 10 })).toBeNull();
+  });
+
+  it('rejects unknown keys, levels and non-numbers', () => {
+    expect(validateThresholdOverrides({ nope: 1 })).toBe('Unknown threshold: nope');
+    expect(validateThresholdOverrides({ database_size_mb: { extreme: 1 } })).toBe('Unknown threshold: database_size_mb.extreme');
+    expect(validateThresholdOverrides({ database_size_mb: { critical: '2000' } })).toBe('database_size_mb.critical must be a number');
+    expect(validateThresholdOverrides({ severity_deduction: { critical: 1 } })).toBe('Unknown threshold: severity_deduction');
+  });
+});
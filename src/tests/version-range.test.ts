@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { compareVersions, isVersionAffected, isVersionInRange } from '@/lib/utils/version-range';
+
+describe('compareVersions', () => {
+  it('compares numerically, part by part', () => {
+    expect(compareVersions('1.10.0', '1.9.9')).toBeGreaterThan(0);
+    expect(compareVersions('2.0', '10.0')).toBeLessThan(0);
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('v3.1', '3.1')).toBe(0);
+  });
+
+  it('sorts pre-releases before their release', () => {
+    expect(compareVersions('1.2-beta1', '1.2')).toBeLessThan(0);
+    expect(compareVersions('1.2-alpha', '1.2-beta')).toBeLessThan(0);
+    expect(compareVersions('1.2-RC1', '1.2-beta3')).toBeGreaterThan(0);
+    expect(compareVersions('1.2.1', '1.2-rc1')).toBeGreaterThan(0);
+  });
+});
+
+describe('isVersionInRange', () => {
+  it('honours inclusive and exclusive bounds', () => {
+    const range = { from: '1.0', from_inclusive: true, to: '1.4.2', to_inclusive: false };
+    expect(isVersionInRange('1.0', range)).toBe(true);
+    expect(isVersionInRange('1.4.1', range)).toBe(true);
+    expect(isVersionInRange('1.4.2', range)).toBe(false);
+    expect(isVersionInRange('0.9', range)).toBe(false);
+  });
+
+  it('treats a missing bound as open-ended', () => {
+    expect(isVersionInRange('0.1', { from: null, from_inclusive: true, to: '2.0', to_inclusive: true })).toBe(true);
+    expect(isVersionInRange('99', { from: '2.0', from_inclusive: true, to: null, to_inclusive: false })).toBe(true);
+  });
+
+  it('matches any of several ranges', () => {
+    const ranges = [
+      { from: null, from_inclusive: true, to: '1.9.3', to_inclusive: true },
+      { from: '2.0', from_inclusive: true, to: '2.1', to_inclusive: false },
+    ];
+    expect(isVersionAffected('2.0.5', ranges)).toBe(true);
+    expect(isVersionAffected('1.9.4', ranges)).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectFeedFormat,
+  findAdvisories,
+  getExposedAdvisories,
+  parseAdvisoryFeed,
+  parseWordfenceFeed,
+  parseWPScanFeed,
+} from '@/lib/vulnerabilities';
+import { callArgs, createFakeSupabase } from './fake-supabase';
+import wordfenceFeed from './fixtures/wordfence-feed.json';
+import wpscanFeed from './fixtures/wpscan-feed.json';
+
+describe('parseWordfenceFeed', () => {
+  const advisories = parseWordfenceFeed(wordfenceFeed);
+
+  it('makes one advisory per affected plugin or theme, skipping core', () => {
+    expect(advisories.map((a) => `${a.software_type}:${a.slug}`)).toEqual([
+      'plugin:elementor',
+      'theme:astra',
+      'plugin:astra-addon',
+    ]);
+  });
+
+  it('reads versions, severity and references', () => {
+    expect(advisories[0]).toEqual({
+      source: 'wordfence',
+      source_id: '0a4f2b1c-7d3e-4a5b-9c8d-112233445566',
+      software_type: 'plugin',
+      slug: 'elementor',
+      title: 'Elementor Website Builder <= 3.18.1 - Authenticated (Contributor+) Stored Cross-Site Scripting',
+      cve: 'CVE-2023-48777',
+      severity: 'medium',
+      cvss_score: 6.4,
+      affected_versions: [{ from: null, from_inclusive: true, to: '3.18.1', to_inclusive: true }],
+      fixed_versions: ['3.18.2'],
+      references: ['https://www.wordfence.com/threat-intel/vulnerabilities/id/0a4f2b1c-7d3e-4a5b-9c8d-112233445566'],
+      published_at: '2024-01-05 00:00:00',
+    });
+  });
+
+  it('keeps every affected range of a package', () => {
+    expect(advisories[2].affected_versions).toEqual([
+      { from: '1.0.0', from_inclusive: true, to: '3.9.9', to_inclusive: true },
+      { from: '4.0.0', from_inclusive: true, to: '4.6.3', to_inclusive: true },
+    ]);
+    expect(advisories[2].fixed_versions).toEqual(['3.9.10', '4.6.4']);
+    expect(advisories[2].cve).toBeNull();
+  });
+});
+
+describe('parseWPScanFeed', () => {
+  const advisories = parseWPScanFeed(wpscanFeed, 'plugin');
+
+  it('makes one advisory per vulnerability of each slug', () => {
+    expect(advisories.map((a) => a.source_id)).toEqual([
+      '70e21d9a-b1e6-4083-bcd3-7c1c13fd5382',
+      'a8d3c2b1-0f9e-4d7c-8b6a-5e4f3d2c1b0a',
+      'b9e4d3c2-1a0f-4e8d-9c7b-6f5e4d3c2b1a',
+    ]);
+    expect(advisories.every((a) => a.source === 'wpscan' && a.slug === 'contact-form-7')).toBe(true);
+  });
+
+  it('reads versions, severity and references', () => {
+    expect(advisories[0]).toEqual({
+      source: 'wpscan',
+      source_id: '70e21d9a-b1e6-4083-bcd3-7c1c13fd5382',
+      software_type: 'plugin',
+      slug: 'contact-form-7',
+      title: 'Contact Form 7 < 5.3.2 - Unrestricted File Upload',
+      cve: 'CVE-2020-35489',
+      severity: 'critical',
+      cvss_score: 10,
+      affected_versions: [{ from: null, from_inclusive: true, to: '5.3.2', to_inclusive: false }],
+      fixed_versions: ['5.3.2'],
+      references: ['https://contactform7.com/2020/12/17/contact-form-7-532/'],
+      published_at: '2020-12-17T00:00:00.000Z',
+    });
+  });
+
+  it('keeps prefixed CVEs and bounds the range by introduced_in', () => {
+    expect(advisories[1].cve).toBe('CVE-2024-6625');
+    expect(advisories[1].severity).toBeNull();
+    expect(advisories[1].affected_versions).toEqual([
+      { from: '5.0', from_inclusive: true, to: '5.9.5', to_inclusive: false },
+    ]);
+  });
+
+  it('leaves unpatched vulnerabilities open-ended', () => {
+    expect(advisories[2]).toMatchObject({
+      cve: null,
+      cvss_score: null,
+      affected_versions: [{ from: null, from_inclusive: true, to: null, to_inclusive: false }],
+      fixed_versions: [],
+      references: [],
+      published_at: null,
+    });
+  });
+
+  it('uses the software type it is given', () => {
+    expect(parseWPScanFeed(wpscanFeed, 'theme').every((a) => a.software_type === 'theme')).toBe(true);
+  });
+});
+
+describe('parseAdvisoryFeed', () => {
+  it('detects the feed format', () => {
+    expect(detectFeedFormat(wordfenceFeed)).toBe('wordfence');
+    expect(detectFeedFormat(wpscanFeed)).toBe('wpscan');
+    expect(parseAdvisoryFeed(wordfenceFeed)).toEqual(parseWordfenceFeed(wordfenceFeed));
+    expect(parseAdvisoryFeed(wpscanFeed, 'theme')).toEqual(parseWPScanFeed(wpscanFeed, 'theme'));
+  });
+
+  it('rejects other JSON', () => {
+    expect(() => detectFeedFormat({ data: [] })).toThrow('Unrecognised advisory feed');
+    expect(() => detectFeedFormat([])).toThrow('Unrecognised advisory feed');
+  });
+});
+
+describe('findAdvisories', () => {
+  it('pages through every advisory for the installed slugs', async () => {
+    const rows = Array.from({ length: 1500 }, (_, i) => ({ id: `advisory-${i}`, slug: 'elementor' }));
+    const { client, queries } = createFakeSupabase((query) => {
+      const [from, to] = callArgs(query, 'range') as [number, number];
+      return { data: rows.slice(from, to + 1) };
+    });
+
+    const advisories = await findAdvisories(client, [
+      { type: 'plugin', slug: 'elementor', version: '3.18.1' },
+      { type: 'theme', slug: 'elementor', version: '1.0' },
+    ]);
+
+    expect(advisories).toHaveLength(1500);
+    expect(queries.map((query) => callArgs(query, 'range'))).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+    expect(callArgs(queries[0], 'in')).toEqual(['slug', ['elementor']]);
+  });
+
+  it('skips the query when nothing is installed', async () => {
+    const { client, queries } = createFakeSupabase(() => ({ data: [] }));
+    expect(await findAdvisories(client, [])).toEqual([]);
+    expect(queries).toHaveLength(0);
+  });
+});
+
+describe('getExposedAdvisories', () => {
+  it('pages through exposed issues and counts sites per advisory', async () => {
+    // 1200 issues: advisory-0 on 1000 sites, advisory-1 on 200
+    const issues = Array.from({ length: 1200 }, (_, i) => ({ subject: `advisory-${i < 1000 ? 0 : 1}`, site_id: `site-${i}` }));
+    const { client, queries } = createFakeSupabase((query) => {
+      if (query.table === 'vulnerability_advisories') {
+        const ids = callArgs(query, 'in')![1] as string[];
+        return { data: ids.map((id) => ({ id })) };
+      }
+      const [from, to] = callArgs(query, 'range') as [number, number];
+      return { data: issues.slice(from, to + 1) };
+    });
+
+    const advisories = await getExposedAdvisories(client);
+
+    expect(advisories.map((a) => [a.id, a.exposed_sites])).toEqual([
+      ['advisory-0', 1000],
+      ['advisory-1', 200],
+    ]);
+    expect(queries.filter((query) => query.table === 'issues')).toHaveLength(2);
+  });
+});
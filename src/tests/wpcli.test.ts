@@ -0,0 +1,57 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { execOverSSH } from '@/lib/connectors/ssh-pool';
+import { COLLECTOR_SCHEMA_VERSION, collectWordPressSnapshot, WPCLIConfig } from '@/lib/connectors/wpcli';
+
+vi.mock('@/lib/connectors/ssh-pool', () => ({
+  acquireSSHSession: vi.fn(),
+  execOverSSH: vi.fn(),
+}));
+
+const config: WPCLIConfig = { connectionKey: 'example', getSSHConfig: () => ({}), wpPath: '/var/www/example' };
+
+function respond(stdout: string, code = 0) {
+  vi.mocked(execOverSSH).mockResolvedValue({ code, stdout, stderr: '' });
+}
+
+describe('collectWordPressSnapshot', () => {
+  afterEach(() => {
+    vi.mocked(execOverSSH).mockReset();
+  });
+
+  it('pipes the bundled collector to wp eval-file', async () => {
+    respond(`ASYMSITES_SNAPSHOT:${JSON.stringify({ schema_version: COLLECTOR_SCHEMA_VERSION })}`);
+    await collectWordPressSnapshot(config);
+
+    const [key, , command, options] = vi.mocked(execOverSSH).mock.calls[0];
+    expect(key).toBe('example');
+    expect(command).toBe("cd '/var/www/example' && wp eval-file -");
+    expect(options.stdin).toMatch(/^<\?php/);
+    expect(options.stdin).toContain(`'schema_version'    => ${COLLECTOR_SCHEMA_VERSION},`);
+  });
+
+  it('finds the snapshot among notices the site prints', async () => {
+    const snapshot = { schema_version: COLLECTOR_SCHEMA_VERSION, plugins: [{ name: 'akismet', status: 'active' }] };
+    respond(`PHP Notice: Undefined index in functions.php\n\nASYMSITES_SNAPSHOT:${JSON.stringify(snapshot)}\n`);
+
+    expect(await collectWordPressSnapshot(config)).toEqual(snapshot);
+  });
+
+  it('throws when the output has no snapshot', async () => {
+    respond('Error: This does not seem to be a WordPress installation.');
+    await expect(collectWordPressSnapshot(config)).rejects.toThrow(
+      'WordPress collector returned no snapshot: Error: This does not seem to be a WordPress installation.'
+    );
+  });
+
+  it('rejects snapshots from a different collector schema', async () => {
+    respond(`ASYMSITES_SNAPSHOT:${JSON.stringify({ schema_version: COLLECTOR_SCHEMA_VERSION - 1 })}`);
+    await expect(collectWordPressSnapshot(config)).rejects.toThrow(
+      `Unsupported WordPress snapshot schema ${COLLECTOR_SCHEMA_VERSION - 1} (expected ${COLLECTOR_SCHEMA_VERSION})`
+    );
+  });
+
+  it('surfaces WP-CLI failures', async () => {
+    respond('Fatal error', 255);
+    await expect(collectWordPressSnapshot(config)).rejects.toThrow('WP-CLI error (code 255): Fatal error');
+  });
+});
@@ -0,0 +1,7 @@
+-- Per-check outcomes so a single failing check no longer fails the whole audit
+ALTER TABLE public.audits
+ADD COLUMN check_runs jsonb NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN is_complete boolean NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.audits.check_runs IS 'Status (succeeded/failed/skipped/timed_out), error and duration of each check';
+COMMENT ON COLUMN public.audits.is_complete IS 'False when any check did not succeed; health score covers only finished checks';
@@ -0,0 +1,67 @@
+-- Durable audit job queue
+-- Audits are executed by worker processes (scripts/audit-worker.ts) instead of
+-- inside the Next.js request. Workers claim jobs with a lease and extend it with
+-- heartbeats; a job whose lease expires (crashed worker) is claimed again.
+
+CREATE TABLE public.audit_jobs (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  audit_id uuid NOT NULL REFERENCES public.audits(id) ON DELETE CASCADE,
+  site_id uuid NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  run_after timestamptz NOT NULL DEFAULT now(),
+
+  -- Lease held by the worker currently running the job
+  locked_by text,
+  locked_at timestamptz,
+  lease_expires_at timestamptz,
+  heartbeat_at timestamptz,
+
+  last_error text,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_audit_jobs_claimable ON public.audit_jobs(status, run_after);
+CREATE INDEX idx_audit_jobs_lease ON public.audit_jobs(lease_expires_at) WHERE status = 'running';
+CREATE INDEX idx_audit_jobs_audit ON public.audit_jobs(audit_id);
+
+CREATE TRIGGER audit_jobs_updated_at
+  BEFORE UPDATE ON public.audit_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Atomically claim the next runnable job: a queued job that is due, or a
+-- running job whose lease has expired. SKIP LOCKED lets several workers poll
+-- concurrently without claiming the same job.
+CREATE OR REPLACE FUNCTION public.claim_audit_job(p_worker_id text, p_lease_seconds integer)
+RETURNS SETOF public.audit_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.audit_jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    locked_by = p_worker_id,
+    locked_at = now(),
+    heartbeat_at = now(),
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE j.id = (
+    SELECT c.id
+    FROM public.audit_jobs c
+    WHERE (c.status = 'queued' AND c.run_after <= now())
+       OR (c.status = 'running' AND c.lease_expires_at < now())
+    ORDER BY c.run_after
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE public.audit_jobs IS 'Audit work queue with lease/heartbeat semantics and retry with backoff';
+COMMENT ON COLUMN public.audit_jobs.run_after IS 'Earliest time the job may be claimed (pushed back on retry)';
+COMMENT ON COLUMN public.audit_jobs.lease_expires_at IS 'Job is reclaimable once this passes without a heartbeat';
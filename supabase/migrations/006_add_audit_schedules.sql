@@ -0,0 +1,35 @@
+-- Per-site recurring audit schedules
+-- audit_schedule is 'daily', 'weekly' or a 5-field cron expression (UTC).
+-- When null, the cadence defaults from the plan tier (see src/lib/constants/schedules.ts).
+
+ALTER TABLE public.sites
+ADD COLUMN plan_tier text CHECK (plan_tier IN ('premium', 'standard', 'basic')),
+ADD COLUMN audit_schedule text,
+ADD COLUMN next_audit_at timestamptz,
+ADD COLUMN last_scheduled_audit_at timestamptz;
+
+CREATE INDEX idx_sites_next_audit_at ON public.sites(next_audit_at);
+
+COMMENT ON COLUMN public.sites.plan_tier IS 'Service tier; derived from monthly_fee when null';
+COMMENT ON COLUMN public.sites.audit_schedule IS 'daily, weekly or cron expression; plan tier default when null';
+COMMENT ON COLUMN public.sites.next_audit_at IS 'When the scheduler will next enqueue an audit for this site';
+
+-- Recreate the dashboard view so it picks up the new site columns
+DROP VIEW public.site_dashboard;
+
+CREATE VIEW public.site_dashboard AS
+SELECT
+  s.*,
+  a.id AS latest_audit_id,
+  a.health_score AS latest_health_score,
+  a.completed_at AS latest_audit_at,
+  a.status AS latest_audit_status,
+  (SELECT count(*) FROM public.issues i WHERE i.site_id = s.id AND i.status = 'open') AS open_issues_count,
+  (SELECT count(*) FROM public.issues i WHERE i.site_id = s.id AND i.status = 'open' AND i.severity = 'critical') AS critical_issues_count
+FROM public.sites s
+LEFT JOIN LATERAL (
+  SELECT * FROM public.audits
+  WHERE site_id = s.id
+  ORDER BY created_at DESC
+  LIMIT 1
+) a ON true;
@@ -0,0 +1,73 @@
+-- Fleet audit batches
+-- A batch groups the audit jobs for a fleet-wide run. Workers honour each
+-- batch's concurrency limit and never run two audits against the same host
+-- at once, so a fleet run can't monopolize the workers or hammer one server.
+
+CREATE TABLE public.audit_batches (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed')),
+  concurrency integer NOT NULL DEFAULT 4 CHECK (concurrency > 0),
+  total_sites integer NOT NULL DEFAULT 0,
+  succeeded integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+ALTER TABLE public.audit_jobs
+ADD COLUMN batch_id uuid REFERENCES public.audit_batches(id) ON DELETE SET NULL,
+ADD COLUMN host_key text;
+
+CREATE INDEX idx_audit_jobs_batch ON public.audit_jobs(batch_id);
+CREATE INDEX idx_audit_jobs_host_running ON public.audit_jobs(host_key) WHERE status = 'running';
+CREATE INDEX idx_audit_batches_created_at ON public.audit_batches(created_at DESC);
+
+-- Replace the claim function with one that enforces batch concurrency and
+-- per-host fairness. Claims are serialized with a transaction-level advisory
+-- lock so two workers can't both see a free slot and over-subscribe it.
+CREATE OR REPLACE FUNCTION public.claim_audit_job(p_worker_id text, p_lease_seconds integer)
+RETURNS SETOF public.audit_jobs AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_audit_job'));
+
+  RETURN QUERY
+  UPDATE public.audit_jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    locked_by = p_worker_id,
+    locked_at = now(),
+    heartbeat_at = now(),
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE j.id = (
+    SELECT c.id
+    FROM public.audit_jobs c
+    LEFT JOIN public.audit_batches b ON b.id = c.batch_id
+    WHERE ((c.status = 'queued' AND c.run_after <= now())
+       OR (c.status = 'running' AND c.lease_expires_at < now()))
+      -- One live audit per host at a time
+      AND (c.host_key IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.audit_jobs r
+        WHERE r.status = 'running'
+          AND r.lease_expires_at >= now()
+          AND r.host_key = c.host_key
+          AND r.id <> c.id
+      ))
+      -- Stay within the batch's concurrency limit
+      AND (c.batch_id IS NULL OR (
+        SELECT count(*) FROM public.audit_jobs r
+        WHERE r.batch_id = c.batch_id
+          AND r.status = 'running'
+          AND r.lease_expires_at >= now()
+          AND r.id <> c.id
+      ) < b.concurrency)
+    ORDER BY c.run_after
+    FOR UPDATE OF c SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE public.audit_batches IS 'Fleet-wide audit runs; progress is derived from the batch''s audit_jobs';
+COMMENT ON COLUMN public.audit_jobs.host_key IS 'Server the audit connects to; at most one running job per host';
@@ -0,0 +1,30 @@
+-- Stable issue identity across audits
+-- Each issue is keyed by a fingerprint (check key + rule + subject). A recurring
+-- issue updates its existing row instead of being closed and re-inserted, and
+-- is only resolved once an audit no longer reports it.
+
+ALTER TABLE public.issues
+ADD COLUMN fingerprint text,
+ADD COLUMN check_key text,
+ADD COLUMN rule text,
+ADD COLUMN subject text,
+ADD COLUMN first_seen_at timestamptz NOT NULL DEFAULT now(),
+ADD COLUMN last_seen_at timestamptz NOT NULL DEFAULT now(),
+ADD COLUMN occurrence_count integer NOT NULL DEFAULT 1,
+ADD COLUMN is_regression boolean NOT NULL DEFAULT false;
+
+-- Existing rows were seen exactly when they were created
+UPDATE public.issues SET first_seen_at = created_at, last_seen_at = created_at WHERE created_at IS NOT NULL;
+
+-- 'resolved' = no longer reported by an audit; 'fixed' = resolved by an action
+ALTER TABLE public.issues DROP CONSTRAINT issues_status_check;
+ALTER TABLE public.issues ADD CONSTRAINT issues_status_check
+  CHECK (status IN ('open', 'fixed', 'resolved', 'ignored', 'in_progress'));
+
+-- One row per fingerprint per site (legacy rows without a fingerprint are exempt)
+ALTER TABLE public.issues ADD CONSTRAINT issues_site_fingerprint_key UNIQUE (site_id, fingerprint);
+
+COMMENT ON COLUMN public.issues.fingerprint IS 'check_key:rule:subject - identifies the same issue across audits';
+COMMENT ON COLUMN public.issues.audit_id IS 'Most recent audit that reported this issue';
+COMMENT ON COLUMN public.issues.occurrence_count IS 'Number of audits that have reported this issue';
+COMMENT ON COLUMN public.issues.is_regression IS 'Reopened after an audit had resolved it';
@@ -0,0 +1,19 @@
+-- Let people ignore, snooze or accept the risk of an issue
+-- Audits keep updating these issues but leave their status alone (snoozes
+-- reopen once snoozed_until has passed).
+
+ALTER TABLE public.issues
+ADD COLUMN snoozed_until timestamptz,
+ADD COLUMN risk_justification text;
+
+ALTER TABLE public.issues DROP CONSTRAINT issues_status_check;
+ALTER TABLE public.issues ADD CONSTRAINT issues_status_check
+  CHECK (status IN ('open', 'fixed', 'resolved', 'ignored', 'snoozed', 'accepted', 'in_progress'));
+
+ALTER TABLE public.issues ADD CONSTRAINT issues_snoozed_until_check
+  CHECK (status <> 'snoozed' OR snoozed_until IS NOT NULL);
+ALTER TABLE public.issues ADD CONSTRAINT issues_risk_justification_check
+  CHECK (status <> 'accepted' OR coalesce(trim(risk_justification), '') <> '');
+
+COMMENT ON COLUMN public.issues.snoozed_until IS 'Snoozed issues reopen on the first audit after this time';
+COMMENT ON COLUMN public.issues.risk_justification IS 'Why the risk of an accepted issue was accepted';
@@ -0,0 +1,6 @@
+-- Keep the issues each audit reported, so two audits can be diffed even
+-- though issue rows now only hold their latest state
+ALTER TABLE public.audits
+ADD COLUMN issue_snapshot jsonb;
+
+COMMENT ON COLUMN public.audits.issue_snapshot IS 'Fingerprint, check, category, severity and title of each issue found; null for older audits';
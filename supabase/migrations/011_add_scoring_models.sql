@@ -0,0 +1,27 @@
+-- Configurable health scoring
+-- config holds per-category weights, per-issue deductions and per-severity
+-- caps, e.g. {"categories": {"security": {"weight": 0.4, "deductions": {"critical": 30}}},
+-- "exclude_accepted_risk": true}. Anything left out falls back to the default
+-- model in src/lib/constants/scoring.ts, which is also used when no model is active.
+
+CREATE TABLE public.scoring_models (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL UNIQUE,
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_active boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- At most one active model
+CREATE UNIQUE INDEX idx_scoring_models_active ON public.scoring_models(is_active) WHERE is_active;
+
+CREATE TRIGGER scoring_models_updated_at
+  BEFORE UPDATE ON public.scoring_models
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.audits
+ADD COLUMN score_breakdown jsonb;
+
+COMMENT ON COLUMN public.audits.score_breakdown IS 'Model name, per-category subscores/deductions and the weighted overall score';
@@ -0,0 +1,31 @@
+-- Threshold overrides per client or site
+-- overrides only lists the values that change, e.g.
+-- {"database_size_mb": {"warning": 1500, "critical": 3000}}. Audits start from
+-- THRESHOLDS (src/lib/constants/thresholds.ts) and apply the global, client
+-- and site profiles in that order.
+
+CREATE TABLE public.threshold_profiles (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL,
+  scope text NOT NULL CHECK (scope IN ('global', 'client', 'site')),
+  client_name text,
+  site_id uuid REFERENCES public.sites(id) ON DELETE CASCADE,
+  overrides jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (
+    (scope = 'global' AND client_name IS NULL AND site_id IS NULL) OR
+    (scope = 'client' AND client_name IS NOT NULL AND site_id IS NULL) OR
+    (scope = 'site' AND site_id IS NOT NULL AND client_name IS NULL)
+  )
+);
+
+-- One profile per global / client / site
+CREATE UNIQUE INDEX idx_threshold_profiles_global ON public.threshold_profiles(scope) WHERE scope = 'global';
+CREATE UNIQUE INDEX idx_threshold_profiles_client ON public.threshold_profiles(client_name) WHERE scope = 'client';
+CREATE UNIQUE INDEX idx_threshold_profiles_site ON public.threshold_profiles(site_id) WHERE scope = 'site';
+
+CREATE TRIGGER threshold_profiles_updated_at
+  BEFORE UPDATE ON public.threshold_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,6 @@
+-- Cancelled is its own final state instead of a failure. Cancelling only
+-- flips the status; the worker running the audit notices, aborts its SSH and
+-- HTTP work and leaves the row alone from then on.
+ALTER TABLE public.audits DROP CONSTRAINT audits_status_check;
+ALTER TABLE public.audits ADD CONSTRAINT audits_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled'));
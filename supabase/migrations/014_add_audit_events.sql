@@ -0,0 +1,18 @@
+-- Live audit progress
+-- The auditor appends an event per step started/finished, issue found and log
+-- line; GET /api/audits/{id}/events streams them to the browser. audits.raw_data
+-- now only ever holds final results.
+
+CREATE TABLE public.audit_events (
+  id bigserial PRIMARY KEY,
+  audit_id uuid NOT NULL REFERENCES public.audits(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('step_started', 'step_finished', 'issue_found', 'log')),
+  message text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX idx_audit_events_audit ON public.audit_events(audit_id, id);
+
+COMMENT ON COLUMN public.audit_events.id IS 'Increases in insert order; streams resume after the last id seen';
+COMMENT ON COLUMN public.audit_events.data IS 'step_*: check key, label, timing and status; issue_found: severity and category; log: level and scope';
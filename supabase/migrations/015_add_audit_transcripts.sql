@@ -0,0 +1,29 @@
+-- Audit transcripts
+-- Every SSH command, HTTP request and child process an audit runs is kept
+-- here (secrets redacted), so a failed check can be debugged from the site
+-- page instead of the worker's logs. Written when the audit ends, whatever
+-- the outcome.
+
+CREATE TABLE public.audit_transcript_entries (
+  id bigserial PRIMARY KEY,
+  audit_id uuid NOT NULL REFERENCES public.audits(id) ON DELETE CASCADE,
+  sequence integer NOT NULL,
+  check_key text,
+  kind text NOT NULL CHECK (kind IN ('ssh', 'http', 'process')),
+  operation text NOT NULL,
+  ok boolean NOT NULL,
+  exit_code integer,
+  http_status integer,
+  stdout text,
+  stderr text,
+  error text,
+  duration_ms integer NOT NULL,
+  started_at timestamptz NOT NULL
+);
+
+CREATE INDEX idx_audit_transcript_entries_audit ON public.audit_transcript_entries(audit_id, sequence);
+
+COMMENT ON COLUMN public.audit_transcript_entries.check_key IS 'Check that made the call; NULL outside of a check';
+COMMENT ON COLUMN public.audit_transcript_entries.operation IS 'Command line, or "METHOD url" for HTTP requests';
+COMMENT ON COLUMN public.audit_transcript_entries.stdout IS 'Output or response body, truncated (HTTP bodies only for failed requests)';
+COMMENT ON COLUMN public.audit_transcript_entries.error IS 'Thrown before a result came back: connection failure, timeout or abort';
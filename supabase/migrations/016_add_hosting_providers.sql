@@ -0,0 +1,20 @@
+-- Hosting providers
+-- Sites are no longer all on WPEngine. Each site names its provider, and
+-- anything the provider needs beyond the existing columns lives in
+-- hosting_config. WPEngine sites keep using wpengine_install_id, which other
+-- providers leave empty.
+
+ALTER TABLE public.sites
+ADD COLUMN hosting_provider text NOT NULL DEFAULT 'wpengine'
+  CHECK (hosting_provider IN ('wpengine', 'ssh')),
+ADD COLUMN hosting_config jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.sites
+ALTER COLUMN wpengine_install_id DROP NOT NULL;
+
+ALTER TABLE public.sites
+ADD CONSTRAINT sites_wpengine_install_check
+  CHECK (hosting_provider <> 'wpengine' OR wpengine_install_id IS NOT NULL);
+
+COMMENT ON COLUMN public.sites.hosting_provider IS 'wpengine, or ssh for any host reached with plain SSH + WP-CLI (Kinsta, Pressable, VPSes)';
+COMMENT ON COLUMN public.sites.hosting_config IS 'Provider settings. ssh: {host, port?, username, wp_path?, private_key_env?}; wpengine: unused';
@@ -0,0 +1,10 @@
+-- Versioned audit raw_data
+-- Each check's data is now validated before it is stored, and audits record
+-- which version of the raw_data shape they were written with. Existing audits
+-- are version 1; the app upgrades their raw_data to the current shape when it
+-- reads them (see src/lib/auditor/raw-data.ts).
+
+ALTER TABLE public.audits
+ADD COLUMN schema_version integer NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.audits.schema_version IS 'Version of the raw_data shape; 1 for audits stored before raw_data was validated';
@@ -0,0 +1,10 @@
+-- Passed checks
+-- Checks now report the rules they evaluated and found nothing wrong with, and
+-- positive findings (bandwidth saved, TLS 1.3 adoption) that used to be stored
+-- as info issues. They're kept on the audit for the "What's working" panel and
+-- never affect the health score.
+
+ALTER TABLE public.audits
+ADD COLUMN passed_checks jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.audits.passed_checks IS 'Array of {check_key, category, rule, title, description}; empty for audits from before passed checks were kept';
@@ -0,0 +1,32 @@
+-- Vulnerability advisories
+-- Imported from a WPScan or Wordfence Intelligence JSON feed (a local file or
+-- mirror) with scripts/import-advisories.ts. One row per advisory per affected
+-- plugin or theme; the vulnerabilities check matches every installed plugin
+-- and theme version against them.
+
+CREATE TABLE public.vulnerability_advisories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL CHECK (source IN ('wpscan', 'wordfence')),
+  source_id text NOT NULL,
+  software_type text NOT NULL CHECK (software_type IN ('plugin', 'theme')),
+  slug text NOT NULL,
+  title text NOT NULL,
+  cve text,
+  severity text CHECK (severity IN ('critical', 'high', 'medium', 'low')),
+  cvss_score numeric,
+  affected_versions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  fixed_versions text[] NOT NULL DEFAULT '{}',
+  "references" text[] NOT NULL DEFAULT '{}',
+  published_at timestamptz,
+  imported_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (source, source_id, software_type, slug)
+);
+
+CREATE INDEX idx_vulnerability_advisories_slug ON public.vulnerability_advisories(software_type, slug);
+
+-- Sites exposed to an advisory are its open known_vulnerability issues
+CREATE INDEX idx_issues_vulnerability ON public.issues(subject) WHERE rule = 'known_vulnerability';
+
+COMMENT ON COLUMN public.vulnerability_advisories.source_id IS 'The advisory''s ID in its feed';
+COMMENT ON COLUMN public.vulnerability_advisories.affected_versions IS 'Array of {from, from_inclusive, to, to_inclusive}; a null bound is open-ended';
+COMMENT ON COLUMN public.vulnerability_advisories.fixed_versions IS 'Versions that fix it, one per affected branch; empty when there is no fix';
@@ -0,0 +1,22 @@
+-- Fleet plugin inventory
+-- One row per plugin installed on a site, replaced from the plugins check's
+-- results whenever an audit completes, so the fleet can be searched by slug,
+-- version and status without digging through audits.raw_data.
+
+CREATE TABLE public.site_plugins (
+  site_id uuid NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  slug text NOT NULL,
+  title text,
+  version text NOT NULL,
+  status text NOT NULL CHECK (status IN ('active', 'inactive', 'must-use', 'dropin')),
+  update_version text,
+  audit_id uuid REFERENCES public.audits(id) ON DELETE SET NULL,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (site_id, slug)
+);
+
+CREATE INDEX idx_site_plugins_slug ON public.site_plugins(slug);
+
+COMMENT ON COLUMN public.site_plugins.audit_id IS 'Audit the row was last refreshed from';
+COMMENT ON COLUMN public.site_plugins.first_seen_at IS 'First audit that found the plugin on the site';
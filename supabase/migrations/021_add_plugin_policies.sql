@@ -0,0 +1,76 @@
+-- Plugin policies
+-- Replaces REQUIRED_PLUGINS, STANDARD_PLUGINS and PROBLEMATIC_PLUGINS
+-- (src/lib/constants/plugins.ts). The plugins check takes every policy that
+-- applies to the site; when several scopes have a policy for the same slug the
+-- most specific wins (default → ecommerce → page_builder → client), so a client
+-- can e.g. allow a plugin that is banned by default.
+
+CREATE TABLE public.plugin_policies (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug text NOT NULL,
+  rule text NOT NULL CHECK (rule IN ('required', 'recommended', 'allowed', 'banned', 'replaced_by')),
+  aliases text[] NOT NULL DEFAULT '{}',
+  replacement text,
+  min_version text,
+  below_version text,
+  reason text,
+  scope text NOT NULL CHECK (scope IN ('default', 'ecommerce', 'page_builder', 'client')),
+  client_name text,
+  page_builder text CHECK (page_builder IN ('elementor', 'beaver', 'gutenberg', 'other')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (
+    (scope IN ('default', 'ecommerce') AND client_name IS NULL AND page_builder IS NULL) OR
+    (scope = 'page_builder' AND page_builder IS NOT NULL AND client_name IS NULL) OR
+    (scope = 'client' AND client_name IS NOT NULL AND page_builder IS NULL)
+  ),
+  CHECK ((rule = 'replaced_by') = (replacement IS NOT NULL))
+);
+
+-- One policy per slug per scope target
+CREATE UNIQUE INDEX idx_plugin_policies_target
+  ON public.plugin_policies(slug, scope, COALESCE(client_name, ''), COALESCE(page_builder, ''));
+
+CREATE TRIGGER plugin_policies_updated_at
+  BEFORE UPDATE ON public.plugin_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON COLUMN public.plugin_policies.aliases IS 'Other slugs that count as this plugin (premium editions, legacy names)';
+COMMENT ON COLUMN public.plugin_policies.replacement IS 'Plugin to use instead (replaced_by only)';
+COMMENT ON COLUMN public.plugin_policies.min_version IS 'Inclusive lower bound: versions satisfying required/recommended, or banned versions';
+COMMENT ON COLUMN public.plugin_policies.below_version IS 'Exclusive upper bound, as min_version';
+
+-- The Asymmetric Marketing standard stack, as previously hardcoded
+INSERT INTO public.plugin_policies (slug, rule, aliases, replacement, reason, scope, page_builder) VALUES
+  ('really-simple-security', 'required', '{really-simple-ssl,really-simple-ssl-pro,really-simple-security-pro,ssl-insecure-content-fixer}', NULL, 'Security', 'default', NULL),
+  ('wp-rocket', 'required', '{}', NULL, 'Caching', 'default', NULL),
+  ('seopress', 'required', '{wp-seopress,seopress-pro,wp-seopress-pro}', NULL, 'SEO', 'default', NULL),
+  ('gravityforms', 'required', '{gravity-forms}', NULL, 'Forms', 'default', NULL),
+  ('wp-mail-smtp', 'required', '{wp-mail-smtp-pro,wp-smtp}', NULL, 'Email', 'default', NULL),
+  ('elementor-pro', 'required', '{}', NULL, 'Elementor sites are built with Elementor Pro', 'page_builder', 'elementor'),
+  ('woocommerce', 'required', '{}', NULL, 'Ecommerce', 'ecommerce', NULL),
+  ('elementor', 'allowed', '{}', NULL, 'Page builder', 'default', NULL),
+  ('elementor-pro', 'allowed', '{}', NULL, 'Page builder', 'default', NULL),
+  ('beaver-builder-lite-version', 'allowed', '{}', NULL, 'Page builder', 'default', NULL),
+  ('bb-plugin', 'allowed', '{}', NULL, 'Page builder', 'default', NULL),
+  ('bb-theme-builder', 'allowed', '{}', NULL, 'Page builder', 'default', NULL),
+  ('astra-addon-plugin', 'allowed', '{}', NULL, 'Theme', 'default', NULL),
+  ('duplicate-post', 'allowed', '{}', NULL, 'Utility', 'default', NULL),
+  ('redirection', 'allowed', '{}', NULL, 'Utility', 'default', NULL),
+  ('safe-svg', 'allowed', '{}', NULL, 'Utility', 'default', NULL),
+  ('classic-editor', 'allowed', '{}', NULL, 'Utility', 'default', NULL),
+  ('advanced-custom-fields', 'allowed', '{acf-pro}', NULL, 'Utility', 'default', NULL),
+  ('woocommerce', 'allowed', '{}', NULL, 'Ecommerce', 'default', NULL),
+  ('google-site-kit', 'allowed', '{}', NULL, 'Analytics', 'default', NULL),
+  ('akismet', 'allowed', '{}', NULL, 'Spam protection', 'default', NULL),
+  ('jetpack', 'banned', '{}', NULL, 'Heavy, often unnecessary features enabled', 'default', NULL),
+  ('broken-link-checker', 'banned', '{}', NULL, 'Database intensive, causes bloat', 'default', NULL),
+  ('wp-statistics', 'banned', '{}', NULL, 'Database heavy, use GA instead', 'default', NULL),
+  ('revision-control', 'banned', '{}', NULL, 'Often misconfigured, causes issues', 'default', NULL),
+  ('w3-total-cache', 'banned', '{}', NULL, 'Conflicts with WPEngine caching', 'default', NULL),
+  ('wp-super-cache', 'banned', '{}', NULL, 'Conflicts with WPEngine caching', 'default', NULL),
+  ('wordfence', 'replaced_by', '{}', 'really-simple-security', 'Standardized on Really Simple Security', 'default', NULL),
+  ('wordpress-seo', 'replaced_by', '{yoast-seo}', 'seopress', 'Standardized on SEOPress', 'default', NULL),
+  ('all-in-one-seo-pack', 'replaced_by', '{}', 'seopress', 'Standardized on SEOPress', 'default', NULL),
+  ('seo-by-rank-math', 'replaced_by', '{}', 'seopress', 'Standardized on SEOPress', 'default', NULL);
@@ -0,0 +1,19 @@
+-- Accepted must-use plugin and drop-in hashes
+-- The last hash accepted for each file on a site, written when someone accepts
+-- a system_plugin_modified or unexpected_system_plugin issue. The plugins check
+-- flags any other hash until it is accepted in turn. Hashes accepted for files
+-- the host installs also vouch for the same file on the host's other sites.
+
+CREATE TABLE public.system_plugin_hashes (
+  site_id uuid NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  file text NOT NULL,
+  sha256 text NOT NULL,
+  issue_id uuid REFERENCES public.issues(id) ON DELETE SET NULL,
+  accepted_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (site_id, file)
+);
+
+CREATE INDEX idx_system_plugin_hashes_file ON public.system_plugin_hashes(file);
+
+COMMENT ON COLUMN public.system_plugin_hashes.file IS 'Relative to wp-content, e.g. mu-plugins/mu-plugin.php';
+COMMENT ON COLUMN public.system_plugin_hashes.issue_id IS 'Issue whose acceptance recorded the hash';
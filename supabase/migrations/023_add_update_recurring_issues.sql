@@ -0,0 +1,33 @@
+-- Batched issue updates
+-- Every audit refreshes the issues it reports again. Each one gets its own
+-- details and occurrence count, so syncIssues sends them all to this
+-- function as one JSON array instead of making one request per issue. An
+-- element holds the issue's id, the columns to set and whether it regressed.
+
+CREATE OR REPLACE FUNCTION public.update_recurring_issues(p_issues jsonb)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.issues AS i
+  SET
+    audit_id = u.audit_id,
+    category = u.category,
+    severity = u.severity,
+    title = u.title,
+    description = u.description,
+    recommendation = u.recommendation,
+    auto_fixable = u.auto_fixable,
+    fix_action = u.fix_action,
+    fix_params = u.fix_params,
+    last_seen_at = u.last_seen_at,
+    occurrence_count = u.occurrence_count,
+    status = u.status,
+    snoozed_until = u.snoozed_until,
+    -- A regression reopens an issue the audit had resolved
+    is_regression = CASE WHEN (e.value ->> 'regressed')::boolean THEN true ELSE i.is_regression END,
+    resolved_at = CASE WHEN (e.value ->> 'regressed')::boolean THEN NULL ELSE i.resolved_at END,
+    resolved_by = CASE WHEN (e.value ->> 'regressed')::boolean THEN NULL ELSE i.resolved_by END
+  FROM jsonb_array_elements(p_issues) AS e(value)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::public.issues, e.value) AS u
+  WHERE i.id = u.id;
+END;
+$$ LANGUAGE plpgsql;
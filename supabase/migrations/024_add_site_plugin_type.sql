@@ -0,0 +1,13 @@
+-- Plugin type in the fleet plugin inventory
+-- A must-use plugin or drop-in can share its slug with a regular plugin on
+-- the same site, so the type is part of the key and each keeps its own row.
+
+ALTER TABLE public.site_plugins
+ADD COLUMN type text NOT NULL DEFAULT 'plugin' CHECK (type IN ('plugin', 'must-use', 'dropin'));
+
+UPDATE public.site_plugins SET type = status WHERE status IN ('must-use', 'dropin');
+
+ALTER TABLE public.site_plugins DROP CONSTRAINT site_plugins_pkey;
+ALTER TABLE public.site_plugins ADD PRIMARY KEY (site_id, type, slug);
+
+COMMENT ON COLUMN public.site_plugins.type IS 'plugin (active or inactive), must-use or dropin';